@@ -9,6 +9,8 @@ import { AuthPage } from "@/pages/auth-page";
 import ImageEditor from "@/pages/image-editor";
 import Gallery from "@/pages/gallery";
 import Account from "@/pages/account";
+import AuditLog from "@/pages/audit-log";
+import SharedConversation from "@/pages/shared-conversation";
 import NotFound from "@/pages/not-found";
 import { Sidebar } from "@/components/sidebar";
 
@@ -73,6 +75,7 @@ function Router() {
           )}
         </Route>
         <Route path="/auth" component={AuthPage} />
+        <Route path="/p/:token" component={SharedConversation} />
         <Route path="/gallery">
           <ProtectedRoute path="/gallery" component={() => (
             <AppLayout>
@@ -108,6 +111,20 @@ function Router() {
             </AppLayout>
           )} />
         </Route>
+        <Route path="/brand">
+          <ProtectedRoute path="/brand" component={() => (
+            <AppLayout>
+              <Account />
+            </AppLayout>
+          )} />
+        </Route>
+        <Route path="/admin/audit-log">
+          <ProtectedRoute path="/admin/audit-log" component={() => (
+            <AppLayout>
+              <AuditLog />
+            </AppLayout>
+          )} />
+        </Route>
         <Route path="/editor">
           <ProtectedRoute path="/editor" component={() => (
             <AppLayout>
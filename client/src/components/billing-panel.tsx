@@ -0,0 +1,253 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Coins, CreditCard, Download, FileText } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { BillingPlan, CreditLedgerEntry, Invoice } from '@shared/schema';
+
+interface BillingAccountSummary {
+  plan: BillingPlan | null;
+  balance: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  creditsPerUsd: number;
+}
+
+interface CheckoutResponse {
+  invoice: Invoice | null;
+  checkoutUrl: string | null;
+}
+
+function formatCredits(amount: string | number) {
+  const value = typeof amount === 'string' ? parseFloat(amount) : amount;
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function formatPrice(plan: BillingPlan) {
+  const price = `$${(plan.priceCents / 100).toFixed(plan.priceCents % 100 === 0 ? 0 : 2)}`;
+  return plan.interval === 'month' ? `${price}/month` : price;
+}
+
+const INVOICE_STATUS_STYLES: Record<string, string> = {
+  paid: 'border-green-500 text-green-400',
+  pending: 'border-[#ffd700] text-[#ffd700]',
+  failed: 'border-red-500 text-red-400',
+};
+
+// Credit balance, plans and credit packs, recent credit movements and invoices
+export function BillingPanel() {
+  const { toast } = useToast();
+
+  const { data: account } = useQuery<BillingAccountSummary>({
+    queryKey: ['/api/billing/account'],
+    staleTime: 0,
+  });
+
+  const { data: plans = [] } = useQuery<BillingPlan[]>({
+    queryKey: ['/api/billing/plans'],
+  });
+
+  const { data: credits = [] } = useQuery<CreditLedgerEntry[]>({
+    queryKey: ['/api/billing/credits'],
+    staleTime: 0,
+  });
+
+  const { data: invoices = [] } = useQuery<Invoice[]>({
+    queryKey: ['/api/billing/invoices'],
+    staleTime: 0,
+  });
+
+  const checkoutMutation = useMutation({
+    mutationFn: async (planKey: string) => {
+      const response = await apiRequest('POST', '/api/billing/checkout', { planKey });
+      return response.json() as Promise<CheckoutResponse>;
+    },
+    onSuccess: ({ invoice, checkoutUrl }) => {
+      if (checkoutUrl) {
+        window.location.href = checkoutUrl;
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['/api/billing/account'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/billing/credits'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/billing/invoices'] });
+
+      if (!invoice) {
+        toast({ title: 'Plan changed', description: 'The new plan applies from your next billing period.' });
+      } else if (invoice.status === 'paid') {
+        toast({ title: 'Payment received', description: `${formatCredits(invoice.credits)} credits were added to your balance.` });
+      } else if (invoice.status === 'failed') {
+        toast({ title: 'Payment failed', description: `Invoice ${invoice.number} was not paid.`, variant: 'destructive' });
+      } else {
+        toast({ title: 'Payment pending', description: `Invoice ${invoice.number} will be settled once the payment completes.` });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Checkout failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const currentPlanKey = account?.plan?.planKey;
+
+  return (
+    <>
+      <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CreditCard className="w-5 h-5" />
+            Subscription & Billing
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between p-4 bg-[#0f0f0f] rounded-lg border border-[#2a2a2a]">
+            <div>
+              <div className="font-semibold">{account?.plan?.name || 'No plan'}</div>
+              {account?.periodEnd && (
+                <div className="text-sm text-[#888888]">
+                  Next credits {new Date(account.periodEnd).toLocaleDateString()}
+                </div>
+              )}
+            </div>
+            <div className="text-right" data-testid="text-credit-balance">
+              <div className="text-2xl font-bold text-[#ffd700]">
+                {account ? formatCredits(account.balance) : '—'}
+              </div>
+              <div className="text-xs text-[#888888]">credits</div>
+            </div>
+          </div>
+
+          {account && (
+            <p className="text-xs text-[#888888]">
+              Each generation is charged at the model's cost: {account.creditsPerUsd} credits per $1.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {plans.map((plan) => {
+              const isCurrent = plan.interval === 'month' && plan.planKey === currentPlanKey;
+              return (
+                <Card key={plan.planKey} className="bg-[#0f0f0f] border-[#2a2a2a]" data-testid={`plan-${plan.planKey}`}>
+                  <CardContent className="p-4 flex flex-col h-full">
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="text-lg font-semibold">{plan.name}</div>
+                      {isCurrent && (
+                        <Badge variant="outline" className="border-[#ffd700] text-[#ffd700]">
+                          Current
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-2xl font-bold text-[#ffd700] mb-2">{formatPrice(plan)}</div>
+                    <div className="text-sm text-[#888888] flex-1">{plan.description}</div>
+                    <Button
+                      onClick={() => checkoutMutation.mutate(plan.planKey)}
+                      disabled={isCurrent || checkoutMutation.isPending}
+                      className="w-full mt-4 bg-[#ffd700] hover:bg-[#ffd700]/90 text-black"
+                      data-testid={`button-checkout-${plan.planKey}`}
+                    >
+                      {plan.interval === 'month' ? (isCurrent ? 'Current Plan' : `Switch to ${plan.name}`) : 'Buy Credits'}
+                    </Button>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="w-5 h-5" />
+            Credit History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {credits.length === 0 ? (
+            <p className="text-sm text-[#888888]">No credit movements yet.</p>
+          ) : (
+            <div className="space-y-1 max-h-72 overflow-y-auto">
+              {credits.map((entry) => {
+                const amount = parseFloat(entry.amount);
+                return (
+                  <div key={entry.id} className="flex items-center justify-between text-sm py-1 border-b border-[#2a2a2a] last:border-0">
+                    <div className="min-w-0">
+                      <div className="truncate">{entry.description}</div>
+                      <div className="text-xs text-[#888888]">
+                        {new Date(entry.createdAt).toLocaleString()} · {entry.kind}
+                      </div>
+                    </div>
+                    <span className={amount < 0 ? 'text-red-400' : 'text-green-400'}>
+                      {amount > 0 ? '+' : ''}{formatCredits(amount)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <FileText className="w-5 h-5" />
+              Invoices
+            </span>
+            {invoices.length > 0 && (
+              <Button
+                asChild
+                size="sm"
+                variant="outline"
+                className="border-[#3a3a3a] text-[#e0e0e0] hover:bg-[#2a2a2a]"
+                data-testid="button-export-invoices"
+              >
+                <a href="/api/billing/invoices/export.csv" download>
+                  <Download className="w-4 h-4 mr-1" />
+                  CSV
+                </a>
+              </Button>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {invoices.length === 0 ? (
+            <p className="text-sm text-[#888888]">No invoices yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {invoices.map((invoice) => (
+                <div
+                  key={invoice.id}
+                  className="flex items-center justify-between p-3 bg-[#0f0f0f] rounded-lg border border-[#2a2a2a]"
+                  data-testid={`invoice-${invoice.number}`}
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium">{invoice.number}</div>
+                    <div className="text-xs text-[#888888] truncate">
+                      {new Date(invoice.createdAt).toLocaleDateString()} · {invoice.description}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm">
+                      ${(invoice.amountCents / 100).toFixed(2)} {invoice.currency.toUpperCase()}
+                    </span>
+                    <Badge variant="outline" className={INVOICE_STATUS_STYLES[invoice.status] || ''}>
+                      {invoice.status}
+                    </Badge>
+                    <Button asChild size="sm" variant="ghost" className="hover:bg-[#2a2a2a]">
+                      <a href={`/api/billing/invoices/${invoice.id}/pdf`} download title="Download PDF">
+                        <Download className="w-4 h-4" />
+                      </a>
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,366 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Palette, Plus, Trash2, Upload, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { BrandKit, BrandKitRequest, WatermarkPosition, WorkspaceSummary } from '@shared/schema';
+
+interface WorkspacesResponse {
+  workspaces: WorkspaceSummary[];
+  currentWorkspaceId: string;
+}
+
+const POSITION_LABELS: Record<WatermarkPosition, string> = {
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right',
+  center: 'Centre',
+};
+
+const EMPTY_KIT: BrandKitRequest = {
+  name: '',
+  palette: ['#ffd700'],
+  fonts: [],
+  toneKeywords: [],
+  watermarkPosition: 'bottom-right',
+};
+
+function splitList(value: string): string[] {
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+function BrandKitForm({ kit, onDone }: { kit: BrandKit | null; onDone: () => void }) {
+  const { toast } = useToast();
+  const initial = kit
+    ? { name: kit.name, palette: kit.palette, fonts: kit.fonts, toneKeywords: kit.toneKeywords, watermarkPosition: kit.watermarkPosition as WatermarkPosition }
+    : EMPTY_KIT;
+  const [form, setForm] = useState<BrandKitRequest>(initial);
+  const [fonts, setFonts] = useState(initial.fonts.join(', '));
+  const [toneKeywords, setToneKeywords] = useState(initial.toneKeywords.join(', '));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { ...form, fonts: splitList(fonts), toneKeywords: splitList(toneKeywords) };
+      const response = kit
+        ? await apiRequest('PUT', `/api/brand-kits/${kit.id}`, body)
+        : await apiRequest('POST', '/api/brand-kits', body);
+      return response.json() as Promise<BrandKit>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/brand-kits'] });
+      toast({ title: kit ? 'Brand kit updated' : 'Brand kit created' });
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to save brand kit', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const setColor = (index: number, color: string) => {
+    setForm((current) => ({ ...current, palette: current.palette.map((item, i) => (i === index ? color : item)) }));
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-[#2a2a2a] p-4">
+      <div>
+        <Label className="text-xs text-[#888888]">Name</Label>
+        <Input
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="e.g. Spring campaign"
+          className="mt-1 bg-[#0f0f0f] border-[#2a2a2a]"
+          data-testid="input-brand-kit-name"
+        />
+      </div>
+
+      <div>
+        <Label className="text-xs text-[#888888]">Colours (main colour first)</Label>
+        <div className="mt-1 flex flex-wrap items-center gap-2">
+          {form.palette.map((color, index) => (
+            <div key={index} className="flex items-center gap-1 rounded border border-[#2a2a2a] pr-1">
+              <input
+                type="color"
+                value={color}
+                onChange={(e) => setColor(index, e.target.value)}
+                className="w-8 h-8 bg-transparent cursor-pointer"
+                data-testid={`input-brand-color-${index}`}
+              />
+              <span className="text-xs font-mono text-[#e0e0e0]">{color.toUpperCase()}</span>
+              <button
+                type="button"
+                onClick={() => setForm({ ...form, palette: form.palette.filter((_, i) => i !== index) })}
+                className="text-[#888888] hover:text-red-400"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          {form.palette.length < 12 && (
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setForm({ ...form, palette: [...form.palette, '#ffffff'] })}
+              className="h-8 border-[#3a3a3a] text-[#e0e0e0] hover:bg-[#2a2a2a]"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Colour
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-xs text-[#888888]">Fonts (comma-separated, heading font first)</Label>
+          <Input
+            value={fonts}
+            onChange={(e) => setFonts(e.target.value)}
+            placeholder="Montserrat, Open Sans"
+            className="mt-1 bg-[#0f0f0f] border-[#2a2a2a]"
+            data-testid="input-brand-kit-fonts"
+          />
+        </div>
+        <div>
+          <Label className="text-xs text-[#888888]">Tone keywords (comma-separated)</Label>
+          <Input
+            value={toneKeywords}
+            onChange={(e) => setToneKeywords(e.target.value)}
+            placeholder="minimal, premium, warm"
+            className="mt-1 bg-[#0f0f0f] border-[#2a2a2a]"
+            data-testid="input-brand-kit-tone"
+          />
+        </div>
+      </div>
+
+      <div className="w-1/2 pr-1.5">
+        <Label className="text-xs text-[#888888]">Default watermark position</Label>
+        <Select
+          value={form.watermarkPosition}
+          onValueChange={(value) => setForm({ ...form, watermarkPosition: value as WatermarkPosition })}
+        >
+          <SelectTrigger className="mt-1 bg-[#0f0f0f] border-[#2a2a2a]" data-testid="select-brand-watermark-position">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(POSITION_LABELS) as WatermarkPosition[]).map((position) => (
+              <SelectItem key={position} value={position}>{POSITION_LABELS[position]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={onDone} className="text-[#e0e0e0] hover:bg-[#2a2a2a]">
+          Cancel
+        </Button>
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending || !form.name.trim()}
+          className="bg-[#ffd700] text-black hover:bg-[#ffd700]/90"
+          data-testid="button-save-brand-kit"
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function BrandLogos({ kit, canManage }: { kit: BrandKit; canManage: boolean }) {
+  const { toast } = useToast();
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('logo', file);
+      const response = await fetch(`/api/brand-kits/${kit.id}/logos`, { method: 'POST', body: formData });
+      if (!response.ok) {
+        const { message } = await response.json().catch(() => ({ message: response.statusText }));
+        throw new Error(message);
+      }
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/brand-kits'] }),
+    onError: (error: Error) => {
+      toast({ title: 'Logo upload failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (logoId: string) => {
+      await apiRequest('DELETE', `/api/brand-kits/${kit.id}/logos/${logoId}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/brand-kits'] }),
+    onError: (error: Error) => {
+      toast({ title: 'Failed to remove logo', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {kit.logoAssets.map((logo) => (
+        <div key={logo.id} className="relative w-16 h-16 rounded border border-[#2a2a2a] bg-[#0f0f0f] p-1" title={logo.name}>
+          <img src={logo.objectPath} alt={logo.name} className="w-full h-full object-contain" />
+          {canManage && (
+            <button
+              type="button"
+              onClick={() => removeMutation.mutate(logo.id)}
+              className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-[#2a2a2a] text-[#888888] hover:text-red-400 flex items-center justify-center"
+              data-testid={`button-remove-logo-${logo.id}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+      {canManage && (
+        <label className="w-16 h-16 rounded border border-dashed border-[#3a3a3a] flex flex-col items-center justify-center text-[#888888] hover:text-white cursor-pointer text-[10px]">
+          <Upload className="w-4 h-4 mb-1" />
+          {uploadMutation.isPending ? 'Uploading' : 'Logo'}
+          <input
+            type="file"
+            accept="image/png,image/jpeg,image/webp"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) uploadMutation.mutate(file);
+              e.target.value = '';
+            }}
+            data-testid={`input-upload-logo-${kit.id}`}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
+
+// Brand kits of the current workspace. Members see them; workspace admins edit them.
+export function BrandKitPanel() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<BrandKit | 'new' | null>(null);
+
+  const { data: kits = [], isLoading } = useQuery<BrandKit[]>({
+    queryKey: ['/api/brand-kits'],
+  });
+  const { data: workspaceData } = useQuery<WorkspacesResponse>({
+    queryKey: ['/api/workspaces'],
+  });
+  const currentWorkspace = workspaceData?.workspaces.find((workspace) => workspace.id === workspaceData.currentWorkspaceId);
+  const canManage = !!currentWorkspace?.canManage;
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/brand-kits/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/brand-kits'] });
+      toast({ title: 'Brand kit deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to delete brand kit', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Palette className="w-5 h-5" />
+          Brand Kits{currentWorkspace ? ` · ${currentWorkspace.name}` : ''}
+        </CardTitle>
+        {canManage && editing === null && (
+          <Button
+            size="sm"
+            onClick={() => setEditing('new')}
+            className="bg-[#ffd700] text-black hover:bg-[#ffd700]/90"
+            data-testid="button-new-brand-kit"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            New kit
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-[#888888]">
+          Pick a brand kit when processing images to add its colours, fonts and tone to the prompt. The editor's text
+          tools offer its colours, fonts and logos.
+        </p>
+
+        {editing === 'new' && <BrandKitForm kit={null} onDone={() => setEditing(null)} />}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#ffd700]"></div>
+          </div>
+        ) : kits.length === 0 && editing !== 'new' ? (
+          <p className="text-sm text-[#666666] py-4 text-center">
+            {canManage ? 'No brand kits yet.' : 'No brand kits yet. Workspace admins can create them.'}
+          </p>
+        ) : (
+          kits.map((kit) =>
+            editing !== null && editing !== 'new' && editing.id === kit.id ? (
+              <BrandKitForm key={kit.id} kit={kit} onDone={() => setEditing(null)} />
+            ) : (
+              <div key={kit.id} className="rounded-lg border border-[#2a2a2a] p-4 space-y-3" data-testid={`brand-kit-${kit.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <h3 className="font-medium truncate">{kit.name}</h3>
+                    <Badge variant="outline" className="border-[#3a3a3a] text-[#888888]">
+                      Watermark: {POSITION_LABELS[kit.watermarkPosition as WatermarkPosition] || kit.watermarkPosition}
+                    </Badge>
+                  </div>
+                  {canManage && (
+                    <div className="flex gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setEditing(kit)}
+                        className="text-[#e0e0e0] hover:bg-[#2a2a2a]"
+                        data-testid={`button-edit-brand-kit-${kit.id}`}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(kit.id)}
+                        disabled={deleteMutation.isPending}
+                        className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                        data-testid={`button-delete-brand-kit-${kit.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {kit.palette.length > 0 && (
+                  <div className="flex gap-1">
+                    {kit.palette.map((color, index) => (
+                      <div key={index} className="w-8 h-8 rounded border border-[#3a3a3a]" style={{ backgroundColor: color }} title={color} />
+                    ))}
+                  </div>
+                )}
+                {(kit.fonts.length > 0 || kit.toneKeywords.length > 0) && (
+                  <div className="text-xs text-[#888888] space-y-1">
+                    {kit.fonts.length > 0 && <p>Fonts: <span className="text-[#e0e0e0]">{kit.fonts.join(', ')}</span></p>}
+                    {kit.toneKeywords.length > 0 && <p>Tone: <span className="text-[#e0e0e0]">{kit.toneKeywords.join(', ')}</span></p>}
+                  </div>
+                )}
+                <BrandLogos kit={kit} canManage={canManage} />
+              </div>
+            )
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,16 +1,21 @@
 import { useState, useRef, useEffect } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { Send, Bot, User, ImageIcon } from 'lucide-react';
+import { Send, Bot, User, ImageIcon, X, RotateCcw, RefreshCw, Share2, Palette } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
-import type { Message, Conversation, PromptTemplate, ApplicationFunction } from '@shared/schema';
+import { useConversationEvents } from '@/hooks/use-conversation-events';
+import type { Message, Conversation, PromptTemplate, ApplicationFunction, BrandKit } from '@shared/schema';
 import { UploadedImage } from '@/types';
 import { ImagePopup } from './image-popup';
+import { ModelAttempts } from './model-attempts';
 import { PromptTemplateButtons } from './prompt-template-buttons';
+import { ShareLinkDialog, type ShareSource } from './share-link-dialog';
 import MultipleImageUpload from './multiple-image-upload';
+import { imageVariantUrl, responsiveImage } from '@/lib/imageUrls';
 
 interface ChatInterfaceProps {
   conversationId: string | null;
@@ -42,6 +47,8 @@ export default function ChatInterface({
   const [popupImageUrl, setPopupImageUrl] = useState<string | null>(null);
   const [popupMessageId, setPopupMessageId] = useState<string | null>(null);
   const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [shareSource, setShareSource] = useState<ShareSource | null>(null);
+  const [selectedBrandKitId, setSelectedBrandKitId] = useState<string>('none');
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Fetch enabled application functions for default template lookup
@@ -51,17 +58,35 @@ export default function ChatInterface({
     staleTime: 5 * 60 * 1000, // Cache for 5 minutes
   });
 
+  // Brand kits of the current workspace; the selected one is added to the prompt
+  const { data: brandKits = [] } = useQuery<BrandKit[]>({
+    queryKey: ['/api/brand-kits'],
+  });
+  const brandKitId = brandKits.some((kit) => kit.id === selectedBrandKitId) ? selectedBrandKitId : undefined;
+
   // Fetch messages for current conversation
   const { data: messages = [], isLoading: messagesLoading } = useQuery<Message[]>({
     queryKey: ['/api/conversations', conversationId, 'messages'],
     enabled: !!conversationId,
     staleTime: 0, // Always fetch fresh data
-    refetchInterval: (query) => {
-      // Keep polling if any message is still processing
-      const data = query.state.data as Message[] | undefined;
-      const hasProcessing = Array.isArray(data) && data.some(msg => msg.processingStatus === 'processing');
-      return hasProcessing ? 2000 : false;
-    },
+  });
+
+  // Job progress is pushed over server-sent events; hand finished results to the preview
+  useConversationEvents(conversationId, (event) => {
+    if (event.status !== 'completed' || !event.job) return;
+
+    const job = event.job;
+    if (event.jobType === 'video') {
+      if (job.processedVideoUrl && onVideoProcessed) {
+        onVideoProcessed(job.originalImageUrl, job.processedVideoUrl);
+      }
+    } else if (event.jobType === 'multi-image-generate') {
+      if (job.outputImageUrl) {
+        onImageProcessed(job.inputImages?.[0], job.outputImageUrl);
+      }
+    } else if (job.processedImageUrl) {
+      onImageProcessed(job.originalImageUrl, job.processedImageUrl);
+    }
   });
 
   // Create conversation mutation
@@ -113,59 +138,26 @@ export default function ChatInterface({
 
   // Process image mutation
   const processImageMutation = useMutation({
-    mutationFn: async ({ conversationId, imageUrl, prompt }: { 
+    mutationFn: async ({ conversationId, imageUrl, prompt, templateId }: { 
       conversationId: string; 
       imageUrl?: string; 
       prompt: string; 
+      templateId?: string;
     }) => {
       const response = await apiRequest('POST', '/api/process-image', {
         conversationId,
         imageUrl,
         prompt,
+        functionKey: selectedFunction,
+        templateId,
+        brandKitId,
       });
       return response.json();
     },
-    onSuccess: (result) => {
+    onSuccess: () => {
+      // Progress and the final result arrive through the conversation event stream
       queryClient.invalidateQueries({ queryKey: ['/api/conversations', conversationId, 'messages'] });
-      
-      // Start optimized polling for processing job completion
-      let pollCount = 0;
-      const pollJob = () => {
-        // Bypass QueryClient cache and fetch directly to avoid stale data
-        fetch(`/api/processing-jobs/${result.aiMessage.id}`, {
-          credentials: 'include'
-        }).then(res => res.json()).then((job: any) => {
-          console.log('Polling job:', result.aiMessage.id, 'Status:', job?.status);
-          console.log('Full job data:', job);
-          if (job.status === 'completed') {
-            if (job.processedImageUrl) {
-              onImageProcessed(job.originalImageUrl, job.processedImageUrl);
-            }
-            // Force refresh messages to show updated AI response
-            queryClient.invalidateQueries({ 
-              queryKey: ['/api/conversations', conversationId, 'messages']
-            });
-          } else if (job.status === 'failed') {
-            console.error('Job failed:', job.error);
-            // Refresh messages to show failure status
-            queryClient.invalidateQueries({ 
-              queryKey: ['/api/conversations', conversationId, 'messages']
-            });
-          } else if (job.status === 'processing' && pollCount < 60) {
-            pollCount++;
-            setTimeout(pollJob, 2000); // Poll every 2 seconds
-          }
-        }).catch(err => {
-          console.error('Polling error:', err);
-          if (pollCount < 60) {
-            pollCount++;
-            setTimeout(pollJob, 2000);
-          }
-        });
-      };
-      
-      // Start polling after a short delay
-      setTimeout(pollJob, 1000);
+      queryClient.invalidateQueries({ queryKey: ['/api/quota'] });
     },
     onError: (error: Error) => {
       toast({
@@ -178,59 +170,25 @@ export default function ChatInterface({
 
   // Process video mutation
   const processVideoMutation = useMutation({
-    mutationFn: async ({ conversationId, imageUrl, prompt }: { 
+    mutationFn: async ({ conversationId, imageUrl, prompt, templateId }: { 
       conversationId: string; 
       imageUrl?: string; 
       prompt: string; 
+      templateId?: string;
     }) => {
       const response = await apiRequest('POST', '/api/process-video', {
         conversationId,
         imageUrl,
         prompt,
+        functionKey: selectedFunction,
+        templateId,
       });
       return response.json();
     },
-    onSuccess: (result) => {
+    onSuccess: () => {
+      // Progress and the final result arrive through the conversation event stream
       queryClient.invalidateQueries({ queryKey: ['/api/conversations', conversationId, 'messages'] });
-      
-      // Start optimized polling for video processing job completion
-      let pollCount = 0;
-      const pollJob = () => {
-        // Bypass QueryClient cache and fetch directly to avoid stale data
-        fetch(`/api/video-processing-jobs/${result.aiMessage.id}`, {
-          credentials: 'include'
-        }).then(res => res.json()).then((job: any) => {
-          console.log('Polling video job:', result.aiMessage.id, 'Status:', job?.status);
-          console.log('Full video job data:', job);
-          if (job.status === 'completed') {
-            if (job.processedVideoUrl && onVideoProcessed) {
-              onVideoProcessed(job.originalImageUrl, job.processedVideoUrl);
-            }
-            // Force refresh messages to show updated AI response
-            queryClient.invalidateQueries({ 
-              queryKey: ['/api/conversations', conversationId, 'messages']
-            });
-          } else if (job.status === 'failed') {
-            console.error('Video job failed:', job.error);
-            // Refresh messages to show failure status
-            queryClient.invalidateQueries({ 
-              queryKey: ['/api/conversations', conversationId, 'messages']
-            });
-          } else if (job.status === 'processing' && pollCount < 60) {
-            pollCount++;
-            setTimeout(pollJob, 2000); // Poll every 2 seconds
-          }
-        }).catch(err => {
-          console.error('Video polling error:', err);
-          if (pollCount < 60) {
-            pollCount++;
-            setTimeout(pollJob, 2000);
-          }
-        });
-      };
-      
-      // Start polling after a short delay
-      setTimeout(pollJob, 1000);
+      queryClient.invalidateQueries({ queryKey: ['/api/quota'] });
     },
     onError: (error: Error) => {
       toast({
@@ -241,6 +199,44 @@ export default function ChatInterface({
     },
   });
 
+  // Cancel a queued or in-progress job
+  const cancelJobMutation = useMutation({
+    mutationFn: async (messageId: string) => {
+      const response = await apiRequest('POST', `/api/messages/${messageId}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations', conversationId, 'messages'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Cancel failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Re-run a failed or cancelled job with its original inputs; regenerate also
+  // re-runs a completed job without reusing a cached result
+  const retryJobMutation = useMutation({
+    mutationFn: async ({ messageId, model, regenerate }: { messageId: string; model?: string; regenerate?: boolean }) => {
+      const response = await apiRequest('POST', `/api/messages/${messageId}/retry`, { model, regenerate });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations', conversationId, 'messages'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/quota'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Retry failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Upload multiple images mutation
   const uploadMultipleImagesMutation = useMutation({
     mutationFn: async (files: File[]) => {
@@ -282,64 +278,26 @@ export default function ChatInterface({
 
   // Process multiple images mutation
   const processMultipleImagesMutation = useMutation({
-    mutationFn: async ({ conversationId, imageUrls, prompt }: { 
+    mutationFn: async ({ conversationId, imageUrls, prompt, templateId }: { 
       conversationId: string; 
       imageUrls: string[]; 
       prompt: string; 
+      templateId?: string;
     }) => {
       const response = await apiRequest('POST', '/api/process-multiple-images', {
         conversationId,
         imageUrls,
         prompt,
+        functionKey: selectedFunction,
+        templateId,
+        brandKitId,
       });
       return response.json();
     },
-    onSuccess: (result) => {
+    onSuccess: () => {
+      // Progress and the final result arrive through the conversation event stream
       queryClient.invalidateQueries({ queryKey: ['/api/conversations', conversationId, 'messages'] });
-      
-      // Start optimized polling for processing job completion
-      let pollCount = 0;
-      const pollJob = () => {
-        // Bypass QueryClient cache and fetch directly to avoid stale data
-        fetch(`/api/processing-jobs/${result.aiMessage.id}`, {
-          credentials: 'include'
-        }).then(res => res.json()).then((job: any) => {
-          console.log('Polling multiple images job:', result.aiMessage.id, 'Status:', job?.status);
-          console.log('Full multiple images job data:', job);
-          if (job.status === 'completed') {
-            if (job.processedImageUrl) {
-              // Get the original image URLs from the job or use the first uploaded image
-              // Note: We should store original URLs in the job for proper tracking
-              const originalUrl = uploadedImages.length > 0 
-                ? uploadedImages[0].imageUrl 
-                : job.originalImageUrl || '/placeholder-combined.jpg'; // Fallback to stored or placeholder URL
-              onImageProcessed(originalUrl, job.processedImageUrl);
-            }
-            // Force refresh messages to show updated AI response
-            queryClient.invalidateQueries({ 
-              queryKey: ['/api/conversations', conversationId, 'messages']
-            });
-          } else if (job.status === 'failed') {
-            console.error('Multiple images job failed:', job.error);
-            // Refresh messages to show failure status
-            queryClient.invalidateQueries({ 
-              queryKey: ['/api/conversations', conversationId, 'messages']
-            });
-          } else if (job.status === 'processing' && pollCount < 60) {
-            pollCount++;
-            setTimeout(pollJob, 2000); // Poll every 2 seconds
-          }
-        }).catch(err => {
-          console.error('Multiple images polling error:', err);
-          if (pollCount < 60) {
-            pollCount++;
-            setTimeout(pollJob, 2000);
-          }
-        });
-      };
-      
-      // Start polling after a short delay
-      setTimeout(pollJob, 1000);
+      queryClient.invalidateQueries({ queryKey: ['/api/quota'] });
     },
     onError: (error: Error) => {
       toast({
@@ -412,6 +370,8 @@ export default function ChatInterface({
   const handleSendMessage = async () => {
     // Determine message content from various sources
     let messageContent = input.trim();
+    // Template whose content became the prompt, recorded for usage analytics
+    let templateId: string | undefined;
     
     // If user selected a template but didn't provide custom input, use template content
     if (selectedTemplateId && !messageContent) {
@@ -421,6 +381,7 @@ export default function ChatInterface({
         const selectedTemplate = templates.find((t: PromptTemplate) => t.id === selectedTemplateId);
         if (selectedTemplate?.template) {
           messageContent = selectedTemplate.template;
+          templateId = selectedTemplate.id;
         }
       } catch (error) {
         console.error('Failed to fetch template:', error);
@@ -471,6 +432,7 @@ export default function ChatInterface({
           conversationId: currentConversationId,
           imageUrl: uploadedImage?.imageUrl, // Optional - backend will use conversation context if not provided
           prompt: messageContent,
+          templateId,
         });
       } else if (selectedFunction === 'multiple-images-llm') {
         // Validate that we have multiple images
@@ -489,6 +451,7 @@ export default function ChatInterface({
           conversationId: currentConversationId,
           imageUrls,
           prompt: messageContent,
+          templateId,
         });
       } else {
         // Default to single image processing
@@ -496,6 +459,7 @@ export default function ChatInterface({
           conversationId: currentConversationId,
           imageUrl: uploadedImage?.imageUrl, // Optional - backend will use conversation context if not provided
           prompt: messageContent,
+          templateId,
         });
       }
       
@@ -615,8 +579,9 @@ export default function ChatInterface({
                     <div className="mb-3">
                       <div className="relative group">
                         <img 
-                          src={message.imageUrl} 
+                          {...responsiveImage(message.imageUrl, [384, 768], message.role === 'user' ? '320px' : '384px')}
                           alt={message.role === 'user' ? 'Uploaded image' : 'Generated image'} 
+                          loading="lazy"
                           className={`rounded-xl transition-transform hover:scale-[1.02] shadow-lg border border-[#3a3a3a] ${
                             message.role === 'user' ? 'w-full max-w-xs mb-2' : 'w-full max-w-sm mb-3'
                           }`}
@@ -715,6 +680,63 @@ export default function ChatInterface({
                   {message.role === 'assistant' && (
                     <div className={`${message.imageUrl ? '' : 'p-4'}`}>
                       <p className="text-sm whitespace-pre-wrap leading-relaxed text-[#e0e0e0]">{message.content}</p>
+                      {(message.processingStatus === 'completed' || message.processingStatus === 'error') && (
+                        <ModelAttempts messageId={message.id} mediaType={message.mediaType} />
+                      )}
+                      {message.processingStatus === 'processing' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => cancelJobMutation.mutate(message.id)}
+                          disabled={cancelJobMutation.isPending && cancelJobMutation.variables === message.id}
+                          className="mt-3 border border-[#666666] text-[#e0e0e0] hover:bg-[#3a3a3a] px-3 py-1 text-xs rounded-full"
+                          data-testid={`button-cancel-job-${message.id}`}
+                        >
+                          <X className="w-3 h-3 mr-1" />
+                          Cancel
+                        </Button>
+                      )}
+                      {(message.processingStatus === 'error' || message.processingStatus === 'cancelled') && (
+                        <Button
+                          size="sm"
+                          onClick={() => retryJobMutation.mutate({ messageId: message.id })}
+                          disabled={retryJobMutation.isPending && retryJobMutation.variables?.messageId === message.id}
+                          className="mt-3 border border-[#ffd700] bg-[#ffd700]/10 hover:bg-[#ffd700]/20 text-[#ffd700] px-3 py-1 text-xs font-medium rounded-full"
+                          data-testid={`button-retry-job-${message.id}`}
+                        >
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          Retry
+                        </Button>
+                      )}
+                      {message.processingStatus === 'completed' && message.imageUrl && message.mediaType !== 'video' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => retryJobMutation.mutate({ messageId: message.id, regenerate: true })}
+                          disabled={retryJobMutation.isPending && retryJobMutation.variables?.messageId === message.id}
+                          className="mt-3 border border-[#666666] text-[#e0e0e0] hover:bg-[#3a3a3a] px-3 py-1 text-xs rounded-full"
+                          data-testid={`button-regenerate-job-${message.id}`}
+                        >
+                          <RefreshCw className="w-3 h-3 mr-1" />
+                          Regenerate
+                        </Button>
+                      )}
+                      {message.processingStatus === 'completed' && (message.imageUrl || message.videoUrl) && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setShareSource({
+                            sourceType: 'message',
+                            sourceId: message.id,
+                            title: message.videoUrl ? 'Generated video' : 'Generated image',
+                          })}
+                          className="mt-3 ml-2 border border-[#666666] text-[#e0e0e0] hover:bg-[#3a3a3a] px-3 py-1 text-xs rounded-full"
+                          data-testid={`button-share-message-${message.id}`}
+                        >
+                          <Share2 className="w-3 h-3 mr-1" />
+                          Share
+                        </Button>
+                      )}
                     </div>
                   )}
                 </div>
@@ -739,7 +761,7 @@ export default function ChatInterface({
           <div className="mb-4 p-4 bg-[#2a2a2a] rounded-xl border border-[#3a3a3a] flex items-center gap-4 shadow-sm">
             <div className="relative">
               <img 
-                src={uploadedImage.imageUrl} 
+                src={imageVariantUrl(uploadedImage.imageUrl, { width: 96, height: 96, fit: 'cover' })} 
                 alt="Upload preview" 
                 className="w-12 h-12 rounded-lg object-cover border border-[#3a3a3a]"
               />
@@ -786,7 +808,7 @@ export default function ChatInterface({
               {uploadedImages.map((image, index) => (
                 <div key={index} className="relative group">
                   <img 
-                    src={image.imageUrl} 
+                    src={imageVariantUrl(image.imageUrl, { width: 128, height: 128, fit: 'cover' })} 
                     alt={`Upload preview ${index + 1}`} 
                     className="w-16 h-16 rounded-lg object-cover border border-[#3a3a3a]"
                   />
@@ -827,6 +849,31 @@ export default function ChatInterface({
           </div>
         )}
 
+        {/* Brand kit added to image prompts */}
+        {brandKits.length > 0 && selectedFunction !== 'image-to-video' && (
+          <div className="flex items-center gap-2 mb-2">
+            <Palette className="w-4 h-4 text-[#888888]" />
+            <Select value={brandKitId || 'none'} onValueChange={setSelectedBrandKitId}>
+              <SelectTrigger className="h-8 w-56 text-xs bg-[#1a1a1a] border-[#3a3a3a]" data-testid="select-brand-kit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none" className="text-xs">No brand kit</SelectItem>
+                {brandKits.map((kit) => (
+                  <SelectItem key={kit.id} value={kit.id} className="text-xs">{kit.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {brandKitId && (
+              <div className="flex gap-0.5">
+                {brandKits.find((kit) => kit.id === brandKitId)?.palette.slice(0, 6).map((color) => (
+                  <div key={color} className="w-3 h-3 rounded-sm border border-[#3a3a3a]" style={{ backgroundColor: color }} />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Message Input */}
         <div className="flex gap-3">
           <div className="flex-1 relative">
@@ -902,6 +949,8 @@ export default function ChatInterface({
           onSaveToLibrary={onSaveToLibrary}
         />
       )}
+
+      <ShareLinkDialog source={shareSource} onOpenChange={(open) => !open && setShareSource(null)} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Copy, Globe } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Conversation, ConversationShareStatus } from "@shared/schema";
+
+// Publishes a read-only snapshot of a conversation at a public URL. Later messages are
+// not shown until the snapshot is updated; unpublishing disables the URL.
+export function ConversationShareDialog({
+  conversation,
+  onOpenChange,
+}: {
+  conversation: Conversation | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const shareKey = `/api/conversations/${conversation?.id}/share`;
+
+  const { data: status } = useQuery<ConversationShareStatus>({
+    queryKey: [shareKey],
+    enabled: !!conversation,
+    staleTime: 0,
+  });
+  const publicUrl = status?.path ? `${window.location.origin}${status.path}` : null;
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", shareKey);
+      return response.json() as Promise<ConversationShareStatus>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData([shareKey], updated);
+      toast({ title: status?.published ? "Snapshot updated" : "Conversation published" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to publish", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const unpublishMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", shareKey);
+      return response.json() as Promise<ConversationShareStatus>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData([shareKey], updated);
+      toast({ title: "Conversation unpublished" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to unpublish", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const copyUrl = async () => {
+    if (!publicUrl) return;
+    await navigator.clipboard.writeText(publicUrl);
+    toast({ title: "Link copied" });
+  };
+
+  return (
+    <Dialog open={!!conversation} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#1a1a1a] border-[#2a2a2a] text-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="truncate">Publish "{conversation?.title}"</DialogTitle>
+        </DialogHeader>
+
+        {publicUrl ? (
+          <div className="space-y-2">
+            <Label className="text-xs text-[#888888]">Public link</Label>
+            <div className="flex gap-2">
+              <Input readOnly value={publicUrl} className="bg-[#0f0f0f] border-[#2a2a2a]" data-testid="input-conversation-share-url" />
+              <Button variant="outline" className="border-[#3a3a3a] text-[#e0e0e0] hover:bg-[#2a2a2a]" onClick={copyUrl}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-[#888888]">
+              Anyone with the link can view the snapshot taken{" "}
+              {status?.updatedAt ? new Date(status.updatedAt).toLocaleString() : ""}, without signing in.
+              Newer messages appear once you update it.
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-[#888888]">
+            Publishing creates a read-only snapshot of the prompts, replies and before/after images
+            so far. Anyone with its link can view it without signing in.
+          </p>
+        )}
+
+        <DialogFooter className="gap-2">
+          {status?.published && (
+            <Button
+              variant="ghost"
+              className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+              onClick={() => unpublishMutation.mutate()}
+              disabled={unpublishMutation.isPending}
+              data-testid="button-unpublish-conversation"
+            >
+              Unpublish
+            </Button>
+          )}
+          <Button
+            onClick={() => publishMutation.mutate()}
+            disabled={!status || publishMutation.isPending}
+            className="bg-[#ffd700] text-black hover:bg-[#ffd700]/90"
+            data-testid="button-publish-conversation"
+          >
+            <Globe className="w-4 h-4 mr-2" />
+            {publishMutation.isPending ? "Publishing..." : status?.published ? "Update snapshot" : "Publish"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,7 +14,12 @@ import {
   ImageIcon,
   Grid3X3,
   MoreHorizontal,
+  Share2,
+  Store,
 } from "lucide-react";
+import { ShareLinkDialog, type ShareSource } from "@/components/share-link-dialog";
+import { MarketplaceExportDialog } from "@/components/marketplace-export-dialog";
+import { responsiveImage } from "@/lib/imageUrls";
 
 interface SavedImage {
   id: string;
@@ -30,6 +35,8 @@ export function GalleryView() {
   const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedImage, setSelectedImage] = useState<SavedImage | null>(null);
+  const [shareSource, setShareSource] = useState<ShareSource | null>(null);
+  const [exportSource, setExportSource] = useState<ShareSource | null>(null);
   const { user, isAuthenticated } = useAuth();
   
   // Get user ID from authenticated user
@@ -40,7 +47,7 @@ export function GalleryView() {
     queryKey: ['/api/library', userId],
     queryFn: async () => {
       if (!isAuthenticated) return [];
-      const response = await apiRequest('GET', `/api/library/${userId}`);
+      const response = await apiRequest('GET', '/api/library');
       const data = await response.json();
       return Array.isArray(data) ? data : [];
     },
@@ -50,7 +57,7 @@ export function GalleryView() {
   // Delete image mutation
   const deleteImageMutation = useMutation({
     mutationFn: async (imageId: string) => {
-      const response = await apiRequest('DELETE', `/api/library/${imageId}?userId=${userId}`);
+      const response = await apiRequest('DELETE', `/api/library/${imageId}`);
       if (!response.ok) {
         throw new Error('Failed to delete image');
       }
@@ -179,8 +186,9 @@ export function GalleryView() {
                     <CardContent className="p-0">
                       <div className="aspect-square overflow-hidden rounded-t relative">
                         <img
-                          src={image.objectPath}
+                          {...responsiveImage(image.objectPath, [256, 512], "(min-width: 1024px) 25vw, (min-width: 768px) 33vw, 50vw")}
                           alt={image.title}
+                          loading="lazy"
                           className="w-full h-full object-cover transition-transform group-hover:scale-105"
                         />
                         <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors" />
@@ -199,6 +207,30 @@ export function GalleryView() {
                           >
                             <Download className="w-3 h-3" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="w-8 h-8 p-0 bg-black/50 hover:bg-black/70 text-white"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setShareSource({ sourceType: 'saved_image', sourceId: image.id, title: image.title });
+                            }}
+                            data-testid={`share-${image.id}`}
+                          >
+                            <Share2 className="w-3 h-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="w-8 h-8 p-0 bg-black/50 hover:bg-black/70 text-white"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setExportSource({ sourceType: 'saved_image', sourceId: image.id, title: image.title });
+                            }}
+                            data-testid={`export-${image.id}`}
+                          >
+                            <Store className="w-3 h-3" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -253,7 +285,7 @@ export function GalleryView() {
               {/* Full Image */}
               <div className="aspect-square overflow-hidden rounded-lg">
                 <img
-                  src={selectedImage.objectPath}
+                  {...responsiveImage(selectedImage.objectPath, [320, 640], "288px")}
                   alt={selectedImage.title}
                   className="w-full h-full object-cover"
                 />
@@ -304,6 +336,22 @@ export function GalleryView() {
                   <Download className="w-4 h-4 mr-2" />
                   Download
                 </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => setShareSource({ sourceType: 'saved_image', sourceId: selectedImage.id, title: selectedImage.title })}
+                  className="px-3 text-[#e0e0e0] hover:bg-[#2a2a2a]"
+                  data-testid="button-share-selected-image"
+                >
+                  <Share2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => setExportSource({ sourceType: 'saved_image', sourceId: selectedImage.id, title: selectedImage.title })}
+                  className="px-3 text-[#e0e0e0] hover:bg-[#2a2a2a]"
+                  data-testid="button-export-selected-image"
+                >
+                  <Store className="w-4 h-4" />
+                </Button>
                 <Button
                   variant="ghost"
                   onClick={() => handleDeleteImage(selectedImage.id)}
@@ -316,6 +364,9 @@ export function GalleryView() {
           </ScrollArea>
         </div>
       )}
+
+      <ShareLinkDialog source={shareSource} onOpenChange={(open) => !open && setShareSource(null)} />
+      <MarketplaceExportDialog source={exportSource} onOpenChange={(open) => !open && setExportSource(null)} />
     </div>
   );
 }
\ No newline at end of file
@@ -12,6 +12,7 @@ interface ImageComparisonProps {
   className?: string;
   prompt?: string;
   messageId?: string;
+  readOnly?: boolean; // Published conversations: no saving to a library
 }
 
 export default function ImageComparison({ 
@@ -19,7 +20,8 @@ export default function ImageComparison({
   processedImageUrl,
   className,
   prompt,
-  messageId
+  messageId,
+  readOnly = false
 }: ImageComparisonProps) {
   const [sliderPosition, setSliderPosition] = useState(50);
   const [isDragging, setIsDragging] = useState(false);
@@ -197,7 +199,7 @@ export default function ImageComparison({
             Download
           </Button>
           
-          {processedImageUrl && (
+          {processedImageUrl && !readOnly && (
             <Button
               onClick={handleSaveToLibrary}
               variant="outline"
@@ -1,4 +1,5 @@
 import { useState, useRef, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { 
   Download, 
   RotateCw, 
@@ -35,6 +36,7 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import type { BrandKit, WatermarkPosition } from '@shared/schema';
 
 interface ImageEditorPanelProps {
   imageUrl: string | null;
@@ -65,6 +67,30 @@ interface TextElement {
   visible: boolean;
 }
 
+// A brand logo drawn over the image; `scale` is its width as a share of the canvas
+interface LogoOverlay {
+  url: string;
+  position: WatermarkPosition;
+  scale: number;
+}
+
+const BASE_FONTS = ['Arial', 'Helvetica', 'Georgia', 'Times New Roman', 'Courier New', 'Verdana'];
+
+const WATERMARK_POSITIONS: { value: WatermarkPosition; label: string }[] = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+  { value: 'center', label: 'Centre' },
+];
+
+// Top-left corner of a w×h overlay placed at `position`, `margin` pixels from the edges
+function overlayOrigin(position: WatermarkPosition, canvasWidth: number, canvasHeight: number, w: number, h: number, margin: number) {
+  const x = position.endsWith('left') ? margin : position.endsWith('right') ? canvasWidth - w - margin : (canvasWidth - w) / 2;
+  const y = position.startsWith('top') ? margin : position.startsWith('bottom') ? canvasHeight - h - margin : (canvasHeight - h) / 2;
+  return { x, y };
+}
+
 export default function ImageEditorPanel({ imageUrl, onSaveToLibrary }: ImageEditorPanelProps) {
   const { toast } = useToast();
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -96,6 +122,14 @@ export default function ImageEditorPanel({ imageUrl, onSaveToLibrary }: ImageEdi
   const [textElements, setTextElements] = useState<TextElement[]>([]);
   const [selectedTextId, setSelectedTextId] = useState<string | null>(null);
   const [newText, setNewText] = useState('');
+
+  // Brand kit colours, fonts and logos offered by the text tools
+  const [brandKitId, setBrandKitId] = useState<string | null>(null);
+  const [logoOverlay, setLogoOverlay] = useState<LogoOverlay | null>(null);
+  const { data: brandKits = [] } = useQuery<BrandKit[]>({
+    queryKey: ['/api/brand-kits'],
+  });
+  const brandKit = brandKits.find(kit => kit.id === brandKitId) || null;
   
   // History for undo/redo
   const [history, setHistory] = useState<string[]>([]);
@@ -234,6 +268,19 @@ export default function ImageEditorPanel({ imageUrl, onSaveToLibrary }: ImageEdi
           ctx.fillText(textEl.text, textEl.x, textEl.y);
         }
       });
+
+      // Draw the brand logo last so it sits above text
+      if (logoOverlay) {
+        const logo = new Image();
+        logo.crossOrigin = 'anonymous';
+        logo.onload = () => {
+          const width = canvas.width * logoOverlay.scale;
+          const height = width * (logo.naturalHeight / logo.naturalWidth);
+          const { x, y } = overlayOrigin(logoOverlay.position, canvas.width, canvas.height, width, height, canvas.width * 0.03);
+          ctx.drawImage(logo, x, y, width, height);
+        };
+        logo.src = logoOverlay.url;
+      }
     };
     
     img.onerror = () => {
@@ -275,8 +322,8 @@ export default function ImageEditorPanel({ imageUrl, onSaveToLibrary }: ImageEdi
       x: canvasSize.width / 2,
       y: canvasSize.height / 2,
       fontSize: 24,
-      color: '#ffffff',
-      fontFamily: 'Arial',
+      color: brandKit?.palette[0] || '#ffffff',
+      fontFamily: brandKit?.fonts[0] || 'Arial',
       fontWeight: 'normal',
       visible: true
     };
@@ -351,7 +398,7 @@ export default function ImageEditorPanel({ imageUrl, onSaveToLibrary }: ImageEdi
     if (imageUrl) {
       applyFilters();
     }
-  }, [filters, rotation, flipH, flipV, textElements, imageUrl, canvasSize]);
+  }, [filters, rotation, flipH, flipV, textElements, logoOverlay, imageUrl, canvasSize]);
   
   // Reset filters and adjust canvas size when a new image is loaded
   useEffect(() => {
@@ -362,6 +409,7 @@ export default function ImageEditorPanel({ imageUrl, onSaveToLibrary }: ImageEdi
       setFlipH(false);
       setFlipV(false);
       setTextElements([]);
+      setLogoOverlay(null);
       
       // Load image to get natural dimensions and adjust canvas size
       const img = new Image();
@@ -809,6 +857,120 @@ export default function ImageEditorPanel({ imageUrl, onSaveToLibrary }: ImageEdi
 
             {/* Text Tab */}
             <TabsContent value="text" className="p-3 space-y-3">
+              {brandKits.length > 0 && (
+                <Card className="bg-[#2a2a2a] border-[#3a3a3a]">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm text-white">Brand</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <Select value={brandKitId || 'none'} onValueChange={(value) => setBrandKitId(value === 'none' ? null : value)}>
+                      <SelectTrigger className="h-8 text-xs bg-[#1a1a1a] border-[#3a3a3a]" data-testid="select-editor-brand-kit">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none" className="text-xs">No brand kit</SelectItem>
+                        {brandKits.map(kit => (
+                          <SelectItem key={kit.id} value={kit.id} className="text-xs">{kit.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {brandKit && (
+                      <>
+                        <p className="text-xs text-[#888888]">
+                          New text uses the main colour and first font; click a colour or font to apply it to the selected text.
+                        </p>
+                        {brandKit.palette.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {brandKit.palette.map(color => (
+                              <button
+                                key={color}
+                                type="button"
+                                title={color}
+                                onClick={() => selectedTextId && updateTextElement(selectedTextId, { color })}
+                                className="w-6 h-6 rounded border border-[#3a3a3a] hover:border-[#ffd700]"
+                                style={{ backgroundColor: color }}
+                                data-testid={`brand-color-${color}`}
+                              />
+                            ))}
+                          </div>
+                        )}
+                        {brandKit.fonts.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {brandKit.fonts.map(font => (
+                              <Button
+                                key={font}
+                                variant="outline"
+                                size="sm"
+                                onClick={() => selectedTextId && updateTextElement(selectedTextId, { fontFamily: font })}
+                                className="h-7 text-xs border-[#3a3a3a] text-[#e0e0e0] hover:bg-[#3a3a3a]"
+                                style={{ fontFamily: font }}
+                              >
+                                {font}
+                              </Button>
+                            ))}
+                          </div>
+                        )}
+                        {brandKit.logoAssets.length > 0 && (
+                          <div className="space-y-2">
+                            <Label className="text-xs text-[#e0e0e0]">Logo watermark</Label>
+                            <div className="flex flex-wrap gap-1">
+                              {brandKit.logoAssets.map(logo => (
+                                <button
+                                  key={logo.id}
+                                  type="button"
+                                  title={logo.name}
+                                  onClick={() => setLogoOverlay({ url: logo.objectPath, position: brandKit.watermarkPosition as WatermarkPosition, scale: 0.2 })}
+                                  className={`w-10 h-10 rounded border p-0.5 bg-[#1a1a1a] ${
+                                    logoOverlay?.url === logo.objectPath ? 'border-[#ffd700]' : 'border-[#3a3a3a]'
+                                  }`}
+                                >
+                                  <img src={logo.objectPath} alt={logo.name} className="w-full h-full object-contain" />
+                                </button>
+                              ))}
+                            </div>
+                            {logoOverlay && (
+                              <div className="space-y-2">
+                                <div className="flex gap-2">
+                                  <Select
+                                    value={logoOverlay.position}
+                                    onValueChange={(value) => setLogoOverlay({ ...logoOverlay, position: value as WatermarkPosition })}
+                                  >
+                                    <SelectTrigger className="h-8 text-xs bg-[#1a1a1a] border-[#3a3a3a]">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {WATERMARK_POSITIONS.map(position => (
+                                        <SelectItem key={position.value} value={position.value} className="text-xs">{position.label}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setLogoOverlay(null)}
+                                    className="h-8 text-xs text-red-400 hover:text-red-300"
+                                  >
+                                    Remove
+                                  </Button>
+                                </div>
+                                <Slider
+                                  value={[Math.round(logoOverlay.scale * 100)]}
+                                  onValueChange={(value) => setLogoOverlay({ ...logoOverlay, scale: value[0] / 100 })}
+                                  min={5}
+                                  max={60}
+                                  step={1}
+                                />
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               <Card className="bg-[#2a2a2a] border-[#3a3a3a]">
                 <CardHeader className="pb-3">
                   <CardTitle className="text-sm text-white">Add Text</CardTitle>
@@ -894,6 +1056,22 @@ export default function ImageEditorPanel({ imageUrl, onSaveToLibrary }: ImageEdi
                                 className="w-full h-8 bg-[#1a1a1a] border-[#3a3a3a]"
                               />
                             </div>
+                            <div>
+                              <Label className="text-xs text-[#e0e0e0]">Font</Label>
+                              <Select
+                                value={textEl.fontFamily}
+                                onValueChange={(value) => updateTextElement(textEl.id, { fontFamily: value })}
+                              >
+                                <SelectTrigger className="mt-1 h-8 text-xs bg-[#1a1a1a] border-[#3a3a3a]">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Array.from(new Set([...(brandKit?.fonts || []), ...BASE_FONTS, textEl.fontFamily])).map(font => (
+                                    <SelectItem key={font} value={font} className="text-xs" style={{ fontFamily: font }}>{font}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
                           </div>
                         )}
                       </div>
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Check, Download, Store, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { imageVariantUrl } from "@/lib/imageUrls";
+import type { ShareSource } from "@/components/share-link-dialog";
+import type { MarketplaceExportResult, MarketplacePresetKey, MarketplacePresetSummary } from "@shared/schema";
+
+function ExportResult({ result, presetName }: { result: MarketplaceExportResult; presetName: string }) {
+  return (
+    <div className="rounded-lg border border-[#2a2a2a] p-3 space-y-2" data-testid={`marketplace-export-${result.id}`}>
+      <div className="flex items-center gap-3">
+        <img
+          src={imageVariantUrl(result.objectPath, { width: 96 })}
+          alt=""
+          className="w-12 h-12 rounded object-contain bg-white shrink-0"
+        />
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium truncate">{presetName}</p>
+          <p className="text-xs text-[#888888]">
+            {result.width}×{result.height}px · {new Date(result.createdAt).toLocaleString()}
+          </p>
+        </div>
+        <Badge variant="outline" className={result.passed ? "border-green-500 text-green-400" : "border-red-500 text-red-400"}>
+          {result.passed ? "compliant" : "check rules"}
+        </Badge>
+        <a href={result.objectPath} download={`${result.preset}.jpg`}>
+          <Button size="sm" variant="ghost" className="h-8 w-8 p-0 text-[#e0e0e0] hover:bg-[#2a2a2a]">
+            <Download className="w-4 h-4" />
+          </Button>
+        </a>
+      </div>
+      <ul className="space-y-1">
+        {result.report.map((rule) => (
+          <li key={rule.rule} className="flex items-start gap-2 text-xs">
+            {rule.passed
+              ? <Check className="w-3 h-3 mt-0.5 text-green-400 shrink-0" />
+              : <X className="w-3 h-3 mt-0.5 text-red-400 shrink-0" />}
+            <span className="text-[#e0e0e0]">{rule.label}</span>
+            <span className="text-[#888888] ml-auto text-right">
+              {rule.actual}{rule.passed ? "" : ` (expected ${rule.expected})`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Renders marketplace variants of a saved image or job output and shows the compliance
+// report of each, with the source's earlier exports
+export function MarketplaceExportDialog({
+  source,
+  onOpenChange,
+}: {
+  source: ShareSource | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<MarketplacePresetKey[]>(["amazon"]);
+
+  const { data: presets = [] } = useQuery<MarketplacePresetSummary[]>({
+    queryKey: ["/api/marketplace-presets"],
+    enabled: !!source,
+  });
+  const exportsKey = `/api/marketplace-exports?sourceType=${source?.sourceType}&sourceId=${source?.sourceId}`;
+  const { data: exports = [] } = useQuery<MarketplaceExportResult[]>({
+    queryKey: [exportsKey],
+    enabled: !!source,
+    staleTime: 0,
+  });
+  const presetName = (key: string) => presets.find((preset) => preset.key === key)?.name || key;
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/marketplace-exports", {
+        sourceType: source!.sourceType,
+        sourceId: source!.sourceId,
+        presets: selected,
+      });
+      return response.json() as Promise<MarketplaceExportResult[]>;
+    },
+    onSuccess: (results) => {
+      queryClient.invalidateQueries({ queryKey: [exportsKey] });
+      const failing = results.filter((result) => !result.passed).length;
+      toast({
+        title: "Export finished",
+        description: failing ? `${failing} variant(s) have failing rules` : "All variants are compliant",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Export failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const togglePreset = (key: MarketplacePresetKey, checked: boolean) => {
+    setSelected((current) => checked ? [...current, key] : current.filter((item) => item !== key));
+  };
+
+  return (
+    <Dialog open={!!source} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#1a1a1a] border-[#2a2a2a] text-white max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="truncate">Export "{source?.title}" for marketplaces</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2">
+          {presets.map((preset) => (
+            <label
+              key={preset.key}
+              className="flex items-start gap-2 rounded-lg border border-[#2a2a2a] p-3 cursor-pointer hover:bg-[#2a2a2a]/50"
+            >
+              <Checkbox
+                checked={selected.includes(preset.key)}
+                onCheckedChange={(checked) => togglePreset(preset.key, checked === true)}
+                className="mt-0.5"
+                data-testid={`checkbox-marketplace-${preset.key}`}
+              />
+              <div className="min-w-0">
+                <p className="text-sm font-medium">{preset.name}</p>
+                <p className="text-xs text-[#888888]">{preset.description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        {exports.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-xs text-[#888888]">Exports of this image</Label>
+            <div className="max-h-[320px] overflow-y-auto space-y-2 pr-1">
+              {exports.map((result) => (
+                <ExportResult key={result.id} result={result} presetName={presetName(result.preset)} />
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending || selected.length === 0}
+            className="bg-[#ffd700] text-black hover:bg-[#ffd700]/90"
+            data-testid="button-create-marketplace-export"
+          >
+            <Store className="w-4 h-4 mr-2" />
+            {exportMutation.isPending ? "Exporting..." : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronDown, ChevronRight, CheckCircle2, XCircle, MinusCircle } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import type { JobAttempt } from '@shared/schema';
+
+interface ModelAttemptsProps {
+  messageId: string;
+  mediaType?: string | null;
+}
+
+// Failover history for an assistant message: every model tried, in order
+export function ModelAttempts({ messageId, mediaType }: ModelAttemptsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const jobEndpoint = mediaType === 'video' ? '/api/video-processing-jobs' : '/api/processing-jobs';
+
+  // Only fetched once the details are opened
+  const { data: job, isLoading } = useQuery<{ attempts?: JobAttempt[] }>({
+    queryKey: [jobEndpoint, messageId],
+    enabled: isOpen,
+    staleTime: 0,
+  });
+
+  const attempts = job?.attempts || [];
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="mt-2">
+      <CollapsibleTrigger
+        className="flex items-center gap-1 text-xs text-[#888888] hover:text-[#e0e0e0] transition-colors"
+        data-testid={`button-model-attempts-${messageId}`}
+      >
+        {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        Model details
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-2 space-y-1">
+        {isLoading && <p className="text-xs text-[#888888]">Loading...</p>}
+        {!isLoading && attempts.length === 0 && (
+          <p className="text-xs text-[#888888]">No model attempts recorded</p>
+        )}
+        {attempts.map((attempt) => (
+          <div
+            key={attempt.id}
+            className="flex items-start gap-2 text-xs text-[#e0e0e0]"
+            data-testid={`model-attempt-${attempt.id}`}
+          >
+            {attempt.status === 'success' ? (
+              <CheckCircle2 className="w-3 h-3 mt-0.5 text-green-500 flex-shrink-0" />
+            ) : attempt.status === 'skipped' ? (
+              <MinusCircle className="w-3 h-3 mt-0.5 text-[#888888] flex-shrink-0" />
+            ) : (
+              <XCircle className="w-3 h-3 mt-0.5 text-red-500 flex-shrink-0" />
+            )}
+            <div className="min-w-0">
+              <span className="font-medium">{attempt.model}</span>
+              <span className="text-[#888888]">
+                {' '}· {(attempt.latencyMs / 1000).toFixed(1)}s
+                {attempt.httpStatus ? ` · HTTP ${attempt.httpStatus}` : ''}
+                {attempt.totalTokens ? ` · ${attempt.totalTokens} tokens` : ''}
+              </span>
+              {attempt.errorMessage && (
+                <p className="text-[#888888] truncate" title={attempt.errorMessage}>{attempt.errorMessage}</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
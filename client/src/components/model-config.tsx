@@ -7,11 +7,50 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { Card } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { getActiveModel, getModelDisplayName } from '@/lib/openrouter';
-import type { ModelConfiguration } from '@shared/schema';
+import type { ModelConfiguration, ProviderEndpoint } from '@shared/schema';
 import type { OpenRouterModel } from '@/types';
+import { QuotaSettings } from '@/components/quota-settings';
+
+// Served directly by the OpenAI Images API with the OpenAI API key
+const OPENAI_IMAGE_MODELS = [
+  { id: 'gpt-image-1', name: 'GPT Image 1', description: 'Edits, multi-image combinations and generations' },
+  { id: 'dall-e-2', name: 'DALL-E 2', description: 'Edits, variations and generations' },
+  { id: 'dall-e-3', name: 'DALL-E 3', description: 'Generations only' },
+];
+
+type CapabilityFlag = 'imageOutput' | 'visionInput' | 'videoOutput';
+
+const CAPABILITY_LABELS: Record<CapabilityFlag, string> = {
+  imageOutput: 'Image output',
+  visionInput: 'Vision',
+  videoOutput: 'Video',
+};
+
+// Extra headers are edited as "Name: value" lines
+type EndpointDraft = Omit<ProviderEndpoint, 'headers'> & { headersText: string };
+
+function toEndpointDraft(endpoint: ProviderEndpoint): EndpointDraft {
+  const { headers, ...rest } = endpoint;
+  return {
+    ...rest,
+    headersText: Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n'),
+  };
+}
+
+function fromEndpointDraft({ headersText, ...endpoint }: EndpointDraft): ProviderEndpoint {
+  const headers: Record<string, string> = {};
+  for (const line of headersText.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+  return { ...endpoint, apiKey: endpoint.apiKey || undefined, headers };
+}
 
 interface ModelConfigProps {
   isOpen: boolean;
@@ -21,9 +60,12 @@ interface ModelConfigProps {
 export default function ModelConfig({ isOpen, onClose }: ModelConfigProps) {
   const { toast } = useToast();
   const [showApiKey, setShowApiKey] = useState(false);
+  const [showOpenaiApiKey, setShowOpenaiApiKey] = useState(false);
   const [localConfig, setLocalConfig] = useState<Partial<ModelConfiguration>>({});
   const [openrouterApiKey, setOpenrouterApiKey] = useState('');
+  const [openaiApiKey, setOpenaiApiKey] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
+  const [capabilityFilter, setCapabilityFilter] = useState<CapabilityFlag | 'all'>('all');
   const [isLoadingModels, setIsLoadingModels] = useState(false);
   const [customModelName, setCustomModelName] = useState('');
   const [useCustomModel, setUseCustomModel] = useState(false);
@@ -33,7 +75,10 @@ export default function ModelConfig({ isOpen, onClose }: ModelConfigProps) {
     model: string;
     priority: number;
     enabled: boolean;
+    provider?: string;
+    endpoint?: string;
   }[]>([]);
+  const [providerEndpoints, setProviderEndpoints] = useState<EndpointDraft[]>([]);
 
   // Fetch current configuration
   const { data: config, isLoading } = useQuery<ModelConfiguration>({
@@ -89,6 +134,31 @@ export default function ModelConfig({ isOpen, onClose }: ModelConfigProps) {
     },
   });
 
+  // Admin override of a synced capability
+  const overrideCapabilityMutation = useMutation({
+    mutationFn: async ({ model, flag }: { model: OpenRouterModel; flag: CapabilityFlag }) => {
+      const capabilities = model.capabilities!;
+      // Keep the existing overrides (at their effective values) and flip this one
+      const overrides: Record<string, boolean | number | null> = {};
+      for (const key of capabilities.overridden) {
+        overrides[key] = capabilities[key];
+      }
+      overrides[flag] = !capabilities[flag];
+      const response = await apiRequest('PUT', `/api/admin/model-capabilities/${model.id}`, overrides);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/models'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Override failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Initialize local config when config is loaded
   useEffect(() => {
     if (config) {
@@ -111,6 +181,10 @@ export default function ModelConfig({ isOpen, onClose }: ModelConfigProps) {
         setHasValidSavedKey(true);
         setShouldFetchModels(true); // Enable fetching if API key exists
       }
+      if (config.openaiApiKey) {
+        setOpenaiApiKey('***hidden***');
+      }
+      setProviderEndpoints((config.providerEndpoints || []).map(toEndpointDraft));
       
       // Check if using a custom model (check if it's not one of the common predefined models)
       const commonModels = ['openai/gpt-4o', 'anthropic/claude-3.5-sonnet', 'google/gemini-pro-vision', 'google/gemini-flash-1.5'];
@@ -168,9 +242,11 @@ export default function ModelConfig({ isOpen, onClose }: ModelConfigProps) {
 
   // Filter models based on search query
   const filteredModels = modelsData?.data?.filter(model => 
-    model.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    model.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    model.description?.toLowerCase().includes(searchQuery.toLowerCase())
+    (capabilityFilter === 'all' || model.capabilities?.[capabilityFilter]) && (
+      model.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      model.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      model.description?.toLowerCase().includes(searchQuery.toLowerCase())
+    )
   ) || [];
 
   // Model priority management functions
@@ -211,7 +287,36 @@ export default function ModelConfig({ isOpen, onClose }: ModelConfigProps) {
     setModelPriorities(newPriorities);
   };
 
-  const addModelToSequence = (modelId: string) => {
+  const setModelEndpoint = (index: number, endpoint: string) => {
+    const newPriorities = [...modelPriorities];
+    newPriorities[index] = { ...newPriorities[index], endpoint: endpoint === 'openrouter' ? undefined : endpoint };
+    setModelPriorities(newPriorities);
+  };
+
+  // Provider endpoint management functions
+  const addProviderEndpoint = () => {
+    setProviderEndpoints([
+      ...providerEndpoints,
+      { name: `endpoint-${providerEndpoints.length + 1}`, baseUrl: '', authStyle: 'bearer', headersText: '' },
+    ]);
+  };
+
+  const updateProviderEndpoint = (index: number, updates: Partial<EndpointDraft>) => {
+    const newEndpoints = [...providerEndpoints];
+    newEndpoints[index] = { ...newEndpoints[index], ...updates };
+    setProviderEndpoints(newEndpoints);
+  };
+
+  const removeProviderEndpoint = (index: number) => {
+    const removed = providerEndpoints[index].name;
+    setProviderEndpoints(providerEndpoints.filter((_, i) => i !== index));
+    // Models on the removed endpoint go back to OpenRouter
+    setModelPriorities(modelPriorities.map(item =>
+      item.endpoint === removed ? { ...item, endpoint: undefined } : item
+    ));
+  };
+
+  const addModelToSequence = (modelId: string, provider?: string) => {
     // Check if model is already in the sequence
     if (modelPriorities.some(item => item.model === modelId)) {
       toast({
@@ -226,12 +331,17 @@ export default function ModelConfig({ isOpen, onClose }: ModelConfigProps) {
       model: modelId,
       priority: modelPriorities.length + 1,
       enabled: true,
+      ...(provider && { provider }),
     };
     setModelPriorities([...modelPriorities, newPriority]);
   };
 
   const handleSave = () => {
-    const configToSave = { ...localConfig, modelPriorities };
+    const configToSave = {
+      ...localConfig,
+      modelPriorities,
+      providerEndpoints: providerEndpoints.map(fromEndpointDraft),
+    };
     
     // Handle custom model selection
     if (useCustomModel && customModelName) {
@@ -251,6 +361,11 @@ export default function ModelConfig({ isOpen, onClose }: ModelConfigProps) {
       configToSave.apiKeyConfigured = 'true';
       // Don't set apiKey field to let backend preserve existing key
     }
+
+    // New OpenAI API key provided; a hidden one is left as saved
+    if (openaiApiKey && openaiApiKey !== '***hidden***') {
+      configToSave.openaiApiKey = openaiApiKey;
+    }
     
     
     updateConfigMutation.mutate(configToSave);
@@ -373,6 +488,157 @@ export default function ModelConfig({ isOpen, onClose }: ModelConfigProps) {
             </div>
 
 
+            {/* OpenAI Images */}
+            <div>
+              <h3 className="font-medium mb-3">OpenAI Images</h3>
+              <div className="space-y-3">
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">
+                    OpenAI API Key
+                  </Label>
+                  <div className="relative mt-2">
+                    <Input
+                      type={showOpenaiApiKey ? 'text' : 'password'}
+                      value={openaiApiKey}
+                      onChange={(e) => setOpenaiApiKey(e.target.value)}
+                      placeholder="Enter your OpenAI API key"
+                      className="pr-10"
+                      data-testid="openai-api-key-input"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="absolute right-1 top-1/2 -translate-y-1/2 h-8 w-8 p-0"
+                      onClick={() => setShowOpenaiApiKey(!showOpenaiApiKey)}
+                      data-testid="toggle-openai-api-key-visibility"
+                    >
+                      {showOpenaiApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  {OPENAI_IMAGE_MODELS.map((model) => (
+                    <div
+                      key={model.id}
+                      className="flex items-center justify-between p-3 border border-[#3a3a3a] rounded-lg"
+                      data-testid={`openai-model-${model.id}`}
+                    >
+                      <div>
+                        <h4 className="font-medium text-sm">{model.name}</h4>
+                        <p className="text-xs text-muted-foreground">{model.description}</p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => addModelToSequence(model.id, 'openai')}
+                        className="h-6 px-2 text-xs text-[#ffd700] hover:bg-[#ffd700]/20"
+                        data-testid={`add-to-failover-${model.id}`}
+                      >
+                        <Plus className="h-3 w-3 mr-1" />
+                        Add
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Provider Endpoints */}
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-medium">Provider Endpoints</h3>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={addProviderEndpoint}
+                  className="h-6 px-2 text-xs text-[#ffd700] hover:bg-[#ffd700]/20"
+                  data-testid="add-provider-endpoint"
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add
+                </Button>
+              </div>
+              <p className="text-sm text-[#a0a0a0] mb-3">
+                OpenAI-compatible gateways that models in the failover sequence can use instead of OpenRouter.
+              </p>
+
+              {providerEndpoints.length === 0 ? (
+                <div className="border border-[#3a3a3a] rounded-lg p-4 text-center">
+                  <p className="text-sm text-[#888]">No provider endpoints configured</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {providerEndpoints.map((endpoint, index) => (
+                    <div
+                      key={index}
+                      className="p-3 border border-[#3a3a3a] rounded-lg space-y-2"
+                      data-testid={`provider-endpoint-${index}`}
+                    >
+                      <div className="flex gap-2">
+                        <Input
+                          value={endpoint.name}
+                          onChange={(e) => updateProviderEndpoint(index, { name: e.target.value })}
+                          placeholder="Name"
+                          className="w-40"
+                          data-testid={`provider-endpoint-name-${index}`}
+                        />
+                        <Input
+                          value={endpoint.baseUrl}
+                          onChange={(e) => updateProviderEndpoint(index, { baseUrl: e.target.value })}
+                          placeholder="https://gateway.example.com/v1"
+                          className="flex-1"
+                          data-testid={`provider-endpoint-url-${index}`}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeProviderEndpoint(index)}
+                          className="h-9 w-9 p-0 text-red-400 hover:bg-red-400/20"
+                          data-testid={`remove-provider-endpoint-${index}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <div className="flex gap-2">
+                        <Select
+                          value={endpoint.authStyle}
+                          onValueChange={(value) => updateProviderEndpoint(index, { authStyle: value as ProviderEndpoint['authStyle'] })}
+                        >
+                          <SelectTrigger className="w-40" data-testid={`provider-endpoint-auth-${index}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="bearer">Bearer token</SelectItem>
+                            <SelectItem value="x-api-key">x-api-key header</SelectItem>
+                            <SelectItem value="api-key">api-key header</SelectItem>
+                            <SelectItem value="none">No auth</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="password"
+                          value={endpoint.apiKey || ''}
+                          onChange={(e) => updateProviderEndpoint(index, { apiKey: e.target.value })}
+                          placeholder="API key"
+                          className="flex-1"
+                          disabled={endpoint.authStyle === 'none'}
+                          data-testid={`provider-endpoint-key-${index}`}
+                        />
+                      </div>
+                      <Textarea
+                        value={endpoint.headersText}
+                        onChange={(e) => updateProviderEndpoint(index, { headersText: e.target.value })}
+                        placeholder={'Extra headers, one per line\nX-Team: imaging'}
+                        rows={2}
+                        data-testid={`provider-endpoint-headers-${index}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* Model Selection */}
             <div>
               <div className="flex items-center justify-between mb-3">
@@ -398,6 +664,28 @@ export default function ModelConfig({ isOpen, onClose }: ModelConfigProps) {
                 </div>
               )}
               
+              {/* Capability Filter */}
+              {modelsData?.data && modelsData.data.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {(['all', 'imageOutput', 'visionInput', 'videoOutput'] as const).map((flag) => (
+                    <Button
+                      key={flag}
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setCapabilityFilter(flag)}
+                      className={`h-7 px-3 text-xs ${
+                        capabilityFilter === flag
+                          ? 'bg-[#ffd700] text-black hover:bg-[#ffd700]/90'
+                          : 'text-[#e0e0e0] hover:bg-[#2a2a2a]'
+                      }`}
+                      data-testid={`capability-filter-${flag}`}
+                    >
+                      {flag === 'all' ? 'All' : CAPABILITY_LABELS[flag]}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              
               <div className="space-y-2 max-h-96 overflow-y-auto">
                 {modelsLoading ? (
                   <div className="text-center py-4">
@@ -451,6 +739,31 @@ export default function ModelConfig({ isOpen, onClose }: ModelConfigProps) {
                       <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
                         {model.description || 'No description available'}
                       </p>
+                      {model.capabilities && (
+                        <div className="flex flex-wrap gap-1 mb-2">
+                          {(Object.keys(CAPABILITY_LABELS) as CapabilityFlag[]).map((flag) => {
+                            const enabled = model.capabilities![flag];
+                            const overridden = model.capabilities!.overridden.includes(flag);
+                            return (
+                              <button
+                                key={flag}
+                                type="button"
+                                onClick={() => overrideCapabilityMutation.mutate({ model, flag })}
+                                disabled={overrideCapabilityMutation.isPending}
+                                title={`${overridden ? 'Overridden by an admin' : 'From the model catalog'}. Click to ${enabled ? 'disable' : 'enable'}.`}
+                                className={`px-2 py-0.5 rounded text-[10px] border ${
+                                  enabled
+                                    ? 'bg-[#ffd700]/15 text-[#ffd700] border-[#ffd700]/30'
+                                    : 'text-[#666] border-[#3a3a3a] line-through'
+                                } ${overridden ? 'border-dashed' : ''}`}
+                                data-testid={`capability-${flag}-${model.id}`}
+                              >
+                                {CAPABILITY_LABELS[flag]}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
                       <div 
                         className="cursor-pointer"
                         onClick={() => {
@@ -567,10 +880,29 @@ export default function ModelConfig({ isOpen, onClose }: ModelConfigProps) {
                               item.enabled ? 'text-[#a0a0a0]' : 'text-[#666]'
                             }`}>
                               {item.enabled ? 'Enabled' : 'Disabled'}
+                              {item.provider ? ` · ${item.provider}` : ''}
                             </div>
                           </div>
                         </div>
                         
+                        {/* Only chat completions models can be routed to an endpoint */}
+                        {!item.provider && providerEndpoints.length > 0 && (
+                          <Select
+                            value={item.endpoint || 'openrouter'}
+                            onValueChange={(value) => setModelEndpoint(index, value)}
+                          >
+                            <SelectTrigger className="w-40 h-8 text-xs" data-testid={`endpoint-${item.model}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="openrouter">OpenRouter</SelectItem>
+                              {providerEndpoints.filter(endpoint => endpoint.name).map((endpoint) => (
+                                <SelectItem key={endpoint.name} value={endpoint.name}>{endpoint.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        
                         <div className="flex items-center gap-1">
                           <Button
                             variant="ghost"
@@ -716,6 +1048,9 @@ export default function ModelConfig({ isOpen, onClose }: ModelConfigProps) {
               </div>
             </div>
 
+            {/* Processing limits */}
+            <QuotaSettings />
+
             {/* Current Configuration */}
             <div>
               <h3 className="font-medium mb-3">Current Selection</h3>
@@ -0,0 +1,284 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { BillingPlan, ObjectAclRuleData, UserListWithMembers, WorkspaceSummary } from "@shared/schema";
+
+type GroupType = ObjectAclRuleData["group"]["type"];
+
+interface ObjectAclPolicy {
+  owner: string;
+  visibility: "public" | "private";
+  aclRules?: ObjectAclRuleData[];
+}
+
+const GROUP_TYPES: { value: GroupType; label: string }[] = [
+  { value: "USER_LIST", label: "User list" },
+  { value: "EMAIL_DOMAIN", label: "Email domain" },
+  { value: "GROUP_MEMBER", label: "Workspace" },
+  { value: "SUBSCRIBER", label: "Plan subscribers" },
+];
+
+const selectClassName = "bg-[#0f0f0f] border-[#2a2a2a]";
+
+// Who can open a stored image: anyone with the link, or only its owner and the
+// user lists, email domains (verified addresses only), workspaces and plan
+// subscribers it is shared with
+export function ObjectSharingDialog({
+  objectPath,
+  onOpenChange,
+}: {
+  objectPath: string | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [visibility, setVisibility] = useState<ObjectAclPolicy["visibility"]>("public");
+  const [rules, setRules] = useState<ObjectAclRuleData[]>([]);
+  const [newRule, setNewRule] = useState<ObjectAclRuleData>({ group: { type: "USER_LIST", id: "" }, permission: "read" });
+  const [listName, setListName] = useState("");
+  const [listUsernames, setListUsernames] = useState("");
+  const aclKey = `/api/objects/acl?path=${encodeURIComponent(objectPath || "")}`;
+
+  const { data: policy, error } = useQuery<ObjectAclPolicy>({
+    queryKey: [aclKey],
+    enabled: !!objectPath,
+    staleTime: 0,
+    retry: false,
+  });
+  const { data: userLists = [] } = useQuery<UserListWithMembers[]>({
+    queryKey: ["/api/user-lists"],
+    enabled: !!objectPath,
+  });
+  const { data: workspaces } = useQuery<{ workspaces: WorkspaceSummary[] }>({
+    queryKey: ["/api/workspaces"],
+    enabled: !!objectPath,
+  });
+  const { data: plans = [] } = useQuery<BillingPlan[]>({
+    queryKey: ["/api/billing/plans"],
+    enabled: !!objectPath,
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setVisibility(policy.visibility);
+      setRules(policy.aclRules || []);
+    }
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/objects/acl", { objectPath, visibility, aclRules: rules });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [aclKey] });
+      toast({ title: "Sharing updated" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update sharing", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createListMutation = useMutation({
+    mutationFn: async () => {
+      const usernames = listUsernames.split(",").map((username) => username.trim()).filter(Boolean);
+      const response = await apiRequest("POST", "/api/user-lists", { name: listName, usernames });
+      return response.json() as Promise<UserListWithMembers>;
+    },
+    onSuccess: (list) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user-lists"] });
+      setNewRule({ ...newRule, group: { type: "USER_LIST", id: list.id } });
+      setListName("");
+      setListUsernames("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create list", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const groupLabel = (rule: ObjectAclRuleData) => {
+    const { type, id } = rule.group;
+    if (type === "USER_LIST") return userLists.find((list) => list.id === id)?.name || id;
+    if (type === "GROUP_MEMBER") return workspaces?.workspaces.find((workspace) => workspace.id === id)?.name || id;
+    if (type === "SUBSCRIBER") return plans.find((plan) => plan.planKey === id)?.name || id;
+    return `@${id}`;
+  };
+
+  const groupOptions: { id: string; label: string }[] | null =
+    newRule.group.type === "USER_LIST"
+      ? userLists.map((list) => ({ id: list.id, label: `${list.name} (${list.usernames.length})` }))
+      : newRule.group.type === "GROUP_MEMBER"
+        ? (workspaces?.workspaces || []).map((workspace) => ({ id: workspace.id, label: `${workspace.organizationName} / ${workspace.name}` }))
+        : newRule.group.type === "SUBSCRIBER"
+          ? plans.map((plan) => ({ id: plan.planKey, label: plan.name }))
+          : null;
+
+  const addRule = () => {
+    setRules([...rules, newRule]);
+    setNewRule({ ...newRule, group: { ...newRule.group, id: "" } });
+  };
+
+  return (
+    <Dialog open={!!objectPath} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#1a1a1a] border-[#2a2a2a] text-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share Image</DialogTitle>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-[#888888]">{(error as Error).message.replace(/^\d+: /, "")}</p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label className="text-xs text-[#888888]">Visibility</Label>
+              <Select value={visibility} onValueChange={(value) => setVisibility(value as ObjectAclPolicy["visibility"])}>
+                <SelectTrigger className={`mt-1 ${selectClassName}`} data-testid="select-object-visibility">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="public">Anyone with the link</SelectItem>
+                  <SelectItem value="private">Only people it is shared with</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-[#888888]">Shared with</Label>
+              {rules.length === 0 && <p className="text-sm text-[#666666]">Nobody else yet.</p>}
+              {rules.map((rule, index) => (
+                <div
+                  key={`${rule.group.type}:${rule.group.id}:${index}`}
+                  className="flex items-center justify-between rounded-lg border border-[#2a2a2a] px-3 py-2 text-sm"
+                >
+                  <span className="truncate">
+                    <span className="text-[#888888]">{GROUP_TYPES.find((type) => type.value === rule.group.type)?.label}:</span>{" "}
+                    {groupLabel(rule)}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-[#888888]">{rule.permission === "write" ? "Can edit" : "Can view"}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-[#888888] hover:text-red-400"
+                      onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-[8rem_1fr_6rem_auto] gap-2">
+              <Select
+                value={newRule.group.type}
+                onValueChange={(type) => setNewRule({ ...newRule, group: { type: type as GroupType, id: "" } })}
+              >
+                <SelectTrigger className={selectClassName} data-testid="select-rule-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GROUP_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {groupOptions ? (
+                <Select
+                  value={newRule.group.id}
+                  onValueChange={(id) => setNewRule({ ...newRule, group: { ...newRule.group, id } })}
+                >
+                  <SelectTrigger className={selectClassName} data-testid="select-rule-group">
+                    <SelectValue placeholder="Choose..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {groupOptions.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  value={newRule.group.id}
+                  onChange={(e) => setNewRule({ ...newRule, group: { ...newRule.group, id: e.target.value } })}
+                  placeholder="example.com"
+                  className={selectClassName}
+                  data-testid="input-rule-domain"
+                />
+              )}
+              <Select
+                value={newRule.permission}
+                onValueChange={(permission) => setNewRule({ ...newRule, permission: permission as ObjectAclRuleData["permission"] })}
+              >
+                <SelectTrigger className={selectClassName}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="read">View</SelectItem>
+                  <SelectItem value="write">Edit</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                className="border-[#3a3a3a] text-[#e0e0e0] hover:bg-[#2a2a2a]"
+                onClick={addRule}
+                disabled={!newRule.group.id.trim()}
+                data-testid="button-add-rule"
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {newRule.group.type === "USER_LIST" && (
+              <div className="rounded-lg border border-[#2a2a2a] p-3 space-y-2">
+                <Label className="text-xs text-[#888888]">New user list</Label>
+                <Input
+                  value={listName}
+                  onChange={(e) => setListName(e.target.value)}
+                  placeholder="List name"
+                  className={selectClassName}
+                  data-testid="input-user-list-name"
+                />
+                <Input
+                  value={listUsernames}
+                  onChange={(e) => setListUsernames(e.target.value)}
+                  placeholder="Usernames, separated by commas"
+                  className={selectClassName}
+                  data-testid="input-user-list-usernames"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="border-[#3a3a3a] text-[#e0e0e0] hover:bg-[#2a2a2a]"
+                  onClick={() => createListMutation.mutate()}
+                  disabled={!listName.trim() || createListMutation.isPending}
+                  data-testid="button-create-user-list"
+                >
+                  Create list
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!policy || saveMutation.isPending}
+            className="bg-[#ffd700] text-black hover:bg-[#ffd700]/90"
+            data-testid="button-save-sharing"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,62 @@
+import { useQuery } from '@tanstack/react-query';
+import { Gauge } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import type { QuotaName, QuotaStatus } from '@shared/schema';
+
+const QUOTAS: { name: QuotaName; label: string; resetKey?: keyof QuotaStatus['resetsAt'] }[] = [
+  { name: 'dailyJobs', label: 'Jobs today', resetKey: 'dailyJobs' },
+  { name: 'concurrentJobs', label: 'Jobs running' },
+  { name: 'monthlySpend', label: 'Spend this month', resetKey: 'monthlySpend' },
+];
+
+function formatAmount(name: QuotaName, value: number) {
+  return name === 'monthlySpend' ? `$${value.toFixed(2)}` : String(value);
+}
+
+// The current user's processing limits and how much of each is left
+export function QuotaAllowance() {
+  const { data: quota } = useQuery<QuotaStatus>({
+    queryKey: ['/api/quota'],
+    staleTime: 30 * 1000,
+  });
+
+  if (!quota) return null;
+
+  return (
+    <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="w-5 h-5" />
+          Remaining Allowance
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {QUOTAS.map(({ name, label, resetKey }) => {
+          const limit = quota.limits[name];
+          const used = quota.used[name];
+          return (
+            <div key={name} data-testid={`quota-${name}`}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span>{label}</span>
+                <span className="text-[#888888]">
+                  {limit === null
+                    ? `${formatAmount(name, used)} · Unlimited`
+                    : `${formatAmount(name, Math.max(0, limit - used))} of ${formatAmount(name, limit)} left`}
+                </span>
+              </div>
+              {limit !== null && (
+                <Progress value={limit > 0 ? Math.min(100, (used / limit) * 100) : 100} className="h-2" />
+              )}
+              {limit !== null && resetKey && (
+                <p className="text-xs text-[#888888] mt-1">
+                  Resets {new Date(quota.resetsAt[resetKey]).toLocaleString()}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,223 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { QuotaLimits } from '@shared/schema';
+
+interface AdminQuotas {
+  roles: (QuotaLimits & { role: string; isDefault: boolean })[];
+  users: (QuotaLimits & { userId: string; username: string })[];
+}
+
+type LimitsDraft = Record<keyof QuotaLimits, string>;
+
+const FIELDS: { key: keyof QuotaLimits; label: string; step: string }[] = [
+  { key: 'dailyJobs', label: 'Jobs / day', step: '1' },
+  { key: 'concurrentJobs', label: 'Concurrent', step: '1' },
+  { key: 'monthlySpend', label: 'Spend / month ($)', step: '0.01' },
+];
+
+function toDraft(limits: QuotaLimits): LimitsDraft {
+  return {
+    dailyJobs: limits.dailyJobs?.toString() ?? '',
+    concurrentJobs: limits.concurrentJobs?.toString() ?? '',
+    monthlySpend: limits.monthlySpend?.toString() ?? '',
+  };
+}
+
+// Blank fields are sent as null
+function fromDraft(draft: LimitsDraft): QuotaLimits {
+  const value = (text: string) => (text.trim() === '' ? null : Number(text));
+  return {
+    dailyJobs: value(draft.dailyJobs),
+    concurrentJobs: value(draft.concurrentJobs),
+    monthlySpend: value(draft.monthlySpend),
+  };
+}
+
+function LimitsRow({
+  title,
+  subtitle,
+  limits,
+  blankLabel,
+  onSave,
+  onRemove,
+  isSaving,
+  testId,
+}: {
+  title: string;
+  subtitle?: string;
+  limits: QuotaLimits;
+  blankLabel: string;
+  onSave: (limits: QuotaLimits) => void;
+  onRemove?: () => void;
+  isSaving: boolean;
+  testId: string;
+}) {
+  const [draft, setDraft] = useState<LimitsDraft>(toDraft(limits));
+
+  useEffect(() => {
+    setDraft(toDraft(limits));
+  }, [limits.dailyJobs, limits.concurrentJobs, limits.monthlySpend]);
+
+  return (
+    <div className="flex items-end gap-3 p-3 bg-secondary rounded-lg" data-testid={testId}>
+      <div className="w-32 flex-shrink-0">
+        <div className="text-sm font-medium truncate">{title}</div>
+        {subtitle && <div className="text-xs text-muted-foreground">{subtitle}</div>}
+      </div>
+      {FIELDS.map(({ key, label, step }) => (
+        <div key={key} className="flex-1">
+          <label className="text-xs text-muted-foreground">{label}</label>
+          <Input
+            type="number"
+            min="0"
+            step={step}
+            value={draft[key]}
+            placeholder={blankLabel}
+            onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+            className="mt-1 h-8"
+            data-testid={`${testId}-${key}`}
+          />
+        </div>
+      ))}
+      <Button
+        size="sm"
+        onClick={() => onSave(fromDraft(draft))}
+        disabled={isSaving}
+        className="bg-[#ffd700] hover:bg-[#ffd700]/90 text-black"
+        data-testid={`${testId}-save`}
+      >
+        <Save className="w-4 h-4" />
+      </Button>
+      {onRemove && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={onRemove}
+          disabled={isSaving}
+          className="text-red-400 hover:bg-[#2a2a2a]"
+          data-testid={`${testId}-remove`}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// Admin editor for role limits and per-user overrides
+export function QuotaSettings() {
+  const { toast } = useToast();
+  const [newUsername, setNewUsername] = useState('');
+
+  const { data: quotas } = useQuery<AdminQuotas>({
+    queryKey: ['/api/admin/quotas'],
+    staleTime: 0,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Failed to update limits', description: error.message, variant: 'destructive' });
+  };
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/quotas'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/quota'] });
+    toast({ title: 'Limits saved' });
+  };
+
+  const saveRoleMutation = useMutation({
+    mutationFn: async ({ role, limits }: { role: string; limits: QuotaLimits }) => {
+      const response = await apiRequest('PUT', `/api/admin/quotas/roles/${role}`, limits);
+      return response.json();
+    },
+    onSuccess: onSaved,
+    onError,
+  });
+
+  const saveUserMutation = useMutation({
+    mutationFn: async ({ username, limits }: { username: string; limits: QuotaLimits }) => {
+      const response = await apiRequest('PUT', `/api/admin/quotas/users/${encodeURIComponent(username)}`, limits);
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewUsername('');
+      onSaved();
+    },
+    onError,
+  });
+
+  const removeUserMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest('DELETE', `/api/admin/quotas/users/${userId}`);
+      return response.json();
+    },
+    onSuccess: onSaved,
+    onError,
+  });
+
+  return (
+    <div>
+      <h3 className="font-medium mb-1">Quotas & Rate Limits</h3>
+      <p className="text-xs text-muted-foreground mb-3">
+        Limits on processing requests. Leave a role field blank for no limit; leave a user field blank to use the role's limit.
+      </p>
+
+      <div className="space-y-2">
+        {(quotas?.roles || []).map((role) => (
+          <LimitsRow
+            key={role.role}
+            title={role.role === 'admin' ? 'Administrators' : 'Users'}
+            subtitle={role.isDefault ? 'Default limits' : 'Role'}
+            limits={role}
+            blankLabel="Unlimited"
+            onSave={(limits) => saveRoleMutation.mutate({ role: role.role, limits })}
+            isSaving={saveRoleMutation.isPending}
+            testId={`quota-role-${role.role}`}
+          />
+        ))}
+
+        {(quotas?.users || []).map((user) => (
+          <LimitsRow
+            key={user.userId}
+            title={user.username}
+            subtitle="User override"
+            limits={user}
+            blankLabel="Role limit"
+            onSave={(limits) => saveUserMutation.mutate({ username: user.username, limits })}
+            onRemove={() => removeUserMutation.mutate(user.userId)}
+            isSaving={saveUserMutation.isPending || removeUserMutation.isPending}
+            testId={`quota-user-${user.userId}`}
+          />
+        ))}
+
+        <div className="flex gap-2">
+          <Input
+            value={newUsername}
+            onChange={(e) => setNewUsername(e.target.value)}
+            placeholder="Username for a per-user override"
+            className="h-8"
+            data-testid="input-quota-username"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => saveUserMutation.mutate({
+              username: newUsername.trim(),
+              limits: { dailyJobs: null, concurrentJobs: null, monthlySpend: null },
+            })}
+            disabled={!newUsername.trim() || saveUserMutation.isPending}
+            className="border-[#3a3a3a] text-[#e0e0e0] hover:bg-[#2a2a2a]"
+            data-testid="button-add-quota-user"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
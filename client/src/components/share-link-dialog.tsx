@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Copy, Link2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CreateShareLinkRequest, ShareLinkSummary } from "@shared/schema";
+
+export interface ShareSource {
+  sourceType: CreateShareLinkRequest["sourceType"];
+  sourceId: string;
+  title: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { hours: 1, label: "1 hour" },
+  { hours: 24, label: "1 day" },
+  { hours: 72, label: "3 days" },
+  { hours: 24 * 7, label: "1 week" },
+  { hours: 24 * 30, label: "30 days" },
+];
+
+const STATUS_STYLES: Record<ShareLinkSummary["status"], string> = {
+  active: "border-green-500 text-green-400",
+  expired: "border-[#3a3a3a] text-[#888888]",
+  revoked: "border-red-500 text-red-400",
+  exhausted: "border-[#ffd700] text-[#ffd700]",
+};
+
+// Creates expiring links to a saved image or a generated image or video, and lists
+// the source's earlier links so they can be revoked
+export function ShareLinkDialog({
+  source,
+  onOpenChange,
+}: {
+  source: ShareSource | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [expiresInHours, setExpiresInHours] = useState("72");
+  const [password, setPassword] = useState("");
+  const [maxDownloads, setMaxDownloads] = useState("");
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+
+  const { data: links = [] } = useQuery<ShareLinkSummary[]>({
+    queryKey: ["/api/share-links"],
+    enabled: !!source,
+    staleTime: 0,
+  });
+  const sourceLinks = links.filter(
+    (link) => link.sourceType === source?.sourceType && link.sourceId === source?.sourceId
+  );
+
+  const close = (open: boolean) => {
+    if (!open) {
+      setCreatedUrl(null);
+      setPassword("");
+      setMaxDownloads("");
+    }
+    onOpenChange(open);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/share-links", {
+        sourceType: source!.sourceType,
+        sourceId: source!.sourceId,
+        expiresInHours: parseInt(expiresInHours),
+        ...(password ? { password } : {}),
+        ...(maxDownloads ? { maxDownloads: parseInt(maxDownloads) } : {}),
+      });
+      return response.json() as Promise<{ link: ShareLinkSummary; path: string }>;
+    },
+    onSuccess: ({ path }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/share-links"] });
+      setCreatedUrl(`${window.location.origin}${path}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create link", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/share-links/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/share-links"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to revoke link", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const copyUrl = async () => {
+    if (!createdUrl) return;
+    await navigator.clipboard.writeText(createdUrl);
+    toast({ title: "Link copied" });
+  };
+
+  return (
+    <Dialog open={!!source} onOpenChange={close}>
+      <DialogContent className="bg-[#1a1a1a] border-[#2a2a2a] text-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="truncate">Share "{source?.title}"</DialogTitle>
+        </DialogHeader>
+
+        {createdUrl ? (
+          <div className="space-y-2">
+            <Label className="text-xs text-[#888888]">Share link</Label>
+            <div className="flex gap-2">
+              <Input readOnly value={createdUrl} className="bg-[#0f0f0f] border-[#2a2a2a]" data-testid="input-share-url" />
+              <Button variant="outline" className="border-[#3a3a3a] text-[#e0e0e0] hover:bg-[#2a2a2a]" onClick={copyUrl}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-[#888888]">Copy it now: the link cannot be shown again.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label className="text-xs text-[#888888]">Expires after</Label>
+              <Select value={expiresInHours} onValueChange={setExpiresInHours}>
+                <SelectTrigger className="mt-1 bg-[#0f0f0f] border-[#2a2a2a]" data-testid="select-share-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.hours} value={String(option.hours)}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs text-[#888888]">Password</Label>
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Optional"
+                className="mt-1 bg-[#0f0f0f] border-[#2a2a2a]"
+                data-testid="input-share-password"
+              />
+            </div>
+            <div>
+              <Label className="text-xs text-[#888888]">Download limit</Label>
+              <Input
+                type="number"
+                min={1}
+                value={maxDownloads}
+                onChange={(e) => setMaxDownloads(e.target.value)}
+                placeholder="Unlimited"
+                className="mt-1 bg-[#0f0f0f] border-[#2a2a2a]"
+                data-testid="input-share-max-downloads"
+              />
+            </div>
+          </div>
+        )}
+
+        {sourceLinks.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-xs text-[#888888]">Links to this file</Label>
+            {sourceLinks.map((link) => (
+              <div
+                key={link.id}
+                className="flex items-center justify-between gap-2 rounded-lg border border-[#2a2a2a] px-3 py-2 text-xs"
+                data-testid={`share-link-${link.id}`}
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge variant="outline" className={STATUS_STYLES[link.status]}>{link.status}</Badge>
+                  <span className="text-[#888888] truncate">
+                    {link.downloadCount}{link.maxDownloads ? `/${link.maxDownloads}` : ""} downloads · expires{" "}
+                    {new Date(link.expiresAt).toLocaleString()}
+                    {link.hasPassword ? " · password" : ""}
+                  </span>
+                </div>
+                {link.status === "active" && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 px-2 text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                    onClick={() => revokeMutation.mutate(link.id)}
+                    disabled={revokeMutation.isPending}
+                    data-testid={`button-revoke-share-link-${link.id}`}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {createdUrl ? (
+            <Button variant="outline" className="border-[#3a3a3a] text-[#e0e0e0] hover:bg-[#2a2a2a]" onClick={() => setCreatedUrl(null)}>
+              Create another
+            </Button>
+          ) : (
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || (password.length > 0 && password.length < 4)}
+              className="bg-[#ffd700] text-black hover:bg-[#ffd700]/90"
+              data-testid="button-create-share-link"
+            >
+              <Link2 className="w-4 h-4 mr-2" />
+              {createMutation.isPending ? "Creating..." : "Create link"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,9 +9,12 @@ import {
   BarChart3, 
   Shield, 
   CreditCard,
+  Palette,
+  ScrollText,
   LogOut
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { WorkspaceSwitcher } from "@/components/workspace-switcher";
 
 interface SidebarProps {
   currentPath: string;
@@ -19,7 +22,7 @@ interface SidebarProps {
 
 export function Sidebar({ currentPath }: SidebarProps) {
   const [, setLocation] = useLocation();
-  const { user } = useAuth();
+  const { user, isAdmin } = useAuth();
 
   const navigationItems = [
     {
@@ -33,7 +36,13 @@ export function Sidebar({ currentPath }: SidebarProps) {
       label: "Gallery",
       path: "/gallery",
       testId: "nav-gallery"
-    }
+    },
+    ...(isAdmin ? [{
+      icon: ScrollText,
+      label: "Audit Log",
+      path: "/admin/audit-log",
+      testId: "nav-audit-log"
+    }] : [])
   ];
 
   const accountItems = [
@@ -60,6 +69,12 @@ export function Sidebar({ currentPath }: SidebarProps) {
       label: "Billing",
       path: "/billing",
       testId: "nav-billing"
+    },
+    {
+      icon: Palette,
+      label: "Brand Kits",
+      path: "/brand",
+      testId: "nav-brand"
     }
   ];
 
@@ -76,6 +91,11 @@ export function Sidebar({ currentPath }: SidebarProps) {
         </div>
       </div>
 
+      {/* Workspace */}
+      <div className="py-2 px-2 border-b border-[#2a2a2a]">
+        <WorkspaceSwitcher />
+      </div>
+
       {/* Main Navigation */}
       <div className="flex-1 py-4">
         <nav className="space-y-2 px-2">
@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { BarChart3, CheckCircle2, Clock, DollarSign, FileText } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import type { UsageAnalytics } from '@shared/schema';
+
+const RANGES = [7, 30, 90];
+
+const jobsChartConfig = {
+  image: { label: 'Image', color: '#ffd700' },
+  'multi-image': { label: 'Multi-image', color: '#60a5fa' },
+  video: { label: 'Video', color: '#f472b6' },
+} satisfies ChartConfig;
+
+const spendChartConfig = {
+  cost: { label: 'Spend (USD)', color: '#ffd700' },
+} satisfies ChartConfig;
+
+function formatDay(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+function percent(part: number, total: number) {
+  return total > 0 ? `${Math.round((part / total) * 100)}%` : '—';
+}
+
+// Usage tab of the account page: the user's jobs, success rates and spend
+export function UsageAnalyticsPanel() {
+  const [days, setDays] = useState(30);
+
+  const { data, isLoading, error } = useQuery<UsageAnalytics>({
+    queryKey: [`/api/usage/analytics?days=${days}`],
+    staleTime: 60 * 1000,
+  });
+
+  const totals = (data?.jobTypes || []).reduce(
+    (sum, type) => ({
+      total: sum.total + type.total,
+      completed: sum.completed + type.completed,
+      processingTime: sum.processingTime + (type.averageProcessingTime || 0) * type.completed,
+    }),
+    { total: 0, completed: 0, processingTime: 0 }
+  );
+  const averageProcessingTime = totals.completed > 0 ? totals.processingTime / totals.completed : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-end gap-2">
+        {RANGES.map((range) => (
+          <Button
+            key={range}
+            size="sm"
+            variant="ghost"
+            onClick={() => setDays(range)}
+            className={`border px-3 py-1 text-xs rounded-full ${
+              days === range
+                ? 'border-[#ffd700] bg-[#ffd700]/10 text-[#ffd700]'
+                : 'border-[#2a2a2a] text-[#888888] hover:bg-[#2a2a2a]'
+            }`}
+            data-testid={`button-usage-range-${range}`}
+          >
+            {range} days
+          </Button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="text-center py-4 text-sm text-red-400">
+          {error instanceof Error ? error.message : 'Failed to load usage analytics'}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
+          <CardContent className="p-4 text-center">
+            <BarChart3 className="w-8 h-8 text-[#ffd700] mx-auto mb-2" />
+            <div className="text-2xl font-bold" data-testid="text-usage-jobs">{isLoading ? '—' : totals.total}</div>
+            <div className="text-sm text-[#888888]">Jobs</div>
+          </CardContent>
+        </Card>
+        <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
+          <CardContent className="p-4 text-center">
+            <CheckCircle2 className="w-8 h-8 text-[#ffd700] mx-auto mb-2" />
+            <div className="text-2xl font-bold" data-testid="text-usage-success-rate">
+              {isLoading ? '—' : percent(totals.completed, totals.total)}
+            </div>
+            <div className="text-sm text-[#888888]">Success Rate</div>
+          </CardContent>
+        </Card>
+        <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
+          <CardContent className="p-4 text-center">
+            <Clock className="w-8 h-8 text-[#ffd700] mx-auto mb-2" />
+            <div className="text-2xl font-bold" data-testid="text-usage-processing-time">
+              {averageProcessingTime === null ? '—' : `${averageProcessingTime.toFixed(1)}s`}
+            </div>
+            <div className="text-sm text-[#888888]">Avg. Processing Time</div>
+          </CardContent>
+        </Card>
+        <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
+          <CardContent className="p-4 text-center">
+            <DollarSign className="w-8 h-8 text-[#ffd700] mx-auto mb-2" />
+            <div className="text-2xl font-bold" data-testid="text-usage-spend">
+              {data ? `$${parseFloat(data.spend.total).toFixed(2)}` : '—'}
+            </div>
+            <div className="text-sm text-[#888888]">Spend</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
+        <CardHeader>
+          <CardTitle>Jobs per Day</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={jobsChartConfig} className="h-64 w-full aspect-auto">
+            <BarChart data={data?.jobsPerDay || []}>
+              <CartesianGrid vertical={false} stroke="#2a2a2a" />
+              <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="image" stackId="jobs" fill="var(--color-image)" />
+              <Bar dataKey="multi-image" stackId="jobs" fill="var(--color-multi-image)" />
+              <Bar dataKey="video" stackId="jobs" fill="var(--color-video)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
+          <CardHeader>
+            <CardTitle>Results by Type</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[#888888]">
+                  <th className="font-normal pb-2">Type</th>
+                  <th className="font-normal pb-2 text-right">Jobs</th>
+                  <th className="font-normal pb-2 text-right">Success</th>
+                  <th className="font-normal pb-2 text-right">Error</th>
+                  <th className="font-normal pb-2 text-right">Avg. Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(data?.jobTypes || []).map((type) => (
+                  <tr key={type.jobType} className="border-t border-[#2a2a2a]" data-testid={`row-usage-type-${type.jobType}`}>
+                    <td className="py-2">{jobsChartConfig[type.jobType].label}</td>
+                    <td className="py-2 text-right">{type.total}</td>
+                    <td className="py-2 text-right text-green-500">{percent(type.completed, type.total)}</td>
+                    <td className="py-2 text-right text-red-500">{percent(type.failed, type.total)}</td>
+                    <td className="py-2 text-right">
+                      {type.averageProcessingTime === null ? '—' : `${type.averageProcessingTime.toFixed(1)}s`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
+          <CardHeader>
+            <CardTitle>Top Templates</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {data && data.topTemplates.length === 0 && (
+              <p className="text-sm text-[#888888]">No templates used in this period</p>
+            )}
+            {(data?.topTemplates || []).map((template) => (
+              <div
+                key={template.templateId}
+                className="flex items-center justify-between text-sm"
+                data-testid={`row-usage-template-${template.templateId}`}
+              >
+                <span className="flex items-center gap-2 min-w-0">
+                  <FileText className="w-4 h-4 text-[#ffd700] flex-shrink-0" />
+                  <span className="truncate">{template.name}</span>
+                </span>
+                <span className="text-[#888888]">{template.uses} uses</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
+        <CardHeader>
+          <CardTitle>Spend per Day</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={spendChartConfig} className="h-48 w-full aspect-auto">
+            <BarChart data={data?.spend.perDay || []}>
+              <CartesianGrid vertical={false} stroke="#2a2a2a" />
+              <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis tickFormatter={(value) => `$${value}`} tickLine={false} axisLine={false} width={48} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />} />
+              <Bar dataKey="cost" fill="var(--color-cost)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+          {data && data.spend.unpricedRequests > 0 && (
+            <p className="mt-2 text-xs text-[#888888]">
+              {data.spend.unpricedRequests} model calls have no known pricing and are not included.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
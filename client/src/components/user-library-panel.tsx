@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import { Trash2, Search, Image as ImageIcon, Plus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { responsiveImage } from "@/lib/imageUrls";
 
 interface SavedImage {
   id: string;
@@ -83,7 +84,7 @@ export default function UserLibraryPanel({
   // Delete image mutation
   const deleteImageMutation = useMutation({
     mutationFn: async (imageId: string) => {
-      const response = await apiRequest('DELETE', `/api/library/${imageId}?userId=${userId}`);
+      const response = await apiRequest('DELETE', `/api/library/${imageId}`);
       return await response.json();
     },
     onSuccess: () => {
@@ -208,8 +209,9 @@ export default function UserLibraryPanel({
                   {/* Image */}
                   <div className="aspect-square mb-2 relative overflow-hidden rounded">
                     <img
-                      src={image.objectPath}
+                      {...responsiveImage(image.objectPath, [256, 512], "256px")}
                       alt={image.title}
+                      loading="lazy"
                       className="w-full h-full object-cover"
                     />
                     <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors" />
@@ -0,0 +1,365 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Building2, Check, Plus, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Workspace, WorkspaceMemberWithUser, WorkspaceRole, WorkspaceSummary } from "@shared/schema";
+
+interface WorkspacesResponse {
+  workspaces: WorkspaceSummary[];
+  currentWorkspaceId: string;
+}
+
+// Workspaces grouped under their organization, in the order the server returned them
+function groupByOrganization(workspaces: WorkspaceSummary[]) {
+  const groups = new Map<string, { name: string; workspaces: WorkspaceSummary[] }>();
+  workspaces.forEach((workspace) => {
+    const group = groups.get(workspace.organizationId) || { name: workspace.organizationName, workspaces: [] };
+    group.workspaces.push(workspace);
+    groups.set(workspace.organizationId, group);
+  });
+  return Array.from(groups.entries());
+}
+
+function CreateWorkspaceDialog({
+  open,
+  onOpenChange,
+  organizations,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizations: { id: string; name: string }[];
+}) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [organizationId, setOrganizationId] = useState("new");
+  const [organizationName, setOrganizationName] = useState("");
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/workspaces", {
+        name,
+        ...(organizationId === "new"
+          ? { organizationName: organizationName.trim() || undefined }
+          : { organizationId }),
+      });
+      const workspace = (await response.json()) as Workspace;
+      await apiRequest("POST", "/api/workspaces/current", { workspaceId: workspace.id });
+      return workspace;
+    },
+    onSuccess: (workspace) => {
+      // Everything on screen belongs to the previous workspace
+      queryClient.invalidateQueries();
+      toast({ title: "Workspace created", description: `Switched to ${workspace.name}.` });
+      setName("");
+      setOrganizationName("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create workspace", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#1a1a1a] border-[#2a2a2a] text-white">
+        <DialogHeader>
+          <DialogTitle>New Workspace</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label className="text-xs text-[#888888]">Name</Label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Marketing team"
+              className="mt-1 bg-[#0f0f0f] border-[#2a2a2a]"
+              data-testid="input-workspace-name"
+            />
+          </div>
+          <div>
+            <Label className="text-xs text-[#888888]">Organization</Label>
+            <Select value={organizationId} onValueChange={setOrganizationId}>
+              <SelectTrigger className="mt-1 bg-[#0f0f0f] border-[#2a2a2a]" data-testid="select-workspace-organization">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {organizations.map((organization) => (
+                  <SelectItem key={organization.id} value={organization.id}>{organization.name}</SelectItem>
+                ))}
+                <SelectItem value="new">New organization</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {organizationId === "new" && (
+            <div>
+              <Label className="text-xs text-[#888888]">Organization name</Label>
+              <Input
+                value={organizationName}
+                onChange={(e) => setOrganizationName(e.target.value)}
+                placeholder="Acme Inc."
+                className="mt-1 bg-[#0f0f0f] border-[#2a2a2a]"
+                data-testid="input-organization-name"
+              />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || createMutation.isPending}
+            className="bg-[#ffd700] text-black hover:bg-[#ffd700]/90"
+            data-testid="button-create-workspace"
+          >
+            {createMutation.isPending ? "Creating..." : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MembersDialog({
+  workspace,
+  onOpenChange,
+}: {
+  workspace: WorkspaceSummary | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<WorkspaceRole>("member");
+  const membersKey = `/api/workspaces/${workspace?.id}/members`;
+
+  const { data: members = [] } = useQuery<WorkspaceMemberWithUser[]>({
+    queryKey: [membersKey],
+    enabled: !!workspace,
+    staleTime: 0,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (member: { username: string; role: WorkspaceRole }) => {
+      const response = await apiRequest("POST", membersKey, member);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [membersKey] });
+      setUsername("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save member", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `${membersKey}/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [membersKey] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove member", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!workspace} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#1a1a1a] border-[#2a2a2a] text-white">
+        <DialogHeader>
+          <DialogTitle>{workspace?.name} members</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {members.map((member) => (
+            <div
+              key={member.id}
+              className="flex items-center justify-between gap-2 rounded-lg border border-[#2a2a2a] px-3 py-2"
+              data-testid={`workspace-member-${member.userId}`}
+            >
+              <div className="min-w-0">
+                <p className="text-sm truncate">{member.username}</p>
+                {member.firstName && (
+                  <p className="text-xs text-[#888888] truncate">{member.firstName} {member.lastName}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={member.role}
+                  onValueChange={(value) => saveMutation.mutate({ username: member.username, role: value as WorkspaceRole })}
+                >
+                  <SelectTrigger className="h-8 w-28 bg-[#0f0f0f] border-[#2a2a2a]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="admin">Admin</SelectItem>
+                    <SelectItem value="member">Member</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-[#888888] hover:text-red-400"
+                  onClick={() => removeMutation.mutate(member.userId)}
+                  data-testid={`button-remove-member-${member.userId}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            className="bg-[#0f0f0f] border-[#2a2a2a]"
+            data-testid="input-member-username"
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+            <SelectTrigger className="w-32 bg-[#0f0f0f] border-[#2a2a2a]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="admin">Admin</SelectItem>
+              <SelectItem value="member">Member</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => saveMutation.mutate({ username: username.trim(), role })}
+            disabled={!username.trim() || saveMutation.isPending}
+            className="bg-[#ffd700] text-black hover:bg-[#ffd700]/90"
+            data-testid="button-add-member"
+          >
+            Add
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Workspace picker for the sidebar: switching reloads conversations, library,
+// templates and settings for the chosen workspace
+export function WorkspaceSwitcher() {
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [managing, setManaging] = useState<WorkspaceSummary | null>(null);
+
+  const { data } = useQuery<WorkspacesResponse>({
+    queryKey: ["/api/workspaces"],
+  });
+
+  const switchMutation = useMutation({
+    mutationFn: async (workspaceId: string) => {
+      await apiRequest("POST", "/api/workspaces/current", { workspaceId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to switch workspace", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const workspaces = data?.workspaces || [];
+  const current = workspaces.find((workspace) => workspace.id === data?.currentWorkspaceId);
+  const manageableOrganizations = groupByOrganization(workspaces.filter((workspace) => workspace.canManageOrganization))
+    .map(([id, group]) => ({ id, name: group.name }));
+
+  return (
+    <>
+      <DropdownMenu>
+        <Tooltip delayDuration={300}>
+          <TooltipTrigger asChild>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-12 h-12 p-0 rounded-xl text-[#888888] hover:text-white hover:bg-[#2a2a2a]"
+                data-testid="button-workspace-switcher"
+              >
+                <div className="w-8 h-8 rounded-lg border border-[#444444] bg-[#2a2a2a] flex items-center justify-center">
+                  <span className="text-xs font-semibold text-[#ffd700]">
+                    {current?.name.charAt(0).toUpperCase() || <Building2 className="w-4 h-4" />}
+                  </span>
+                </div>
+              </Button>
+            </DropdownMenuTrigger>
+          </TooltipTrigger>
+          <TooltipContent side="right" className="ml-2">
+            <p>{current ? `${current.organizationName} / ${current.name}` : "Workspaces"}</p>
+          </TooltipContent>
+        </Tooltip>
+        <DropdownMenuContent side="right" align="start" className="w-64 bg-[#1a1a1a] border-[#2a2a2a] text-white">
+          {groupByOrganization(workspaces).map(([organizationId, group]) => (
+            <div key={organizationId}>
+              <DropdownMenuLabel className="text-xs text-[#888888] truncate">{group.name}</DropdownMenuLabel>
+              {group.workspaces.map((workspace) => (
+                <DropdownMenuItem
+                  key={workspace.id}
+                  className="flex items-center gap-2 cursor-pointer"
+                  onSelect={() => {
+                    if (workspace.id !== data?.currentWorkspaceId) switchMutation.mutate(workspace.id);
+                  }}
+                  data-testid={`workspace-${workspace.id}`}
+                >
+                  <Check
+                    className={`w-4 h-4 ${workspace.id === data?.currentWorkspaceId ? "text-[#ffd700]" : "invisible"}`}
+                  />
+                  <span className="flex-1 truncate">{workspace.name}</span>
+                  {workspace.isPersonal === "true" && (
+                    <Badge variant="outline" className="border-[#3a3a3a] text-[10px]">Personal</Badge>
+                  )}
+                  {workspace.canManage && workspace.isPersonal !== "true" && (
+                    <Users
+                      className="w-4 h-4 text-[#888888] hover:text-white"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setManaging(workspace);
+                      }}
+                      data-testid={`button-manage-workspace-${workspace.id}`}
+                    />
+                  )}
+                </DropdownMenuItem>
+              ))}
+            </div>
+          ))}
+          <DropdownMenuSeparator className="bg-[#2a2a2a]" />
+          <DropdownMenuItem
+            className="cursor-pointer"
+            onSelect={() => setCreateOpen(true)}
+            data-testid="button-new-workspace"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <CreateWorkspaceDialog open={createOpen} onOpenChange={setCreateOpen} organizations={manageableOrganizations} />
+      <MembersDialog workspace={managing} onOpenChange={(open) => !open && setManaging(null)} />
+    </>
+  );
+}
@@ -0,0 +1,74 @@
+import { useEffect, useRef } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { Message } from "@shared/schema";
+
+export type JobStatus = 'pending' | 'processing' | 'analyzing' | 'generating' | 'completed' | 'error' | 'cancelled';
+
+export interface ConversationJobEvent {
+  conversationId: string;
+  messageId: string;
+  jobType: 'image' | 'multi-image' | 'multi-image-generate' | 'video';
+  jobId: string;
+  status: JobStatus;
+  error?: string;
+  message?: Message;
+  job?: any;
+}
+
+// Subscribes to job progress for a conversation over server-sent events and keeps
+// the messages query in sync. Replaces polling of the processing job endpoints.
+export function useConversationEvents(
+  conversationId: string | null | undefined,
+  onJobEvent?: (event: ConversationJobEvent) => void
+) {
+  // Keep the latest callback without reopening the stream on every render
+  const onJobEventRef = useRef(onJobEvent);
+  onJobEventRef.current = onJobEvent;
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const messagesKey = ['/api/conversations', conversationId, 'messages'];
+    const source = new EventSource(`/api/conversations/${conversationId}/events`, {
+      withCredentials: true,
+    });
+
+    // Catch up on anything that changed while the stream was (re)connecting
+    source.onopen = () => {
+      queryClient.invalidateQueries({ queryKey: messagesKey });
+    };
+
+    source.addEventListener('job', (e) => {
+      let event: ConversationJobEvent;
+      try {
+        event = JSON.parse((e as MessageEvent).data);
+      } catch (error) {
+        console.error('Invalid job event:', error);
+        return;
+      }
+
+      const updated = event.message;
+      if (updated) {
+        queryClient.setQueryData<Message[]>(messagesKey, (messages) => {
+          if (!messages) return messages;
+          return messages.some(msg => msg.id === updated.id)
+            ? messages.map(msg => (msg.id === updated.id ? updated : msg))
+            : [...messages, updated];
+        });
+      } else {
+        queryClient.invalidateQueries({ queryKey: messagesKey });
+      }
+
+      onJobEventRef.current?.(event);
+    });
+
+    // EventSource reconnects on its own; just note the interruption
+    source.onerror = () => {
+      console.warn('Job event stream interrupted, reconnecting...');
+    };
+
+    return () => {
+      source.close();
+    };
+  }, [conversationId]);
+}
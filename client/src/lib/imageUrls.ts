@@ -0,0 +1,38 @@
+import type { ImageDerivativeQuality, ImageDerivativeSize } from "@shared/schema";
+
+// Stored images can be fetched resized (see server/imageDerivatives.ts); other URLs,
+// such as provider URLs and data URLs, are used as they are. The server only renders
+// the sizes and qualities in imageDerivativeSizes / imageDerivativeQualities.
+const RESIZABLE_URL = /^\/(objects|public-objects)\//;
+
+export interface ImageVariant {
+  width?: ImageDerivativeSize;
+  height?: ImageDerivativeSize;
+  fit?: "cover" | "contain" | "inside" | "outside" | "fill";
+  format?: "webp" | "avif" | "jpeg" | "png";
+  quality?: ImageDerivativeQuality;
+}
+
+export function imageVariantUrl(url: string, variant: ImageVariant): string {
+  if (!RESIZABLE_URL.test(url)) return url;
+
+  const params = new URLSearchParams();
+  if (variant.width) params.set("w", String(variant.width));
+  if (variant.height) params.set("h", String(variant.height));
+  if (variant.fit) params.set("fit", variant.fit);
+  params.set("format", variant.format || "webp");
+  if (variant.quality) params.set("q", String(variant.quality));
+  return `${url}${url.includes("?") ? "&" : "?"}${params.toString()}`;
+}
+
+// src, srcSet and sizes for an <img> shown at up to `sizes` wide: one variant per
+// width, so the browser picks the smallest that is sharp on the current screen
+export function responsiveImage(url: string, widths: ImageDerivativeSize[], sizes: string) {
+  if (!RESIZABLE_URL.test(url)) return { src: url };
+
+  return {
+    src: imageVariantUrl(url, { width: widths[0] }),
+    srcSet: widths.map((width) => `${imageVariantUrl(url, { width })} ${width}w`).join(", "),
+    sizes,
+  };
+}
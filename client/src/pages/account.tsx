@@ -8,24 +8,34 @@ import {
   User, 
   Mail, 
   Shield, 
-  CreditCard, 
-  BarChart3, 
-  Calendar,
-  Settings,
   Crown
 } from "lucide-react";
+import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { UsageAnalyticsPanel } from "@/components/usage-analytics";
+import { QuotaAllowance } from "@/components/quota-allowance";
+import { BillingPanel } from "@/components/billing-panel";
+import { BrandKitPanel } from "@/components/brand-kit-panel";
+
+// /usage, /security, /billing and /brand open the matching tab
+const TAB_ROUTES: Record<string, string> = {
+  "/usage": "usage",
+  "/security": "security",
+  "/billing": "billing",
+  "/brand": "brand",
+};
 
 export default function Account() {
   const { user } = useAuth();
+  const [location] = useLocation();
 
   return (
     <div className="min-h-screen bg-[#0f0f0f] text-white p-6">
       <div className="max-w-4xl mx-auto">
         <h1 className="text-2xl font-bold mb-6">Account Management</h1>
 
-        <Tabs defaultValue="info" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4 bg-[#1a1a1a] border border-[#2a2a2a]">
+        <Tabs defaultValue={TAB_ROUTES[location] || "info"} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-5 bg-[#1a1a1a] border border-[#2a2a2a]">
             <TabsTrigger value="info" className="data-[state=active]:bg-white/10 data-[state=active]:text-white data-[state=active]:border-b-2 data-[state=active]:border-white/30">
               Account Info
             </TabsTrigger>
@@ -38,6 +48,9 @@ export default function Account() {
             <TabsTrigger value="billing" className="data-[state=active]:bg-white/10 data-[state=active]:text-white data-[state=active]:border-b-2 data-[state=active]:border-white/30">
               Billing
             </TabsTrigger>
+            <TabsTrigger value="brand" className="data-[state=active]:bg-white/10 data-[state=active]:text-white data-[state=active]:border-b-2 data-[state=active]:border-white/30">
+              Brand
+            </TabsTrigger>
           </TabsList>
 
           {/* Account Info Tab */}
@@ -103,40 +116,8 @@ export default function Account() {
 
           {/* Usage Tab */}
           <TabsContent value="usage" className="space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
-                <CardContent className="p-4 text-center">
-                  <BarChart3 className="w-8 h-8 text-[#ffd700] mx-auto mb-2" />
-                  <div className="text-2xl font-bold">245</div>
-                  <div className="text-sm text-[#888888]">Images Processed</div>
-                </CardContent>
-              </Card>
-              <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
-                <CardContent className="p-4 text-center">
-                  <Calendar className="w-8 h-8 text-[#ffd700] mx-auto mb-2" />
-                  <div className="text-2xl font-bold">12</div>
-                  <div className="text-sm text-[#888888]">Days Active</div>
-                </CardContent>
-              </Card>
-              <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
-                <CardContent className="p-4 text-center">
-                  <Settings className="w-8 h-8 text-[#ffd700] mx-auto mb-2" />
-                  <div className="text-2xl font-bold">15.2GB</div>
-                  <div className="text-sm text-[#888888]">Storage Used</div>
-                </CardContent>
-              </Card>
-            </div>
-
-            <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
-              <CardHeader>
-                <CardTitle>Monthly Usage</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-8 text-[#888888]">
-                  Usage analytics and charts will be displayed here
-                </div>
-              </CardContent>
-            </Card>
+            <QuotaAllowance />
+            <UsageAnalyticsPanel />
           </TabsContent>
 
           {/* Security Tab */}
@@ -185,59 +166,12 @@ export default function Account() {
 
           {/* Billing Tab */}
           <TabsContent value="billing" className="space-y-6">
-            <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <CreditCard className="w-5 h-5" />
-                  Subscription & Billing
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="flex items-center justify-between p-4 bg-[#0f0f0f] rounded-lg border border-[#2a2a2a]">
-                  <div>
-                    <div className="font-semibold">Free Plan</div>
-                    <div className="text-sm text-[#888888]">100 image generations per month</div>
-                  </div>
-                  <Badge variant="outline" className="border-[#ffd700] text-[#ffd700]">
-                    Current Plan
-                  </Badge>
-                </div>
-                
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <Card className="bg-[#0f0f0f] border-[#2a2a2a]">
-                    <CardContent className="p-4">
-                      <div className="text-lg font-semibold mb-2">Pro Plan</div>
-                      <div className="text-2xl font-bold text-[#ffd700] mb-2">$19/month</div>
-                      <ul className="text-sm text-[#888888] space-y-1">
-                        <li>• Unlimited image generations</li>
-                        <li>• Priority processing</li>
-                        <li>• Advanced features</li>
-                        <li>• Email support</li>
-                      </ul>
-                      <Button className="w-full mt-4 bg-[#ffd700] hover:bg-[#ffd700]/90 text-black">
-                        Upgrade to Pro
-                      </Button>
-                    </CardContent>
-                  </Card>
-                  
-                  <Card className="bg-[#0f0f0f] border-[#2a2a2a]">
-                    <CardContent className="p-4">
-                      <div className="text-lg font-semibold mb-2">Enterprise</div>
-                      <div className="text-2xl font-bold text-[#ffd700] mb-2">Custom</div>
-                      <ul className="text-sm text-[#888888] space-y-1">
-                        <li>• Custom API access</li>
-                        <li>• Dedicated support</li>
-                        <li>• Custom integrations</li>
-                        <li>• SLA guarantee</li>
-                      </ul>
-                      <Button variant="outline" className="w-full mt-4 border-[#ffd700] text-[#ffd700] hover:bg-[#ffd700] hover:text-black">
-                        Contact Sales
-                      </Button>
-                    </CardContent>
-                  </Card>
-                </div>
-              </CardContent>
-            </Card>
+            <BillingPanel />
+          </TabsContent>
+
+          {/* Brand Tab */}
+          <TabsContent value="brand" className="space-y-6">
+            <BrandKitPanel />
           </TabsContent>
         </Tabs>
       </div>
@@ -0,0 +1,273 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, Download, ScrollText } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import type { AuditChanges, AuditLogEntry } from "@shared/schema";
+
+const PAGE_SIZE = 50;
+
+const TARGET_TYPES: { value: string; label: string }[] = [
+  { value: "model_config", label: "Model configuration" },
+  { value: "model_capability", label: "Model capabilities" },
+  { value: "application_function", label: "Application functions" },
+  { value: "prompt_template", label: "Prompt templates" },
+  { value: "quota", label: "Quotas" },
+  { value: "credits", label: "Credits" },
+  { value: "workspace", label: "Workspaces" },
+  { value: "workspace_member", label: "Workspace members" },
+  { value: "storage", label: "Storage cleanup" },
+  { value: "brand_kit", label: "Brand kits" },
+];
+
+interface AuditFilters {
+  targetType: string;
+  actor: string;
+  from: string; // yyyy-mm-dd, inclusive
+  to: string; // yyyy-mm-dd, inclusive
+}
+
+// Query string for the API; the end date is made exclusive by moving it a day on
+function filterParams(filters: AuditFilters) {
+  const params = new URLSearchParams();
+  if (filters.targetType !== "all") params.set("targetType", filters.targetType);
+  if (filters.actor.trim()) params.set("actor", filters.actor.trim());
+  if (filters.from) params.set("from", new Date(filters.from).toISOString());
+  if (filters.to) {
+    const to = new Date(filters.to);
+    to.setUTCDate(to.getUTCDate() + 1);
+    params.set("to", to.toISOString());
+  }
+  return params;
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function ChangesTable({ changes }: { changes: AuditChanges }) {
+  const fields = Object.keys(changes);
+  if (fields.length === 0) {
+    return <p className="text-xs text-[#888888]">No field changes recorded.</p>;
+  }
+
+  return (
+    <div className="space-y-1 text-xs font-mono">
+      {fields.map((field) => (
+        <div key={field} className="grid grid-cols-[10rem_1fr_1fr] gap-3">
+          <span className="text-[#888888] truncate">{field}</span>
+          <span className="text-red-400 break-all">{formatValue(changes[field].before)}</span>
+          <span className="text-green-400 break-all">{formatValue(changes[field].after)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Admin configuration changes with filters, paging and CSV export
+export default function AuditLog() {
+  const { isAdmin } = useAuth();
+  const [filters, setFilters] = useState<AuditFilters>({ targetType: "all", actor: "", from: "", to: "" });
+  const [offset, setOffset] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const params = filterParams(filters);
+  const pageParams = new URLSearchParams(params);
+  pageParams.set("limit", String(PAGE_SIZE));
+  pageParams.set("offset", String(offset));
+
+  const { data, isLoading } = useQuery<{ entries: AuditLogEntry[]; total: number }>({
+    queryKey: [`/api/admin/audit-log?${pageParams.toString()}`],
+    enabled: isAdmin,
+    staleTime: 0,
+  });
+
+  const updateFilters = (updates: Partial<AuditFilters>) => {
+    setFilters({ ...filters, ...updates });
+    setOffset(0);
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-[#0f0f0f] text-white p-6">
+        <p className="text-[#888888]">Admin access required.</p>
+      </div>
+    );
+  }
+
+  const entries = data?.entries || [];
+  const total = data?.total || 0;
+
+  return (
+    <div className="min-h-screen bg-[#0f0f0f] text-white p-6">
+      <div className="max-w-6xl mx-auto">
+        <h1 className="text-2xl font-bold mb-6">Audit Log</h1>
+
+        <Card className="bg-[#1a1a1a] border-[#2a2a2a]">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <ScrollText className="w-5 h-5" />
+                Configuration Changes
+              </span>
+              <Button
+                asChild
+                size="sm"
+                variant="outline"
+                className="border-[#3a3a3a] text-[#e0e0e0] hover:bg-[#2a2a2a]"
+                data-testid="button-export-audit-log"
+              >
+                <a href={`/api/admin/audit-log/export.csv?${params.toString()}`} download>
+                  <Download className="w-4 h-4 mr-1" />
+                  Export CSV
+                </a>
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div>
+                <Label className="text-xs text-[#888888]">Target</Label>
+                <Select value={filters.targetType} onValueChange={(targetType) => updateFilters({ targetType })}>
+                  <SelectTrigger className="mt-1 bg-[#0f0f0f] border-[#2a2a2a]" data-testid="select-audit-target">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All targets</SelectItem>
+                    {TARGET_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-xs text-[#888888]">Actor</Label>
+                <Input
+                  value={filters.actor}
+                  onChange={(e) => updateFilters({ actor: e.target.value })}
+                  placeholder="Username"
+                  className="mt-1 bg-[#0f0f0f] border-[#2a2a2a]"
+                  data-testid="input-audit-actor"
+                />
+              </div>
+              <div>
+                <Label className="text-xs text-[#888888]">From</Label>
+                <Input
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => updateFilters({ from: e.target.value })}
+                  className="mt-1 bg-[#0f0f0f] border-[#2a2a2a]"
+                  data-testid="input-audit-from"
+                />
+              </div>
+              <div>
+                <Label className="text-xs text-[#888888]">To</Label>
+                <Input
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => updateFilters({ to: e.target.value })}
+                  className="mt-1 bg-[#0f0f0f] border-[#2a2a2a]"
+                  data-testid="input-audit-to"
+                />
+              </div>
+            </div>
+
+            {isLoading ? (
+              <p className="text-sm text-[#888888]">Loading...</p>
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-[#888888]">No changes match these filters.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-[#2a2a2a]">
+                    <TableHead className="w-8" />
+                    <TableHead>Time</TableHead>
+                    <TableHead>Actor</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Target</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => {
+                    const isExpanded = expanded === entry.id;
+                    return (
+                      <Fragment key={entry.id}>
+                        <TableRow
+                          className="border-[#2a2a2a] cursor-pointer hover:bg-[#2a2a2a]/50"
+                          onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                          data-testid={`audit-entry-${entry.id}`}
+                        >
+                          <TableCell>
+                            {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                          </TableCell>
+                          <TableCell className="text-sm whitespace-nowrap">
+                            {new Date(entry.createdAt).toLocaleString()}
+                          </TableCell>
+                          <TableCell className="text-sm">{entry.actorUsername}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="border-[#3a3a3a] font-mono text-xs">
+                              {entry.action}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-sm text-[#888888] truncate max-w-xs">
+                            {entry.targetId || entry.targetType}
+                          </TableCell>
+                        </TableRow>
+                        {isExpanded && (
+                          <TableRow className="border-[#2a2a2a] bg-[#0f0f0f]">
+                            <TableCell />
+                            <TableCell colSpan={4}>
+                              <ChangesTable changes={entry.changes} />
+                              {entry.ipAddress && (
+                                <p className="text-xs text-[#888888] mt-2">From {entry.ipAddress}</p>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            {total > PAGE_SIZE && (
+              <div className="flex items-center justify-between text-sm text-[#888888]">
+                <span>
+                  {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={offset === 0}
+                    onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                    className="border-[#3a3a3a] text-[#e0e0e0] hover:bg-[#2a2a2a]"
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={offset + PAGE_SIZE >= total}
+                    onClick={() => setOffset(offset + PAGE_SIZE)}
+                    className="border-[#3a3a3a] text-[#e0e0e0] hover:bg-[#2a2a2a]"
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
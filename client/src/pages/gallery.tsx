@@ -3,17 +3,17 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { Trash2, Download, Search, Calendar } from "lucide-react";
+import { Trash2, Download, Search, Calendar, Share2 } from "lucide-react";
 import { useState } from "react";
 import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useAuth } from "@/hooks/useAuth";
 import { SavedImage } from "@shared/schema";
+import { ObjectSharingDialog } from "@/components/object-sharing-dialog";
 
 export default function Gallery() {
   const [searchTerm, setSearchTerm] = useState("");
+  const [sharingPath, setSharingPath] = useState<string | null>(null);
   const { toast } = useToast();
-  const { user } = useAuth();
 
   // Fetch user's saved images
   const { data: savedImages = [], isLoading } = useQuery<SavedImage[]>({
@@ -29,7 +29,7 @@ export default function Gallery() {
   // Delete image mutation
   const deleteImageMutation = useMutation({
     mutationFn: async (imageId: string) => {
-      const response = await apiRequest('DELETE', `/api/library/${imageId}?userId=${user?.id}`);
+      const response = await apiRequest('DELETE', `/api/library/${imageId}`);
       return response;
     },
     onSuccess: () => {
@@ -171,6 +171,18 @@ export default function Gallery() {
                       >
                         <Download className="w-4 h-4" />
                       </Button>
+                      {image.objectPath.startsWith('/objects/') && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="w-8 h-8 p-0 bg-black/70 hover:bg-black/90"
+                          onClick={() => setSharingPath(image.objectPath)}
+                          data-testid={`share-${image.id}`}
+                          title="Share image"
+                        >
+                          <Share2 className="w-4 h-4" />
+                        </Button>
+                      )}
                       <Button
                         size="sm"
                         variant="ghost"
@@ -223,6 +235,8 @@ export default function Gallery() {
           </div>
         )}
       </div>
+
+      <ObjectSharingDialog objectPath={sharingPath} onOpenChange={(open) => !open && setSharingPath(null)} />
     </div>
   );
 }
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
-import { Settings, Wand2, Home, ArrowLeft, LogOut, User, MessageSquare } from 'lucide-react';
+import { Settings, Wand2, Home, ArrowLeft, LogOut, User, MessageSquare, Globe } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
@@ -15,6 +15,7 @@ import { GalleryView } from '@/components/gallery-view';
 import ImageEditorPanel from '@/components/image-editor-panel';
 import VideoEditorPanel from '@/components/video-editor-panel';
 import { ResizablePanels } from '@/components/resizable-panels';
+import { ConversationShareDialog } from '@/components/conversation-share-dialog';
 import { getModelDisplayName, getActiveModel } from '@/lib/openrouter';
 import type { Conversation, ModelConfiguration } from '@shared/schema';
 
@@ -26,6 +27,7 @@ export default function ImageEditor() {
   const [currentConversation, setCurrentConversation] = useState<Conversation | null>(null);
   const [configOpen, setConfigOpen] = useState(false);
   const [promptEngineeringOpen, setPromptEngineeringOpen] = useState(false);
+  const [publishOpen, setPublishOpen] = useState(false);
   const [processedImageUrl, setProcessedImageUrl] = useState<string | null>(null);
   const [processedVideoUrl, setProcessedVideoUrl] = useState<string | null>(null);
   const [selectedFunction, setSelectedFunction] = useState<'image-enhancement' | 'image-to-video' | 'multiple-images-llm'>('image-enhancement');
@@ -138,7 +140,19 @@ export default function ImageEditor() {
           
           <div className="h-6 w-px bg-[#2a2a2a] mx-2" />
 
-
+          {currentConversation && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setPublishOpen(true)}
+              data-testid="publish-conversation-button"
+              className="text-[#e0e0e0] hover:bg-[#2a2a2a] hover:text-white"
+              title="Publish a read-only copy of this conversation"
+            >
+              <Globe className="w-4 h-4 mr-1" />
+              <span className="text-xs">Publish</span>
+            </Button>
+          )}
 
           {/* Admin-Only Controls */}
           {isAdmin && (
@@ -376,6 +390,12 @@ export default function ImageEditor() {
           selectedFunction={selectedFunction}
           isAdmin={isAdmin}
         />
+
+        {/* Publish a read-only snapshot of the conversation */}
+        <ConversationShareDialog
+          conversation={publishOpen ? currentConversation : null}
+          onOpenChange={setPublishOpen}
+        />
       </div>
     </div>
   );
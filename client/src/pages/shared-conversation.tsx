@@ -0,0 +1,82 @@
+import { useQuery } from "@tanstack/react-query";
+import { useRoute } from "wouter";
+import { Bot, User, Wand2 } from "lucide-react";
+import ImageComparison from "@/components/image-comparison";
+import type { ConversationSnapshot, ConversationSnapshotMessage } from "@shared/schema";
+
+function SnapshotMessage({ message }: { message: ConversationSnapshotMessage }) {
+  const isUser = message.role === "user";
+
+  return (
+    <div className={`flex gap-3 ${isUser ? "flex-row-reverse" : ""}`} data-testid={`shared-message-${message.role}`}>
+      <div className="w-8 h-8 shrink-0 rounded-full bg-[#2a2a2a] flex items-center justify-center">
+        {isUser ? <User className="w-4 h-4 text-[#e0e0e0]" /> : <Bot className="w-4 h-4 text-[#ffd700]" />}
+      </div>
+      <div className={`max-w-[85%] space-y-3 ${isUser ? "items-end text-right" : ""}`}>
+        {message.content && (
+          <div className={`inline-block rounded-lg px-4 py-2 text-sm whitespace-pre-wrap text-left ${isUser ? "bg-[#2a2a2a]" : "bg-[#1a1a1a] border border-[#2a2a2a]"}`}>
+            {message.content}
+          </div>
+        )}
+
+        {message.videoUrl ? (
+          <video src={message.videoUrl} controls className="rounded-lg max-h-[480px] w-full bg-black" />
+        ) : message.comparison ? (
+          <div className="h-[520px] w-[min(720px,80vw)] rounded-lg border border-[#2a2a2a] bg-[#1a1a1a]">
+            <ImageComparison
+              originalImageUrl={message.comparison.originalImageUrl}
+              processedImageUrl={message.comparison.processedImageUrl}
+              readOnly
+            />
+          </div>
+        ) : message.imageUrl ? (
+          <img src={message.imageUrl} alt="" className="rounded-lg max-h-[360px] inline-block" />
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+// Read-only view of a published conversation, opened without signing in
+export default function SharedConversation() {
+  const [, params] = useRoute("/p/:token");
+  const { data: snapshot, isLoading, error } = useQuery<ConversationSnapshot>({
+    queryKey: [`/api/public/conversations/${params?.token}`],
+    enabled: !!params?.token,
+    retry: false,
+  });
+
+  return (
+    <div className="min-h-screen bg-[#0f0f0f] text-white">
+      <header className="border-b border-[#2a2a2a] px-6 py-4 flex items-center gap-3 bg-[#1a1a1a]">
+        <div className="w-8 h-8 border border-[#ffd700] bg-[#ffd700]/10 rounded-lg flex items-center justify-center">
+          <Wand2 className="w-4 h-4 text-[#ffd700]" />
+        </div>
+        <div className="min-w-0">
+          <h1 className="font-semibold truncate">{snapshot?.title || "Shared conversation"}</h1>
+          {snapshot && (
+            <p className="text-xs text-[#888888]">
+              Started {new Date(snapshot.createdAt).toLocaleDateString()} · read-only
+            </p>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-6 py-8 space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#ffd700]"></div>
+          </div>
+        ) : error || !snapshot ? (
+          <p className="text-center text-[#888888] py-16" data-testid="shared-conversation-unavailable">
+            This conversation is not published, or it has been unpublished.
+          </p>
+        ) : snapshot.messages.length === 0 ? (
+          <p className="text-center text-[#888888] py-16">This conversation has no messages yet.</p>
+        ) : (
+          snapshot.messages.map((message, index) => <SnapshotMessage key={index} message={message} />)
+        )}
+      </main>
+    </div>
+  );
+}
@@ -50,7 +50,7 @@ export default function UserLibrary({ userId = 'default' }: UserLibraryProps) {
   // Delete image mutation
   const deleteImageMutation = useMutation({
     mutationFn: async (imageId: string) => {
-      const response = await apiRequest('DELETE', `/api/library/${imageId}?userId=${userId}`);
+      const response = await apiRequest('DELETE', `/api/library/${imageId}`);
       return await response.json();
     },
     onSuccess: () => {
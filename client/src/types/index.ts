@@ -1,3 +1,5 @@
+import type { ResolvedModelCapabilities } from '@shared/schema';
+
 export interface OpenRouterModel {
   id: string;
   name: string;
@@ -21,6 +23,7 @@ export interface OpenRouterModel {
     prompt_tokens: string;
     completion_tokens: string;
   };
+  capabilities?: ResolvedModelCapabilities; // From the capability registry
 }
 
 export interface UploadedImage {
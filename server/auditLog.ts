@@ -0,0 +1,109 @@
+import { storage } from "./storage";
+import type { AuditChanges, AuditLogEntry } from "@shared/schema";
+
+// Keys whose values are never written to the audit log (API keys, passwords, auth
+// headers). Matching is by key name at any depth, so endpoint keys inside
+// providerEndpoints are covered too.
+const SECRET_KEY = /api[-_]?key$|secret|password|authorization|(^|[-_])token$|accesstoken|refreshtoken/i;
+
+export const REDACTED = '[redacted]';
+
+// Fields that change on every write and say nothing about what an admin did
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+function redactValue(key: string, value: unknown): unknown {
+  if (SECRET_KEY.test(key)) {
+    return value === null || value === undefined || value === '' ? value : REDACTED;
+  }
+  return redactSecrets(value);
+}
+
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (value instanceof Date) return value.toISOString();
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, redactValue(key, field)])
+    );
+  }
+  return value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Top-level fields that differ between two versions of a record, with secrets
+// redacted. Changes are detected on the raw values, so replacing a secret still
+// shows up (as redacted before/after values).
+export function diffRecords(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  keys.forEach(key => {
+    if (IGNORED_FIELDS.has(key)) return;
+    const previous = before?.[key];
+    const next = after?.[key];
+    if (before && after && sameValue(previous, next)) return;
+
+    changes[key] = {
+      ...(before ? { before: redactValue(key, previous ?? null) } : {}),
+      ...(after ? { after: redactValue(key, next ?? null) } : {}),
+    };
+  });
+  return changes;
+}
+
+export interface AuditEvent {
+  action: string; // <targetType>.<verb>, e.g. "prompt_template.update"
+  targetType: string;
+  targetId?: string | null;
+  before?: Record<string, any> | null; // Omitted for creations
+  after?: Record<string, any> | null; // Omitted for deletions
+}
+
+// Appends an entry for a change made by the request's user. Failing to audit must not
+// undo or fail the change itself, so errors are only logged.
+export async function recordAudit(req: any, event: AuditEvent): Promise<void> {
+  try {
+    const changes = diffRecords(event.before, event.after);
+    if (event.before && event.after && Object.keys(changes).length === 0) return; // No-op update
+
+    await storage.createAuditLogEntry({
+      actorId: req.user?.id || null,
+      actorUsername: req.user?.username || 'unknown',
+      action: event.action,
+      targetType: event.targetType,
+      targetId: event.targetId ?? null,
+      changes,
+      ipAddress: req.ip || null,
+    });
+  } catch (error) {
+    console.error(`[Audit] Failed to record ${event.action}:`, error);
+  }
+}
+
+// Most rows a single CSV export contains; narrow the filters for older entries
+export const AUDIT_EXPORT_LIMIT = 10000;
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditLogToCsv(entries: AuditLogEntry[]): string {
+  const header = ['time', 'actor', 'action', 'target_type', 'target_id', 'ip_address', 'changes'];
+  const rows = entries.map(entry => [
+    entry.createdAt.toISOString(),
+    entry.actorUsername,
+    entry.action,
+    entry.targetType,
+    entry.targetId,
+    entry.ipAddress,
+    JSON.stringify(entry.changes),
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,228 @@
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { paymentProviders } from "./payments";
+import type {
+  BillingPlan,
+  InsertBillingPlan,
+  InsufficientCreditsResponse,
+  Invoice,
+  UsageLedgerEntry,
+  User,
+} from "@shared/schema";
+
+// Credits charged per USD of model cost (1 credit = 1 cent by default)
+export const CREDITS_PER_USD = parseFloat(process.env.CREDITS_PER_USD || '100') || 100;
+
+// Seeded when no plans exist
+const DEFAULT_PLANS: InsertBillingPlan[] = [
+  { planKey: 'free', name: 'Free Plan', description: '100 credits every month', interval: 'month', priceCents: 0, credits: '100', sortOrder: 0 },
+  { planKey: 'pro', name: 'Pro Plan', description: '2,500 credits every month', interval: 'month', priceCents: 1900, credits: '2500', sortOrder: 1 },
+  { planKey: 'credits-1000', name: 'Credit Pack', description: '1,000 credits, never expire', interval: 'one-time', priceCents: 1000, credits: '1000', sortOrder: 2 },
+];
+
+function addMonths(date: Date, months: number): Date {
+  const next = new Date(date);
+  next.setUTCMonth(next.getUTCMonth() + months);
+  return next;
+}
+
+export async function getBillingPlans(): Promise<BillingPlan[]> {
+  let plans = await storage.getBillingPlans();
+  if (plans.length === 0) {
+    await storage.createBillingPlans(DEFAULT_PLANS);
+    plans = await storage.getBillingPlans();
+  }
+  return plans;
+}
+
+async function getPlan(planKey: string): Promise<BillingPlan | undefined> {
+  await getBillingPlans();
+  return storage.getBillingPlan(planKey);
+}
+
+// Grants the monthly credits of the user's plan when a new period has started
+async function grantPeriodCredits(userId: string): Promise<void> {
+  const account = await storage.getOrCreateBillingAccount(userId);
+  const plan = await getPlan(account.planKey);
+  if (!plan || plan.interval !== 'month') return;
+
+  const now = new Date();
+  if (account.periodStart && addMonths(account.periodStart, 1) > now) return;
+
+  // Periods run monthly from the first grant; a long gap starts afresh today
+  let periodStart = account.periodStart ? addMonths(account.periodStart, 1) : now;
+  if (addMonths(periodStart, 1) <= now) periodStart = now;
+
+  if (!(await storage.startBillingPeriod(userId, account.periodStart, periodStart))) return;
+
+  if (parseFloat(plan.credits) > 0) {
+    await storage.createCreditLedgerEntry({
+      userId,
+      kind: 'grant',
+      amount: plan.credits,
+      description: `${plan.name} credits for the period starting ${periodStart.toISOString().slice(0, 10)}`,
+    });
+    console.log(`[Billing] Granted ${plan.credits} ${plan.planKey} credits to ${userId}`);
+  }
+}
+
+export async function getCreditBalance(userId: string): Promise<string> {
+  await grantPeriodCredits(userId);
+  return storage.getCreditBalance(userId);
+}
+
+export async function getBillingAccountSummary(userId: string) {
+  const balance = await getCreditBalance(userId);
+  const account = await storage.getOrCreateBillingAccount(userId);
+  const plan = await getPlan(account.planKey);
+  return {
+    plan: plan || null,
+    balance,
+    periodStart: account.periodStart,
+    periodEnd: account.periodStart && plan?.interval === 'month' ? addMonths(account.periodStart, 1) : null,
+    creditsPerUsd: CREDITS_PER_USD,
+  };
+}
+
+// Charges the user for one priced model call; failing to debit must not fail the job
+export async function debitUsage(entry: UsageLedgerEntry): Promise<void> {
+  if (!entry.userId || entry.cost === null) return;
+  const credits = parseFloat(entry.cost) * CREDITS_PER_USD;
+  if (!(credits > 0)) return;
+
+  try {
+    await storage.createCreditLedgerEntry({
+      userId: entry.userId,
+      kind: 'debit',
+      amount: (-credits).toFixed(4),
+      description: `${entry.operation} · ${entry.model}`,
+      jobType: entry.jobId ? entry.operation : null,
+      jobId: entry.jobId,
+      usageLedgerId: entry.id,
+    });
+  } catch (error) {
+    console.error(`[Billing] Failed to debit usage ${entry.id}:`, error);
+  }
+}
+
+// Admin credit correction; negative amounts remove credits
+export async function adjustCredits(userId: string, amount: number, description: string) {
+  return storage.createCreditLedgerEntry({
+    userId,
+    kind: 'adjustment',
+    amount: amount.toFixed(4),
+    description,
+  });
+}
+
+function invoiceNumber(): string {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  return `INV-${date}-${randomBytes(3).toString('hex').toUpperCase()}`;
+}
+
+// Applies a payment outcome; paid invoices grant their credits and, for monthly
+// plans, switch the account to the plan with a period starting now
+export async function settleInvoice(invoice: Invoice, status: 'paid' | 'failed'): Promise<Invoice> {
+  const settled = await storage.settlePendingInvoice(invoice.id, status);
+  if (!settled) {
+    return (await storage.getInvoice(invoice.id)) || invoice; // Already settled
+  }
+
+  console.log(`[Billing] Invoice ${settled.number} ${status}`);
+  if (status !== 'paid') return settled;
+
+  await storage.createCreditLedgerEntry({
+    userId: settled.userId,
+    kind: 'purchase',
+    amount: settled.credits,
+    description: settled.description,
+    invoiceId: settled.id,
+  });
+
+  const plan = await getPlan(settled.planKey);
+  if (plan?.interval === 'month') {
+    const account = await storage.getOrCreateBillingAccount(settled.userId);
+    await storage.startBillingPeriod(settled.userId, account.periodStart, new Date(), plan.planKey);
+  }
+  return settled;
+}
+
+// Starts buying a plan or credit pack. Free plans switch at once without an invoice.
+export async function startCheckout(user: User, planKey: string) {
+  const plan = await getPlan(planKey);
+  if (!plan || plan.enabled !== 'true') {
+    throw new Error(`Unknown plan: ${planKey}`);
+  }
+
+  if (plan.priceCents === 0) {
+    const account = await storage.getOrCreateBillingAccount(user.id);
+    // The current period's credits were already granted; the plan applies from the next
+    await storage.startBillingPeriod(user.id, account.periodStart, account.periodStart || new Date(0), plan.planKey);
+    return { invoice: null, checkoutUrl: null };
+  }
+
+  const provider = paymentProviders.active();
+  let invoice = await storage.createInvoice({
+    number: invoiceNumber(),
+    userId: user.id,
+    planKey: plan.planKey,
+    description: plan.interval === 'month' ? `${plan.name} (monthly)` : plan.name,
+    amountCents: plan.priceCents,
+    currency: plan.currency,
+    credits: plan.credits,
+    status: 'pending',
+    provider: provider.id,
+  });
+
+  const checkout = await provider.createCheckout(invoice, plan, user);
+  invoice = (await storage.updateInvoice(invoice.id, { providerReference: checkout.reference })) || invoice;
+
+  if (checkout.status !== 'pending') {
+    invoice = await settleInvoice(invoice, checkout.status);
+  }
+  return { invoice, checkoutUrl: checkout.checkoutUrl };
+}
+
+export async function handlePaymentWebhook(
+  providerId: string,
+  body: any,
+  headers: Record<string, string | string[] | undefined>
+): Promise<Invoice | null> {
+  const provider = paymentProviders.get(providerId);
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${providerId}`);
+  }
+
+  const event = await provider.parseWebhook(body, headers);
+  if (!event) return null;
+
+  const invoice = await storage.getInvoiceByReference(provider.id, event.reference);
+  if (!invoice) {
+    throw new Error(`No invoice for payment ${event.reference}`);
+  }
+  return settleInvoice(invoice, event.status);
+}
+
+// Rejects processing requests from users without credits with a 402. Admins are
+// not billed; BILLING_ENFORCED=false only records debits.
+export async function requireCredits(req: any, res: any, next: any) {
+  try {
+    if (process.env.BILLING_ENFORCED === 'false' || req.user?.role === 'admin') return next();
+
+    const userId = req.user?.claims?.sub || req.user?.id || 'default';
+    const balance = await getCreditBalance(userId);
+    if (parseFloat(balance) > 0) return next();
+
+    console.log(`[Billing] Rejected request from ${userId}: balance ${balance}`);
+    const body: InsufficientCreditsResponse = {
+      message: 'You have run out of credits. Buy a credit pack or upgrade your plan to continue.',
+      code: 'insufficient_credits',
+      balance,
+    };
+    res.status(402).json(body);
+  } catch (error) {
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Failed to check credit balance"
+    });
+  }
+}
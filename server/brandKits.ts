@@ -0,0 +1,135 @@
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { objectStorageService } from "./processing";
+import { getWorkspaceAccess, type WorkspaceAccess } from "./workspaces";
+import type { BrandKit, Conversation, MultiImageProcessingJob, User } from "@shared/schema";
+
+export class BrandKitError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "BrandKitError";
+    Object.setPrototypeOf(this, BrandKitError.prototype);
+  }
+}
+
+type PromptBundle = NonNullable<MultiImageProcessingJob["promptBundle"]>;
+
+// A kit the user can see: any member of its workspace can use it. With `manage`, only
+// workspace admins pass.
+export async function getBrandKitAccess(
+  user: User,
+  id: string,
+  manage = false
+): Promise<{ kit: BrandKit; access: WorkspaceAccess }> {
+  const kit = await storage.getBrandKit(id);
+  const access = kit ? await getWorkspaceAccess(user, kit.workspaceId) : null;
+  if (!kit || !access) {
+    throw new BrandKitError(404, 'Brand kit not found');
+  }
+  if (manage && !access.canManage) {
+    throw new BrandKitError(403, 'Only workspace admins can edit brand kits');
+  }
+  return { kit, access };
+}
+
+// The kit a processing request names, which must belong to the conversation's workspace
+export async function resolveRequestBrandKit(
+  user: User,
+  conversation: Conversation | undefined,
+  brandKitId: unknown
+): Promise<string | undefined> {
+  if (brandKitId === undefined || brandKitId === null || brandKitId === '') return undefined;
+  if (typeof brandKitId !== 'string') {
+    throw new BrandKitError(400, 'brandKitId must be a string');
+  }
+
+  const { kit } = await getBrandKitAccess(user, brandKitId);
+  if (!conversation || kit.workspaceId !== conversation.workspaceId) {
+    throw new BrandKitError(400, "Brand kit is not part of this conversation's workspace");
+  }
+  return kit.id;
+}
+
+// The kit a queued job was started with. A kit deleted since is skipped rather than
+// failing the job.
+export async function loadJobBrandKit(payload: Record<string, any>): Promise<BrandKit | undefined> {
+  const brandKitId = payload.brandKitId;
+  if (typeof brandKitId !== 'string') return undefined;
+
+  const kit = await storage.getBrandKit(brandKitId).catch(() => undefined);
+  if (!kit) {
+    console.warn(`[Brand Kits] Brand kit ${brandKitId} no longer exists; processing without it`);
+  }
+  return kit;
+}
+
+// Guidelines appended to a prompt: only the parts of the kit that are filled in
+function brandDirections(kit: BrandKit): string {
+  const lines = [`Brand guidelines (${kit.name}):`];
+  if (kit.palette.length > 0) {
+    lines.push(`- Colour palette: ${kit.palette.join(', ')} (${kit.palette[0]} is the main colour). Keep dominant colours within this palette.`);
+  }
+  if (kit.fonts.length > 0) {
+    lines.push(`- Typography: set any text in ${kit.fonts.join(' or ')}.`);
+  }
+  if (kit.toneKeywords.length > 0) {
+    lines.push(`- Tone and style: ${kit.toneKeywords.join(', ')}.`);
+  }
+  return lines.length > 1 ? lines.join('\n') : '';
+}
+
+export function applyBrandKitToPrompt(prompt: string, kit: BrandKit | undefined): string {
+  const directions = kit ? brandDirections(kit) : '';
+  return directions ? `${prompt}\n\n${directions}` : prompt;
+}
+
+// Brand colours lead the palette the analysis stage extracted, and the tone keywords
+// join its style elements
+export function applyBrandKitToPromptBundle(bundle: PromptBundle, kit: BrandKit | undefined): PromptBundle {
+  if (!kit) return bundle;
+
+  // Case-insensitive, since colour pickers give lower-case hex and analysis may not
+  const unique = (values: string[]) => values.filter((value, index) =>
+    values.findIndex((other) => other.toLowerCase() === value.toLowerCase()) === index
+  );
+  return {
+    ...bundle,
+    colorPalette: unique([...kit.palette, ...bundle.colorPalette]),
+    styleElements: unique([...bundle.styleElements, ...kit.toneKeywords]),
+    enhancedPrompt: applyBrandKitToPrompt(bundle.enhancedPrompt, kit),
+  };
+}
+
+// Stores a logo and adds it to the kit. Logos are public-read so every member of the
+// workspace, and the editor canvas, can load them.
+export async function addBrandLogo(
+  kit: BrandKit,
+  user: User,
+  file: { buffer: Buffer; name: string; contentType: string }
+): Promise<BrandKit> {
+  const objectPath = await objectStorageService.uploadObject(file.buffer, file.name, file.contentType);
+  await objectStorageService.trySetObjectEntityAclPolicy(objectPath, {
+    owner: user.id,
+    visibility: 'public',
+  });
+
+  const logoAssets = [...kit.logoAssets, { id: randomUUID(), name: file.name, objectPath }];
+  const updated = await storage.updateBrandKit(kit.id, { logoAssets });
+  if (!updated) {
+    throw new BrandKitError(404, 'Brand kit not found');
+  }
+  return updated;
+}
+
+// Removes a logo from the kit; the stored file is left to the garbage collector
+export async function removeBrandLogo(kit: BrandKit, logoId: string): Promise<BrandKit> {
+  const logoAssets = kit.logoAssets.filter((logo) => logo.id !== logoId);
+  if (logoAssets.length === kit.logoAssets.length) {
+    throw new BrandKitError(404, 'Logo not found');
+  }
+  const updated = await storage.updateBrandKit(kit.id, { logoAssets });
+  if (!updated) {
+    throw new BrandKitError(404, 'Brand kit not found');
+  }
+  return updated;
+}
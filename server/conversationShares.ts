@@ -0,0 +1,127 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { objectStorageService } from "./processing";
+import { isStoredMediaUrl } from "./shareLinks";
+import type {
+  ConversationShare,
+  ConversationShareStatus,
+  ConversationSnapshot,
+  ConversationSnapshotMessage,
+  User,
+} from "@shared/schema";
+
+export function conversationSharePath(share: ConversationShare): string {
+  return `/p/${share.token}`;
+}
+
+export function toConversationShareStatus(share: ConversationShare | undefined): ConversationShareStatus {
+  return {
+    published: !!share,
+    path: share ? conversationSharePath(share) : null,
+    updatedAt: share ? share.updatedAt.toISOString() : null,
+  };
+}
+
+// Only the person who started a conversation (or a site admin) publishes it
+export function canPublishConversation(user: User, conversation: { userId: string | null }): boolean {
+  return conversation.userId === user.id || user.role === 'admin';
+}
+
+// Prompts, replies and before/after pairs as they are now. Messages still processing,
+// failed or cancelled are left out; reviewers only see finished work. Media is kept
+// only when it is a stored file the publisher can open: the public page streams it,
+// and message URLs partly come from clients.
+async function buildSnapshot(user: User, conversationId: string): Promise<ConversationSnapshot> {
+  const conversation = await storage.getConversation(conversationId);
+  if (!conversation) {
+    throw new Error('Conversation not found');
+  }
+
+  const publishable = new Map<string, boolean>();
+  const media = async (url: string | null | undefined): Promise<string | null> => {
+    if (!url || !isStoredMediaUrl(url)) return null;
+    if (!publishable.has(url)) {
+      publishable.set(url, !url.startsWith('/objects/') || await objectStorageService.canAccessObjectPath(user.id, url));
+    }
+    return publishable.get(url) ? url : null;
+  };
+
+  const messages: ConversationSnapshotMessage[] = [];
+  for (const message of await storage.getMessagesByConversation(conversationId)) {
+    if (message.processingStatus && message.processingStatus !== 'completed') continue;
+
+    const job = message.role === 'assistant' && message.mediaType === 'image'
+      ? await storage.getImageProcessingJobByMessage(message.id)
+      : undefined;
+    const originalImageUrl = await media(job?.originalImageUrl);
+    const processedImageUrl = await media(job?.processedImageUrl);
+    messages.push({
+      role: message.role,
+      content: message.content,
+      mediaType: message.mediaType,
+      imageUrl: await media(message.imageUrl),
+      videoUrl: await media(message.videoUrl),
+      comparison: originalImageUrl && processedImageUrl ? { originalImageUrl, processedImageUrl } : null,
+      createdAt: message.createdAt.toISOString(),
+    });
+  }
+
+  return {
+    title: conversation.title,
+    createdAt: conversation.createdAt.toISOString(),
+    messages,
+  };
+}
+
+// Publishes a snapshot of the conversation, or refreshes the snapshot of an already
+// published one under the same URL
+export async function publishConversation(user: User, conversationId: string): Promise<ConversationShare> {
+  const snapshot = await buildSnapshot(user, conversationId);
+  const share = await storage.upsertConversationShare({
+    conversationId,
+    token: crypto.randomBytes(24).toString('base64url'), // Ignored when already published
+    createdBy: user.id,
+    snapshot,
+  });
+  console.log(`[Conversation Shares] ${user.username} published conversation ${conversationId} (${snapshot.messages.length} messages)`);
+  return share;
+}
+
+// Every image and video URL in the snapshot, in a fixed order, so the public page can
+// address them by index
+export function snapshotMediaUrls(snapshot: ConversationSnapshot): string[] {
+  const urls: string[] = [];
+  const add = (url: string | null | undefined) => {
+    if (url && !urls.includes(url)) urls.push(url);
+  };
+  for (const message of snapshot.messages) {
+    add(message.imageUrl);
+    add(message.videoUrl);
+    add(message.comparison?.originalImageUrl);
+    add(message.comparison?.processedImageUrl);
+  }
+  return urls;
+}
+
+// The snapshot as served publicly: media URLs point at the share's media route, so
+// private objects can be shown without making them public
+export function publicSnapshot(share: ConversationShare): ConversationSnapshot {
+  const urls = snapshotMediaUrls(share.snapshot);
+  const mediaUrl = (url: string | null) =>
+    url ? `/api/public/conversations/${share.token}/media/${urls.indexOf(url)}` : null;
+
+  return {
+    ...share.snapshot,
+    messages: share.snapshot.messages.map(message => ({
+      ...message,
+      imageUrl: mediaUrl(message.imageUrl),
+      videoUrl: mediaUrl(message.videoUrl),
+      comparison: message.comparison
+        ? {
+            originalImageUrl: mediaUrl(message.comparison.originalImageUrl)!,
+            processedImageUrl: mediaUrl(message.comparison.processedImageUrl)!,
+          }
+        : null,
+    })),
+  };
+}
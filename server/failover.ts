@@ -0,0 +1,304 @@
+// Model failover for provider calls. Failures are classified so that transient ones
+// (rate limits, upstream 5xx, dropped connections) are retried on the same model with
+// jittered backoff, request errors (a malformed or oversized request) stop immediately,
+// credential errors move on to another provider, and anything else moves on to the next
+// model. Per-model circuit breakers are shared by all requests in the process, so a
+// model that keeps failing is skipped for a cooldown window.
+
+const MAX_RETRIES = parseInt(process.env.PROVIDER_MAX_RETRIES || '2', 10);
+const RETRY_BASE_DELAY_MS = parseInt(process.env.PROVIDER_RETRY_BASE_DELAY_MS || '1000', 10);
+const RETRY_MAX_DELAY_MS = 15 * 1000;
+const BREAKER_FAILURE_THRESHOLD = parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '3', 10);
+const BREAKER_COOLDOWN_MS = parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MS || '60000', 10);
+
+// Thrown when processing stops because its job was cancelled
+export class JobCancelledError extends Error {
+  constructor(message: string = 'Job was cancelled') {
+    super(message);
+    this.name = 'JobCancelledError';
+  }
+}
+
+// Provider failure that keeps the HTTP status of the upstream response, if there was one
+export class ProviderRequestError extends Error {
+  constructor(message: string, public httpStatus?: number) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+}
+
+// A provider the deployment has no credentials for. Failover moves on to the next
+// candidate without counting it against the model.
+export class ProviderNotConfiguredError extends ProviderRequestError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderNotConfiguredError';
+  }
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost?: number; // USD, when the provider reports it
+  estimated?: boolean; // Cost is a list-price estimate, not reported by the provider
+}
+
+// One model tried (or skipped) by a failover sequence
+export interface FailoverAttempt {
+  model: string;
+  priority?: number;
+  outcome: 'success' | 'error' | 'skipped';
+  latencyMs: number;
+  httpStatus?: number;
+  error?: string;
+  usage?: TokenUsage;
+}
+
+export type FailoverAttemptListener = (attempt: FailoverAttempt) => void | Promise<void>;
+
+export interface FailoverCandidate {
+  model: string;
+  priority?: number;
+  provider?: string; // Provider registry id, when the model is not served by the default
+  endpoint?: string; // Named OpenAI-compatible endpoint serving the model
+}
+
+// 'retryable': try the same model again after a backoff
+// 'fatal': the request itself is wrong, no other model will do better
+// 'next-model': this model (or its provider) cannot serve the request, try the next one
+export type ProviderFailureClass = 'retryable' | 'fatal' | 'next-model';
+
+export function httpStatusOf(error: unknown): number | undefined {
+  return error instanceof ProviderRequestError ? error.httpStatus : undefined;
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new JobCancelledError();
+  }
+}
+
+// `otherProviderLeft`: a later candidate is served by a different provider, whose
+// credentials and billing an invalid key or exhausted credits here say nothing about
+export function classifyProviderError(error: unknown, otherProviderLeft: boolean = false): ProviderFailureClass {
+  if (error instanceof JobCancelledError) return 'fatal';
+  if (error instanceof ProviderNotConfiguredError) return 'next-model';
+
+  const status = httpStatusOf(error);
+  if (status !== undefined) {
+    if (status === 408 || status === 429 || status >= 500) return 'retryable';
+    // Bad request, payload too large, invalid input
+    if ([400, 413, 422].includes(status)) return 'fatal';
+    // Invalid key, out of credits, forbidden
+    if ([401, 402, 403].includes(status)) return otherProviderLeft ? 'next-model' : 'fatal';
+    return 'next-model';
+  }
+
+  // Dropped connections are worth another try; a model that ran into the request
+  // timeout is better swapped for the next one than waited on again
+  const message = error instanceof Error ? error.message : '';
+  if (/fetch failed|ECONNRESET|ETIMEDOUT|ECONNREFUSED|ENOTFOUND|socket hang up/i.test(message)) {
+    return 'retryable';
+  }
+  return 'next-model';
+}
+
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+
+  constructor(
+    readonly key: string,
+    private failureThreshold: number = BREAKER_FAILURE_THRESHOLD,
+    private cooldownMs: number = BREAKER_COOLDOWN_MS
+  ) {}
+
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  // After the cooldown a single probe request is let through to test the model
+  allowRequest(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'half-open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    if (this.openedAt !== null) {
+      console.log(`[Circuit Breaker] ${this.key} recovered, closing circuit`);
+    }
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.probeInFlight || this.consecutiveFailures >= this.failureThreshold) {
+      console.warn(`[Circuit Breaker] ${this.key} opened after ${this.consecutiveFailures} consecutive failures; skipping for ${Math.round(this.cooldownMs / 1000)}s`);
+      this.openedAt = Date.now();
+    }
+    this.probeInFlight = false;
+  }
+
+  // Ends a probe whose outcome says nothing about the model (e.g. a bad prompt)
+  release(): void {
+    this.probeInFlight = false;
+  }
+}
+
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+export function getCircuitBreaker(key: string): CircuitBreaker {
+  let breaker = circuitBreakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(key);
+    circuitBreakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+// Exponential backoff with jitter over the upper half of the window
+export function retryDelayMs(retry: number): number {
+  const window = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** retry);
+  return Math.round(window / 2 + Math.random() * (window / 2));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new JobCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new JobCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Runs one model of a failover sequence and reports the outcome to the listener
+export async function attemptModel<T extends { usage?: TokenUsage }>(
+  model: string,
+  priority: number | undefined,
+  onAttempt: FailoverAttemptListener | undefined,
+  run: () => Promise<T>
+): Promise<T> {
+  const startedAt = Date.now();
+  try {
+    const result = await run();
+    await onAttempt?.({ model, priority, outcome: 'success', latencyMs: Date.now() - startedAt, usage: result.usage });
+    return result;
+  } catch (error) {
+    if (!(error instanceof JobCancelledError)) {
+      await onAttempt?.({
+        model,
+        priority,
+        outcome: 'error',
+        latencyMs: Date.now() - startedAt,
+        httpStatus: httpStatusOf(error),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+    throw error;
+  }
+}
+
+// Tries each candidate in order with retries, classification and circuit breaking
+export async function runWithFailover<T extends { usage?: TokenUsage }>(
+  candidates: FailoverCandidate[],
+  run: (candidate: FailoverCandidate) => Promise<T>,
+  options: {
+    signal?: AbortSignal;
+    onAttempt?: FailoverAttemptListener;
+    logPrefix?: string;
+    description?: string; // Used in the error when every model failed
+    // Identifies who serves a candidate (and holds its credentials); by default its
+    // provider and endpoint
+    providerOf?: (candidate: FailoverCandidate) => string;
+  } = {}
+): Promise<T & { modelUsed: string }> {
+  const logPrefix = options.logPrefix || '[Failover]';
+  const providerOf = options.providerOf || ((candidate: FailoverCandidate) => [candidate.provider, candidate.endpoint].filter(Boolean).join(':'));
+  let lastError: Error | null = null;
+
+  for (let index = 0; index < candidates.length; index++) {
+    const candidate = candidates[index];
+    // The same model behind another provider or endpoint fails independently
+    const breakerKey = [candidate.provider, candidate.endpoint, candidate.model].filter(Boolean).join(':');
+    const breaker = getCircuitBreaker(breakerKey);
+    if (!breaker.allowRequest()) {
+      console.log(`${logPrefix} Skipping ${candidate.model}: circuit open after repeated failures`);
+      await options.onAttempt?.({
+        model: candidate.model,
+        priority: candidate.priority,
+        outcome: 'skipped',
+        latencyMs: 0,
+        error: 'Skipped: model is failing repeatedly and is cooling down'
+      });
+      lastError = lastError || new Error(`${candidate.model} is temporarily unavailable`);
+      continue;
+    }
+
+    for (let retry = 0; ; retry++) {
+      throwIfCancelled(options.signal);
+      try {
+        console.log(`${logPrefix} Attempting model: ${candidate.model}${candidate.priority !== undefined ? ` (priority ${candidate.priority})` : ''}`);
+        const result = await attemptModel(candidate.model, candidate.priority, options.onAttempt, () => run(candidate));
+        breaker.recordSuccess();
+        console.log(`${logPrefix} Success with model: ${candidate.model}`);
+        return { ...result, modelUsed: candidate.model };
+      } catch (error) {
+        if (error instanceof JobCancelledError) {
+          breaker.release();
+          throw error;
+        }
+
+        lastError = error instanceof Error ? error : new Error('Unknown error');
+        const provider = providerOf(candidate);
+        const failure = classifyProviderError(error, candidates.slice(index + 1).some(next => providerOf(next) !== provider));
+
+        if (failure === 'fatal') {
+          // Another model would reject the same request, so stop here
+          breaker.release();
+          console.log(`${logPrefix} Model ${candidate.model} rejected the request, not failing over: ${lastError.message}`);
+          throw lastError;
+        }
+
+        if (failure === 'retryable' && retry < MAX_RETRIES) {
+          const delay = retryDelayMs(retry);
+          console.log(`${logPrefix} Model ${candidate.model} failed with a transient error, retrying in ${delay}ms (${retry + 1}/${MAX_RETRIES}): ${lastError.message}`);
+          await sleep(delay, options.signal);
+          continue;
+        }
+
+        if (error instanceof ProviderNotConfiguredError) {
+          breaker.release();
+        } else {
+          breaker.recordFailure();
+        }
+        console.log(`${logPrefix} Model ${candidate.model} failed: ${lastError.message}`);
+        break;
+      }
+    }
+  }
+
+  const scope = options.description ? ` for ${options.description}` : '';
+  throw new ProviderRequestError(
+    `All ${candidates.length} configured models failed${scope}. Last error: ${lastError?.message || 'Unknown error'}`,
+    httpStatusOf(lastError)
+  );
+}
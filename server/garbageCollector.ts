@@ -0,0 +1,179 @@
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { objectStorageService } from "./processing";
+import { derivativePrefix } from "./imageDerivatives";
+import type { GarbageCollectionReport } from "@shared/schema";
+
+// Scratch directories jobs write to: multer uploads and FFmpeg frames/outputs
+const TEMP_DIRS = ['temp_uploads', 'temp_videos'];
+const REPORTED_KEYS_LIMIT = 100;
+const UPLOAD_ID_PATTERN = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i;
+
+export class GarbageCollectionInProgressError extends Error {
+  constructor() {
+    super("A garbage collection run is already in progress");
+    this.name = "GarbageCollectionInProgressError";
+    Object.setPrototypeOf(this, GarbageCollectionInProgressError.prototype);
+  }
+}
+
+export interface GarbageCollectionOptions {
+  dryRun?: boolean;
+  graceHours?: number; // Unreferenced uploads younger than this are kept (GC_GRACE_HOURS, default 72)
+  tempMaxAgeHours?: number; // Temp entries older than this are removed (GC_TEMP_MAX_AGE_HOURS, default 6)
+}
+
+function hoursFromEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+async function diskUsage(entryPath: string): Promise<number> {
+  const stats = await fs.promises.lstat(entryPath);
+  if (!stats.isDirectory()) return stats.size;
+  let total = 0;
+  for (const name of await fs.promises.readdir(entryPath)) {
+    total += await diskUsage(path.join(entryPath, name));
+  }
+  return total;
+}
+
+// Uploaded objects nothing points at any more, and their derivatives. Only keys under
+// the private uploads directory that carry an upload id are considered; anything else
+// is never removed.
+async function collectObjects(
+  report: GarbageCollectionReport,
+  cutoff: Date,
+  dryRun: boolean
+): Promise<void> {
+  const privateDir = objectStorageService.getPrivateObjectDir();
+  const prefix = `${privateDir.endsWith('/') ? privateDir : `${privateDir}/`}uploads/`;
+
+  // Listed before references are read, so an object uploaded and referenced in
+  // between is either too new to remove or already referenced
+  const objects = await objectStorageService.driver.list(prefix);
+  const referenced = await storage.getReferencedUploadIds();
+  report.objects.scanned = objects.length;
+  const remaining = new Set(objects.map((object) => object.key));
+
+  const remove = async (key: string, size: number): Promise<void> => {
+    report.objects.orphaned++;
+    if (report.objects.keys.length < REPORTED_KEYS_LIMIT) report.objects.keys.push(key);
+    try {
+      if (!dryRun) {
+        await objectStorageService.driver.delete(key);
+        await storage.deleteObjectAclPolicy(key);
+      }
+      remaining.delete(key);
+      report.objects.removed++;
+      report.objects.reclaimedBytes += size;
+    } catch (error) {
+      report.objects.failed++;
+      console.error(`[Garbage Collector] Failed to remove ${key}:`, error);
+    }
+  };
+
+  for (const object of objects) {
+    const uploadId = object.key.slice(prefix.length).match(UPLOAD_ID_PATTERN)?.[1];
+    if (!uploadId || referenced.has(uploadId.toLowerCase()) || object.lastModified > cutoff) continue;
+    await remove(object.key, object.size);
+  }
+
+  // Resized variants of uploads that are gone (see imageDerivatives.ts for the layout)
+  const derivatives = await objectStorageService.driver.list(derivativePrefix());
+  report.objects.scanned += derivatives.length;
+  for (const derivative of derivatives) {
+    const sourceKey = derivative.key.slice(derivativePrefix().length, derivative.key.lastIndexOf('/'));
+    if (!sourceKey.startsWith(prefix) || remaining.has(sourceKey)) continue;
+    await remove(derivative.key, derivative.size);
+  }
+}
+
+async function collectTempFiles(
+  report: GarbageCollectionReport,
+  cutoff: Date,
+  dryRun: boolean
+): Promise<void> {
+  for (const dir of TEMP_DIRS) {
+    const dirPath = path.join(process.cwd(), dir);
+    const names = await fs.promises.readdir(dirPath).catch(() => [] as string[]);
+    for (const name of names) {
+      const entryPath = path.join(dirPath, name);
+      try {
+        const stats = await fs.promises.lstat(entryPath);
+        if (stats.mtime > cutoff) continue;
+
+        const bytes = await diskUsage(entryPath);
+        if (!dryRun) {
+          await fs.promises.rm(entryPath, { recursive: true, force: true });
+        }
+        report.temp.removed++;
+        report.temp.reclaimedBytes += bytes;
+        if (report.temp.paths.length < REPORTED_KEYS_LIMIT) report.temp.paths.push(path.join(dir, name));
+      } catch (error) {
+        console.error(`[Garbage Collector] Failed to remove ${entryPath}:`, error);
+      }
+    }
+  }
+}
+
+let activeRun: Promise<GarbageCollectionReport> | null = null;
+
+// Removes uploaded objects no message, job, saved image, share or cache entry refers
+// to once they are older than the grace period, and stale temp files. A dry run only
+// reports what would be removed, counted as if it had been.
+export async function collectGarbage(options: GarbageCollectionOptions = {}): Promise<GarbageCollectionReport> {
+  if (activeRun) {
+    throw new GarbageCollectionInProgressError();
+  }
+
+  const dryRun = options.dryRun ?? false;
+  const graceHours = options.graceHours ?? hoursFromEnv('GC_GRACE_HOURS', 72);
+  const tempMaxAgeHours = options.tempMaxAgeHours ?? hoursFromEnv('GC_TEMP_MAX_AGE_HOURS', 6);
+  const now = Date.now();
+  const report: GarbageCollectionReport = {
+    dryRun,
+    startedAt: new Date(now).toISOString(),
+    finishedAt: '',
+    graceHours,
+    objects: { scanned: 0, orphaned: 0, removed: 0, reclaimedBytes: 0, failed: 0, keys: [] },
+    temp: { removed: 0, reclaimedBytes: 0, paths: [] },
+  };
+
+  activeRun = (async () => {
+    await collectObjects(report, new Date(now - graceHours * 60 * 60 * 1000), dryRun);
+    await collectTempFiles(report, new Date(now - tempMaxAgeHours * 60 * 60 * 1000), dryRun);
+    report.finishedAt = new Date().toISOString();
+    console.log(
+      `[Garbage Collector] ${dryRun ? 'Dry run: would remove' : 'Removed'} ${report.objects.removed} object(s) ` +
+      `and ${report.temp.removed} temp entr${report.temp.removed === 1 ? 'y' : 'ies'}, ` +
+      `${report.objects.reclaimedBytes + report.temp.reclaimedBytes} bytes ` +
+      `(${report.objects.scanned} objects scanned, ${report.objects.failed} failed)`
+    );
+    return report;
+  })();
+
+  try {
+    return await activeRun;
+  } finally {
+    activeRun = null;
+  }
+}
+
+// Runs garbage collection every GC_INTERVAL_HOURS (default 24; 0 disables it)
+export function startGarbageCollector(): void {
+  const intervalHours = hoursFromEnv('GC_INTERVAL_HOURS', 24);
+  if (!intervalHours) {
+    console.log('[Garbage Collector] Scheduled runs disabled (GC_INTERVAL_HOURS=0)');
+    return;
+  }
+
+  const timer = setInterval(() => {
+    collectGarbage().catch((error) => {
+      console.error('[Garbage Collector] Scheduled run failed:', error);
+    });
+  }, intervalHours * 60 * 60 * 1000);
+  timer.unref();
+  console.log(`[Garbage Collector] Running every ${intervalHours}h`);
+}
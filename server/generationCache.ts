@@ -0,0 +1,171 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { getFailoverCandidates } from "./imageProviders";
+import { readInputImage } from "./processing";
+import { isStoredMediaUrl } from "./shareLinks";
+import { JobCancelledError, throwIfCancelled, type TokenUsage } from "./failover";
+
+// How often a job waiting on an identical in-flight generation checks for its output
+const WAIT_POLL_MS = 2000;
+// A pending generation not updated for this long is assumed abandoned and taken over
+const STALE_PENDING_MS = parseInt(process.env.GENERATION_CACHE_STALE_MS || String(15 * 60 * 1000), 10);
+
+export interface GenerationOutput {
+  processedImageUrl: string;
+  enhancementsApplied: string[];
+  processingTime: number;
+  modelUsed: string;
+  usage?: TokenUsage;
+}
+
+// Case and whitespace differences do not change the request
+export function normalizePrompt(prompt: string): string {
+  return prompt.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Content-addressed key: the same image bytes under a different URL still hit. Keys
+// are scoped to a workspace (or, outside workspaces, a user) so outputs are only
+// reused for the people who could see the job that produced them. Inputs that are not
+// stored (remote URLs) are never downloaded to hash, so those requests get no key and
+// are not cached.
+export async function generationCacheKey(params: {
+  scope: string;
+  jobType: string;
+  operation?: string; // Set for image operations other than edits
+  imageUrls: string[];
+  prompt: string;
+  modelConfig: any;
+}): Promise<string | null> {
+  const imageHashes: string[] = [];
+  for (const imageUrl of params.imageUrls) {
+    if (!isStoredMediaUrl(imageUrl) && !imageUrl.startsWith('data:')) return null;
+    const bytes = await readInputImage(imageUrl);
+    imageHashes.push(crypto.createHash('sha256').update(bytes).digest('hex'));
+  }
+
+  const models = getFailoverCandidates(params.modelConfig, '[Generation Cache]')
+    .map(c => [c.provider, c.endpoint, c.model].filter(Boolean).join(':'));
+
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({
+      scope: params.scope,
+      jobType: params.jobType,
+      // Edits keep the keys they had before operations existed
+      ...(params.operation && params.operation !== 'edit' && { operation: params.operation }),
+      images: imageHashes,
+      prompt: normalizePrompt(params.prompt),
+      models,
+      outputQuality: params.modelConfig?.outputQuality || null,
+      maxResolution: params.modelConfig?.maxResolution || null,
+    }))
+    .digest('hex');
+}
+
+function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new JobCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Returns the stored output for the key, or produces it. Only one job produces a given
+// key at a time; identical jobs wait for it and reuse its output. With regenerate the
+// stored output is ignored and replaced.
+export async function withGenerationCache(
+  cacheKey: string | null,
+  jobType: string,
+  jobId: string,
+  options: { regenerate?: boolean; signal?: AbortSignal; inputUrls?: string[] },
+  produce: () => Promise<GenerationOutput>
+): Promise<GenerationOutput & { cached: boolean }> {
+  const { signal } = options;
+
+  if (!cacheKey) {
+    return { ...(await produce()), cached: false };
+  }
+
+  if (options.regenerate) {
+    console.log(`[Generation Cache] Regenerating ${cacheKey.slice(0, 12)} for job ${jobId}`);
+    const output = await produce();
+    await storeOutput(cacheKey, jobType, jobId, output, options.inputUrls);
+    return { ...output, cached: false };
+  }
+
+  while (true) {
+    throwIfCancelled(signal);
+
+    let owned = await storage.claimGenerationCacheEntry(cacheKey, jobType, jobId);
+    if (!owned) {
+      const existing = await storage.getGenerationCacheEntry(cacheKey);
+      if (!existing) continue; // Released between the claim and the read; claim again
+
+      if (existing.status === 'ready' && existing.outputUrl) {
+        console.log(`[Generation Cache] Hit ${cacheKey.slice(0, 12)} for job ${jobId}`);
+        await storage.recordGenerationCacheHit(cacheKey);
+        return {
+          processedImageUrl: existing.outputUrl,
+          enhancementsApplied: existing.enhancementsApplied || [],
+          processingTime: 0,
+          modelUsed: existing.modelUsed || '',
+          cached: true,
+        };
+      }
+
+      if (existing.ownerJobId === jobId) {
+        // This job's own earlier run (e.g. before a restart) left the marker
+        owned = true;
+      } else if (Date.now() - existing.updatedAt.getTime() > STALE_PENDING_MS) {
+        owned = await storage.takeOverGenerationCacheEntry(cacheKey, existing.ownerJobId, jobId);
+        if (owned) {
+          console.log(`[Generation Cache] Took over abandoned generation ${cacheKey.slice(0, 12)} for job ${jobId}`);
+        }
+      }
+
+      if (!owned) {
+        console.log(`[Generation Cache] Job ${jobId} waiting on identical job ${existing.ownerJobId}`);
+        await waitFor(WAIT_POLL_MS, signal);
+        continue;
+      }
+    }
+
+    try {
+      const output = await produce();
+      await storeOutput(cacheKey, jobType, jobId, output, options.inputUrls);
+      return { ...output, cached: false };
+    } catch (error) {
+      // Let a waiting or later job try again
+      await storage.releaseGenerationCacheEntry(cacheKey, jobId).catch(releaseError => {
+        console.error(`[Generation Cache] Failed to release ${cacheKey.slice(0, 12)}:`, releaseError);
+      });
+      throw error;
+    }
+  }
+}
+
+// Models that only describe changes hand back an input image; that is not worth reusing
+async function storeOutput(
+  cacheKey: string,
+  jobType: string,
+  jobId: string,
+  output: GenerationOutput,
+  inputUrls: string[] = []
+): Promise<void> {
+  if (inputUrls.includes(output.processedImageUrl)) {
+    await storage.releaseGenerationCacheEntry(cacheKey, jobId);
+    return;
+  }
+
+  await storage.completeGenerationCacheEntry(cacheKey, jobType, jobId, {
+    outputUrl: output.processedImageUrl,
+    enhancementsApplied: output.enhancementsApplied,
+    modelUsed: output.modelUsed,
+  });
+}
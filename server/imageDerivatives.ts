@@ -0,0 +1,92 @@
+import sharp from "sharp";
+import type { Readable } from "stream";
+import { objectStorageService } from "./processing";
+import { StorageObject } from "./objectStorage";
+import { imageDerivativeQuerySchema, type ImageDerivativeOptions } from "@shared/schema";
+
+const CONTENT_TYPES: Record<ImageDerivativeOptions['format'], string> = {
+  webp: 'image/webp',
+  avif: 'image/avif',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+};
+
+// Animated and vector images would lose what makes them so; they are served as stored
+const PASSTHROUGH_TYPES = ['image/gif', 'image/svg+xml'];
+
+export class InvalidDerivativeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidDerivativeError";
+    Object.setPrototypeOf(this, InvalidDerivativeError.prototype);
+  }
+}
+
+// The derivative asked for in the query string, or null when it asks for none
+export function parseDerivativeQuery(query: Record<string, unknown>): ImageDerivativeOptions | null {
+  if (['w', 'h', 'format', 'q'].every((key) => query[key] === undefined)) {
+    return null;
+  }
+  const parseResult = imageDerivativeQuerySchema.safeParse(query);
+  if (!parseResult.success) {
+    throw new InvalidDerivativeError(parseResult.error.errors.map((error) => `${error.path.join('.')}: ${error.message}`).join('; '));
+  }
+  return parseResult.data;
+}
+
+// Derivatives are kept next to each other under "<private dir>derivatives/<source key>/",
+// so the garbage collector can drop them with their source
+export function derivativePrefix(): string {
+  const privateDir = objectStorageService.getPrivateObjectDir();
+  return `${privateDir.endsWith('/') ? privateDir : `${privateDir}/`}derivatives/`;
+}
+
+function derivativeKey(sourceKey: string, options: ImageDerivativeOptions): string {
+  const size = `${options.w ?? 0}x${options.h ?? 0}`;
+  return `${derivativePrefix()}${sourceKey}/${size}-${options.fit}-q${options.q}.${options.format}`;
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+async function renderDerivative(source: StorageObject, key: string, options: ImageDerivativeOptions): Promise<void> {
+  const input = await readAll(await source.createReadStream());
+  const output = await sharp(input, { failOn: 'none' })
+    .rotate() // Apply EXIF orientation before resizing
+    .resize({ width: options.w, height: options.h, fit: options.fit, withoutEnlargement: true })
+    .toFormat(options.format, { quality: options.q })
+    .toBuffer();
+  await objectStorageService.driver.write(key, output, CONTENT_TYPES[options.format]);
+  console.log(`[Derivatives] Rendered ${key} (${input.length} -> ${output.length} bytes)`);
+}
+
+// Renders in progress, so concurrent requests for the same derivative render it once
+const pendingRenders = new Map<string, Promise<void>>();
+
+// The stored derivative of an image, rendered with sharp on first request. Returns the
+// source itself for objects that are not resizable images (videos, GIFs, SVGs).
+export async function getImageDerivative(source: StorageObject, options: ImageDerivativeOptions): Promise<StorageObject> {
+  const [metadata] = await source.getMetadata();
+  const contentType = metadata.contentType || '';
+  if (!contentType.startsWith('image/') || PASSTHROUGH_TYPES.includes(contentType)) {
+    return source;
+  }
+
+  const key = derivativeKey(source.name, options);
+  const derivative = new StorageObject(key, objectStorageService.driver);
+  const [exists] = await derivative.exists();
+  if (!exists) {
+    let render = pendingRenders.get(key);
+    if (!render) {
+      render = renderDerivative(source, key, options).finally(() => pendingRenders.delete(key));
+      pendingRenders.set(key, render);
+    }
+    await render;
+  }
+  return derivative;
+}
@@ -0,0 +1,539 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import {
+  forwardAbort,
+  processImageWithOpenRouter,
+  processMultipleImagesWithOpenRouter,
+  readInputImage,
+  saveGeneratedImageToS3,
+} from "./processing";
+import {
+  JobCancelledError,
+  ProviderNotConfiguredError,
+  ProviderRequestError,
+  runWithFailover,
+  throwIfCancelled,
+  type FailoverAttemptListener,
+  type FailoverCandidate,
+  type TokenUsage,
+} from "./failover";
+import { resolveProviderEndpoint } from "./providerEndpoints";
+import type { MultiImageProcessingJob } from "@shared/schema";
+
+export interface ImageProviderRequest {
+  imageUrls: string[]; // One image for edits and variations, several for combinations, none for generations
+  prompt: string;
+  model: string;
+  endpoint?: string; // Named OpenAI-compatible endpoint from the model configuration
+  modelConfig: any; // Resolved model configuration (API keys, quality, resolution)
+  timeoutSeconds: number;
+  signal?: AbortSignal;
+}
+
+export interface ImageProviderResult {
+  processedImageUrl: string;
+  enhancementsApplied: string[];
+  processingTime: number;
+  usage?: TokenUsage;
+}
+
+// Image processing provider interface (the image counterpart of IVideoProvider)
+export interface IImageProvider {
+  readonly id: string; // Referenced by modelPriorities entries
+  readonly name: string;
+  // Whether this provider serves a model when the priority entry names no provider
+  supportsModel(model: string): boolean;
+  editImage(request: ImageProviderRequest): Promise<ImageProviderResult>;
+  combineImages(request: ImageProviderRequest): Promise<ImageProviderResult>;
+  // Optional capabilities: text-to-image, and variations of an image without a prompt
+  generateImage?(request: ImageProviderRequest): Promise<ImageProviderResult>;
+  createVariation?(request: ImageProviderRequest): Promise<ImageProviderResult>;
+}
+
+// OpenRouter chat completions (the default provider), or any OpenAI-compatible
+// endpoint named by the priority entry
+class OpenRouterImageProvider implements IImageProvider {
+  readonly id = 'openrouter';
+  readonly name = 'OpenRouter';
+
+  supportsModel(model: string): boolean {
+    return true;
+  }
+
+  editImage(request: ImageProviderRequest): Promise<ImageProviderResult> {
+    return processImageWithOpenRouter(
+      request.imageUrls[0],
+      request.prompt,
+      request.model,
+      request.modelConfig?.apiKey,
+      request.timeoutSeconds,
+      request.signal,
+      resolveProviderEndpoint(request.modelConfig, request.endpoint)
+    );
+  }
+
+  combineImages(request: ImageProviderRequest): Promise<ImageProviderResult> {
+    return processMultipleImagesWithOpenRouter(
+      request.imageUrls,
+      request.prompt,
+      request.model,
+      request.modelConfig?.apiKey,
+      request.timeoutSeconds,
+      request.signal,
+      resolveProviderEndpoint(request.modelConfig, request.endpoint)
+    );
+  }
+}
+
+const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+const OPENAI_IMAGE_MODELS = ['gpt-image-1', 'dall-e-3', 'dall-e-2'];
+
+// Largest square size the model offers within maxResolution
+function openAIImageSize(model: string, maxResolution: number): number {
+  const sizes = model === 'dall-e-2' ? [256, 512, 1024] : [1024];
+  return sizes.filter(size => size <= maxResolution).pop() || sizes[0];
+}
+
+// dall-e-2 has a single quality level
+function openAIImageQuality(model: string, outputQuality: string): string | undefined {
+  if (model === 'dall-e-3') return outputQuality === 'standard' ? 'standard' : 'hd';
+  if (model === 'gpt-image-1') return outputQuality === 'standard' ? 'medium' : 'high';
+  return undefined;
+}
+
+// List price in USD of one square image, by model and quality (or, for dall-e-2, size).
+// Charged when the response carries no token usage, which dall-e never does.
+const OPENAI_IMAGE_PRICES: Record<string, Record<string, number>> = {
+  'dall-e-2': { '256': 0.016, '512': 0.018, '1024': 0.02 },
+  'dall-e-3': { standard: 0.04, hd: 0.08 },
+  'gpt-image-1': { medium: 0.042, high: 0.167 },
+};
+
+function openAIImagePrice(model: string, size: number, quality?: string): number {
+  const prices = OPENAI_IMAGE_PRICES[model] || {};
+  return prices[quality || String(size)] ?? Math.max(0, ...Object.values(prices));
+}
+
+// OpenAI Images API (generations, edits and variations) using the configured openaiApiKey.
+// OPENAI_BASE_URL can point at a local mock server for development and tests.
+class OpenAIImageProvider implements IImageProvider {
+  readonly id = 'openai';
+  readonly name = 'OpenAI Images';
+
+  supportsModel(model: string): boolean {
+    return OPENAI_IMAGE_MODELS.includes(model);
+  }
+
+  async editImage(request: ImageProviderRequest): Promise<ImageProviderResult> {
+    if (request.model === 'dall-e-3') {
+      throw new ProviderRequestError('dall-e-3 does not support image edits');
+    }
+    return this.edit(request, request.imageUrls.slice(0, 1));
+  }
+
+  async combineImages(request: ImageProviderRequest): Promise<ImageProviderResult> {
+    if (request.model !== 'gpt-image-1') {
+      throw new ProviderRequestError(`${request.model} does not accept multiple input images`);
+    }
+    return this.edit(request, request.imageUrls);
+  }
+
+  generateImage(request: ImageProviderRequest): Promise<ImageProviderResult> {
+    const { size, quality } = this.outputOptions(request);
+    return this.send('/images/generations', request, 'Generated', JSON.stringify({
+      model: request.model,
+      prompt: request.prompt,
+      n: 1,
+      size,
+      ...(quality && { quality }),
+      // gpt-image-1 always returns base64 and rejects response_format
+      ...(request.model !== 'gpt-image-1' && { response_format: 'b64_json' })
+    }));
+  }
+
+  async createVariation(request: ImageProviderRequest): Promise<ImageProviderResult> {
+    if (request.model !== 'dall-e-2') {
+      throw new ProviderRequestError(`${request.model} does not support image variations`);
+    }
+    const { size } = this.outputOptions(request);
+    const form = new FormData();
+    form.append('model', request.model);
+    form.append('image', await this.loadImage(request.imageUrls[0], size), 'image.png');
+    form.append('n', '1');
+    form.append('size', `${size}x${size}`);
+    form.append('response_format', 'b64_json');
+    return this.send('/images/variations', request, 'Created variation', form);
+  }
+
+  private async edit(request: ImageProviderRequest, imageUrls: string[]): Promise<ImageProviderResult> {
+    const { size, quality } = this.outputOptions(request);
+    const form = new FormData();
+    form.append('model', request.model);
+    form.append('prompt', request.prompt);
+    for (let index = 0; index < imageUrls.length; index++) {
+      const image = await this.loadImage(imageUrls[index], size);
+      form.append(imageUrls.length > 1 ? 'image[]' : 'image', image, `image_${index}.png`);
+    }
+    form.append('n', '1');
+    form.append('size', `${size}x${size}`);
+    if (quality) form.append('quality', quality);
+    if (request.model !== 'gpt-image-1') form.append('response_format', 'b64_json');
+    return this.send('/images/edits', request, 'Edited', form);
+  }
+
+  private outputOptions(request: ImageProviderRequest): { size: number; quality?: string } {
+    return {
+      size: openAIImageSize(request.model, request.modelConfig?.maxResolution || 2048),
+      quality: openAIImageQuality(request.model, request.modelConfig?.outputQuality || 'high')
+    };
+  }
+
+  // Edits and variations take square PNG uploads, so inputs are normalized first. Only
+  // stored inputs can be uploaded; a remote URL fails over to the next model.
+  private async loadImage(imageUrl: string, size: number): Promise<Blob> {
+    const png = await sharp(await readInputImage(imageUrl))
+      .resize(size, size, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .png()
+      .toBuffer();
+    return new Blob([png], { type: 'image/png' });
+  }
+
+  private async send(
+    endpoint: string,
+    request: ImageProviderRequest,
+    action: string,
+    body: string | FormData
+  ): Promise<ImageProviderResult> {
+    const startTime = Date.now();
+    const apiKey = request.modelConfig?.openaiApiKey || process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new ProviderNotConfiguredError('OpenAI API key not configured');
+    }
+
+    console.log(`[OpenAI Images] ${endpoint} with ${request.model}, Timeout: ${request.timeoutSeconds}s`);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => {
+      controller.abort();
+    }, request.timeoutSeconds * 1000);
+    forwardAbort(request.signal, controller);
+
+    try {
+      const response = await fetch(`${OPENAI_BASE_URL}${endpoint}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          // FormData bodies set their own multipart boundary
+          ...(typeof body === 'string' && { 'Content-Type': 'application/json' })
+        },
+        body,
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        const detail = errorBody?.error?.message || response.statusText;
+        throw new ProviderRequestError(`OpenAI Images API error: ${detail}`, response.status);
+      }
+
+      const result = await response.json();
+      const image = result.data?.[0];
+      if (!image?.b64_json) {
+        throw new ProviderRequestError('OpenAI Images API returned no image data');
+      }
+
+      throwIfCancelled(request.signal);
+      const processedImageUrl = await saveGeneratedImageToS3({ b64_json: image.b64_json }, request.prompt);
+      const { size, quality } = this.outputOptions(request);
+      const usage: TokenUsage = result.usage
+        ? {
+          promptTokens: result.usage.input_tokens || 0,
+          completionTokens: result.usage.output_tokens || 0,
+          totalTokens: result.usage.total_tokens || 0
+        }
+        : { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: openAIImagePrice(request.model, size, quality), estimated: true };
+
+      return {
+        processedImageUrl,
+        enhancementsApplied: [`${action} image with ${request.model}: ${image.revised_prompt || request.prompt}`],
+        processingTime: Math.round((Date.now() - startTime) / 1000),
+        usage
+      };
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw new JobCancelledError();
+      }
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`OpenAI Images request timed out after ${request.timeoutSeconds} seconds`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+// Deterministic offline provider for development and tests. Renders an image derived
+// only from the request (same request, same file) into uploads/ without network calls.
+// Select it with a "local/..." model id, e.g. "local/deterministic".
+class LocalImageProvider implements IImageProvider {
+  readonly id = 'local';
+  readonly name = 'Local (deterministic)';
+
+  supportsModel(model: string): boolean {
+    return model.startsWith('local/');
+  }
+
+  editImage(request: ImageProviderRequest): Promise<ImageProviderResult> {
+    return this.render(request, 'edit');
+  }
+
+  combineImages(request: ImageProviderRequest): Promise<ImageProviderResult> {
+    return this.render(request, 'combine');
+  }
+
+  private async render(request: ImageProviderRequest, mode: 'edit' | 'combine'): Promise<ImageProviderResult> {
+    const startTime = Date.now();
+    throwIfCancelled(request.signal);
+
+    const hash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify([mode, request.model, request.prompt, request.imageUrls]))
+      .digest('hex');
+    const fileName = `local_${hash.slice(0, 32)}.png`;
+    const uploadsDir = path.join(process.cwd(), 'uploads');
+    const filePath = path.join(uploadsDir, fileName);
+
+    if (!fs.existsSync(filePath)) {
+      await fs.promises.mkdir(uploadsDir, { recursive: true });
+      await sharp(Buffer.from(this.buildSvg(hash, request.imageUrls.length))).png().toFile(filePath);
+    }
+
+    console.log(`[Local Image Provider] Rendered ${mode} result ${fileName}`);
+
+    return {
+      processedImageUrl: `/uploads/${fileName}`,
+      enhancementsApplied: [`Local ${mode} placeholder (${request.model}): ${request.prompt}`],
+      processingTime: Math.round((Date.now() - startTime) / 1000),
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+    };
+  }
+
+  // Gradient plus one circle per input image, all colors and positions taken from the hash
+  private buildSvg(hash: string, imageCount: number): string {
+    const size = 1024;
+    const circles = Array.from({ length: Math.max(1, imageCount) }, (_, i) => {
+      const offset = (i * 6) % 48;
+      const cx = 128 + (parseInt(hash.slice(offset, offset + 2), 16) / 255) * (size - 256);
+      const cy = 128 + (parseInt(hash.slice(offset + 2, offset + 4), 16) / 255) * (size - 256);
+      const r = 64 + (parseInt(hash.slice(offset + 4, offset + 6), 16) / 255) * 128;
+      return `<circle cx="${cx.toFixed(0)}" cy="${cy.toFixed(0)}" r="${r.toFixed(0)}" fill="#${hash.slice(48 - offset - 6, 48 - offset)}" fill-opacity="0.8"/>`;
+    }).join('');
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="#${hash.slice(48, 54)}"/>
+      <stop offset="1" stop-color="#${hash.slice(54, 60)}"/>
+    </linearGradient>
+  </defs>
+  <rect width="${size}" height="${size}" fill="url(#bg)"/>
+  ${circles}
+</svg>`;
+  }
+}
+
+export class ImageProviderRegistry {
+  private providers = new Map<string, IImageProvider>();
+
+  constructor(private defaultProviderId: string) {}
+
+  register(provider: IImageProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): IImageProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  list(): IImageProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  // An explicit provider id wins; otherwise the first non-default provider that claims
+  // the model, falling back to the default provider
+  resolve(model: string, providerId?: string): IImageProvider {
+    if (providerId) {
+      const provider = this.providers.get(providerId);
+      if (!provider) {
+        throw new Error(`Unknown image provider: ${providerId}`);
+      }
+      return provider;
+    }
+
+    for (const provider of this.list()) {
+      if (provider.id !== this.defaultProviderId && provider.supportsModel(model)) {
+        return provider;
+      }
+    }
+
+    const defaultProvider = this.providers.get(this.defaultProviderId);
+    if (!defaultProvider) {
+      throw new Error(`Default image provider '${this.defaultProviderId}' is not registered`);
+    }
+    return defaultProvider;
+  }
+}
+
+export const imageProviders = new ImageProviderRegistry('openrouter');
+imageProviders.register(new OpenRouterImageProvider());
+imageProviders.register(new OpenAIImageProvider());
+imageProviders.register(new LocalImageProvider());
+
+// Models on a named endpoint are chat completions models, whatever their id
+function providerFor(candidate: FailoverCandidate): IImageProvider {
+  return imageProviders.resolve(candidate.model, candidate.provider || (candidate.endpoint ? 'openrouter' : undefined));
+}
+
+// Each named endpoint has its own credentials, so it counts as a provider of its own
+export function providerKeyFor(candidate: FailoverCandidate): string {
+  return candidate.endpoint ? `endpoint:${candidate.endpoint}` : providerFor(candidate).id;
+}
+
+// Enabled models in priority order, or the selected model when none are configured
+export function getFailoverCandidates(modelConfig: any, logPrefix: string): FailoverCandidate[] {
+  const modelPriorities = (modelConfig?.modelPriorities || [])
+    .filter((item: any) => item.enabled)
+    .sort((a: any, b: any) => a.priority - b.priority);
+
+  if (modelPriorities.length === 0) {
+    const fallbackModel = modelConfig?.selectedModel || 'google/gemini-2.0-flash-exp';
+    console.log(`${logPrefix} No model priorities configured, using fallback: ${fallbackModel}`);
+    return [{ model: fallbackModel }];
+  }
+
+  console.log(`${logPrefix} Found ${modelPriorities.length} enabled models in sequence:`, modelPriorities.map((m: any) => `${m.priority}. ${m.model}`));
+  return modelPriorities.map((m: any) => ({ model: m.model, priority: m.priority, provider: m.provider, endpoint: m.endpoint }));
+}
+
+// 'edit': change the image as the prompt says; 'variation': a new take on the image,
+// for which the prompt is optional
+export type ImageOperation = 'edit' | 'variation';
+
+// Providers without a variations endpoint are asked for one through an edit
+const VARIATION_PROMPT = 'Create a variation of this image: keep the subject and overall style, vary the composition, lighting and details.';
+
+function runImageOperation(provider: IImageProvider, operation: ImageOperation, request: ImageProviderRequest): Promise<ImageProviderResult> {
+  if (operation === 'variation') {
+    return provider.createVariation
+      ? provider.createVariation(request)
+      : provider.editImage({ ...request, prompt: request.prompt ? `${VARIATION_PROMPT} ${request.prompt}` : VARIATION_PROMPT });
+  }
+  return provider.editImage(request);
+}
+
+// New function to process with failover sequence
+export async function processImageWithFailover(
+  imageUrl: string,
+  prompt: string,
+  modelConfig: any,
+  timeoutSeconds: number = 120,
+  signal?: AbortSignal,
+  onAttempt?: FailoverAttemptListener,
+  operation: ImageOperation = 'edit'
+): Promise<ImageProviderResult & { modelUsed: string }> {
+  console.log(`[Failover] Starting image ${operation} with failover sequence`);
+
+  const candidates = getFailoverCandidates(modelConfig, '[Failover]');
+  return runWithFailover(
+    candidates,
+    (candidate) => runImageOperation(providerFor(candidate), operation, {
+      imageUrls: [imageUrl],
+      prompt,
+      model: candidate.model,
+      endpoint: candidate.endpoint,
+      modelConfig,
+      timeoutSeconds,
+      signal
+    }),
+    { signal, onAttempt, logPrefix: '[Failover]', providerOf: providerKeyFor }
+  );
+}
+
+// Process multiple images with failover sequence
+export async function processMultipleImagesWithFailover(
+  imageUrls: string[],
+  prompt: string,
+  modelConfig: any,
+  timeoutSeconds: number = 120,
+  signal?: AbortSignal,
+  onAttempt?: FailoverAttemptListener
+): Promise<ImageProviderResult & { modelUsed: string }> {
+  console.log(`[Multiple Images Failover] Starting processing with ${imageUrls.length} images`);
+
+  const candidates = getFailoverCandidates(modelConfig, '[Multiple Images Failover]');
+  return runWithFailover(
+    candidates,
+    (candidate) => providerFor(candidate).combineImages({
+      imageUrls,
+      prompt,
+      model: candidate.model,
+      endpoint: candidate.endpoint,
+      modelConfig,
+      timeoutSeconds,
+      signal
+    }),
+    { signal, onAttempt, logPrefix: '[Multiple Images Failover]', description: 'multiple images processing', providerOf: providerKeyFor }
+  );
+}
+
+type PromptBundle = NonNullable<MultiImageProcessingJob["promptBundle"]>;
+type ImageRoles = NonNullable<MultiImageProcessingJob["imageRoles"]>;
+
+// The generation prompt: the analysis stage's enhanced prompt with its structured parts
+function promptFromBundle(bundle: PromptBundle): string {
+  const parts = [bundle.enhancedPrompt];
+  if (bundle.styleElements.length > 0) parts.push(`Style: ${bundle.styleElements.join(', ')}.`);
+  if (bundle.colorPalette.length > 0) parts.push(`Colour palette: ${bundle.colorPalette.join(', ')}.`);
+  if (bundle.composition) parts.push(`Composition: ${bundle.composition}`);
+  if (bundle.negativePrompts.length > 0) parts.push(`Avoid: ${bundle.negativePrompts.join(', ')}.`);
+  return parts.join('\n');
+}
+
+// Stage 2 of multi-image generation: a new image from the prompt bundle. Providers that
+// generate from text get the prompt alone, since the analysis already describes the
+// sources; others combine the sources, heaviest weighted first, under it.
+export async function generateImageFromPromptBundle(
+  promptBundle: PromptBundle,
+  imageRoles: ImageRoles,
+  modelConfig: any,
+  timeoutSeconds: number = 120,
+  signal?: AbortSignal,
+  onAttempt?: FailoverAttemptListener
+): Promise<ImageProviderResult & { modelUsed: string }> {
+  const prompt = promptFromBundle(promptBundle);
+  const imageUrls = [...imageRoles].sort((a, b) => b.weight - a.weight).map(item => item.url);
+
+  const candidates = getFailoverCandidates(modelConfig, '[Multi-Image Generate]');
+  return runWithFailover(
+    candidates,
+    (candidate) => {
+      const provider = providerFor(candidate);
+      const request: ImageProviderRequest = {
+        imageUrls,
+        prompt,
+        model: candidate.model,
+        endpoint: candidate.endpoint,
+        modelConfig,
+        timeoutSeconds,
+        signal
+      };
+      return provider.generateImage
+        ? provider.generateImage({ ...request, imageUrls: [] })
+        : provider.combineImages(request);
+    },
+    { signal, onAttempt, logPrefix: '[Multi-Image Generate]', description: 'image generation', providerOf: providerKeyFor }
+  );
+}
@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { JobWorker } from "./jobQueue";
+import { startGarbageCollector } from "./garbageCollector";
+import { objectStorageService } from "./processing";
 
 const app = express();
 app.use(express.json({ limit: '50mb' }));
@@ -68,4 +71,24 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Process queued jobs in this process unless a separate worker (npm run worker) handles them
+  if (process.env.RUN_JOB_WORKERS !== 'false') {
+    const jobWorker = new JobWorker({
+      concurrency: parseInt(process.env.JOB_WORKER_CONCURRENCY || '2', 10),
+    });
+    jobWorker.start().catch((error) => {
+      log(`failed to start job worker: ${error instanceof Error ? error.message : error}`);
+    });
+  }
+
+  // Give objects stored before ACL policies were an owner-only policy
+  objectStorageService.backfillAclPolicies().then((count) => {
+    if (count > 0) log(`backfilled ${count} object ACL policies`);
+  }).catch((error) => {
+    log(`failed to backfill object ACL policies: ${error instanceof Error ? error.message : error}`);
+  });
+
+  // Remove unreferenced uploads and stale temp files periodically
+  startGarbageCollector();
 })();
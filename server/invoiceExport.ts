@@ -0,0 +1,78 @@
+import type { Invoice, User } from "@shared/schema";
+
+function formatAmount(cents: number, currency: string): string {
+  return `${(cents / 100).toFixed(2)} ${currency.toUpperCase()}`;
+}
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function invoicesToCsv(invoices: Invoice[]): string {
+  const header = ['number', 'date', 'description', 'status', 'amount', 'currency', 'credits', 'paid_at'];
+  const rows = invoices.map(invoice => [
+    invoice.number,
+    invoice.createdAt.toISOString(),
+    invoice.description,
+    invoice.status,
+    (invoice.amountCents / 100).toFixed(2),
+    invoice.currency.toUpperCase(),
+    invoice.credits,
+    invoice.paidAt?.toISOString() || '',
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+// PDF string literals escape backslashes and parentheses; the built-in fonts only
+// cover Latin-1, so anything else is replaced
+function pdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+// Single-page A4 invoice using the standard Helvetica fonts, so no PDF library is needed
+export function invoiceToPdf(invoice: Invoice, user: User): Buffer {
+  const customer = [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username;
+  const lines: { text: string; size: number; bold?: boolean; gap?: number }[] = [
+    { text: 'AI Product Studio', size: 20, bold: true },
+    { text: `Invoice ${invoice.number}`, size: 14, bold: true, gap: 28 },
+    { text: `Date: ${invoice.createdAt.toISOString().slice(0, 10)}`, size: 11, gap: 24 },
+    { text: `Status: ${invoice.status}${invoice.paidAt ? ` (paid ${invoice.paidAt.toISOString().slice(0, 10)})` : ''}`, size: 11 },
+    { text: `Billed to: ${customer}${user.email ? ` <${user.email}>` : ''}`, size: 11 },
+    { text: 'Description', size: 11, bold: true, gap: 32 },
+    { text: `${invoice.description} - ${parseFloat(invoice.credits).toLocaleString('en-US')} credits`, size: 11 },
+    { text: `Total: ${formatAmount(invoice.amountCents, invoice.currency)}`, size: 14, bold: true, gap: 32 },
+  ];
+
+  let y = 790;
+  const content = lines.map(line => {
+    y -= line.gap ?? 18;
+    return `BT /${line.bold ? 'F2' : 'F1'} ${line.size} Tf 56 ${y} Td (${pdfText(line.text)}) Tj ET`;
+  }).join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
@@ -0,0 +1,114 @@
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import { sql } from "drizzle-orm";
+import { db, pool } from "./db";
+import type { QueuedJob, QueuedJobType } from "@shared/schema";
+
+// Job status transitions, fanned out to the SSE streams of the owning conversation.
+// Events are delivered in-process directly and relayed to other processes (a
+// standalone worker or other API instances) through Postgres LISTEN/NOTIFY.
+export interface JobEvent {
+  conversationId: string;
+  messageId: string;
+  jobType: QueuedJobType;
+  jobId: string;
+  status: string; // 'pending' | 'processing' | 'analyzing' | 'generating' | 'completed' | 'error' | 'cancelled'
+  error?: string;
+}
+
+const NOTIFY_CHANNEL = "job_events";
+const RECONNECT_DELAY_MS = 5000;
+
+// Identifies this process so it can skip its own notifications
+const processOrigin = randomUUID();
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+// Listeners for every conversation (used by queue workers to react to cancellations)
+const ALL_EVENTS = Symbol('all');
+
+let listening = false;
+
+function emitLocally(event: JobEvent) {
+  emitter.emit(event.conversationId, event);
+  emitter.emit(ALL_EVENTS, event);
+}
+
+export async function publishJobEvent(event: JobEvent): Promise<void> {
+  emitLocally(event);
+
+  try {
+    const payload = JSON.stringify({ origin: processOrigin, event });
+    await db.execute(sql`select pg_notify(${NOTIFY_CHANNEL}, ${payload})`);
+  } catch (error) {
+    console.error('[Job Events] Failed to relay event:', error);
+  }
+}
+
+// Convenience wrapper for the queue worker and job handlers
+export function publishQueuedJobStatus(entry: QueuedJob, status: string, error?: string): Promise<void> {
+  return publishJobEvent({
+    conversationId: entry.conversationId,
+    messageId: entry.messageId,
+    jobType: entry.jobType as QueuedJobType,
+    jobId: entry.jobId,
+    status,
+    error,
+  });
+}
+
+export function subscribeToConversation(
+  conversationId: string,
+  listener: (event: JobEvent) => void
+): () => void {
+  ensureListening();
+  emitter.on(conversationId, listener);
+  return () => {
+    emitter.off(conversationId, listener);
+  };
+}
+
+export function subscribeToAllJobEvents(listener: (event: JobEvent) => void): () => void {
+  ensureListening();
+  emitter.on(ALL_EVENTS, listener);
+  return () => {
+    emitter.off(ALL_EVENTS, listener);
+  };
+}
+
+// Holds one dedicated connection that LISTENs for events published elsewhere
+function ensureListening() {
+  if (listening) return;
+  listening = true;
+
+  const connect = async () => {
+    try {
+      const client = await pool.connect();
+
+      client.on('notification', (notification) => {
+        if (notification.channel !== NOTIFY_CHANNEL || !notification.payload) return;
+        try {
+          const { origin, event } = JSON.parse(notification.payload) as { origin: string; event: JobEvent };
+          if (origin !== processOrigin) {
+            emitLocally(event);
+          }
+        } catch (error) {
+          console.warn('[Job Events] Ignoring malformed notification:', error);
+        }
+      });
+
+      client.on('error', (error) => {
+        console.error('[Job Events] Listener connection error, reconnecting:', error);
+        client.release(true);
+        setTimeout(connect, RECONNECT_DELAY_MS);
+      });
+
+      await client.query(`LISTEN ${NOTIFY_CHANNEL}`);
+      console.log('[Job Events] Listening for job events from other processes');
+    } catch (error) {
+      console.error('[Job Events] Failed to start listener, retrying:', error);
+      setTimeout(connect, RECONNECT_DELAY_MS);
+    }
+  };
+
+  connect();
+}
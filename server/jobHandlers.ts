@@ -0,0 +1,510 @@
+import { storage } from "./storage";
+import type { ModelConfiguration, MultiImageProcessingJob, QueuedJob, QueuedJobType } from "@shared/schema";
+import { analyzeImagesForGeneration, processVideoWithOpenRouter } from "./processing";
+import {
+  generateImageFromPromptBundle,
+  getFailoverCandidates,
+  processImageWithFailover,
+  processMultipleImagesWithFailover,
+  type ImageOperation,
+} from "./imageProviders";
+import {
+  JobCancelledError,
+  runWithFailover,
+  throwIfCancelled,
+  type FailoverAttemptListener,
+  type FailoverCandidate,
+} from "./failover";
+import { getModelCapabilities } from "./modelCapabilities";
+import { publishQueuedJobStatus } from "./jobEvents";
+import { resolveProviderEndpoint } from "./providerEndpoints";
+import { generationCacheKey, withGenerationCache } from "./generationCache";
+import { recordUsage, type UsageContext } from "./usageLedger";
+import { getWorkspaceModelConfig } from "./workspaces";
+import { applyBrandKitToPrompt, applyBrandKitToPromptBundle, loadJobBrandKit } from "./brandKits";
+
+// Work performed for one queued job type
+export interface JobHandler {
+  // Runs the job to completion, calling markCompleted() before writing its results;
+  // throwing hands the error to fail(). The signal fires when the job is cancelled.
+  run(entry: QueuedJob, signal: AbortSignal): Promise<void>;
+  // Records a terminal failure on the processing job row and its chat message (also
+  // for a job refused before it was queued, which has no queue entry yet)
+  fail(entry: Pick<QueuedJob, 'jobId' | 'messageId' | 'payload'>, error: Error): Promise<void>;
+  // Records a user cancellation on the processing job row and its chat message
+  cancel(entry: QueuedJob): Promise<void>;
+  // Puts the processing job row and its chat message back in progress before a retry
+  reset(entry: QueuedJob, model?: string): Promise<void>;
+}
+
+const CANCELLED_MESSAGE = 'Processing cancelled.';
+
+// Completes the queue entry before the job's results are written. A job cancelled (or
+// taken over) while it was finishing is no longer running, so its cancellation stands
+// instead of being overwritten with a success.
+async function markCompleted(entry: QueuedJob): Promise<void> {
+  if (!(await storage.completeQueuedJob(entry.id))) {
+    throw new JobCancelledError();
+  }
+}
+
+// Model configuration of the workspace the job's conversation belongs to
+async function getJobModelConfig(entry: QueuedJob): Promise<ModelConfiguration> {
+  const conversation = await storage.getConversation(entry.conversationId).catch(() => undefined);
+  return getWorkspaceModelConfig(conversation?.workspaceId);
+}
+
+// Generation cache scope of the job: its conversation's workspace, or its owner outside
+// workspaces
+async function cacheScope(entry: QueuedJob): Promise<string> {
+  const conversation = await storage.getConversation(entry.conversationId).catch(() => undefined);
+  return conversation?.workspaceId ? `workspace:${conversation.workspaceId}` : `user:${conversation?.userId ?? entry.conversationId}`;
+}
+
+// A retry on a specific model skips the configured failover sequence
+function withModelOverride(config: ModelConfiguration, model?: string): ModelConfiguration {
+  return model ? { ...config, selectedModel: model, modelPriorities: [] } : config;
+}
+
+// Owner and application function for the job's usage ledger rows
+async function usageContext(entry: QueuedJob): Promise<UsageContext> {
+  const { userId, functionKey } = entry.payload as { userId?: string; functionKey?: string };
+  const conversation = userId ? undefined : await storage.getConversation(entry.conversationId).catch(() => undefined);
+
+  return {
+    userId: userId || conversation?.userId || null,
+    conversationId: entry.conversationId,
+    operation: entry.jobType,
+    jobId: entry.jobId,
+    functionKey,
+  };
+}
+
+// Stores each model tried in job_attempts and the tokens of successful calls in the
+// usage ledger; failing to record must not fail the job
+function attemptRecorder(entry: QueuedJob): FailoverAttemptListener {
+  return async (attempt) => {
+    try {
+      await storage.createJobAttempt({
+        jobType: entry.jobType,
+        jobId: entry.jobId,
+        messageId: entry.messageId,
+        queueAttempt: entry.attempts,
+        model: attempt.model,
+        priority: attempt.priority ?? null,
+        status: attempt.outcome,
+        latencyMs: attempt.latencyMs,
+        httpStatus: attempt.httpStatus ?? null,
+        errorMessage: attempt.error ?? null,
+        promptTokens: attempt.usage?.promptTokens ?? null,
+        completionTokens: attempt.usage?.completionTokens ?? null,
+        totalTokens: attempt.usage?.totalTokens ?? null,
+      });
+    } catch (error) {
+      console.error(`[Job Attempts] Failed to record attempt for job ${entry.jobId}:`, error);
+    }
+
+    if (attempt.usage) {
+      await recordUsage(await usageContext(entry), attempt.model, attempt.usage);
+    }
+  };
+}
+
+const imageJobHandler: JobHandler = {
+  async run(entry, signal) {
+    const { imageUrl, prompt, model, regenerate, operation = 'edit' } = entry.payload as {
+      imageUrl: string;
+      prompt: string;
+      model?: string;
+      regenerate?: boolean;
+      operation?: ImageOperation;
+    };
+    console.log('[Processing] Starting queued processing for job:', entry.jobId);
+
+    const modelConfig = withModelOverride(await getJobModelConfig(entry), model);
+    const timeoutSeconds = modelConfig.timeout || 120;
+    const jobPrompt = applyBrandKitToPrompt(prompt, await loadJobBrandKit(entry.payload));
+    const cacheKey = await generationCacheKey({ scope: await cacheScope(entry), jobType: entry.jobType, operation, imageUrls: [imageUrl], prompt: jobPrompt, modelConfig });
+    const result = await withGenerationCache(
+      cacheKey,
+      entry.jobType,
+      entry.jobId,
+      { regenerate, signal, inputUrls: [imageUrl] },
+      () => processImageWithFailover(imageUrl, jobPrompt, modelConfig, timeoutSeconds, signal, attemptRecorder(entry), operation)
+    );
+    throwIfCancelled(signal);
+
+    console.log('[Processing] Failover completed, updating job:', entry.jobId);
+    await markCompleted(entry);
+
+    // Update processing job (include model used)
+    await storage.updateImageProcessingJob(entry.jobId, {
+      status: 'completed',
+      processedImageUrl: result.processedImageUrl,
+      processingTime: result.processingTime,
+      enhancementsApplied: result.enhancementsApplied,
+      model: result.modelUsed // Update the model field with the actually used model
+    });
+
+    // Update AI message
+    await storage.updateMessage(entry.messageId, {
+      content: result.cached ? `✨ Image enhanced successfully (reused an identical earlier result)` : `✨ Image enhanced successfully`,
+      imageUrl: result.processedImageUrl, // Add the processed image URL for before/after comparison
+      processingStatus: 'completed'
+    });
+
+    console.log('[Processing] Message updated successfully for job:', entry.jobId);
+  },
+
+  async fail(entry, error) {
+    await storage.updateImageProcessingJob(entry.jobId, {
+      status: 'error',
+      errorMessage: error.message
+    });
+
+    await storage.updateMessage(entry.messageId, {
+      content: `Sorry, I encountered an error while processing your image: ${error.message}`,
+      processingStatus: 'error'
+    });
+  },
+
+  async cancel(entry) {
+    await storage.updateImageProcessingJob(entry.jobId, {
+      status: 'cancelled',
+      completedAt: new Date()
+    });
+
+    await storage.updateMessage(entry.messageId, {
+      content: CANCELLED_MESSAGE,
+      processingStatus: 'cancelled'
+    });
+  },
+
+  async reset(entry, model) {
+    await storage.updateImageProcessingJob(entry.jobId, {
+      status: 'processing',
+      errorMessage: null,
+      completedAt: null,
+      ...(model ? { model } : {})
+    });
+
+    await storage.updateMessage(entry.messageId, {
+      content: 'Processing your image...',
+      processingStatus: 'processing'
+    });
+  },
+};
+
+const multiImageJobHandler: JobHandler = {
+  async run(entry, signal) {
+    const { imageUrls, prompt, model, regenerate } = entry.payload as {
+      imageUrls: string[];
+      prompt: string;
+      model?: string;
+      regenerate?: boolean;
+    };
+    console.log('[Multiple Images Processing] Starting queued processing for job:', entry.jobId);
+
+    const modelConfig = withModelOverride(await getJobModelConfig(entry), model);
+    const timeoutSeconds = modelConfig.timeout || 120;
+    const jobPrompt = applyBrandKitToPrompt(prompt, await loadJobBrandKit(entry.payload));
+    const cacheKey = await generationCacheKey({ scope: await cacheScope(entry), jobType: entry.jobType, imageUrls, prompt: jobPrompt, modelConfig });
+    const result = await withGenerationCache(
+      cacheKey,
+      entry.jobType,
+      entry.jobId,
+      { regenerate, signal, inputUrls: imageUrls },
+      () => processMultipleImagesWithFailover(imageUrls, jobPrompt, modelConfig, timeoutSeconds, signal, attemptRecorder(entry))
+    );
+    throwIfCancelled(signal);
+
+    console.log('[Multiple Images Processing] Failover completed, updating job:', entry.jobId);
+    await markCompleted(entry);
+
+    await storage.updateImageProcessingJob(entry.jobId, {
+      status: 'completed',
+      processedImageUrl: result.processedImageUrl,
+      processingTime: result.processingTime,
+      enhancementsApplied: [...imageUrls, ...result.enhancementsApplied],
+      model: result.modelUsed
+    });
+
+    await storage.updateMessage(entry.messageId, {
+      content: result.cached
+        ? `✨ Images combined successfully using ${imageUrls.length} source images (reused an identical earlier result)`
+        : `✨ Images combined successfully using ${imageUrls.length} source images`,
+      imageUrl: result.processedImageUrl,
+      processingStatus: 'completed'
+    });
+
+    console.log('[Multiple Images Processing] Message updated successfully for job:', entry.jobId);
+  },
+
+  async fail(entry, error) {
+    const { imageUrls = [] } = entry.payload as { imageUrls?: string[] };
+
+    await storage.updateImageProcessingJob(entry.jobId, {
+      status: 'error',
+      errorMessage: error.message
+    });
+
+    await storage.updateMessage(entry.messageId, {
+      content: `Sorry, I encountered an error while processing your ${imageUrls.length} images: ${error.message}`,
+      processingStatus: 'error'
+    });
+  },
+
+  async cancel(entry) {
+    await storage.updateImageProcessingJob(entry.jobId, {
+      status: 'cancelled',
+      completedAt: new Date()
+    });
+
+    await storage.updateMessage(entry.messageId, {
+      content: CANCELLED_MESSAGE,
+      processingStatus: 'cancelled'
+    });
+  },
+
+  async reset(entry, model) {
+    const { imageUrls = [] } = entry.payload as { imageUrls?: string[] };
+
+    await storage.updateImageProcessingJob(entry.jobId, {
+      status: 'processing',
+      errorMessage: null,
+      completedAt: null,
+      ...(model ? { model } : {})
+    });
+
+    await storage.updateMessage(entry.messageId, {
+      content: `Processing ${imageUrls.length} images for combination...`,
+      processingStatus: 'processing'
+    });
+  },
+};
+
+// Vision model for the analysis stage when the selected model cannot see images
+const ANALYSIS_MODEL = 'openai/gpt-4o';
+
+const multiImageGenerateJobHandler: JobHandler = {
+  async run(entry, signal) {
+    const { imageUrls, userPrompt, imageRoles, model } = entry.payload as {
+      imageUrls: string[];
+      userPrompt: string;
+      imageRoles: NonNullable<MultiImageProcessingJob["imageRoles"]>;
+      model?: string;
+    };
+    console.log('[Multi-Image Generate] Starting queued processing for job:', entry.jobId);
+
+    const adminConfig = withModelOverride(await getJobModelConfig(entry), model);
+
+    await storage.updateMultiImageProcessingJob(entry.jobId, {
+      status: 'analyzing'
+    });
+    await publishQueuedJobStatus(entry, 'analyzing');
+
+    // Stage 1: Analyze images to create prompt bundle, then add the brand kit's
+    // colours and tone when the job was started with one. The selected model analyses
+    // when it can see images.
+    const selectedModel = adminConfig.selectedModel || ANALYSIS_MODEL;
+    const analysisModel = (await getModelCapabilities(selectedModel)).visionInput ? selectedModel : ANALYSIS_MODEL;
+    const analysis = await analyzeImagesForGeneration(
+      imageUrls,
+      imageRoles,
+      userPrompt,
+      analysisModel,
+      adminConfig.apiKey || undefined,
+      signal,
+      adminConfig.timeout || 120
+    );
+    if (analysis.usage) {
+      await recordUsage(await usageContext(entry), analysisModel, analysis.usage);
+    }
+    const promptBundle = applyBrandKitToPromptBundle(analysis.promptBundle, await loadJobBrandKit(entry.payload));
+
+    console.log('[Multi-Image Generate] Analysis complete, prompt bundle created');
+    throwIfCancelled(signal);
+
+    await storage.updateMultiImageProcessingJob(entry.jobId, {
+      promptBundle,
+      status: 'generating'
+    });
+    await publishQueuedJobStatus(entry, 'generating');
+
+    // Stage 2: Generate image using prompt bundle
+    const generationResult = await generateImageFromPromptBundle(
+      promptBundle,
+      imageRoles,
+      adminConfig,
+      adminConfig.timeout || 120,
+      signal,
+      attemptRecorder(entry)
+    );
+
+    console.log('[Multi-Image Generate] Generation complete with model:', generationResult.modelUsed);
+    throwIfCancelled(signal);
+    await markCompleted(entry);
+
+    await storage.updateMultiImageProcessingJob(entry.jobId, {
+      status: 'completed',
+      outputImageUrl: generationResult.processedImageUrl,
+      generationModel: generationResult.modelUsed,
+      processingTime: generationResult.processingTime,
+      completedAt: new Date()
+    });
+
+    await storage.updateMessage(entry.messageId, {
+      content: `✨ Generated new image from ${imageUrls.length} source images`,
+      imageUrl: generationResult.processedImageUrl,
+      processingStatus: 'completed'
+    });
+  },
+
+  async fail(entry, error) {
+    await storage.updateMultiImageProcessingJob(entry.jobId, {
+      status: 'error',
+      errorMessage: error.message
+    });
+
+    await storage.updateMessage(entry.messageId, {
+      content: `Sorry, I encountered an error while generating your image: ${error.message}`,
+      processingStatus: 'error'
+    });
+  },
+
+  async cancel(entry) {
+    await storage.updateMultiImageProcessingJob(entry.jobId, {
+      status: 'cancelled',
+      completedAt: new Date()
+    });
+
+    await storage.updateMessage(entry.messageId, {
+      content: CANCELLED_MESSAGE,
+      processingStatus: 'cancelled'
+    });
+  },
+
+  async reset(entry, model) {
+    const { imageUrls = [] } = entry.payload as { imageUrls?: string[] };
+
+    await storage.updateMultiImageProcessingJob(entry.jobId, {
+      status: 'pending',
+      errorMessage: null,
+      completedAt: null,
+      ...(model ? { analysisModel: model } : {})
+    });
+
+    await storage.updateMessage(entry.messageId, {
+      content: `Analyzing ${imageUrls.length} images and generating new image...`,
+      processingStatus: 'processing'
+    });
+  },
+};
+
+// The job's model, then the other enabled models of the failover sequence that can
+// read the input image. Each is served by the endpoint its entry names, if any.
+async function videoFailoverCandidates(modelConfig: ModelConfiguration, model: string): Promise<FailoverCandidate[]> {
+  const configured = getFailoverCandidates(modelConfig, '[Video Processing]');
+  const first = configured.find(candidate => candidate.model === model) || { model };
+  const fallbacks: FailoverCandidate[] = [];
+  for (const candidate of configured) {
+    if (candidate.model !== model && (await getModelCapabilities(candidate.model)).visionInput) {
+      fallbacks.push(candidate);
+    }
+  }
+  return [first, ...fallbacks];
+}
+
+const videoJobHandler: JobHandler = {
+  async run(entry, signal) {
+    const { imageUrl, prompt, model } = entry.payload as {
+      imageUrl: string;
+      prompt: string;
+      model: string;
+    };
+    console.log('[Video Processing] Starting queued processing for job:', entry.jobId);
+
+    const modelConfig = await getJobModelConfig(entry);
+    const startTime = Date.now();
+
+    const result = await runWithFailover(
+      await videoFailoverCandidates(modelConfig, model),
+      (candidate) => processVideoWithOpenRouter(
+        imageUrl,
+        prompt,
+        candidate.model,
+        modelConfig.apiKey || undefined,
+        modelConfig.timeout || 120,
+        'real',
+        signal,
+        resolveProviderEndpoint(modelConfig, candidate.endpoint)
+      ),
+      { signal, onAttempt: attemptRecorder(entry), logPrefix: '[Video Processing]' }
+    );
+    throwIfCancelled(signal);
+
+    const processingTime = Math.round((Date.now() - startTime) / 1000);
+    await markCompleted(entry);
+
+    await storage.updateVideoProcessingJob(entry.jobId, {
+      status: 'completed',
+      processedVideoUrl: result.processedVideoUrl,
+      processingTime,
+      enhancementsApplied: result.enhancementsApplied,
+      videoDuration: result.videoDuration || 10
+    });
+
+    await storage.updateMessage(entry.messageId, {
+      content: `✨ Video generated successfully from your image`,
+      videoUrl: result.processedVideoUrl,
+      processingStatus: 'completed'
+    });
+
+    console.log('[Video Processing] Message updated successfully for job:', entry.jobId);
+  },
+
+  async fail(entry, error) {
+    await storage.updateVideoProcessingJob(entry.jobId, {
+      status: 'error',
+      errorMessage: error.message
+    });
+
+    await storage.updateMessage(entry.messageId, {
+      content: `Sorry, I encountered an error while generating your video: ${error.message}`,
+      processingStatus: 'error'
+    });
+  },
+
+  async cancel(entry) {
+    await storage.updateVideoProcessingJob(entry.jobId, {
+      status: 'cancelled',
+      completedAt: new Date()
+    });
+
+    await storage.updateMessage(entry.messageId, {
+      content: CANCELLED_MESSAGE,
+      processingStatus: 'cancelled'
+    });
+  },
+
+  async reset(entry, model) {
+    await storage.updateVideoProcessingJob(entry.jobId, {
+      status: 'processing',
+      errorMessage: null,
+      completedAt: null,
+      ...(model ? { model } : {})
+    });
+
+    await storage.updateMessage(entry.messageId, {
+      content: 'Processing your image into video...',
+      processingStatus: 'processing'
+    });
+  },
+};
+
+export const jobHandlers: Record<QueuedJobType, JobHandler> = {
+  'image': imageJobHandler,
+  'multi-image': multiImageJobHandler,
+  'multi-image-generate': multiImageGenerateJobHandler,
+  'video': videoJobHandler,
+};
@@ -0,0 +1,265 @@
+import os from "os";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import type { QueuedJob, QueuedJobType } from "@shared/schema";
+import { jobHandlers } from "./jobHandlers";
+import { publishQueuedJobStatus, subscribeToAllJobEvents } from "./jobEvents";
+import { JobCancelledError } from "./failover";
+import { QuotaExceededError, reserveJobSlot, type JobQuota } from "./quotas";
+
+// Jobs created less than this long ago are never treated as orphans; the route
+// may still be between creating the job row and enqueueing it.
+const ORPHAN_GRACE_MS = 5 * 60 * 1000;
+
+export interface JobWorkerOptions {
+  concurrency?: number;     // Parallel worker loops in this process
+  pollIntervalMs?: number;  // Idle wait between polls of an empty queue
+  leaseMs?: number;         // How long a claimed job stays reserved without a heartbeat
+  sweepIntervalMs?: number; // How often expired leases are recovered
+}
+
+// Adds a processing job to the durable queue. The processing job row and its
+// placeholder message must already exist. With a quota, the job takes one of the
+// user's job slots or is failed with a QuotaExceededError.
+export async function enqueueProcessingJob(params: {
+  jobType: QueuedJobType;
+  jobId: string;
+  messageId: string;
+  conversationId: string;
+  payload: Record<string, any>;
+  maxAttempts?: number;
+  quota?: JobQuota;
+}): Promise<QueuedJob> {
+  const insert = () => storage.enqueueJob({
+    jobType: params.jobType,
+    jobId: params.jobId,
+    messageId: params.messageId,
+    conversationId: params.conversationId,
+    payload: params.payload,
+    maxAttempts: params.maxAttempts ?? 3,
+  });
+
+  let entry: QueuedJob;
+  try {
+    entry = params.quota ? await reserveJobSlot(params.quota, insert) : await insert();
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      await jobHandlers[params.jobType].fail(params, error);
+    }
+    throw error;
+  }
+  console.log(`[Job Queue] Enqueued ${entry.jobType} job ${entry.jobId} (queue entry ${entry.id})`);
+  await publishQueuedJobStatus(entry, 'pending');
+  return entry;
+}
+
+// Stops a queued or running job. The worker holding it aborts its in-flight
+// requests when it sees the 'cancelled' event (or, at the latest, when its next
+// lease renewal fails). Returns undefined if the job already finished.
+export async function cancelProcessingJob(entry: QueuedJob): Promise<QueuedJob | undefined> {
+  const cancelled = await storage.cancelQueuedJob(entry.id);
+  if (!cancelled) return undefined;
+
+  await jobHandlers[cancelled.jobType as QueuedJobType].cancel(cancelled);
+  console.log(`[Job Queue] Cancelled ${cancelled.jobType} job ${cancelled.jobId}`);
+  await publishQueuedJobStatus(cancelled, 'cancelled');
+  return cancelled;
+}
+
+// Re-runs a job with its original inputs, optionally on a different model or
+// bypassing the generation cache. The processing job row and message are reused.
+// Returns undefined if the entry is not in one of `retryableStatuses` (any more), e.g.
+// because a concurrent retry claimed it first. With a quota, a retry over it throws a
+// QuotaExceededError and leaves the job as it was.
+export async function retryProcessingJob(
+  entry: QueuedJob,
+  retryableStatuses: string[],
+  model?: string,
+  regenerate?: boolean,
+  quota?: JobQuota
+): Promise<QueuedJob | undefined> {
+  const retry = async () => {
+    const claimed = await storage.claimQueuedJobRetry(entry.id, retryableStatuses);
+    if (!claimed) return undefined;
+
+    await jobHandlers[entry.jobType as QueuedJobType].reset(entry, model);
+
+    const payload = { ...entry.payload };
+    if (model) payload.model = model;
+    if (regenerate) payload.regenerate = true;
+
+    return await enqueueProcessingJob({
+      jobType: entry.jobType as QueuedJobType,
+      jobId: entry.jobId,
+      messageId: entry.messageId,
+      conversationId: entry.conversationId,
+      payload,
+      maxAttempts: entry.maxAttempts,
+    });
+  };
+
+  return quota ? await reserveJobSlot(quota, retry) : await retry();
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Polls the job queue and runs handlers. Can run inside the API server or in a
+// standalone process (server/worker.ts); several instances may share one database.
+export class JobWorker {
+  readonly workerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private concurrency: number;
+  private pollIntervalMs: number;
+  private leaseMs: number;
+  private sweepIntervalMs: number;
+  private running = false;
+  private loops: Promise<void>[] = [];
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private inFlight = new Map<string, AbortController>(); // Processing job id -> abort handle
+  private unsubscribeCancellations: (() => void) | null = null;
+
+  constructor(options: JobWorkerOptions = {}) {
+    this.concurrency = options.concurrency ?? 2;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.leaseMs = options.leaseMs ?? 60 * 1000;
+    this.sweepIntervalMs = options.sweepIntervalMs ?? 60 * 1000;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    console.log(`[Job Worker] Starting ${this.concurrency} loop(s) as ${this.workerId}`);
+
+    // Recover work left behind by a crashed or restarted process before polling
+    await this.recoverInFlightJobs();
+
+    // Abort running jobs as soon as they are cancelled, from any process
+    this.unsubscribeCancellations = subscribeToAllJobEvents(event => {
+      if (event.status === 'cancelled') {
+        this.inFlight.get(event.jobId)?.abort();
+      }
+    });
+
+    this.sweepTimer = setInterval(() => {
+      this.recoverInFlightJobs().catch(error => {
+        console.error('[Job Worker] Lease sweep failed:', error);
+      });
+    }, this.sweepIntervalMs);
+
+    for (let i = 0; i < this.concurrency; i++) {
+      this.loops.push(this.runLoop(i));
+    }
+  }
+
+  // Stops polling and waits for the jobs currently running to finish
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    await Promise.all(this.loops);
+    this.unsubscribeCancellations?.();
+    this.unsubscribeCancellations = null;
+    this.loops = [];
+    console.log(`[Job Worker] Stopped ${this.workerId}`);
+  }
+
+  // Requeues jobs whose worker stopped heartbeating, fails those that have used up
+  // their attempts, and fails in-flight job rows that were never queued.
+  async recoverInFlightJobs(): Promise<void> {
+    const expired = await storage.getExpiredJobLeases();
+
+    for (const entry of expired) {
+      if (entry.attempts >= entry.maxAttempts) {
+        console.warn(`[Job Worker] Job ${entry.jobId} exhausted ${entry.maxAttempts} attempts, marking failed`);
+        await this.failEntry(entry, new Error('Processing was interrupted too many times. Please try again.'));
+        continue;
+      }
+
+      const requeued = await storage.requeueExpiredJob(entry.id);
+      if (requeued) {
+        console.log(`[Job Worker] Requeued ${entry.jobType} job ${entry.jobId} after expired lease (attempt ${entry.attempts}/${entry.maxAttempts})`);
+      }
+    }
+
+    const orphaned = await storage.failOrphanedProcessingJobs(
+      new Date(Date.now() - ORPHAN_GRACE_MS),
+      'the server restarted before this job was queued'
+    );
+    if (orphaned > 0) {
+      console.warn(`[Job Worker] Marked ${orphaned} orphaned processing job(s) as failed`);
+    }
+  }
+
+  private async runLoop(index: number): Promise<void> {
+    while (this.running) {
+      try {
+        const entry = await storage.leaseNextQueuedJob(this.workerId, this.leaseMs);
+        if (!entry) {
+          await sleep(this.pollIntervalMs);
+          continue;
+        }
+        await this.runEntry(entry);
+      } catch (error) {
+        console.error(`[Job Worker] Loop ${index} error:`, error);
+        await sleep(this.pollIntervalMs);
+      }
+    }
+  }
+
+  private async runEntry(entry: QueuedJob): Promise<void> {
+    const handler = jobHandlers[entry.jobType as QueuedJobType];
+    if (!handler) {
+      await storage.failQueuedJob(entry.id, `Unknown job type: ${entry.jobType}`);
+      return;
+    }
+
+    console.log(`[Job Worker] Running ${entry.jobType} job ${entry.jobId} (attempt ${entry.attempts}/${entry.maxAttempts})`);
+
+    const controller = new AbortController();
+    this.inFlight.set(entry.jobId, controller);
+
+    // Keep the lease alive while the handler runs. A failed renewal means the job was
+    // cancelled or taken over, so stop working on it.
+    const heartbeat = setInterval(() => {
+      storage.renewJobLease(entry.id, this.workerId, this.leaseMs).then(renewed => {
+        if (!renewed) {
+          console.warn(`[Job Worker] Lost lease on job ${entry.jobId}, aborting`);
+          controller.abort();
+        }
+      }).catch(error => {
+        console.error(`[Job Worker] Failed to renew lease on job ${entry.jobId}:`, error);
+      });
+    }, Math.floor(this.leaseMs / 3));
+
+    try {
+      await publishQueuedJobStatus(entry, 'processing');
+      // The handler completes the queue entry itself, just before writing results
+      await handler.run(entry, controller.signal);
+      console.log(`[Job Worker] Completed ${entry.jobType} job ${entry.jobId}`);
+      await publishQueuedJobStatus(entry, 'completed');
+    } catch (error) {
+      // Cancellation has already been recorded by whoever cancelled the job
+      if (error instanceof JobCancelledError || controller.signal.aborted) {
+        console.log(`[Job Worker] ${entry.jobType} job ${entry.jobId} stopped (cancelled or lease lost)`);
+        return;
+      }
+      console.error(`[Job Worker] ${entry.jobType} job ${entry.jobId} failed:`, error);
+      await this.failEntry(entry, error instanceof Error ? error : new Error('Unknown error'));
+    } finally {
+      clearInterval(heartbeat);
+      this.inFlight.delete(entry.jobId);
+    }
+  }
+
+  private async failEntry(entry: QueuedJob, error: Error): Promise<void> {
+    try {
+      await storage.failQueuedJob(entry.id, error.message);
+      await jobHandlers[entry.jobType as QueuedJobType]?.fail(entry, error);
+      await publishQueuedJobStatus(entry, 'error', error.message);
+    } catch (updateError) {
+      console.error(`[Job Worker] Failed to record failure for job ${entry.jobId}:`, updateError);
+    }
+  }
+}
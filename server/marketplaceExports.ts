@@ -0,0 +1,327 @@
+import sharp from "sharp";
+import { storage } from "./storage";
+import { objectStorageService, readInputImage } from "./processing";
+import { resolveShareSource, ShareLinkError } from "./shareLinks";
+import type {
+  MarketplaceExportRequest,
+  MarketplaceExportResult,
+  MarketplacePresetKey,
+  MarketplacePresetSummary,
+  MarketplaceRuleResult,
+  User,
+} from "@shared/schema";
+
+export class MarketplaceExportError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "MarketplaceExportError";
+    Object.setPrototypeOf(this, MarketplaceExportError.prototype);
+  }
+}
+
+interface MarketplacePreset extends MarketplacePresetSummary {
+  productFill: number; // Share of the longer canvas side the product spans
+  whiteBackground: boolean; // Background must be pure white (#FFFFFF)
+  minSourceSide: number; // Products smaller than this are upscaled, which the report flags
+  maxBytes: number;
+}
+
+const MB = 1024 * 1024;
+
+export const MARKETPLACE_PRESETS: Record<MarketplacePresetKey, MarketplacePreset> = {
+  amazon: {
+    key: 'amazon',
+    name: 'Amazon main image',
+    description: 'Pure white background, product fills 85% of the frame, 2000px square sRGB JPEG',
+    width: 2000,
+    height: 2000,
+    productFill: 0.85,
+    whiteBackground: true,
+    minSourceSide: 1600,
+    maxBytes: 10 * MB,
+  },
+  shopify: {
+    key: 'shopify',
+    name: 'Shopify product image',
+    description: '2048px square sRGB JPEG on white, product fills 80% of the frame',
+    width: 2048,
+    height: 2048,
+    productFill: 0.8,
+    whiteBackground: false,
+    minSourceSide: 1024,
+    maxBytes: 20 * MB,
+  },
+  etsy: {
+    key: 'etsy',
+    name: 'Etsy listing photo',
+    description: '4:3 landscape, 2700px wide sRGB JPEG under 1 MB',
+    width: 2700,
+    height: 2025,
+    productFill: 0.8,
+    whiteBackground: false,
+    minSourceSide: 2000,
+    maxBytes: 1 * MB,
+  },
+  ebay: {
+    key: 'ebay',
+    name: 'eBay gallery image',
+    description: 'White background, 1600px square sRGB JPEG, product fills 85% of the frame',
+    width: 1600,
+    height: 1600,
+    productFill: 0.85,
+    whiteBackground: true,
+    minSourceSide: 500,
+    maxBytes: 12 * MB,
+  },
+};
+
+// Qualities tried in turn until the file fits the preset's size limit
+const JPEG_QUALITIES = [92, 85, 78, 70, 60, 50];
+
+// Channel difference under which a pixel counts as background when trimming and when
+// checking that the source background is even
+const BACKGROUND_TOLERANCE = 24;
+
+// Analysis runs on a downscaled copy; the rules do not need every pixel
+const ANALYSIS_SIZE = 512;
+
+export function listMarketplacePresets(): MarketplacePresetSummary[] {
+  return Object.values(MARKETPLACE_PRESETS).map(({ key, name, description, width, height }) => ({
+    key, name, description, width, height,
+  }));
+}
+
+export function withPassed(entry: Omit<MarketplaceExportResult, 'passed'>): MarketplaceExportResult {
+  return { ...entry, passed: entry.report.every((rule) => rule.passed) };
+}
+
+// Share of the outer ring of pixels (about 2% of each side) matching `matches`
+async function borderShare(image: Buffer, matches: (r: number, g: number, b: number) => boolean): Promise<number> {
+  const { data, info } = await sharp(image)
+    .resize({ width: ANALYSIS_SIZE, height: ANALYSIS_SIZE, fit: 'inside' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const ring = Math.max(1, Math.round(Math.min(info.width, info.height) * 0.02));
+  let total = 0;
+  let matching = 0;
+  for (let y = 0; y < info.height; y++) {
+    for (let x = 0; x < info.width; x++) {
+      if (x >= ring && x < info.width - ring && y >= ring && y < info.height - ring) continue;
+      const offset = (y * info.width + x) * info.channels;
+      total++;
+      if (matches(data[offset], data[offset + 1], data[offset + 2])) matching++;
+    }
+  }
+  return total ? matching / total : 0;
+}
+
+// The product cut out of its source
+interface ProductCutout {
+  product: Buffer;
+  evenBackground: boolean; // The source border is one even colour, which was trimmed
+  whiteShare: number; // Share of the source border that is white
+}
+
+// The product cut out of its background: the image with even borders trimmed. A source
+// whose border is not one even colour keeps its background, which the report flags.
+async function extractProduct(flattened: Buffer): Promise<ProductCutout> {
+  const { data } = await sharp(flattened).extract({ left: 0, top: 0, width: 1, height: 1 }).raw().toBuffer({ resolveWithObject: true });
+  const [r0, g0, b0] = [data[0], data[1], data[2]];
+  const evenShare = await borderShare(flattened, (r, g, b) =>
+    Math.max(Math.abs(r - r0), Math.abs(g - g0), Math.abs(b - b0)) <= BACKGROUND_TOLERANCE
+  );
+  const whiteShare = await borderShare(flattened, (r, g, b) => r >= 250 && g >= 250 && b >= 250);
+
+  try {
+    const product = await sharp(flattened).trim({ threshold: BACKGROUND_TOLERANCE }).toBuffer();
+    return { product, evenBackground: evenShare >= 0.95, whiteShare };
+  } catch {
+    // Nothing to trim against, e.g. an image of a single colour
+    return { product: flattened, evenBackground: false, whiteShare };
+  }
+}
+
+async function encode(canvas: sharp.Sharp, maxBytes: number): Promise<Buffer> {
+  let output: Buffer | null = null;
+  for (const quality of JPEG_QUALITIES) {
+    output = await canvas.clone().jpeg({ quality, mozjpeg: true }).withIccProfile('srgb').toBuffer();
+    if (output.length <= maxBytes) break;
+  }
+  return output!;
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+// Every rule of the preset, measured rather than assumed: the file rules on the rendered
+// file, and the background and fill on the source and its cut-out, since the white
+// padding the canvas adds would pass them whatever the source looked like
+async function checkCompliance(
+  preset: MarketplacePreset,
+  output: Buffer,
+  cutout: ProductCutout,
+  productSize: { width: number; height: number; side: number }
+): Promise<MarketplaceRuleResult[]> {
+  const { evenBackground, whiteShare } = cutout;
+  const metadata = await sharp(output).metadata();
+  const width = metadata.width ?? 0;
+  const height = metadata.height ?? 0;
+  const report: MarketplaceRuleResult[] = [
+    {
+      rule: 'dimensions',
+      label: 'Image size',
+      passed: width === preset.width && height === preset.height,
+      expected: `${preset.width}×${preset.height}px`,
+      actual: `${width}×${height}px`,
+    },
+  ];
+
+  if (preset.whiteBackground) {
+    report.push({
+      rule: 'background',
+      label: 'Pure white background',
+      passed: evenBackground && whiteShare >= 0.98,
+      expected: '#FFFFFF behind the product',
+      actual: evenBackground
+        ? `${percent(whiteShare)} of the source border is white`
+        : 'Source background is not an even colour and was kept',
+    });
+  }
+
+  // Without an even background the cut-out is the whole source, so how much of the
+  // frame the product itself spans is unknown
+  const fill = evenBackground
+    ? Math.max(productSize.width / preset.width, productSize.height / preset.height)
+    : 0;
+  report.push({
+    rule: 'productFill',
+    label: 'Product fills the frame',
+    passed: fill >= preset.productFill - 0.01,
+    expected: `at least ${percent(preset.productFill)}`,
+    actual: evenBackground ? percent(fill) : 'Product could not be separated from its background',
+  });
+
+  report.push(
+    {
+      rule: 'format',
+      label: 'JPEG file',
+      passed: metadata.format === 'jpeg',
+      expected: 'jpeg',
+      actual: metadata.format || 'unknown',
+    },
+    {
+      rule: 'colorSpace',
+      label: 'sRGB colour space',
+      passed: metadata.space === 'srgb' && !!metadata.icc,
+      expected: 'srgb with an embedded profile',
+      actual: `${metadata.space || 'unknown'}${metadata.icc ? '' : ', no profile'}`,
+    },
+    {
+      rule: 'fileSize',
+      label: 'File size',
+      passed: output.length <= preset.maxBytes,
+      expected: `at most ${(preset.maxBytes / MB).toFixed(1)} MB`,
+      actual: `${(output.length / MB).toFixed(2)} MB`,
+    },
+    {
+      rule: 'sourceResolution',
+      label: 'Not upscaled',
+      passed: productSize.side >= preset.minSourceSide,
+      expected: `product at least ${preset.minSourceSide}px in the source`,
+      actual: `${productSize.side}px`,
+    }
+  );
+  return report;
+}
+
+// The product centred on a white canvas of the preset's size, scaled so it spans the
+// preset's share of the frame, as an sRGB JPEG within the size limit
+export async function renderMarketplaceVariant(
+  source: Buffer,
+  preset: MarketplacePreset
+): Promise<{ output: Buffer; report: MarketplaceRuleResult[] }> {
+  const flattened = await sharp(source, { failOn: 'none' })
+    .rotate() // Apply EXIF orientation
+    .toColourspace('srgb')
+    .flatten({ background: '#ffffff' })
+    .png()
+    .toBuffer();
+  const cutout = await extractProduct(flattened);
+  const { product } = cutout;
+
+  const productMetadata = await sharp(product).metadata();
+  const productSide = Math.max(productMetadata.width ?? 0, productMetadata.height ?? 0);
+  const { data: resized, info } = await sharp(product)
+    .resize({
+      width: Math.round(preset.width * preset.productFill),
+      height: Math.round(preset.height * preset.productFill),
+      fit: 'inside',
+    })
+    .toBuffer({ resolveWithObject: true });
+
+  const canvas = sharp({
+    create: { width: preset.width, height: preset.height, channels: 3, background: '#ffffff' },
+  }).composite([{
+    input: resized,
+    left: Math.round((preset.width - info.width) / 2),
+    top: Math.round((preset.height - info.height) / 2),
+  }]);
+  const output = await encode(canvas, preset.maxBytes);
+  const report = await checkCompliance(preset, output, cutout, { width: info.width, height: info.height, side: productSide });
+  return { output, report };
+}
+
+// Renders one variant per requested preset and keeps them, owned by the user, with
+// their reports
+export async function createMarketplaceExports(
+  user: User,
+  request: MarketplaceExportRequest
+): Promise<MarketplaceExportResult[]> {
+  let objectUrl: string;
+  try {
+    ({ objectUrl } = await resolveShareSource(user, request.sourceType, request.sourceId));
+  } catch (error) {
+    if (error instanceof ShareLinkError) {
+      throw new MarketplaceExportError(error.status, error.message);
+    }
+    throw error;
+  }
+
+  // resolveShareSource has checked the user can open the object; provider and other
+  // remote URLs are not fetched
+  if (!/^(\/objects\/|\/uploads\/|data:)/.test(objectUrl)) {
+    throw new MarketplaceExportError(400, 'Only stored images can be exported');
+  }
+  const source = await readInputImage(objectUrl);
+  const metadata = await sharp(source, { failOn: 'none' }).metadata().catch(() => null);
+  if (!metadata?.width || !metadata.height) {
+    throw new MarketplaceExportError(400, 'Only images can be exported');
+  }
+
+  const results: MarketplaceExportResult[] = [];
+  for (const key of Array.from(new Set(request.presets))) {
+    const preset = MARKETPLACE_PRESETS[key];
+    const { output, report } = await renderMarketplaceVariant(source, preset);
+    const objectPath = await objectStorageService.uploadObject(output, `${key}.jpg`, 'image/jpeg');
+    await objectStorageService.trySetObjectEntityAclPolicy(objectPath, {
+      owner: user.id,
+      visibility: 'private',
+    });
+
+    const entry = await storage.createMarketplaceExport({
+      userId: user.id,
+      sourceType: request.sourceType,
+      sourceId: request.sourceId,
+      preset: key,
+      objectPath,
+      width: preset.width,
+      height: preset.height,
+      bytes: output.length,
+      report,
+    });
+    results.push(withPassed(entry));
+  }
+  return results;
+}
@@ -0,0 +1,113 @@
+import { storage } from "./storage";
+import { DEFAULT_PROVIDER_ENDPOINT, endpointHeaders } from "./providerEndpoints";
+import type {
+  InsertModelCapability,
+  ModelCapability,
+  ModelCapabilityOverrides,
+  ResolvedModelCapabilities,
+} from "@shared/schema";
+
+type CapabilityFlags = Pick<ResolvedModelCapabilities, 'visionInput' | 'imageOutput' | 'videoOutput'>;
+
+// Models served outside the OpenRouter catalog (or needed before the first sync)
+const BUILTIN_CAPABILITIES: Record<string, CapabilityFlags> = {
+  'google/gemini-2.5-flash-image': { visionInput: true, imageOutput: true, videoOutput: false },
+  'google/gemini-2.5-flash-image-preview': { visionInput: true, imageOutput: true, videoOutput: false },
+  'gpt-image-1': { visionInput: true, imageOutput: true, videoOutput: false },
+  'dall-e-2': { visionInput: true, imageOutput: true, videoOutput: false },
+  'dall-e-3': { visionInput: false, imageOutput: true, videoOutput: false },
+};
+
+const NO_CAPABILITIES: CapabilityFlags = { visionInput: false, imageOutput: false, videoOutput: false };
+
+function builtinCapabilities(modelId: string): CapabilityFlags | undefined {
+  // Anything served by the local deterministic provider
+  if (modelId.startsWith('local/')) {
+    return { visionInput: true, imageOutput: true, videoOutput: false };
+  }
+  return BUILTIN_CAPABILITIES[modelId];
+}
+
+// Maps an OpenRouter catalog entry. Newer entries list input/output modalities,
+// older ones only have a "text+image->text" modality string.
+export function capabilitiesFromCatalog(model: any): InsertModelCapability {
+  const architecture = model.architecture || {};
+  const [inputPart, outputPart] = (architecture.modality || '').split('->');
+  const inputs: string[] = architecture.input_modalities || inputPart?.split('+') || [];
+  const outputs: string[] = architecture.output_modalities || outputPart?.split('+') || [];
+
+  return {
+    modelId: model.id,
+    name: model.name || null,
+    visionInput: String(inputs.includes('image')),
+    imageOutput: String(outputs.includes('image')),
+    videoOutput: String(outputs.includes('video')),
+    contextLength: model.context_length ?? null,
+    maxCompletionTokens: model.top_provider?.max_completion_tokens ?? null,
+    promptPrice: model.pricing?.prompt ?? null,
+    completionPrice: model.pricing?.completion ?? null,
+    imagePrice: model.pricing?.image ?? null,
+    syncedAt: new Date(),
+  };
+}
+
+export function resolveCapabilities(modelId: string, row?: ModelCapability): ResolvedModelCapabilities {
+  const fromCatalog = !!row?.syncedAt;
+  const builtin = builtinCapabilities(modelId);
+  const base: CapabilityFlags = fromCatalog
+    ? {
+        visionInput: row!.visionInput === 'true',
+        imageOutput: row!.imageOutput === 'true',
+        videoOutput: row!.videoOutput === 'true',
+      }
+    : builtin || NO_CAPABILITIES;
+  const overrides: ModelCapabilityOverrides = row?.overrides || {};
+
+  return {
+    modelId,
+    source: fromCatalog ? 'catalog' : builtin ? 'builtin' : 'unknown',
+    visionInput: overrides.visionInput ?? base.visionInput,
+    imageOutput: overrides.imageOutput ?? base.imageOutput,
+    videoOutput: overrides.videoOutput ?? base.videoOutput,
+    contextLength: row?.contextLength ?? null,
+    maxCompletionTokens: overrides.maxCompletionTokens ?? row?.maxCompletionTokens ?? null,
+    pricing: {
+      prompt: row?.promptPrice ?? null,
+      completion: row?.completionPrice ?? null,
+      image: row?.imagePrice ?? null,
+    },
+    overridden: Object.keys(overrides) as (keyof ModelCapabilityOverrides)[],
+  };
+}
+
+export async function getModelCapabilities(modelId: string): Promise<ResolvedModelCapabilities> {
+  const row = await storage.getModelCapability(modelId);
+  return resolveCapabilities(modelId, row);
+}
+
+export async function listModelCapabilities(): Promise<ResolvedModelCapabilities[]> {
+  const rows = await storage.getModelCapabilities();
+  return rows.map(row => resolveCapabilities(row.modelId, row));
+}
+
+// Stores an already fetched catalog (e.g. from GET /api/models)
+export async function syncCatalogEntries(catalog: any[]): Promise<number> {
+  const entries = catalog.filter(model => typeof model?.id === 'string').map(capabilitiesFromCatalog);
+  const synced = await storage.upsertModelCapabilities(entries);
+  console.log(`[Model Capabilities] Synced ${synced} models from the catalog`);
+  return synced;
+}
+
+export async function syncModelCatalog(apiKey?: string): Promise<number> {
+  const keyToUse = apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENROUTER_KEY;
+  const response = await fetch(`${DEFAULT_PROVIDER_ENDPOINT.baseUrl}/models`, {
+    headers: endpointHeaders(DEFAULT_PROVIDER_ENDPOINT, keyToUse)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Model catalog request failed: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return syncCatalogEntries(result.data || []);
+}
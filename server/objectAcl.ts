@@ -1,4 +1,7 @@
-import { S3Object } from "./objectStorage";
+import type { StorageObject } from "./objectStorage";
+import { storage } from "./storage";
+import { canAccessConversation } from "./workspaces";
+import type { User } from "@shared/schema";
 
 const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 
@@ -12,7 +15,12 @@ const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 // - GROUP_MEMBER: the users who are members of a specific group;
 // - SUBSCRIBER: the users who are subscribers of a specific service / content
 //   creator.
-export enum ObjectAccessGroupType {}
+export enum ObjectAccessGroupType {
+  USER_LIST = "USER_LIST",
+  EMAIL_DOMAIN = "EMAIL_DOMAIN",
+  GROUP_MEMBER = "GROUP_MEMBER",
+  SUBSCRIBER = "SUBSCRIBER",
+}
 
 // The logic user group that can access the object.
 export interface ObjectAccessGroup {
@@ -32,6 +40,10 @@ export interface ObjectAccessGroup {
   // - for SUBSCRIBER, the id could be the subscriber db entity id, and the
   //   subscriber db entity could contain a bunch of user ids. User needs to
   //   be a subscriber to be able to access the object.
+  //
+  // Here, GROUP_MEMBER ids are workspace ids and SUBSCRIBER ids are billing
+  // plan keys. Registration does not verify email addresses, so EMAIL_DOMAIN
+  // only matches addresses a site admin has verified.
   id: string;
 }
 
@@ -82,30 +94,174 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
   public abstract hasMember(userId: string): Promise<boolean>;
 }
 
+// Users in a user list kept in the database.
+class UserListAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.USER_LIST, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    return storage.isUserListMember(this.id, userId);
+  }
+}
+
+// Users whose verified email address is in the domain, e.g. "example.com".
+class EmailDomainAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.EMAIL_DOMAIN, normalizeEmailDomain(id));
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const user = await storage.getUser(userId);
+    const email = user?.email?.toLowerCase();
+    return !!email && user?.verifiedEmail?.toLowerCase() === email && email.endsWith(`@${this.id}`);
+  }
+}
+
+// Members of a workspace.
+class GroupMemberAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.GROUP_MEMBER, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    return !!(await storage.getWorkspaceMember(this.id, userId));
+  }
+}
+
+// Users currently on a billing plan.
+class SubscriberAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.SUBSCRIBER, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const account = await storage.getOrCreateBillingAccount(userId);
+    return account.planKey === this.id;
+  }
+}
+
 function createObjectAccessGroup(
   group: ObjectAccessGroup,
 ): BaseObjectAccessGroup {
   switch (group.type) {
-    // Implement the case for each type of access group to instantiate.
-    //
-    // For example:
-    // case "USER_LIST":
-    //   return new UserListAccessGroup(group.id);
-    // case "EMAIL_DOMAIN":
-    //   return new EmailDomainAccessGroup(group.id);
-    // case "GROUP_MEMBER":
-    //   return new GroupMemberAccessGroup(group.id);
-    // case "SUBSCRIBER":
-    //   return new SubscriberAccessGroup(group.id);
+    case ObjectAccessGroupType.USER_LIST:
+      return new UserListAccessGroup(group.id);
+    case ObjectAccessGroupType.EMAIL_DOMAIN:
+      return new EmailDomainAccessGroup(group.id);
+    case ObjectAccessGroupType.GROUP_MEMBER:
+      return new GroupMemberAccessGroup(group.id);
+    case ObjectAccessGroupType.SUBSCRIBER:
+      return new SubscriberAccessGroup(group.id);
     default:
       throw new Error(`Unknown access group type: ${group.type}`);
   }
 }
 
-// Sets the ACL policy to the object metadata.
-// For S3, we'll store ACL policies in a database or use S3 tags
+// "@Example.com" and "example.com" name the same domain.
+export function normalizeEmailDomain(domain: string): string {
+  return domain.trim().replace(/^@/, "").toLowerCase();
+}
+
+export class ObjectAclError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ObjectAclError";
+    Object.setPrototypeOf(this, ObjectAclError.prototype);
+  }
+}
+
+// Checks that the user may share with the groups in the rules: only lists they own
+// and workspaces they belong to (site admins may use any). Returns the rules with
+// email domains normalized.
+export async function validateAclRules(
+  user: User,
+  rules: ObjectAclRule[],
+): Promise<ObjectAclRule[]> {
+  const isSiteAdmin = user.role === "admin";
+  const validated: ObjectAclRule[] = [];
+
+  for (const rule of rules) {
+    const { type, id } = rule.group;
+    if (type === ObjectAccessGroupType.USER_LIST) {
+      const list = await storage.getUserList(id);
+      if (!list || (list.ownerId !== user.id && !isSiteAdmin)) {
+        throw new ObjectAclError(`User list not found: ${id}`);
+      }
+    } else if (type === ObjectAccessGroupType.GROUP_MEMBER) {
+      const member = await storage.getWorkspaceMember(id, user.id);
+      if (!member && !(isSiteAdmin && (await storage.getWorkspace(id)))) {
+        throw new ObjectAclError(`Workspace not found: ${id}`);
+      }
+    } else if (type === ObjectAccessGroupType.SUBSCRIBER) {
+      if (!(await storage.getBillingPlan(id))) {
+        throw new ObjectAclError(`Billing plan not found: ${id}`);
+      }
+    } else if (type === ObjectAccessGroupType.EMAIL_DOMAIN) {
+      if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(normalizeEmailDomain(id))) {
+        throw new ObjectAclError(`Invalid email domain: ${id}`);
+      }
+    } else {
+      throw new ObjectAclError(`Unsupported access group type: ${type}`);
+    }
+
+    validated.push({
+      ...rule,
+      group: {
+        type,
+        id: type === ObjectAccessGroupType.EMAIL_DOMAIN ? normalizeEmailDomain(id) : id,
+      },
+    });
+  }
+  return validated;
+}
+
+// Whether the user may change who can access the object: site admins, users with
+// write access and, for system-owned generation outputs, users who can open a
+// conversation whose job produced it.
+export async function canShareObject(
+  user: User,
+  objectFile: StorageObject,
+  objectPath: string,
+): Promise<boolean> {
+  if (user.role === "admin") return true;
+  if (await canAccessObject({ userId: user.id, objectFile, requestedPermission: ObjectPermission.WRITE })) {
+    return true;
+  }
+
+  const aclPolicy = await getObjectAclPolicy(objectFile);
+  if (aclPolicy?.owner !== "system") return false;
+  for (const conversation of await storage.getConversationsByJobOutput(objectPath)) {
+    if (await canAccessConversation(user, conversation)) return true;
+  }
+  return false;
+}
+
+// Who keeps access to a system-owned generation output when it is shared: the
+// members of the workspaces whose conversations produced it, with write access so
+// no collaborator can lock out the rest. The output stays owned by the system,
+// unless only conversations from before workspaces produced it, which nobody but
+// their creator can open.
+export async function generationOutputAccess(
+  objectPath: string,
+): Promise<{ owner: string; aclRules: ObjectAclRule[] }> {
+  const conversations = await storage.getConversationsByJobOutput(objectPath);
+  const workspaceIds = Array.from(new Set(conversations.map((conversation) => conversation.workspaceId).filter((id): id is string => !!id)));
+  const creators = Array.from(new Set(conversations.filter((conversation) => !conversation.workspaceId).map((conversation) => conversation.userId)));
+
+  return {
+    owner: workspaceIds.length === 0 && creators.length === 1 && creators[0] ? creators[0] : "system",
+    aclRules: workspaceIds.map((id) => ({
+      group: { type: ObjectAccessGroupType.GROUP_MEMBER, id },
+      permission: ObjectPermission.WRITE,
+    })),
+  };
+}
+
+// Sets the ACL policy of the object. Object metadata cannot be changed after upload,
+// so the policy is stored in the database under the object key.
 export async function setObjectAclPolicy(
-  objectFile: S3Object,
+  objectFile: StorageObject,
   aclPolicy: ObjectAclPolicy,
 ): Promise<void> {
   const [exists] = await objectFile.exists();
@@ -113,42 +269,66 @@ export async function setObjectAclPolicy(
     throw new Error(`Object not found: ${objectFile.name}`);
   }
 
-  // For S3, we could store ACL policies in:
-  // 1. Object metadata (limited to 2KB)
-  // 2. S3 tags
-  // 3. Separate database table
-  // For now, we'll use a simplified approach and log the policy
-  console.log(`Setting ACL policy for S3 object ${objectFile.name}:`, aclPolicy);
-  
-  // In a production environment, you might want to:
-  // - Store the policy in a database table with object key as reference
-  // - Use S3 tags to store simple policy information
-  // - Use S3 bucket policies for more complex access control
+  await storage.upsertObjectAclPolicy({
+    objectKey: objectFile.name,
+    owner: aclPolicy.owner,
+    visibility: aclPolicy.visibility,
+    aclRules: aclPolicy.aclRules || [],
+  });
+}
+
+// Sets the first ACL policy of the object; an object that already has a stored policy
+// keeps it. Returns whether the policy was set.
+export async function createObjectAclPolicy(
+  objectFile: StorageObject,
+  aclPolicy: ObjectAclPolicy,
+): Promise<boolean> {
+  return storage.createObjectAclPolicy({
+    objectKey: objectFile.name,
+    owner: aclPolicy.owner,
+    visibility: aclPolicy.visibility,
+    aclRules: aclPolicy.aclRules || [],
+  });
 }
 
-// Gets the ACL policy from the object metadata.
+// Rules of unknown group types are dropped when a policy is read
+function grantedRules(rules: ObjectAclRule[] = []): ObjectAclRule[] {
+  const groupTypes: string[] = Object.values(ObjectAccessGroupType);
+  return rules.filter((rule) => groupTypes.includes(rule.group.type));
+}
+
+// Gets the ACL policy of the object: the stored policy, else one set in the
+// object metadata at upload. Objects with neither are private to the system, so
+// no one can read them until a policy is set; older objects get a stored policy
+// from the startup backfill (storage.backfillObjectAclPolicies).
 export async function getObjectAclPolicy(
-  objectFile: S3Object,
+  objectFile: StorageObject,
 ): Promise<ObjectAclPolicy | null> {
+  const stored = await storage.getObjectAclPolicy(objectFile.name);
+  if (stored) {
+    return {
+      owner: stored.owner,
+      visibility: stored.visibility as ObjectAclPolicy["visibility"],
+      aclRules: grantedRules(stored.aclRules as ObjectAclRule[]),
+    };
+  }
+
   try {
     const [metadata] = await objectFile.getMetadata();
     const aclPolicy = metadata?.metadata?.[ACL_POLICY_METADATA_KEY];
-    if (!aclPolicy) {
-      // Default policy for S3 objects
-      return {
-        owner: 'system',
-        visibility: 'public',
-      };
+    if (aclPolicy) {
+      const parsed: ObjectAclPolicy = JSON.parse(aclPolicy as string);
+      return { ...parsed, aclRules: grantedRules(parsed.aclRules) };
     }
-    return JSON.parse(aclPolicy as string);
   } catch (error) {
-    console.error('Error getting ACL policy from S3 object:', error);
-    // Return default policy
-    return {
-      owner: 'system',
-      visibility: 'public',
-    };
+    console.error('Error getting ACL policy from object metadata:', error);
   }
+
+  // Default policy for stored objects
+  return {
+    owner: 'system',
+    visibility: 'private',
+  };
 }
 
 // Checks if the user can access the object.
@@ -158,12 +338,9 @@ export async function canAccessObject({
   requestedPermission,
 }: {
   userId?: string;
-  objectFile: S3Object;
+  objectFile: StorageObject;
   requestedPermission: ObjectPermission;
 }): Promise<boolean> {
-  // Simplified access control for S3
-  // In a production environment, you'd implement proper ACL checking
-  
   try {
     const aclPolicy = await getObjectAclPolicy(objectFile);
     if (!aclPolicy) {
@@ -202,6 +379,6 @@ export async function canAccessObject({
     return false;
   } catch (error) {
     console.error('Error checking object access:', error);
-    return true; // Default to allow access on error
+    return false; // A policy that cannot be checked must not expose the object
   }
 }
\ No newline at end of file
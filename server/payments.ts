@@ -0,0 +1,84 @@
+import { randomUUID } from "crypto";
+import type { BillingPlan, Invoice, User } from "@shared/schema";
+
+export interface CheckoutResult {
+  reference: string; // The provider's id for this payment, used to match webhooks
+  checkoutUrl: string | null; // Where to send the user to pay; null when nothing is left to do
+  status: 'pending' | 'paid' | 'failed';
+}
+
+// Outcome of a payment reported by the provider (webhook or redirect)
+export interface PaymentEvent {
+  reference: string;
+  status: 'paid' | 'failed';
+}
+
+// A payment service. Implementations turn an invoice into a checkout and translate
+// the provider's notifications back into payment events.
+export interface IPaymentProvider {
+  readonly id: string;
+  readonly name: string;
+  createCheckout(invoice: Invoice, plan: BillingPlan, user: User): Promise<CheckoutResult>;
+  // Verifies and parses a webhook; null for notifications that are not payment outcomes
+  parseWebhook(body: any, headers: Record<string, string | string[] | undefined>): Promise<PaymentEvent | null>;
+}
+
+// Offline provider for development and tests. FAKE_PAYMENT_OUTCOME picks what a
+// checkout does: 'paid' (default) settles at once, 'failed' declines, 'pending' waits
+// for POST /api/billing/webhooks/fake with { reference, status }. It settles without
+// payment and its webhook is unauthenticated, so it is not registered in production.
+export class FakePaymentProvider implements IPaymentProvider {
+  readonly id = 'fake';
+  readonly name = 'Fake payments (offline)';
+
+  async createCheckout(invoice: Invoice): Promise<CheckoutResult> {
+    const outcome = process.env.FAKE_PAYMENT_OUTCOME || 'paid';
+    const status = outcome === 'failed' || outcome === 'pending' ? outcome : 'paid';
+    const reference = `fake_${randomUUID()}`;
+    console.log(`[Payments] Fake checkout ${reference} for invoice ${invoice.number}: ${status}`);
+    return { reference, checkoutUrl: null, status };
+  }
+
+  async parseWebhook(body: any): Promise<PaymentEvent | null> {
+    if (typeof body?.reference !== 'string') return null;
+    if (body.status !== 'paid' && body.status !== 'failed') return null;
+    return { reference: body.reference, status: body.status };
+  }
+}
+
+export class PaymentProviderRegistry {
+  private providers = new Map<string, IPaymentProvider>();
+
+  register(provider: IPaymentProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): IPaymentProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  // The provider new checkouts use. PAYMENT_PROVIDER must be set: without it checkouts
+  // are refused rather than handed to a default.
+  active(): IPaymentProvider {
+    const id = process.env.PAYMENT_PROVIDER;
+    if (!id) {
+      throw new Error('Payments are not configured (PAYMENT_PROVIDER is not set)');
+    }
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(id === 'fake' && isProduction()
+        ? 'The fake payment provider is not available in production'
+        : `Unknown payment provider: ${id}`);
+    }
+    return provider;
+  }
+}
+
+function isProduction(): boolean {
+  return process.env.NODE_ENV === 'production';
+}
+
+export const paymentProviders = new PaymentProviderRegistry();
+if (!isProduction()) {
+  paymentProviders.register(new FakePaymentProvider());
+}
@@ -0,0 +1,1790 @@
+import path from "path";
+import fs from "fs";
+import crypto from "crypto";
+import { spawn } from "child_process";
+import { ObjectStorageService } from "./objectStorage.js";
+// @ts-ignore - FFmpeg types are installed but may not be loading properly
+import ffmpeg from "fluent-ffmpeg";
+import ffmpegPath from "ffmpeg-static";
+import sharp from "sharp";
+import {
+  JobCancelledError,
+  ProviderNotConfiguredError,
+  ProviderRequestError,
+  type TokenUsage,
+  getCircuitBreaker,
+  httpStatusOf,
+  throwIfCancelled,
+} from "./failover";
+import { DEFAULT_PROVIDER_ENDPOINT, endpointApiKey, endpointHeaders, usageAccounting } from "./providerEndpoints";
+import { getModelCapabilities } from "./modelCapabilities";
+import type { MultiImageProcessingJob, ProviderEndpoint, ResolvedModelCapabilities } from "@shared/schema";
+
+// Configure ffmpeg with the static binary path
+if (ffmpegPath) {
+  ffmpeg.setFfmpegPath(ffmpegPath);
+}
+
+// Reads the OpenAI-style usage block returned by OpenRouter (which adds the cost
+// when usage accounting is on)
+export function parseTokenUsage(result: any): TokenUsage | undefined {
+  const usage = result?.usage;
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
+    totalTokens: usage.total_tokens || (usage.prompt_tokens || 0) + (usage.completion_tokens || 0),
+    ...(typeof usage.cost === 'number' ? { cost: usage.cost } : {})
+  };
+}
+
+// Requested completion budget, capped at what the model allows
+function maxCompletionTokens(capabilities: ResolvedModelCapabilities, preferred: number): number {
+  return capabilities.maxCompletionTokens ? Math.min(preferred, capabilities.maxCompletionTokens) : preferred;
+}
+
+// Aborts a request's own timeout controller when the job's signal fires
+export function forwardAbort(signal: AbortSignal | undefined, controller: AbortController): void {
+  if (!signal) return;
+  if (signal.aborted) {
+    controller.abort();
+    return;
+  }
+  signal.addEventListener('abort', () => controller.abort(), { once: true });
+}
+
+// AI Video Plan parsing interface
+interface AiVideoPlan {
+  description: string;
+  cameraMovements: string[];
+  visualEffects: string[];
+  textOverlays: string[];
+  duration: number;
+  marketingAngle: string;
+}
+
+// Video generation provider interface
+interface IVideoProvider {
+  generate(params: {
+    imageUrl: string;
+    prompt: string;
+    duration: number;
+    model: string;
+    apiKey?: string;
+    signal?: AbortSignal;
+  }): Promise<{
+    videoUrl: string;
+    processingTime: number;
+    enhancementsApplied: string[];
+    providerUsed: string;
+    modelUsed: string;
+  }>;
+}
+
+interface VideoGenerationResult {
+  processedVideoUrl: string;
+  enhancementsApplied: string[];
+  videoDuration: number;
+  processingTime: number;
+  providerUsed: string;
+  modelUsed: string;
+}
+
+// OpenRouter Video Provider - Real video generation using AI models
+class OpenRouterVideoProvider implements IVideoProvider {
+  async generate(params: {
+    imageUrl: string;
+    prompt: string;
+    duration: number;
+    model: string;
+    apiKey?: string;
+    signal?: AbortSignal;
+  }): Promise<{
+    videoUrl: string;
+    processingTime: number;
+    enhancementsApplied: string[];
+    providerUsed: string;
+    modelUsed: string;
+  }> {
+    const startTime = Date.now();
+    
+    try {
+      // Check if model supports video generation
+      if (!(await getModelCapabilities(params.model)).videoOutput) {
+        throw new Error(`Model ${params.model} does not support video generation`);
+      }
+      
+      const keyToUse = params.apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENROUTER_KEY;
+      if (!keyToUse) {
+        throw new ProviderNotConfiguredError('OpenRouter API key not configured');
+      }
+
+      const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
+      const baseUrl = domain ? `https://${domain}` : 'http://localhost:5000';
+      
+      // Try video generation endpoint (experimental)
+      const videoResponse = await this.generateVideo(params.imageUrl, params.prompt, params.duration, params.model, keyToUse, baseUrl);
+      
+      const processingTime = Math.round((Date.now() - startTime) / 1000);
+      
+      return {
+        videoUrl: videoResponse.videoUrl,
+        processingTime,
+        enhancementsApplied: [`Real video generated with ${params.model}`, ...videoResponse.enhancementsApplied],
+        providerUsed: 'OpenRouter Video AI',
+        modelUsed: params.model
+      };
+      
+    } catch (error) {
+      console.warn('[OpenRouter Video] Generation failed:', error);
+      throw error;
+    }
+  }
+  
+  private async generateVideo(imageUrl: string, prompt: string, duration: number, model: string, apiKey: string, baseUrl: string): Promise<{
+    videoUrl: string;
+    enhancementsApplied: string[];
+  }> {
+    // For now, return error as we need to research actual video API endpoints
+    throw new Error('Video generation API endpoint not yet implemented - OpenRouter video models need research');
+  }
+}
+
+// Ken Burns Provider - Fallback using existing FFmpeg approach
+class KenBurnsProvider implements IVideoProvider {
+  async generate(params: {
+    imageUrl: string;
+    prompt: string;
+    duration: number;
+    model: string;
+    apiKey?: string;
+    signal?: AbortSignal;
+  }): Promise<{
+    videoUrl: string;
+    processingTime: number;
+    enhancementsApplied: string[];
+    providerUsed: string;
+    modelUsed: string;
+  }> {
+    const startTime = Date.now();
+    
+    try {
+      console.log('[Ken Burns] Generating video with motion effects');
+      
+      // Generate real video using FFmpeg Ken Burns effects
+      const tempDir = path.join(process.cwd(), 'temp_videos');
+      if (!fs.existsSync(tempDir)) {
+        fs.mkdirSync(tempDir, { recursive: true });
+      }
+      
+      const videoFilename = `video_${Date.now()}_${Math.random().toString(36).substring(7)}.mp4`;
+      const tempVideoPath = path.join(tempDir, videoFilename);
+      
+      // Use existing generateVideoFromImage function which generates to tempVideoPath
+      await generateVideoFromImage(params.imageUrl, params.prompt, tempVideoPath, params.signal);
+      
+      // Upload to object storage
+      const videoBuffer = await fs.promises.readFile(tempVideoPath);
+      const s3Path = await objectStorageService.uploadObject(videoBuffer, videoFilename, 'video/mp4');
+      await objectStorageService.trySetObjectEntityAclPolicy(s3Path, {
+        owner: 'system', // System-generated videos
+        visibility: 'public',
+      });
+      
+      // Clean up temp file
+      try {
+        await fs.promises.unlink(tempVideoPath);
+      } catch (err) {
+        console.warn('[Ken Burns] Failed to clean up temp file:', err);
+      }
+      
+      const processingTime = Math.round((Date.now() - startTime) / 1000);
+      
+      return {
+        videoUrl: s3Path,
+        processingTime,
+        enhancementsApplied: ['Ken Burns motion effects', 'AI-guided camera movements', 'FFmpeg video generation'],
+        providerUsed: 'Ken Burns Effects',
+        modelUsed: 'FFmpeg'
+      };
+      
+    } catch (error) {
+      console.error('[Ken Burns] Video generation failed:', error);
+      throw error;
+    }
+  }
+}
+
+// Multi-Frame Real Video Provider - Creates actual video by generating multiple AI frames
+class MultiFrameVideoProvider implements IVideoProvider {
+  async generate(params: {
+    imageUrl: string;
+    prompt: string;
+    duration: number;
+    model: string;
+    apiKey?: string;
+    signal?: AbortSignal;
+  }): Promise<{
+    videoUrl: string;
+    processingTime: number;
+    enhancementsApplied: string[];
+    providerUsed: string;
+    modelUsed: string;
+  }> {
+    const startTime = Date.now();
+    console.log('[MultiFrame Video] Starting real video generation with multiple AI frames');
+    
+    try {
+      const keyToUse = params.apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENROUTER_KEY;
+      if (!keyToUse) {
+        throw new Error('OpenRouter API key required for multi-frame video generation');
+      }
+
+      const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
+      const baseUrl = domain ? `https://${domain}` : 'http://localhost:5000';
+      
+      // Generate multiple camera perspectives
+      const frameCount = Math.max(5, Math.ceil(params.duration / 2)); // Generate 5-8 frames depending on duration
+      const frames = await this.generateMultipleFrames(params.imageUrl, params.prompt, frameCount, params.model, keyToUse, baseUrl, params.signal);
+      
+      if (frames.length < 2) {
+        throw new Error('Failed to generate enough frames for video creation');
+      }
+      
+      // Create smooth video transitions between frames
+      const videoUrl = await this.createVideoFromFrames(frames, params.duration, params.signal);
+      
+      const processingTime = Math.round((Date.now() - startTime) / 1000);
+      
+      return {
+        videoUrl,
+        processingTime,
+        enhancementsApplied: [
+          'Multi-frame AI generation',
+          `Generated ${frames.length} unique camera perspectives`,
+          'Smooth frame interpolation',
+          'Real video sequence creation',
+          `AI model: ${params.model}`
+        ],
+        providerUsed: 'Multi-Frame AI Video',
+        modelUsed: params.model
+      };
+      
+    } catch (error) {
+      console.warn('[MultiFrame Video] Generation failed:', error);
+      throw error;
+    }
+  }
+  
+  private async generateMultipleFrames(
+    originalImageUrl: string,
+    originalPrompt: string,
+    frameCount: number,
+    model: string,
+    apiKey: string,
+    baseUrl: string,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    console.log(`[MultiFrame Video] Generating ${frameCount} unique camera perspectives...`);
+    
+    const frames: string[] = [];
+    const cameraAngles = [
+      'slightly to the left angle',
+      'slightly to the right angle', 
+      'slightly elevated perspective',
+      'slightly closer zoom',
+      'slightly wider angle',
+      'subtle rotation clockwise',
+      'subtle rotation counterclockwise',
+      'gentle forward movement perspective'
+    ];
+    
+    // Use the existing processImageWithOpenRouter method that already works
+    // This reuses the proven image generation pipeline
+    for (let i = 0; i < frameCount; i++) {
+      try {
+        const angle = cameraAngles[i % cameraAngles.length];
+        const framePrompt = `${originalPrompt}. Generate this scene from a ${angle}. Maintain the exact same objects, lighting, and style but show from this new camera perspective. Keep consistent positioning and proportions.`;
+        
+        console.log(`[MultiFrame Video] Generating frame ${i + 1}/${frameCount} with ${angle}...`);
+        
+        // Use the existing working image generation method
+        const result = await processImageWithOpenRouter(originalImageUrl, framePrompt, model, apiKey, 120, signal);
+        
+        if (result.processedImageUrl) {
+          frames.push(result.processedImageUrl);
+          console.log(`[MultiFrame Video] Frame ${i + 1} generated successfully`);
+        } else {
+          console.warn(`[MultiFrame Video] Frame ${i + 1} generation returned no image`);
+        }
+        
+        // Small delay to avoid rate limiting
+        if (i < frameCount - 1) {
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+        
+      } catch (error) {
+        if (error instanceof JobCancelledError) throw error;
+        console.warn(`[MultiFrame Video] Failed to generate frame ${i + 1}:`, error);
+        continue;
+      }
+    }
+    
+    console.log(`[MultiFrame Video] Successfully generated ${frames.length}/${frameCount} frames`);
+    return frames;
+  }
+  
+  
+  private async createVideoFromFrames(frameUrls: string[], duration: number, signal?: AbortSignal): Promise<string> {
+    console.log(`[MultiFrame Video] Creating video from ${frameUrls.length} frames with ${duration}s duration...`);
+    
+    if (!fs.existsSync('temp_videos')) {
+      fs.mkdirSync('temp_videos', { recursive: true });
+    }
+    
+    const videoId = `multiframe_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+    const framesDir = `temp_videos/frames_${videoId}`;
+    const outputPath = `temp_videos/video_${videoId}.mp4`;
+    
+    try {
+      // Create frames directory
+      fs.mkdirSync(framesDir, { recursive: true });
+      
+      // Download and prepare frames (convert relative URLs to absolute)
+      const framePaths: string[] = [];
+      const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
+      const baseUrl = domain ? `https://${domain}` : 'http://localhost:5000';
+      
+      for (let i = 0; i < frameUrls.length; i++) {
+        const absoluteUrl = frameUrls[i].startsWith('http') ? frameUrls[i] : `${baseUrl}${frameUrls[i]}`;
+        const frameResponse = await fetch(absoluteUrl);
+        if (!frameResponse.ok) continue;
+        
+        const frameBuffer = Buffer.from(await frameResponse.arrayBuffer());
+        const framePath = path.join(framesDir, `frame_${i.toString().padStart(4, '0')}.jpg`);
+        await fs.promises.writeFile(framePath, frameBuffer);
+        framePaths.push(framePath);
+      }
+      
+      if (framePaths.length < 2) {
+        throw new Error('Not enough frames downloaded for video creation');
+      }
+      
+      // Calculate frame rate for smooth playback (use integer for reliability)
+      const framesPerSecond = Math.max(2, Math.min(30, Math.round(framePaths.length / duration)));
+      
+      // Create video with smooth transitions and interpolation (remove shell quotes from filter)
+      const ffmpegCommand = [
+        'ffmpeg',
+        '-framerate', framesPerSecond.toString(),
+        '-i', path.join(framesDir, 'frame_%04d.jpg'),
+        '-vf', `scale=1920:1080:force_original_aspect_ratio=decrease,pad=1920:1080:-1:-1:black,minterpolate=mi_mode=mci:mc_mode=aobmc:vsbmc=1:fps=30`,
+        '-t', duration.toString(),
+        '-c:v', 'libx264',
+        '-preset', 'medium',
+        '-crf', '23',
+        '-pix_fmt', 'yuv420p',
+        '-movflags', '+faststart',
+        '-y',
+        outputPath
+      ];
+      
+      console.log('[MultiFrame Video] Starting FFmpeg with frame interpolation...');
+      await this.runFFmpegCommand(ffmpegCommand, signal);
+      
+      // Upload to object storage
+      const videoFilename = `multiframe_video_${videoId}.mp4`;
+      const videoBuffer = await fs.promises.readFile(outputPath);
+      const s3VideoPath = await objectStorageService.uploadObject(videoBuffer, videoFilename, 'video/mp4');
+      await objectStorageService.trySetObjectEntityAclPolicy(s3VideoPath, {
+        owner: 'system', // System-generated videos
+        visibility: 'public',
+      });
+      
+      // Cleanup
+      await this.cleanupTempFiles([outputPath, framesDir]);
+      
+      console.log('[MultiFrame Video] Video created successfully with real frame transitions');
+      return s3VideoPath;
+      
+    } catch (error) {
+      console.error('[MultiFrame Video] Video creation failed:', error);
+      await this.cleanupTempFiles([outputPath, framesDir]);
+      throw error;
+    }
+  }
+  
+  private async runFFmpegCommand(command: string[], signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new JobCancelledError());
+        return;
+      }
+
+      // Use the configured ffmpeg-static path instead of assuming 'ffmpeg' is on PATH
+      const ffmpegExecutable = ffmpegPath || 'ffmpeg';
+      const actualCommand = [ffmpegExecutable, ...command.slice(1)];
+      
+      console.log('[MultiFrame Video] Running FFmpeg command:', actualCommand.join(' '));
+      const process = spawn(actualCommand[0], actualCommand.slice(1));
+      
+      // Kill FFmpeg if the job is cancelled mid-encode
+      const onAbort = () => {
+        console.log('[MultiFrame Video] Job cancelled, killing FFmpeg');
+        process.kill('SIGKILL');
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      
+      process.stderr.on('data', (data: Buffer) => {
+        const message = data.toString();
+        if (message.includes('frame=') || message.includes('time=')) {
+          console.log('[MultiFrame Video] FFmpeg progress:', message.trim());
+        }
+      });
+      
+      process.stdout.on('data', (data: Buffer) => {
+        console.log('[MultiFrame Video] FFmpeg stdout:', data.toString().trim());
+      });
+      
+      process.on('error', (error: Error) => {
+        console.error('[MultiFrame Video] FFmpeg process error:', error);
+        reject(error);
+      });
+      
+      process.on('close', (code: number | null) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (signal?.aborted) {
+          reject(new JobCancelledError());
+        } else if (code === 0) {
+          console.log('[MultiFrame Video] FFmpeg completed successfully');
+          resolve();
+        } else {
+          console.error(`[MultiFrame Video] FFmpeg failed with exit code: ${code}`);
+          reject(new Error(`FFmpeg failed with code ${code}`));
+        }
+      });
+    });
+  }
+  
+  private async cleanupTempFiles(paths: string[]): Promise<void> {
+    for (const filePath of paths) {
+      try {
+        if (fs.existsSync(filePath)) {
+          const stat = await fs.promises.stat(filePath);
+          if (stat.isDirectory()) {
+            await fs.promises.rmdir(filePath, { recursive: true });
+          } else {
+            await fs.promises.unlink(filePath);
+          }
+        }
+      } catch (error) {
+        console.warn('[MultiFrame Video] Failed to cleanup:', filePath, error);
+      }
+    }
+  }
+}
+
+// Video Provider Selection and Management
+class VideoProviderManager {
+  private openRouterProvider = new OpenRouterVideoProvider();
+  private multiFrameProvider = new MultiFrameVideoProvider();
+  private kenBurnsProvider = new KenBurnsProvider();
+  
+  async generateVideo(params: {
+    imageUrl: string;
+    prompt: string;
+    duration: number;
+    model: string;
+    apiKey?: string;
+    signal?: AbortSignal;
+    preferredMode?: 'real' | 'enhanced' | 'simple';
+  }): Promise<{
+    videoUrl: string;
+    processingTime: number;
+    enhancementsApplied: string[];
+    providerUsed: string;
+    modelUsed: string;
+  }> {
+    // Real video needs a model that outputs video; others go straight to the fallbacks
+    const { videoOutput } = await getModelCapabilities(params.model);
+    const providers = this.getProviderSequence(params.preferredMode)
+      .filter(provider => videoOutput || provider !== this.openRouterProvider);
+    
+    let lastError: Error | null = null;
+    
+    for (const provider of providers) {
+      throwIfCancelled(params.signal);
+      
+      // Providers that keep failing are skipped until their cooldown ends
+      const breaker = getCircuitBreaker(`video-provider:${provider.constructor.name}`);
+      if (!breaker.allowRequest()) {
+        console.log(`[Video Provider] Skipping ${provider.constructor.name}: circuit open after repeated failures`);
+        continue;
+      }
+      
+      try {
+        console.log(`[Video Provider] Attempting ${provider.constructor.name}...`);
+        const result = await provider.generate(params);
+        breaker.recordSuccess();
+        console.log(`[Video Provider] Success with ${result.providerUsed}`);
+        return result;
+      } catch (error) {
+        if (params.signal?.aborted) {
+          breaker.release();
+          throw new JobCancelledError();
+        }
+        breaker.recordFailure();
+        console.warn(`[Video Provider] ${provider.constructor.name} failed:`, error);
+        lastError = error as Error;
+        continue;
+      }
+    }
+    
+    throw new Error(`All video providers failed. Last error: ${lastError?.message}`);
+  }
+  
+  private getProviderSequence(preferredMode?: 'real' | 'enhanced' | 'simple'): IVideoProvider[] {
+    switch (preferredMode) {
+      case 'real':
+        // Try real video first, then multi-frame AI video, fallback to Ken Burns
+        return [this.openRouterProvider, this.multiFrameProvider, this.kenBurnsProvider];
+      case 'enhanced':
+        // Use multi-frame AI video as primary, fallback to Ken Burns
+        return [this.multiFrameProvider, this.kenBurnsProvider];
+      case 'simple':
+        // Only use Ken Burns
+        return [this.kenBurnsProvider];
+      default:
+        // Default: try real video, then multi-frame AI video, fallback to Ken Burns
+        return [this.openRouterProvider, this.multiFrameProvider, this.kenBurnsProvider];
+    }
+  }
+}
+
+function parseAiVideoPlan(analysis: string): AiVideoPlan | null {
+  try {
+    // Extract JSON from AI analysis
+    const jsonMatch = analysis.match(/```json\s*([\s\S]*?)\s*```/);
+    if (jsonMatch) {
+      const aiData = JSON.parse(jsonMatch[1]);
+      return {
+        description: aiData.description || '',
+        cameraMovements: aiData.cameraMovements || [],
+        visualEffects: aiData.visualEffects || [],
+        textOverlays: aiData.textOverlays || [],
+        duration: aiData.duration || 10,
+        marketingAngle: aiData.marketingAngle || ''
+      };
+    }
+    return null;
+  } catch (error) {
+    console.warn('[Video Planning] Could not parse AI analysis JSON:', error);
+    return null;
+  }
+}
+
+function needsOfficeBackground(visualEffects: string[]): boolean {
+  const officeKeywords = ['office', 'desk', 'workspace', 'professional', 'modern office', 'employee', 'background'];
+  const effectsText = visualEffects.join(' ').toLowerCase();
+  return officeKeywords.some(keyword => effectsText.includes(keyword));
+}
+
+function checkNeedsOfficeBackground(aiPlan: AiVideoPlan | null, originalPrompt: string): boolean {
+  const officeKeywords = ['office', 'desk', 'workspace', 'professional', 'modern office', 'employee', 'background'];
+  
+  // Check original prompt first (most reliable)
+  const promptLower = originalPrompt.toLowerCase();
+  if (officeKeywords.some(keyword => promptLower.includes(keyword))) {
+    console.log('[Scene Enhancement] Office background detected in original prompt');
+    return true;
+  }
+  
+  // Check AI plan if available
+  if (aiPlan) {
+    // Check visual effects
+    if (aiPlan.visualEffects && needsOfficeBackground(aiPlan.visualEffects)) {
+      console.log('[Scene Enhancement] Office background detected in AI visual effects');
+      return true;
+    }
+    
+    // Check description and marketing angle
+    const allText = [aiPlan.description, aiPlan.marketingAngle].join(' ').toLowerCase();
+    if (officeKeywords.some(keyword => allText.includes(keyword))) {
+      console.log('[Scene Enhancement] Office background detected in AI description/marketing');
+      return true;
+    }
+  }
+  
+  return false;
+}
+
+// The JSON object in a model's reply: a fenced ```json block, else the first balanced
+// {...}; empty when there is none
+function findJsonText(analysis: string): string {
+  const jsonMatch = analysis.match(/```json\s*([\s\S]*?)\s*```/);
+  if (jsonMatch) {
+    return jsonMatch[1];
+  }
+
+  const jsonStart = analysis.indexOf('{');
+  if (jsonStart === -1) {
+    return '';
+  }
+  let braceCount = 0;
+  for (let i = jsonStart; i < analysis.length; i++) {
+    if (analysis[i] === '{') braceCount++;
+    if (analysis[i] === '}') braceCount--;
+    if (braceCount === 0) {
+      return analysis.substring(jsonStart, i + 1);
+    }
+  }
+  return '';
+}
+
+function parseAiVideoPlanFlexible(analysis: string): AiVideoPlan | null {
+  try {
+    const jsonText = findJsonText(analysis);
+    
+    if (jsonText) {
+      const aiData = JSON.parse(jsonText);
+      return {
+        description: aiData.description || '',
+        cameraMovements: aiData.cameraMovements || [],
+        visualEffects: aiData.visualEffects || [],
+        textOverlays: aiData.textOverlays || [],
+        duration: aiData.duration || 10,
+        marketingAngle: aiData.marketingAngle || ''
+      };
+    }
+    
+    return null;
+  } catch (error) {
+    console.warn('[Video Planning] Could not parse AI analysis JSON:', error);
+    return null;
+  }
+}
+
+async function ensureSceneMatchesPrompt(
+  imageUrl: string, 
+  aiPlan: AiVideoPlan | null, 
+  originalPrompt: string,
+  apiKey?: string
+): Promise<{ enhancedImageUrl: string; enhancementsApplied: string[] }> {
+  console.log('[Scene Enhancement] Checking if scene enhancement is needed...');
+  
+  // Check if office background is needed (multiple sources)
+  const needsOffice = checkNeedsOfficeBackground(aiPlan, originalPrompt);
+  if (!needsOffice) {
+    console.log('[Scene Enhancement] No office background requested');
+    return { enhancedImageUrl: imageUrl, enhancementsApplied: [] };
+  }
+  
+  try {
+    console.log('[Scene Enhancement] Generating office background scene...');
+    
+    // Extract office-specific requirements from visual effects
+    let officeElements = '';
+    if (aiPlan && aiPlan.visualEffects) {
+      officeElements = aiPlan.visualEffects
+        .filter(effect => effect.toLowerCase().includes('office') || 
+                         effect.toLowerCase().includes('desk') ||
+                         effect.toLowerCase().includes('workspace'))
+        .join('. ');
+    }
+    
+    // Create focused prompt for office background generation
+    const scenePrompt = `Place this product in a clean, modern office environment. ${officeElements ? `Requirements: ${officeElements}.` : ''}
+    
+Specific elements to add:
+- Clean, modern office desk or workspace surface
+- Professional office lighting (natural light from windows preferred)
+- Minimalist office background with neutral colors
+- Optional: Subtle office elements like a laptop, papers, or office supplies in the background
+- Maintain focus on the product while creating realistic office context
+
+Keep the product exactly as shown but place it naturally in an office setting.`;
+
+    // Force use of generation-capable model (ignore original analysis model)
+    const generationModel = 'google/gemini-2.5-flash-image-preview';
+    console.log('[Scene Enhancement] Using forced generation model:', generationModel);
+    
+    // Use existing AI image generation with generation-capable model
+    const result = await processImageWithOpenRouter(imageUrl, scenePrompt, generationModel, apiKey, 120);
+    
+    console.log('[Scene Enhancement] Office background generated successfully');
+    return {
+      enhancedImageUrl: result.processedImageUrl,
+      enhancementsApplied: ['AI scene enhancement', 'Office background generation', ...result.enhancementsApplied]
+    };
+    
+  } catch (error) {
+    console.warn('[Scene Enhancement] Failed to generate office background, using original image:', error);
+    
+    // Graceful fallback - return original image
+    return { 
+      enhancedImageUrl: imageUrl, 
+      enhancementsApplied: ['Scene enhancement attempted (fallback to original)'] 
+    };
+  }
+}
+
+// Frame-based Ken Burns video generation using Sharp + FFmpeg
+async function generateVideoFromImage(
+  imageUrl: string, 
+  analysis: string, 
+  outputPath: string,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    const frameDir = path.join(process.cwd(), 'temp_videos', `frames_${Date.now()}`);
+    let tempImagePath: string | null = null;
+    
+    try {
+      console.log('[Video Generation] Creating dynamic MP4 from image:', imageUrl);
+      
+      // Download image locally first
+      console.log('[Video Generation] Downloading image locally...');
+      const response = await fetch(imageUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to download image: ${response.status}`);
+      }
+      
+      const imageBuffer = await response.arrayBuffer();
+      tempImagePath = path.join(process.cwd(), 'temp_videos', `temp_image_${Date.now()}.png`);
+      await fs.promises.writeFile(tempImagePath, Buffer.from(imageBuffer));
+      
+      console.log('[Video Generation] Image downloaded to:', tempImagePath);
+      
+      // Create frames directory
+      await fs.promises.mkdir(frameDir, { recursive: true });
+      
+      // Generate frames with simple zoom effect using Sharp
+      console.log('[Video Generation] Generating motion frames...');
+      const frameCount = 300; // 10 seconds at 30 FPS
+      const targetWidth = 1280;
+      const targetHeight = 720;
+      
+      // Get source image dimensions
+      const metadata = await sharp(tempImagePath).metadata();
+      const sourceWidth = metadata.width || 1280;
+      const sourceHeight = metadata.height || 720;
+      
+      console.log('[Video Generation] Source image dimensions:', sourceWidth, 'x', sourceHeight);
+      
+      // Parse AI analysis to determine motion type
+      console.log('[Video Generation] Parsing AI analysis for motion effects...');
+      let motionType = 'zoom'; // default fallback
+      let rotationAmount = 360; // default for 360 rotation
+      
+      try {
+        // Extract JSON from AI analysis  
+        const jsonMatch = analysis.match(/```json\s*([\s\S]*?)\s*```/);
+        if (jsonMatch) {
+          const aiData = JSON.parse(jsonMatch[1]);
+          const movements = aiData.cameraMovements || [];
+          const movementText = movements.join(' ').toLowerCase();
+          
+          console.log('[Video Generation] AI suggested movements:', movements);
+          
+          // Determine motion based on AI analysis
+          if (movementText.includes('360') || movementText.includes('rotation')) {
+            motionType = 'rotation360';
+            console.log('[Video Generation] Implementing 360-degree rotation as suggested by AI');
+          } else if (movementText.includes('fly') || movementText.includes('circle')) {
+            motionType = 'flythrough';
+            console.log('[Video Generation] Implementing fly-through effect as suggested by AI');
+          } else if (movementText.includes('zoom') || movementText.includes('pan')) {
+            motionType = 'zoom';
+            console.log('[Video Generation] Implementing zoom effect as suggested by AI');
+          }
+        }
+      } catch (parseError) {
+        console.warn('[Video Generation] Could not parse AI analysis, using default zoom effect');
+      }
+      
+      // Create frames based on AI analysis
+      for (let frame = 0; frame < frameCount; frame++) {
+        const progress = frame / (frameCount - 1); // 0 to 1
+        
+        let scale = 1.0;
+        let rotation = 0;
+        
+        // Implement motion based on AI suggestions
+        if (motionType === 'rotation360') {
+          // Full 360-degree rotation as requested
+          scale = 1.1 + (Math.sin(progress * Math.PI * 2) * 0.1); // Gentle zoom variation
+          rotation = progress * 360; // Full 360-degree rotation
+        } else if (motionType === 'flythrough') {
+          // Circular fly-through effect
+          scale = 1.3 - (progress * 0.3); // Zoom out
+          rotation = progress * 180; // 180-degree rotation for fly-through
+        } else {
+          // Default zoom effect
+          scale = 1.5 - (progress * 0.5); // Zoom out from 1.5x to 1.0x
+          rotation = progress * 15; // Gentle rotation
+        }
+        
+        // Calculate scaled dimensions
+        const scaledWidth = Math.round(targetWidth * scale);
+        const scaledHeight = Math.round(targetHeight * scale);
+        
+        // Generate frame with Sharp
+        const framePath = path.join(frameDir, `frame_${frame.toString().padStart(4, '0')}.jpg`);
+        
+        if (frame % 50 === 0) {
+          console.log(`[Video Generation] Frame ${frame}: ${motionType} scale=${scale.toFixed(3)} rotation=${rotation.toFixed(1)}° size=${scaledWidth}x${scaledHeight}`);
+        }
+        
+        // Create motion effects based on AI analysis
+        await sharp(tempImagePath)
+          .rotate(rotation, { background: { r: 0, g: 0, b: 0, alpha: 0 }})
+          .resize(scaledWidth, scaledHeight, { 
+            fit: 'cover', 
+            position: 'center' 
+          })
+          .resize(targetWidth, targetHeight, { 
+            fit: 'contain',
+            position: 'center',
+            background: { r: 20, g: 20, b: 20 }
+          })
+          .jpeg({ quality: 90 })
+          .toFile(framePath);
+      }
+      
+      console.log('[Video Generation] Generated', frameCount, 'motion frames');
+      
+      // Assemble frames into video using FFmpeg (stable, no complex filters)
+      console.log('[Video Generation] Assembling video from frames...');
+      
+      const command = ffmpeg()
+        .input(path.join(frameDir, 'frame_%04d.jpg'))
+        .inputOptions([
+          '-framerate 30'        // Input frame rate
+        ])
+        .videoCodec('libx264')
+        .outputOptions([
+          '-r 30',              // Output frame rate
+          '-preset medium',     // Encoding quality
+          '-crf 22',           // Quality (lower = better)
+          '-pix_fmt yuv420p',  // Compatibility
+          '-movflags +faststart' // Web optimization
+        ])
+        .output(outputPath)
+        .on('start', (commandLine: string) => {
+          console.log('[Video Generation] FFmpeg started:', commandLine);
+        })
+        .on('progress', (progress: any) => {
+          console.log(`[Video Generation] Progress: ${Math.round(progress.percent || 0)}%`);
+        })
+        .on('end', async () => {
+          console.log('[Video Generation] Ken Burns video created successfully');
+          
+          // Cleanup
+          try {
+            if (tempImagePath) await fs.promises.unlink(tempImagePath);
+            await fs.promises.rm(frameDir, { recursive: true });
+          } catch (cleanupError) {
+            console.warn('[Video Generation] Failed to cleanup temp files:', cleanupError);
+          }
+          
+          resolve();
+        })
+        .on('error', (err: Error) => {
+          console.log('[Video Generation] Error during video assembly:', err);
+          reject(signal?.aborted ? new JobCancelledError() : err);
+        });
+
+      // Stop encoding if the job is cancelled
+      throwIfCancelled(signal);
+      signal?.addEventListener('abort', () => command.kill('SIGKILL'), { once: true });
+      command.run();
+        
+    } catch (error) {
+      console.log('[Video Generation] Error:', error);
+      
+      // Cleanup on error
+      try {
+        if (tempImagePath) await fs.promises.unlink(tempImagePath);
+        await fs.promises.rm(frameDir, { recursive: true });
+      } catch (cleanupError) {
+        console.warn('[Video Generation] Failed to cleanup after error:', cleanupError);
+      }
+      
+      reject(error);
+    }
+  });
+}
+
+// Shared object storage service (also used by the HTTP routes)
+export const objectStorageService = new ObjectStorageService();
+
+// Bytes of an input image. Stored objects and local uploads are read from storage
+// directly, so private objects work without a session; data URIs are decoded. Other
+// URLs are never fetched by the server: they may point at internal hosts.
+export async function readInputImage(imageUrl: string): Promise<Buffer> {
+  if (imageUrl.startsWith('/objects/')) {
+    return objectStorageService.readObjectEntity(imageUrl);
+  }
+  if (imageUrl.startsWith('/uploads/')) {
+    return fs.promises.readFile(path.join(process.cwd(), 'uploads', path.basename(imageUrl)));
+  }
+  if (imageUrl.startsWith('data:')) {
+    return Buffer.from(imageUrl.slice(imageUrl.indexOf(',') + 1), 'base64');
+  }
+  throw new Error(`Unsupported image location: ${imageUrl.slice(0, 100)}`);
+}
+// Helper function to save generated images to S3 object storage
+export async function saveGeneratedImageToS3(imageData: any, prompt: string): Promise<string> {
+  try {
+    let base64Data: string;
+    
+    // Handle different image data formats
+    if (imageData.b64_json) {
+      base64Data = imageData.b64_json;
+    } else if (imageData.url && imageData.url.startsWith('data:image/')) {
+      // Extract base64 from data URL
+      base64Data = imageData.url.split(',')[1];
+    } else if (typeof imageData === 'string' && imageData.startsWith('data:image/')) {
+      base64Data = imageData.split(',')[1];
+    } else {
+      console.log('[SaveImage] Unsupported image data format:', imageData);
+      throw new Error('Unsupported image data format');
+    }
+    
+    // Generate unique filename
+    const hash = crypto.createHash('md5').update(base64Data + prompt).digest('hex');
+    const filename = `enhanced_${hash}.png`;
+    
+    // Convert base64 to buffer
+    const buffer = Buffer.from(base64Data, 'base64');
+    
+    console.log('[SaveImage] Uploading generated image to object storage...');
+    const objectPath = await objectStorageService.uploadObject(
+      buffer,
+      filename,
+      'image/png'
+    );
+    
+    // Set ACL policy for public access if using S3 (generated images are public)
+    if (objectPath.startsWith('/objects/')) {
+      await objectStorageService.trySetObjectEntityAclPolicy(objectPath, {
+        owner: 'system', // System-generated images
+        visibility: 'public',
+      });
+    }
+    
+    console.log(`[SaveImage] Generated image saved to S3: ${objectPath}`);
+    return objectPath;
+    
+  } catch (error) {
+    console.error('[SaveImage] Error saving generated image to S3:', error);
+    throw error;
+  }
+}
+
+// Legacy function for backward compatibility
+async function saveGeneratedImage(imageData: any, prompt: string): Promise<string> {
+  return saveGeneratedImageToS3(imageData, prompt);
+}
+
+
+export async function processImageWithOpenRouter(
+  imageUrl: string, 
+  prompt: string, 
+  model: string,
+  apiKey?: string,
+  timeoutSeconds: number = 120,
+  signal?: AbortSignal,
+  endpoint: ProviderEndpoint = DEFAULT_PROVIDER_ENDPOINT
+): Promise<{ processedImageUrl: string; enhancementsApplied: string[]; processingTime: number; usage?: TokenUsage }> {
+  const startTime = Date.now();
+  
+  console.log(`[Processing] Model: ${model}, Prompt: "${prompt}", Timeout: ${timeoutSeconds}s`);
+  
+  try {
+    // Checked when the request headers are built (some endpoints take no key)
+    const keyToUse = endpointApiKey(endpoint, apiKey);
+
+    const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
+    const baseUrl = domain ? `https://${domain}` : 'http://localhost:5000';
+    const fullImageUrl = imageUrl.startsWith('http') ? imageUrl : `${baseUrl}${imageUrl}`;
+    
+    // Check if this is Gemini 2.5 Flash Image (image generation model)
+    const capabilities = await getModelCapabilities(model);
+    
+    // Models that return images edit the image; the rest can only describe changes
+    if (capabilities.imageOutput) {
+      console.log(`[Processing] Using ${model} for image generation`);
+      console.log('[Debug] Image URL being sent:', fullImageUrl);
+      
+      // Use a highly specific prompt for product image enhancement (not generation)
+      const generationPrompt = `IMPORTANT: You are editing/enhancing the EXACT product shown in this image. DO NOT create a new product. DO NOT replace the product. 
+
+Your task: ${prompt}
+
+Rules you MUST follow:
+1. Keep the EXACT same product/device/object from the uploaded image
+2. Preserve the product's shape, design, colors, and features exactly as shown
+3. Only modify the background, lighting, environment, or apply effects around the product
+4. The product itself should remain identical to the original
+5. If asked to change the product's appearance, only make subtle enhancements while keeping its core identity
+6. Focus on enhancing the scene around the product, not replacing it
+
+This is product image enhancement, not product generation. Work with what's provided.`;
+      
+      console.log('[Debug] Generation prompt:', generationPrompt);
+
+      // Create AbortController for timeout
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => {
+        controller.abort();
+      }, timeoutSeconds * 1000);
+      forwardAbort(signal, controller);
+
+      const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: endpointHeaders(endpoint, keyToUse, {
+          'HTTP-Referer': baseUrl,
+          'X-Title': 'AI Image Editor'
+        }),
+        body: JSON.stringify({
+          model,
+          modalities: ["image", "text"], // REQUIRED for image generation
+          messages: [
+            {
+              role: 'user',
+              content: [
+                {
+                  type: 'text',
+                  text: generationPrompt
+                },
+                {
+                  type: 'image_url',
+                  image_url: {
+                    url: fullImageUrl
+                  }
+                }
+              ]
+            }
+          ],
+          max_tokens: maxCompletionTokens(capabilities, 4000),
+
+          ...usageAccounting(endpoint)
+        }),
+        signal: controller.signal
+      });
+      
+      clearTimeout(timeoutId);
+      
+      console.log('[Debug] Request sent to OpenRouter with image URL and prompt');
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error(`[Gemini] API Error: ${errorBody}`);
+        throw new ProviderRequestError(`Gemini 2.5 Flash Image generation failed: ${response.statusText}`, response.status);
+      }
+
+      const result = await response.json();
+      const usage = parseTokenUsage(result);
+      console.log('[Gemini] Full Response:', JSON.stringify(result, null, 2));
+      
+      const choice = result.choices?.[0];
+      const message = choice?.message;
+      
+      let generatedImageUrl = imageUrl; // Default to original
+      let enhancementsApplied = ['Image generation attempted'];
+      
+      // Check for generated images in the correct field (OpenRouter format)
+      if (message?.images && Array.isArray(message.images)) {
+        console.log('[Gemini] Found generated images:', message.images.length);
+        // Take the first generated image - OpenRouter format has image_url.url structure
+        const imageObject = message.images[0];
+        const imageDataUrl = imageObject?.image_url?.url || imageObject?.url || imageObject;
+        
+        if (imageDataUrl && imageDataUrl.startsWith('data:image/')) {
+          generatedImageUrl = await saveGeneratedImageToS3(imageDataUrl, prompt);
+          enhancementsApplied = [`Generated enhanced image with Gemini 2.5 Flash: ${prompt}`];
+          console.log('[Gemini] Successfully saved generated image');
+        } else {
+          console.log('[Gemini] Image found but not in expected format:', imageObject);
+        }
+      } else {
+        console.log('[Gemini] No images found in response');
+        console.log('[Gemini] Available message fields:', Object.keys(message || {}));
+        if (message?.content) {
+          enhancementsApplied = [`Gemini Response: ${message.content}`];
+        }
+      }
+
+      const processingTime = Math.round((Date.now() - startTime) / 1000);
+      
+      return {
+        processedImageUrl: generatedImageUrl,
+        enhancementsApplied,
+        processingTime,
+        usage
+      };
+    }
+    
+    // For vision models (analysis only)
+    console.log('[Processing] Using vision model for analysis only');
+    
+    const analysisPrompt = `Analyze this image and provide detailed suggestions for: ${prompt}. Explain what changes could be made to achieve this effect, but note that this is analysis only - no actual image generation will occur.`;
+    
+    // Create AbortController for timeout (vision models)
+    const visionController = new AbortController();
+    const visionTimeoutId = setTimeout(() => {
+      visionController.abort();
+    }, timeoutSeconds * 1000);
+    forwardAbort(signal, visionController);
+
+    const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: endpointHeaders(endpoint, keyToUse, {
+        'HTTP-Referer': baseUrl,
+        'X-Title': 'AI Image Editor'
+      }),
+      body: JSON.stringify({
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: analysisPrompt
+              },
+              {
+                type: 'image_url',
+                image_url: {
+                  url: fullImageUrl
+                }
+              }
+            ]
+          }
+        ],
+        max_tokens: maxCompletionTokens(capabilities, 1000),
+
+        ...usageAccounting(endpoint)
+      }),
+      signal: visionController.signal
+    });
+    
+    clearTimeout(visionTimeoutId);
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new ProviderRequestError(`Vision model analysis failed: ${response.statusText} - ${errorBody}`, response.status);
+    }
+
+    const result = await response.json();
+    const usage = parseTokenUsage(result);
+    const processingTime = Math.round((Date.now() - startTime) / 1000);
+    const analysis = result.choices?.[0]?.message?.content || 'No analysis provided';
+    
+    return {
+      processedImageUrl: imageUrl, // Return original image (no generation)
+      enhancementsApplied: [`Analysis: ${analysis}`],
+      processingTime,
+      usage
+    };
+    
+  } catch (error) {
+    const processingTime = Math.round((Date.now() - startTime) / 1000);
+    console.error('[Processing] Error:', error);
+    
+    if (error instanceof JobCancelledError || signal?.aborted) {
+      throw new JobCancelledError();
+    }
+    
+    // Check if it's a timeout error
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Request timed out after ${timeoutSeconds} seconds`);
+    }
+    
+    if (error instanceof ProviderNotConfiguredError) {
+      throw error;
+    }
+
+    throw new ProviderRequestError(`Failed to process image: ${error instanceof Error ? error.message : 'Unknown error'}`, httpStatusOf(error));
+  }
+}
+
+// Process multiple images with OpenRouter for combination/composition
+export async function processMultipleImagesWithOpenRouter(
+  imageUrls: string[],
+  prompt: string,
+  model: string,
+  apiKey?: string,
+  timeoutSeconds: number = 120,
+  signal?: AbortSignal,
+  endpoint: ProviderEndpoint = DEFAULT_PROVIDER_ENDPOINT
+): Promise<{ processedImageUrl: string; enhancementsApplied: string[]; processingTime: number; usage?: TokenUsage }> {
+  const startTime = Date.now();
+  
+  console.log(`[Multiple Images Processing] Model: ${model}, Images: ${imageUrls.length}, Prompt: "${prompt}", Timeout: ${timeoutSeconds}s`);
+  
+  try {
+    // Checked when the request headers are built (some endpoints take no key)
+    const keyToUse = endpointApiKey(endpoint, apiKey);
+
+    const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
+    const baseUrl = domain ? `https://${domain}` : 'http://localhost:5000';
+    
+    // Convert all image URLs to full URLs
+    const fullImageUrls = imageUrls.map(url => 
+      url.startsWith('http') ? url : `${baseUrl}${url}`
+    );
+    
+    console.log('[Multiple Images Processing] Image URLs:', fullImageUrls);
+    
+    // Check if this is Gemini 2.5 Flash Image (image generation model)
+    const capabilities = await getModelCapabilities(model);
+    
+    // Models that return images combine them; the rest can only describe a combination
+    if (capabilities.imageOutput) {
+      console.log(`[Multiple Images Processing] Using ${model} for image combination`);
+      
+      // Create a comprehensive prompt for combining multiple images
+      const combinationPrompt = `COMBINE AND COMPOSE: You have ${imageUrls.length} source images that need to be combined into one cohesive image.
+
+Your task: ${prompt}
+
+Rules you MUST follow:
+1. Analyze all ${imageUrls.length} provided images carefully
+2. Create a single, cohesive composition that incorporates elements from all images
+3. Maintain the visual quality and style consistency across the composition
+4. Ensure proper lighting, shadows, and perspective throughout the combined image
+5. Make the combination look natural and professionally composed
+6. Pay attention to scale, proportion, and visual balance
+7. Create smooth transitions between elements from different source images
+
+This is image combination/composition work. Create one unified image from the multiple sources provided.`;
+      
+      console.log('[Debug] Combination prompt:', combinationPrompt);
+
+      // Create AbortController for timeout
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => {
+        controller.abort();
+      }, timeoutSeconds * 1000);
+      forwardAbort(signal, controller);
+
+      // Prepare image content for the API - send all images
+      const imageContent = fullImageUrls.map(url => ({
+        type: 'image_url',
+        image_url: { url }
+      }));
+
+      const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: endpointHeaders(endpoint, keyToUse, {
+          'HTTP-Referer': baseUrl,
+          'X-Title': 'AI Image Editor - Multiple Images'
+        }),
+        body: JSON.stringify({
+          model: model,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                {
+                  type: 'text',
+                  text: combinationPrompt
+                },
+                ...imageContent
+              ]
+            }
+          ],
+          max_tokens: maxCompletionTokens(capabilities, 4000),
+
+          ...usageAccounting(endpoint),
+          temperature: 0.7
+        }),
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new ProviderRequestError(`Multiple images generation failed: ${response.statusText} - ${errorBody}`, response.status);
+      }
+
+      const result = await response.json();
+      const usage = parseTokenUsage(result);
+      const processingTime = Math.round((Date.now() - startTime) / 1000);
+      
+      // Extract any image URLs from the response
+      const content = result.choices?.[0]?.message?.content || '';
+      const imageUrlMatch = content.match(/!\[.*?\]\((https?:\/\/[^\)]+)\)|https?:\/\/[^\s]+\.(jpg|jpeg|png|webp)/gi);
+      
+      if (imageUrlMatch && imageUrlMatch.length > 0) {
+        // Extract the first valid image URL
+        let generatedImageUrl = imageUrlMatch[0];
+        if (generatedImageUrl.startsWith('![')) {
+          const urlMatch = generatedImageUrl.match(/\((https?:\/\/[^\)]+)\)/);
+          if (urlMatch) {
+            generatedImageUrl = urlMatch[1];
+          }
+        }
+        
+        console.log('[Multiple Images Processing] Generated image URL extracted:', generatedImageUrl);
+        
+        // Save the generated image to our S3 storage
+        try {
+          const imageResponse = await fetch(generatedImageUrl);
+          if (imageResponse.ok) {
+            const imageBuffer = await imageResponse.arrayBuffer();
+            const fileName = `combined-${Date.now()}.png`;
+            
+            console.log('[Multiple Images Processing] Saving combined image to S3...');
+            const savedImagePath = await objectStorageService.uploadObject(
+              Buffer.from(imageBuffer),
+              fileName,
+              'image/png'
+            );
+            
+            // Set ACL for public access
+            if (savedImagePath.startsWith('/objects/')) {
+              await objectStorageService.trySetObjectEntityAclPolicy(savedImagePath, {
+                owner: 'system',
+                visibility: 'public'
+              });
+            }
+            
+            console.log('[Multiple Images Processing] Combined image saved successfully:', savedImagePath);
+            
+            return {
+              processedImageUrl: savedImagePath,
+              enhancementsApplied: [`Combined ${imageUrls.length} images using ${model}`],
+              processingTime,
+              usage
+            };
+          }
+        } catch (saveError) {
+          console.error('[Multiple Images Processing] Failed to save generated image:', saveError);
+          // Fall back to returning the external URL
+        }
+        
+        return {
+          processedImageUrl: generatedImageUrl,
+          enhancementsApplied: [`Combined ${imageUrls.length} images using ${model}`],
+          processingTime,
+          usage
+        };
+      } else {
+        throw new Error('No image generated in response from AI model');
+      }
+    } else {
+      // For non-generation models, use vision analysis approach
+      console.log('[Multiple Images Processing] Using vision model for analysis of multiple images');
+      
+      // Create AbortController for timeout
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => {
+        controller.abort();
+      }, timeoutSeconds * 1000);
+      forwardAbort(signal, controller);
+
+      // Prepare image content for analysis
+      const imageContent = fullImageUrls.map(url => ({
+        type: 'image_url',
+        image_url: { url }
+      }));
+
+      const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: endpointHeaders(endpoint, keyToUse, {
+          'HTTP-Referer': baseUrl,
+          'X-Title': 'AI Image Editor - Multiple Images Analysis'
+        }),
+        body: JSON.stringify({
+          model: model,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                {
+                  type: 'text',
+                  text: `Analyze these ${imageUrls.length} images and provide detailed insights: ${prompt}`
+                },
+                ...imageContent
+              ]
+            }
+          ],
+          max_tokens: maxCompletionTokens(capabilities, 4000),
+
+          ...usageAccounting(endpoint),
+          temperature: 0.3
+        }),
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new ProviderRequestError(`Multiple images analysis failed: ${response.statusText} - ${errorBody}`, response.status);
+      }
+
+      const result = await response.json();
+      const usage = parseTokenUsage(result);
+      const processingTime = Math.round((Date.now() - startTime) / 1000);
+      const analysis = result.choices?.[0]?.message?.content || 'No analysis provided';
+      
+      return {
+        processedImageUrl: fullImageUrls[0], // Return first image as primary
+        enhancementsApplied: [`Multi-image analysis (${imageUrls.length} images): ${analysis}`],
+        processingTime,
+        usage
+      };
+    }
+    
+  } catch (error) {
+    const processingTime = Math.round((Date.now() - startTime) / 1000);
+    console.error('[Multiple Images Processing] Error:', error);
+    
+    if (error instanceof JobCancelledError || signal?.aborted) {
+      throw new JobCancelledError();
+    }
+    
+    // Check if it's a timeout error
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Multiple images request timed out after ${timeoutSeconds} seconds`);
+    }
+    
+    if (error instanceof ProviderNotConfiguredError) {
+      throw error;
+    }
+
+    throw new ProviderRequestError(`Failed to process multiple images: ${error instanceof Error ? error.message : 'Unknown error'}`, httpStatusOf(error));
+  }
+}
+
+export type PromptBundle = NonNullable<MultiImageProcessingJob["promptBundle"]>;
+type MultiImageImageRole = NonNullable<MultiImageProcessingJob["imageRoles"]>[number];
+
+const IMAGE_ROLE_GUIDANCE: Record<MultiImageImageRole['role'], string> = {
+  content: 'take the subject from this image',
+  style: 'take the visual style from this image',
+  palette: 'take the colour palette from this image',
+  reference: 'use this image as a general reference',
+};
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()) : [];
+}
+
+// Stage 1 of multi-image generation: a vision model describes what to take from each
+// input image (by its role and weight) and writes the prompt bundle the generation
+// stage renders. Stored inputs are sent inline, so private objects need no public URL;
+// other URLs are passed through for the provider to fetch. A reply that is not JSON
+// still gives a bundle built from the user's prompt.
+export async function analyzeImagesForGeneration(
+  imageUrls: string[],
+  imageRoles: MultiImageImageRole[],
+  userPrompt: string,
+  model: string,
+  apiKey?: string,
+  signal?: AbortSignal,
+  timeoutSeconds: number = 120,
+  endpoint: ProviderEndpoint = DEFAULT_PROVIDER_ENDPOINT
+): Promise<{ promptBundle: PromptBundle; usage?: TokenUsage }> {
+  console.log(`[Multi-Image Analysis] Model: ${model}, Images: ${imageUrls.length}`);
+
+  const keyToUse = endpointApiKey(endpoint, apiKey);
+  const capabilities = await getModelCapabilities(model);
+
+  const imageContent = [];
+  for (let index = 0; index < imageUrls.length; index++) {
+    const imageUrl = imageUrls[index];
+    let url = imageUrl;
+    if (!/^https?:\/\//.test(imageUrl)) {
+      const image = await readInputImage(imageUrl);
+      const { format } = await sharp(image, { failOn: 'none' }).metadata();
+      url = `data:image/${format || 'png'};base64,${image.toString('base64')}`;
+    }
+    const role = imageRoles.find((imageRole) => imageRole.url === imageUrl);
+    imageContent.push(
+      {
+        type: 'text',
+        text: `Image ${index + 1}: ${IMAGE_ROLE_GUIDANCE[role?.role || 'reference']} (weight ${role?.weight ?? 1}).`,
+      },
+      {
+        type: 'image_url',
+        image_url: { url },
+      }
+    );
+  }
+
+  const analysisPrompt = `You are preparing a prompt for an image generation model that will create ONE new image from the ${imageUrls.length} images below.
+
+User request: ${userPrompt}
+
+Each image has a role and a weight from 0.1 to 1.0; higher weights should influence the result more.
+
+Respond with only a JSON object with this structure:
+{
+  "subjectDescription": "what the new image shows",
+  "styleElements": ["style1", "style2"],
+  "colorPalette": ["#RRGGBB", "#RRGGBB"],
+  "composition": "framing, layout and lighting",
+  "negativePrompts": ["what to avoid"],
+  "enhancedPrompt": "a complete, detailed prompt for the image generation model",
+  "confidence": 0.0 to 1.0
+}`;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => {
+    controller.abort();
+  }, timeoutSeconds * 1000);
+  forwardAbort(signal, controller);
+
+  try {
+    const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: endpointHeaders(endpoint, keyToUse, {
+        'X-Title': 'AI Image Editor - Multi-Image Analysis'
+      }),
+      body: JSON.stringify({
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: [{ type: 'text', text: analysisPrompt }, ...imageContent]
+          }
+        ],
+        temperature: 0.4,
+        max_tokens: maxCompletionTokens(capabilities, 1500),
+
+        ...usageAccounting(endpoint)
+      }),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new ProviderRequestError(`Image analysis failed: ${response.statusText} - ${errorBody}`, response.status);
+    }
+
+    const result = await response.json();
+    const analysis: string = result.choices?.[0]?.message?.content || '';
+    let parsed: any = {};
+    try {
+      const jsonText = findJsonText(analysis);
+      parsed = jsonText ? JSON.parse(jsonText) : {};
+    } catch (error) {
+      console.warn('[Multi-Image Analysis] Could not parse prompt bundle JSON:', error);
+    }
+
+    const confidence = Number(parsed.confidence);
+    const promptBundle: PromptBundle = {
+      subjectDescription: typeof parsed.subjectDescription === 'string' ? parsed.subjectDescription : userPrompt,
+      styleElements: stringList(parsed.styleElements),
+      colorPalette: stringList(parsed.colorPalette),
+      composition: typeof parsed.composition === 'string' ? parsed.composition : '',
+      negativePrompts: stringList(parsed.negativePrompts),
+      enhancedPrompt: typeof parsed.enhancedPrompt === 'string' && parsed.enhancedPrompt.trim() ? parsed.enhancedPrompt : userPrompt,
+      confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0,
+    };
+    return { promptBundle, usage: parseTokenUsage(result) };
+  } catch (error) {
+    if (error instanceof JobCancelledError || signal?.aborted) {
+      throw new JobCancelledError();
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Image analysis timed out after ${timeoutSeconds} seconds`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Process video with OpenRouter (generates video from image)
+export async function processVideoWithOpenRouter(
+  imageUrl: string, 
+  prompt: string, 
+  model: string,
+  apiKey?: string,
+  timeoutSeconds: number = 120,
+  videoMode: 'real' | 'enhanced' | 'simple' = 'real',
+  signal?: AbortSignal,
+  endpoint: ProviderEndpoint = DEFAULT_PROVIDER_ENDPOINT
+): Promise<{ processedVideoUrl: string; enhancementsApplied: string[]; videoDuration: number; processingTime: number; providerUsed?: string; modelUsed?: string; usage?: TokenUsage }> {
+  const startTime = Date.now();
+  
+  console.log(`[Video Processing] Model: ${model}, Prompt: "${prompt}", Timeout: ${timeoutSeconds}s`);
+  
+  try {
+    // The OpenRouter key is still needed by the scene and frame helpers below
+    const keyToUse = apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENROUTER_KEY;
+    
+    if (!keyToUse) {
+      throw new ProviderNotConfiguredError('OpenRouter API key not configured');
+    }
+
+    const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
+    const baseUrl = domain ? `https://${domain}` : 'http://localhost:5000';
+    const fullImageUrl = imageUrl.startsWith('http') ? imageUrl : `${baseUrl}${imageUrl}`;
+    
+    const videoKey = endpointApiKey(endpoint, apiKey);
+    const capabilities = await getModelCapabilities(model);
+    
+    console.log('[Video Processing] Using AI to analyze image for video generation');
+    console.log('[Debug] Image URL being sent:', fullImageUrl);
+    
+    // Create a video-specific prompt for AI analysis
+    const videoPrompt = `ANALYZE this product image for video generation. 
+
+Your task: ${prompt}
+
+Based on this image, create a detailed video concept that includes:
+1. Product description and key features to highlight
+2. Suggested camera movements (zoom, pan, rotate)
+3. Visual effects that would enhance the product presentation
+4. Text overlays or callouts for key features
+5. Duration and pacing recommendations
+
+Focus on creating an engaging product showcase video that would be suitable for marketing or e-commerce purposes.
+
+Provide a JSON response with this structure:
+{
+  "description": "detailed description of the product",
+  "cameraMovements": ["movement1", "movement2"],
+  "visualEffects": ["effect1", "effect2"],
+  "textOverlays": ["text1", "text2"],
+  "duration": 10,
+  "marketingAngle": "primary selling point"
+}`;
+    
+    console.log('[Debug] Video analysis prompt:', videoPrompt);
+
+    // Create AbortController for timeout
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => {
+      controller.abort();
+    }, timeoutSeconds * 1000);
+    forwardAbort(signal, controller);
+
+    const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: endpointHeaders(endpoint, videoKey, {
+        'HTTP-Referer': baseUrl,
+        'X-Title': 'AI Video Generator'
+      }),
+      body: JSON.stringify({
+        model: model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: videoPrompt
+              },
+              {
+                type: 'image_url',
+                image_url: {
+                  url: fullImageUrl
+                }
+              }
+            ]
+          }
+        ],
+        temperature: 0.7,
+        max_tokens: maxCompletionTokens(capabilities, 1000),
+
+        ...usageAccounting(endpoint),
+        modalities: ["image", "text"]
+      }),
+      signal: controller.signal
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('[Video Processing] OpenRouter API error:', response.status, errorText);
+      throw new ProviderRequestError(`OpenRouter API error: ${response.status} ${errorText}`, response.status);
+    }
+
+    const data = await response.json();
+    console.log('[Video Processing] OpenRouter API response received');
+
+    if (!data.choices || !data.choices[0] || !data.choices[0].message) {
+      throw new Error('Invalid response format from OpenRouter API');
+    }
+
+    const aiAnalysis = data.choices[0].message.content;
+    console.log('[Video Processing] AI Analysis:', aiAnalysis);
+
+    // Parse AI analysis for scene enhancement (flexible parsing)
+    const aiPlan = parseAiVideoPlanFlexible(aiAnalysis);
+    console.log('[Video Processing] Parsed AI plan:', aiPlan ? 'Success' : 'Failed to parse');
+    
+    // Enhance scene if office background is needed
+    const sceneResult = await ensureSceneMatchesPrompt(fullImageUrl, aiPlan, prompt, keyToUse);
+    throwIfCancelled(signal);
+    
+    // Ensure enhanced URL is absolute (reuse existing baseUrl)
+    const finalImageUrl = sceneResult.enhancedImageUrl.startsWith('http') 
+      ? sceneResult.enhancedImageUrl 
+      : `${baseUrl}${sceneResult.enhancedImageUrl}`;
+    const sceneEnhancements = sceneResult.enhancementsApplied;
+    
+    if (sceneEnhancements.length > 0) {
+      console.log('[Video Processing] Scene enhanced with:', sceneEnhancements);
+    }
+
+    console.log('[Video Processing] Starting video generation with provider system...');
+    
+    // Use new provider system for video generation
+    const videoManager = new VideoProviderManager();
+    const duration = aiPlan?.duration || 10;
+    
+    const videoResult = await videoManager.generateVideo({
+      imageUrl: finalImageUrl,
+      prompt: aiAnalysis,
+      duration,
+      model,
+      apiKey: keyToUse,
+      signal,
+      preferredMode: videoMode
+    });
+    
+    console.log('[Video Processing] Video generation completed with provider:', videoResult.providerUsed);
+    
+    return {
+      processedVideoUrl: videoResult.videoUrl,
+      enhancementsApplied: [
+        "AI-powered video analysis",
+        ...sceneEnhancements,
+        ...videoResult.enhancementsApplied
+      ],
+      videoDuration: duration,
+      processingTime: videoResult.processingTime,
+      usage: parseTokenUsage(data),
+      providerUsed: videoResult.providerUsed,
+      modelUsed: videoResult.modelUsed
+    };
+    
+  } catch (error) {
+    console.error('[Video Processing] Error:', error);
+    
+    if (error instanceof JobCancelledError || signal?.aborted) {
+      throw new JobCancelledError();
+    }
+    
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Video processing timed out after ${timeoutSeconds} seconds`);
+    }
+    
+    if (error instanceof ProviderNotConfiguredError) {
+      throw error;
+    }
+
+    throw new ProviderRequestError(`Failed to process video: ${error instanceof Error ? error.message : 'Unknown error'}`, httpStatusOf(error));
+  }
+}
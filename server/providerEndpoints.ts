@@ -0,0 +1,61 @@
+import type { ProviderEndpoint } from "@shared/schema";
+import { ProviderNotConfiguredError } from "./failover";
+
+// Built-in endpoint for models that name no endpoint. OPENROUTER_BASE_URL points it
+// at a gateway or mock server for the whole deployment.
+export const DEFAULT_PROVIDER_ENDPOINT: ProviderEndpoint = {
+  name: 'openrouter',
+  baseUrl: process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1',
+  authStyle: 'bearer',
+};
+
+export function resolveProviderEndpoint(modelConfig: any, name?: string): ProviderEndpoint {
+  if (!name || name === DEFAULT_PROVIDER_ENDPOINT.name) {
+    return DEFAULT_PROVIDER_ENDPOINT;
+  }
+
+  const endpoint = (modelConfig?.providerEndpoints || []).find((e: ProviderEndpoint) => e.name === name);
+  if (!endpoint) {
+    throw new Error(`Unknown provider endpoint: ${name}`);
+  }
+  return endpoint;
+}
+
+// An endpoint's own key; only the built-in endpoint falls back to the OpenRouter key,
+// so that key is never sent to a third-party gateway
+export function endpointApiKey(endpoint: ProviderEndpoint, openRouterKey?: string): string | undefined {
+  if (endpoint.apiKey) return endpoint.apiKey;
+  if (endpoint.name !== DEFAULT_PROVIDER_ENDPOINT.name) return undefined;
+  return openRouterKey || process.env.OPENROUTER_API_KEY || process.env.OPENROUTER_KEY;
+}
+
+// Asks OpenRouter to report each call's cost in the usage block; other endpoints
+// may reject unknown request fields
+export function usageAccounting(endpoint: ProviderEndpoint): { usage?: { include: true } } {
+  return endpoint.name === DEFAULT_PROVIDER_ENDPOINT.name ? { usage: { include: true } } : {};
+}
+
+export function endpointHeaders(
+  endpoint: ProviderEndpoint,
+  apiKey: string | undefined,
+  headers: Record<string, string> = {}
+): Record<string, string> {
+  const auth: Record<string, string> = {};
+  if (endpoint.authStyle !== 'none') {
+    if (!apiKey) {
+      throw new ProviderNotConfiguredError(endpoint.name === DEFAULT_PROVIDER_ENDPOINT.name
+        ? 'OpenRouter API key not configured'
+        : `API key not configured for provider endpoint ${endpoint.name}`);
+    }
+    if (endpoint.authStyle === 'bearer') auth['Authorization'] = `Bearer ${apiKey}`;
+    if (endpoint.authStyle === 'x-api-key') auth['x-api-key'] = apiKey;
+    if (endpoint.authStyle === 'api-key') auth['api-key'] = apiKey;
+  }
+
+  return {
+    'Content-Type': 'application/json',
+    ...headers,
+    ...endpoint.headers,
+    ...auth,
+  };
+}
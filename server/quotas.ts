@@ -0,0 +1,184 @@
+import { storage } from "./storage";
+import type { QuotaExceededResponse, QuotaLimit, QuotaLimits, QuotaName, QuotaStatus } from "@shared/schema";
+
+// A processing request refused because the user is over a quota
+export class QuotaExceededError extends Error {
+  constructor(public response: QuotaExceededResponse) {
+    super(response.message);
+    this.name = 'QuotaExceededError';
+    Object.setPrototypeOf(this, QuotaExceededError.prototype);
+  }
+}
+
+// The quota status enforceQuota admitted a request with; the job it starts reserves
+// its slot with reserveJobSlot
+export interface JobQuota {
+  userId: string;
+  status: QuotaStatus;
+}
+
+function envLimit(name: string, fallback: number | null): number | null {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// Limits for roles without a quota_limits row
+const DEFAULT_ROLE_QUOTAS: Record<string, QuotaLimits> = {
+  admin: { dailyJobs: null, concurrentJobs: null, monthlySpend: null },
+  user: {
+    dailyJobs: envLimit('QUOTA_DEFAULT_DAILY_JOBS', 50),
+    concurrentJobs: envLimit('QUOTA_DEFAULT_CONCURRENT_JOBS', 3),
+    monthlySpend: envLimit('QUOTA_DEFAULT_MONTHLY_SPEND', null),
+  },
+};
+
+const QUOTA_LABELS: Record<QuotaName, string> = {
+  dailyJobs: 'Daily job limit',
+  concurrentJobs: 'Concurrent job limit',
+  monthlySpend: 'Monthly spend limit',
+};
+
+export function quotaRowLimits(row: QuotaLimit): QuotaLimits {
+  return {
+    dailyJobs: row.dailyJobs,
+    concurrentJobs: row.concurrentJobs,
+    monthlySpend: row.monthlySpend === null ? null : parseFloat(row.monthlySpend),
+  };
+}
+
+export function defaultRoleQuota(role: string): QuotaLimits {
+  return DEFAULT_ROLE_QUOTAS[role] || DEFAULT_ROLE_QUOTAS.user;
+}
+
+// Role limits (stored or default) with the user's own limits on top
+export async function resolveQuotaLimits(userId: string, role: string): Promise<QuotaLimits> {
+  const [roleRow, userRow] = await Promise.all([
+    storage.getQuotaLimit('role', role),
+    storage.getQuotaLimit('user', userId),
+  ]);
+  const roleLimits = roleRow ? quotaRowLimits(roleRow) : defaultRoleQuota(role);
+  if (!userRow) return roleLimits;
+
+  const userLimits = quotaRowLimits(userRow);
+  return {
+    dailyJobs: userLimits.dailyJobs ?? roleLimits.dailyJobs,
+    concurrentJobs: userLimits.concurrentJobs ?? roleLimits.concurrentJobs,
+    monthlySpend: userLimits.monthlySpend ?? roleLimits.monthlySpend,
+  };
+}
+
+// Quota windows are UTC days and UTC calendar months
+function quotaWindows(now = new Date()) {
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return {
+    dayStart,
+    dayEnd: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000),
+    monthStart,
+    monthEnd: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+export async function getQuotaStatus(userId: string, role: string): Promise<QuotaStatus> {
+  const windows = quotaWindows();
+  const [limits, dailyJobs, concurrentJobs, spend] = await Promise.all([
+    resolveQuotaLimits(userId, role),
+    storage.countUserJobsSince(userId, windows.dayStart),
+    storage.countActiveUserJobs(userId),
+    storage.getUsageSummary('user', { userId, from: windows.monthStart }),
+  ]);
+
+  return {
+    role,
+    limits,
+    used: {
+      dailyJobs,
+      concurrentJobs,
+      monthlySpend: spend.reduce((total, row) => total + (parseFloat(row.cost) || 0), 0),
+    },
+    resetsAt: {
+      dailyJobs: windows.dayEnd.toISOString(),
+      monthlySpend: windows.monthEnd.toISOString(),
+    },
+  };
+}
+
+// The first quota a new job would exceed, if any
+export function exceededQuota(status: QuotaStatus): QuotaExceededResponse | null {
+  const checks: { quota: QuotaName; resetAt: string | null }[] = [
+    { quota: 'concurrentJobs', resetAt: null },
+    { quota: 'dailyJobs', resetAt: status.resetsAt.dailyJobs },
+    { quota: 'monthlySpend', resetAt: status.resetsAt.monthlySpend },
+  ];
+
+  for (const { quota, resetAt } of checks) {
+    const limit = status.limits[quota];
+    const used = status.used[quota];
+    if (limit === null || used < limit) continue;
+
+    const shown = quota === 'monthlySpend' ? `$${limit.toFixed(2)}` : String(limit);
+    return {
+      message: `${QUOTA_LABELS[quota]} reached (${shown}). ${resetAt
+        ? `Resets at ${resetAt}.`
+        : 'Wait for a running job to finish.'}`,
+      code: 'quota_exceeded',
+      quota,
+      limit,
+      used,
+      resetAt,
+    };
+  }
+  return null;
+}
+
+// Enqueues a job only if the user is still under the job count quotas. The counts are
+// read again under a per-user lock that is held until the job is queued, so concurrent
+// requests that all passed enforceQuota cannot take the same last slot.
+export async function reserveJobSlot<T>(quota: JobQuota, enqueue: () => Promise<T>): Promise<T> {
+  return await storage.withUserJobLock(quota.userId, async () => {
+    const [dailyJobs, concurrentJobs] = await Promise.all([
+      storage.countUserJobsSince(quota.userId, quotaWindows().dayStart),
+      storage.countActiveUserJobs(quota.userId),
+    ]);
+    const exceeded = exceededQuota({
+      ...quota.status,
+      used: { ...quota.status.used, dailyJobs, concurrentJobs },
+    });
+    if (exceeded) {
+      console.log(`[Quotas] Refused job for ${quota.userId}: ${exceeded.quota} ${exceeded.used}/${exceeded.limit}`);
+      throw new QuotaExceededError(exceeded);
+    }
+    return await enqueue();
+  });
+}
+
+export function sendQuotaExceeded(res: any, exceeded: QuotaExceededResponse) {
+  if (exceeded.resetAt) {
+    const retryAfter = Math.max(1, Math.ceil((new Date(exceeded.resetAt).getTime() - Date.now()) / 1000));
+    res.set('Retry-After', String(retryAfter));
+  }
+  res.status(429).json(exceeded);
+}
+
+// Rejects processing requests from users over a quota with a 429. Admitted requests
+// carry their status as req.jobQuota, for the job they start to reserve its slot.
+export async function enforceQuota(req: any, res: any, next: any) {
+  try {
+    const userId = req.user?.claims?.sub || req.user?.id || 'default';
+    const status = await getQuotaStatus(userId, req.user?.role || 'user');
+    const exceeded = exceededQuota(status);
+    if (!exceeded) {
+      req.jobQuota = { userId, status } satisfies JobQuota;
+      return next();
+    }
+
+    console.log(`[Quotas] Rejected request from ${userId}: ${exceeded.quota} ${exceeded.used}/${exceeded.limit}`);
+    sendQuotaExceeded(res, exceeded);
+  } catch (error) {
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Failed to check quota"
+    });
+  }
+}
@@ -1,4 +1,4 @@
-import type { Express, Request } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated, isAdmin } from "./auth";
@@ -11,2745 +11,2353 @@ import {
   insertModelConfigurationSchema,
   insertSavedImageSchema,
   insertApplicationFunctionSchema,
-  insertPromptTemplateSchema 
+  insertPromptTemplateSchema,
+  modelCapabilityOverridesSchema,
+  usageSummaryQuerySchema,
+  usageAnalyticsQuerySchema,
+  quotaLimitsSchema,
+  billingCheckoutSchema,
+  creditAdjustmentSchema,
+  auditLogQuerySchema,
+  createWorkspaceSchema,
+  workspaceMemberRequestSchema,
+  switchWorkspaceSchema,
+  objectAclPolicyUpdateSchema,
+  userListRequestSchema,
+  createShareLinkSchema,
+  garbageCollectionRequestSchema,
+  marketplaceExportRequestSchema,
+  brandKitRequestSchema
 } from "@shared/schema";
 import { z } from "zod";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import crypto from "crypto";
-import { spawn } from "child_process";
+import { ObjectNotFoundError } from "./objectStorage.js";
 import {
-  ObjectStorageService,
-  ObjectNotFoundError,
-} from "./objectStorage.js";
-import { ObjectPermission } from "./objectAcl.js";
-// @ts-ignore - FFmpeg types are installed but may not be loading properly
-import ffmpeg from "fluent-ffmpeg";
-import ffmpegPath from "ffmpeg-static";
-import sharp from "sharp";
-
-// Configure ffmpeg with the static binary path
-if (ffmpegPath) {
-  ffmpeg.setFfmpegPath(ffmpegPath);
+  ObjectAclError,
+  ObjectPermission,
+  canShareObject,
+  generationOutputAccess,
+  getObjectAclPolicy,
+  validateAclRules,
+  type ObjectAclRule,
+} from "./objectAcl.js";
+import { objectStorageService, parseTokenUsage } from "./processing";
+import { LocalStorageDriver } from "./storageDrivers";
+import { GarbageCollectionInProgressError, collectGarbage } from "./garbageCollector";
+import { InvalidDerivativeError, getImageDerivative, parseDerivativeQuery } from "./imageDerivatives";
+import { enqueueProcessingJob, cancelProcessingJob, retryProcessingJob } from "./jobQueue";
+import { subscribeToConversation, type JobEvent } from "./jobEvents";
+import { DEFAULT_PROVIDER_ENDPOINT, endpointApiKey, endpointHeaders, usageAccounting } from "./providerEndpoints";
+import { recordUsage } from "./usageLedger";
+import { buildUsageAnalytics } from "./usageAnalytics";
+import { QuotaExceededError, defaultRoleQuota, enforceQuota, getQuotaStatus, quotaRowLimits, sendQuotaExceeded } from "./quotas";
+import {
+  adjustCredits,
+  getBillingAccountSummary,
+  getBillingPlans,
+  handlePaymentWebhook,
+  requireCredits,
+  startCheckout,
+} from "./billing";
+import { invoiceToPdf, invoicesToCsv } from "./invoiceExport";
+import { AUDIT_EXPORT_LIMIT, auditLogToCsv, recordAudit, redactSecrets } from "./auditLog";
+import {
+  canAccessConversation,
+  createWorkspace,
+  getCurrentWorkspace,
+  getWorkspaceAccess,
+  getWorkspaceModelConfig,
+  getEnabledModels,
+  listWorkspaces,
+  loadWorkspace,
+  templateInWorkspace,
+  WorkspaceAccessError,
+} from "./workspaces";
+import { ShareLinkError, createShareLink, isStoredMediaUrl, serveShareLink, streamObjectUrl, toShareLinkSummary } from "./shareLinks";
+import { MarketplaceExportError, createMarketplaceExports, listMarketplacePresets, withPassed } from "./marketplaceExports";
+import { BrandKitError, addBrandLogo, getBrandKitAccess, removeBrandLogo, resolveRequestBrandKit } from "./brandKits";
+import {
+  canPublishConversation,
+  publicSnapshot,
+  publishConversation,
+  snapshotMediaUrls,
+  toConversationShareStatus,
+} from "./conversationShares";
+import {
+  getModelCapabilities,
+  listModelCapabilities,
+  resolveCapabilities,
+  syncCatalogEntries,
+  syncModelCatalog,
+} from "./modelCapabilities";
+
+interface MulterRequest extends Request {
+  file?: Express.Multer.File;
 }
 
-// AI Video Plan parsing interface
-interface AiVideoPlan {
-  description: string;
-  cameraMovements: string[];
-  visualEffects: string[];
-  textOverlays: string[];
-  duration: number;
-  marketingAngle: string;
+// Setup multer for temporary file uploads (before S3 upload)
+const uploadDir = path.join(process.cwd(), 'temp_uploads');
+if (!fs.existsSync(uploadDir)) {
+  fs.mkdirSync(uploadDir, { recursive: true });
 }
 
-// Video generation provider interface
-interface IVideoProvider {
-  generate(params: {
-    imageUrl: string;
-    prompt: string;
-    duration: number;
-    model: string;
-    apiKey?: string;
-  }): Promise<{
-    videoUrl: string;
-    processingTime: number;
-    enhancementsApplied: string[];
-    providerUsed: string;
-    modelUsed: string;
-  }>;
+const upload = multer({
+  dest: uploadDir,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    const allowedTypes = ['image/jpeg', 'image/png', 'image/webp'];
+    if (allowedTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only JPG, PNG, and WebP are allowed.'));
+    }
+  },
+});
+
+// Whether the user can open the conversation the message belongs to
+async function canAccessMessage(user: any, messageId: string): Promise<boolean> {
+  const message = await storage.getMessage(messageId);
+  const conversation = message ? await storage.getConversation(message.conversationId) : undefined;
+  return !!conversation && canAccessConversation(user, conversation);
 }
 
-interface VideoGenerationResult {
-  processedVideoUrl: string;
-  enhancementsApplied: string[];
-  videoDuration: number;
-  processingTime: number;
-  providerUsed: string;
-  modelUsed: string;
+// The first stored input image the user may not read. Jobs read their inputs straight
+// from storage, so the ACL is checked when the request comes in.
+async function findInaccessibleInput(user: any, imageUrls: string[]): Promise<string | undefined> {
+  for (const imageUrl of imageUrls) {
+    if (imageUrl.startsWith('/objects/') && !(await objectStorageService.canAccessObjectPath(user.id, imageUrl))) {
+      return imageUrl;
+    }
+  }
+  return undefined;
 }
 
-// OpenRouter Video Provider - Real video generation using AI models
-class OpenRouterVideoProvider implements IVideoProvider {
-  async generate(params: {
-    imageUrl: string;
-    prompt: string;
-    duration: number;
-    model: string;
-    apiKey?: string;
-  }): Promise<{
-    videoUrl: string;
-    processingTime: number;
-    enhancementsApplied: string[];
-    providerUsed: string;
-    modelUsed: string;
-  }> {
-    const startTime = Date.now();
-    
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Auth middleware setup
+  await setupAuth(app);
+
+  // Auth routes
+  app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
-      // Check if model supports video generation
-      if (!await this.supportsVideoGeneration(params.model, params.apiKey)) {
-        throw new Error(`Model ${params.model} does not support video generation`);
-      }
-      
-      const keyToUse = params.apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENROUTER_KEY;
-      if (!keyToUse) {
-        throw new Error('OpenRouter API key not configured');
-      }
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      const user = await storage.getUser(userId);
+      res.json(user);
+    } catch (error) {
+      console.error("Error fetching user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
 
-      const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
-      const baseUrl = domain ? `https://${domain}` : 'http://localhost:5000';
-      
-      // Try video generation endpoint (experimental)
-      const videoResponse = await this.generateVideo(params.imageUrl, params.prompt, params.duration, params.model, keyToUse, baseUrl);
-      
-      const processingTime = Math.round((Date.now() - startTime) / 1000);
-      
-      return {
-        videoUrl: videoResponse.videoUrl,
-        processingTime,
-        enhancementsApplied: [`Real video generated with ${params.model}`, ...videoResponse.enhancementsApplied],
-        providerUsed: 'OpenRouter Video AI',
-        modelUsed: params.model
-      };
-      
+  // Get all conversations in the current workspace
+  app.get("/api/conversations", isAuthenticated, loadWorkspace, async (req: any, res) => {
+    try {
+      const conversations = await storage.getWorkspaceConversations(req.workspace.workspace.id);
+      res.json(conversations);
     } catch (error) {
-      console.warn('[OpenRouter Video] Generation failed:', error);
-      throw error;
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch conversations" 
+      });
     }
-  }
-  
-  private async supportsVideoGeneration(model: string, apiKey?: string): Promise<boolean> {
+  });
+
+  // Create a new conversation (requires authentication)
+  app.post("/api/conversations", isAuthenticated, loadWorkspace, async (req: any, res) => {
     try {
-      const keyToUse = apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENROUTER_KEY;
-      if (!keyToUse) return false;
+      // More defensive access to user ID
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      console.log('[Conversation] Creating for user:', userId, 'Body:', req.body);
       
-      // Check if model supports video modality
-      const response = await fetch('https://openrouter.ai/api/v1/models', {
-        headers: {
-          'Authorization': `Bearer ${keyToUse}`,
-          'Content-Type': 'application/json'
-        }
+      const validatedData = insertConversationSchema.parse({...req.body, userId, workspaceId: req.workspace.workspace.id});
+      const conversation = await storage.createConversation(validatedData);
+      res.status(201).json(conversation);
+    } catch (error) {
+      console.error('[Conversation] Creation error:', error);
+      res.status(400).json({ 
+        message: error instanceof Error ? error.message : "Failed to create conversation" 
       });
-      
-      if (!response.ok) return false;
-      
-      const data = await response.json();
-      const modelInfo = data.data?.find((m: any) => m.id === model);
-      
-      // Check if model supports video generation
-      return modelInfo?.architecture?.modality?.includes('video') || 
-             modelInfo?.capabilities?.includes('video_generation') ||
-             model.includes('video') ||
-             model.includes('runway') ||
-             model.includes('pika') ||
-             model.includes('luma');
-             
-    } catch (error) {
-      console.warn('[OpenRouter Video] Could not check model capabilities:', error);
-      return false;
     }
-  }
-  
-  private async generateVideo(imageUrl: string, prompt: string, duration: number, model: string, apiKey: string, baseUrl: string): Promise<{
-    videoUrl: string;
-    enhancementsApplied: string[];
-  }> {
-    // For now, return error as we need to research actual video API endpoints
-    throw new Error('Video generation API endpoint not yet implemented - OpenRouter video models need research');
-  }
-}
+  });
 
-// Ken Burns Provider - Fallback using existing FFmpeg approach
-class KenBurnsProvider implements IVideoProvider {
-  async generate(params: {
-    imageUrl: string;
-    prompt: string;
-    duration: number;
-    model: string;
-    apiKey?: string;
-  }): Promise<{
-    videoUrl: string;
-    processingTime: number;
-    enhancementsApplied: string[];
-    providerUsed: string;
-    modelUsed: string;
-  }> {
-    const startTime = Date.now();
-    
+  // Get messages for a conversation
+  app.get("/api/conversations/:id/messages", isAuthenticated, async (req: any, res) => {
     try {
-      console.log('[Ken Burns] Generating video with motion effects');
-      
-      // Generate real video using FFmpeg Ken Burns effects
-      const tempDir = path.join(process.cwd(), 'temp_videos');
-      if (!fs.existsSync(tempDir)) {
-        fs.mkdirSync(tempDir, { recursive: true });
+      const { id } = req.params;
+      const conversation = await storage.getConversation(id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
-      
-      const videoFilename = `video_${Date.now()}_${Math.random().toString(36).substring(7)}.mp4`;
-      const tempVideoPath = path.join(tempDir, videoFilename);
-      
-      // Use existing generateVideoFromImage function which generates to tempVideoPath
-      await generateVideoFromImage(params.imageUrl, params.prompt, tempVideoPath);
-      
-      // Upload to S3
-      const objectStorage = new ObjectStorageService();
-      const videoBuffer = await fs.promises.readFile(tempVideoPath);
-      const s3Path = await objectStorage.uploadToS3(videoBuffer, videoFilename, 'video/mp4');
-      
-      // Clean up temp file
-      try {
-        await fs.promises.unlink(tempVideoPath);
-      } catch (err) {
-        console.warn('[Ken Burns] Failed to clean up temp file:', err);
+      if (!(await canAccessConversation(req.user, conversation))) {
+        return res.status(403).json({ message: "Access denied" });
       }
-      
-      const processingTime = Math.round((Date.now() - startTime) / 1000);
-      
-      return {
-        videoUrl: s3Path,
-        processingTime,
-        enhancementsApplied: ['Ken Burns motion effects', 'AI-guided camera movements', 'FFmpeg video generation'],
-        providerUsed: 'Ken Burns Effects',
-        modelUsed: 'FFmpeg'
-      };
-      
+
+      const messages = await storage.getMessagesByConversation(id);
+      res.json(messages);
     } catch (error) {
-      console.error('[Ken Burns] Video generation failed:', error);
-      throw error;
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch messages" 
+      });
     }
-  }
-}
+  });
 
-// Multi-Frame Real Video Provider - Creates actual video by generating multiple AI frames
-class MultiFrameVideoProvider implements IVideoProvider {
-  async generate(params: {
-    imageUrl: string;
-    prompt: string;
-    duration: number;
-    model: string;
-    apiKey?: string;
-  }): Promise<{
-    videoUrl: string;
-    processingTime: number;
-    enhancementsApplied: string[];
-    providerUsed: string;
-    modelUsed: string;
-  }> {
-    const startTime = Date.now();
-    console.log('[MultiFrame Video] Starting real video generation with multiple AI frames');
-    
+  // Stream job progress and message updates for a conversation (server-sent events)
+  app.get("/api/conversations/:id/events", isAuthenticated, async (req: any, res) => {
     try {
-      const keyToUse = params.apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENROUTER_KEY;
-      if (!keyToUse) {
-        throw new Error('OpenRouter API key required for multi-frame video generation');
-      }
+      const { id } = req.params;
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
 
-      const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
-      const baseUrl = domain ? `https://${domain}` : 'http://localhost:5000';
-      
-      // Generate multiple camera perspectives
-      const frameCount = Math.max(5, Math.ceil(params.duration / 2)); // Generate 5-8 frames depending on duration
-      const frames = await this.generateMultipleFrames(params.imageUrl, params.prompt, frameCount, params.model, keyToUse, baseUrl);
-      
-      if (frames.length < 2) {
-        throw new Error('Failed to generate enough frames for video creation');
+      const conversation = await storage.getConversation(id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
-      
-      // Create smooth video transitions between frames
-      const videoUrl = await this.createVideoFromFrames(frames, params.duration);
-      
-      const processingTime = Math.round((Date.now() - startTime) / 1000);
-      
-      return {
-        videoUrl,
-        processingTime,
-        enhancementsApplied: [
-          'Multi-frame AI generation',
-          `Generated ${frames.length} unique camera perspectives`,
-          'Smooth frame interpolation',
-          'Real video sequence creation',
-          `AI model: ${params.model}`
-        ],
-        providerUsed: 'Multi-Frame AI Video',
-        modelUsed: params.model
+      if (!(await canAccessConversation(req.user, conversation))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no' // Disable proxy buffering (nginx)
+      });
+      res.write('retry: 3000\n\n');
+
+      // Events only carry ids; load the current rows so the client can render directly
+      const sendJobEvent = async (event: JobEvent) => {
+        try {
+          const message = await storage.getMessage(event.messageId);
+          const job = event.jobType === 'video'
+            ? await storage.getVideoProcessingJob(event.jobId)
+            : event.jobType === 'multi-image-generate'
+              ? await storage.getMultiImageProcessingJob(event.jobId)
+              : await storage.getImageProcessingJob(event.jobId);
+
+          if (!res.writableEnded) {
+            res.write(`event: job\ndata: ${JSON.stringify({ ...event, message, job })}\n\n`);
+          }
+        } catch (error) {
+          console.error('[Job Events] Failed to send event:', error);
+        }
       };
-      
+
+      const unsubscribe = subscribeToConversation(id, (event) => {
+        sendJobEvent(event);
+      });
+
+      // Keep idle connections open through proxies
+      const keepAlive = setInterval(() => {
+        res.write(': keepalive\n\n');
+      }, 25000);
+
+      req.on('close', () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      });
     } catch (error) {
-      console.warn('[MultiFrame Video] Generation failed:', error);
-      throw error;
-    }
-  }
-  
-  private async generateMultipleFrames(
-    originalImageUrl: string,
-    originalPrompt: string,
-    frameCount: number,
-    model: string,
-    apiKey: string,
-    baseUrl: string
-  ): Promise<string[]> {
-    console.log(`[MultiFrame Video] Generating ${frameCount} unique camera perspectives...`);
-    
-    const frames: string[] = [];
-    const cameraAngles = [
-      'slightly to the left angle',
-      'slightly to the right angle', 
-      'slightly elevated perspective',
-      'slightly closer zoom',
-      'slightly wider angle',
-      'subtle rotation clockwise',
-      'subtle rotation counterclockwise',
-      'gentle forward movement perspective'
-    ];
-    
-    // Use the existing processImageWithOpenRouter method that already works
-    // This reuses the proven image generation pipeline
-    for (let i = 0; i < frameCount; i++) {
-      try {
-        const angle = cameraAngles[i % cameraAngles.length];
-        const framePrompt = `${originalPrompt}. Generate this scene from a ${angle}. Maintain the exact same objects, lighting, and style but show from this new camera perspective. Keep consistent positioning and proportions.`;
-        
-        console.log(`[MultiFrame Video] Generating frame ${i + 1}/${frameCount} with ${angle}...`);
-        
-        // Use the existing working image generation method
-        const result = await processImageWithOpenRouter(originalImageUrl, framePrompt, model, apiKey);
-        
-        if (result.processedImageUrl) {
-          frames.push(result.processedImageUrl);
-          console.log(`[MultiFrame Video] Frame ${i + 1} generated successfully`);
-        } else {
-          console.warn(`[MultiFrame Video] Frame ${i + 1} generation returned no image`);
-        }
-        
-        // Small delay to avoid rate limiting
-        if (i < frameCount - 1) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-        
-      } catch (error) {
-        console.warn(`[MultiFrame Video] Failed to generate frame ${i + 1}:`, error);
-        continue;
-      }
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to open event stream" 
+      });
     }
-    
-    console.log(`[MultiFrame Video] Successfully generated ${frames.length}/${frameCount} frames`);
-    return frames;
-  }
-  
+  });
+
+  // User Context API endpoints - 用户上下文功能
   
-  private async createVideoFromFrames(frameUrls: string[], duration: number): Promise<string> {
-    console.log(`[MultiFrame Video] Creating video from ${frameUrls.length} frames with ${duration}s duration...`);
-    
-    if (!fs.existsSync('temp_videos')) {
-      fs.mkdirSync('temp_videos', { recursive: true });
-    }
-    
-    const videoId = `multiframe_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
-    const framesDir = `temp_videos/frames_${videoId}`;
-    const outputPath = `temp_videos/video_${videoId}.mp4`;
-    
+  // Get conversation with full message history and context (requires authentication)
+  app.get("/api/conversations/:id/context", isAuthenticated, async (req: any, res) => {
     try {
-      // Create frames directory
-      fs.mkdirSync(framesDir, { recursive: true });
-      
-      // Download and prepare frames (convert relative URLs to absolute)
-      const framePaths: string[] = [];
-      const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
-      const baseUrl = domain ? `https://${domain}` : 'http://localhost:5000';
+      const { id } = req.params;
+      const conversationWithMessages = await storage.getConversationWithMessages(id);
       
-      for (let i = 0; i < frameUrls.length; i++) {
-        const absoluteUrl = frameUrls[i].startsWith('http') ? frameUrls[i] : `${baseUrl}${frameUrls[i]}`;
-        const frameResponse = await fetch(absoluteUrl);
-        if (!frameResponse.ok) continue;
-        
-        const frameBuffer = Buffer.from(await frameResponse.arrayBuffer());
-        const framePath = path.join(framesDir, `frame_${i.toString().padStart(4, '0')}.jpg`);
-        await fs.promises.writeFile(framePath, frameBuffer);
-        framePaths.push(framePath);
+      if (!conversationWithMessages) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
-      
-      if (framePaths.length < 2) {
-        throw new Error('Not enough frames downloaded for video creation');
+      if (!(await canAccessConversation(req.user, conversationWithMessages))) {
+        return res.status(403).json({ message: "Access denied" });
       }
       
-      // Calculate frame rate for smooth playback (use integer for reliability)
-      const framesPerSecond = Math.max(2, Math.min(30, Math.round(framePaths.length / duration)));
-      
-      // Create video with smooth transitions and interpolation (remove shell quotes from filter)
-      const ffmpegCommand = [
-        'ffmpeg',
-        '-framerate', framesPerSecond.toString(),
-        '-i', path.join(framesDir, 'frame_%04d.jpg'),
-        '-vf', `scale=1920:1080:force_original_aspect_ratio=decrease,pad=1920:1080:-1:-1:black,minterpolate=mi_mode=mci:mc_mode=aobmc:vsbmc=1:fps=30`,
-        '-t', duration.toString(),
-        '-c:v', 'libx264',
-        '-preset', 'medium',
-        '-crf', '23',
-        '-pix_fmt', 'yuv420p',
-        '-movflags', '+faststart',
-        '-y',
-        outputPath
-      ];
-      
-      console.log('[MultiFrame Video] Starting FFmpeg with frame interpolation...');
-      await this.runFFmpegCommand(ffmpegCommand);
-      
-      // Upload to S3
-      const videoFilename = `multiframe_video_${videoId}.mp4`;
-      const objectStorage = new ObjectStorageService();
-      const videoBuffer = await fs.promises.readFile(outputPath);
-      const s3VideoPath = await objectStorage.uploadToS3(videoBuffer, videoFilename, 'video/mp4');
-      
-      // Cleanup
-      await this.cleanupTempFiles([outputPath, framesDir]);
-      
-      console.log('[MultiFrame Video] Video created successfully with real frame transitions');
-      return s3VideoPath;
-      
+      res.json(conversationWithMessages);
     } catch (error) {
-      console.error('[MultiFrame Video] Video creation failed:', error);
-      await this.cleanupTempFiles([outputPath, framesDir]);
-      throw error;
-    }
-  }
-  
-  private async runFFmpegCommand(command: string[]): Promise<void> {
-    return new Promise((resolve, reject) => {
-      // Use the configured ffmpeg-static path instead of assuming 'ffmpeg' is on PATH
-      const ffmpegExecutable = ffmpegPath || 'ffmpeg';
-      const actualCommand = [ffmpegExecutable, ...command.slice(1)];
-      
-      console.log('[MultiFrame Video] Running FFmpeg command:', actualCommand.join(' '));
-      const process = spawn(actualCommand[0], actualCommand.slice(1));
-      
-      process.stderr.on('data', (data: Buffer) => {
-        const message = data.toString();
-        if (message.includes('frame=') || message.includes('time=')) {
-          console.log('[MultiFrame Video] FFmpeg progress:', message.trim());
-        }
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch conversation context" 
       });
-      
-      process.stdout.on('data', (data: Buffer) => {
-        console.log('[MultiFrame Video] FFmpeg stdout:', data.toString().trim());
+    }
+  });
+
+  // Get recent conversations with messages for user context
+  app.get("/api/conversations/recent", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      const limit = parseInt(req.query.limit as string) || 10;
+      const recentConversations = await storage.getRecentConversationsWithMessages(userId, limit);
+      res.json(recentConversations);
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch recent conversations" 
       });
-      
-      process.on('error', (error: Error) => {
-        console.error('[MultiFrame Video] FFmpeg process error:', error);
-        reject(error);
+    }
+  });
+
+  // Get user conversation history with full context
+  app.get("/api/user/conversations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      const conversationHistory = await storage.getUserConversationHistory(userId);
+      res.json(conversationHistory);
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch user conversation history" 
       });
-      
-      process.on('close', (code: number | null) => {
-        if (code === 0) {
-          console.log('[MultiFrame Video] FFmpeg completed successfully');
-          resolve();
-        } else {
-          console.error(`[MultiFrame Video] FFmpeg failed with exit code: ${code}`);
-          reject(new Error(`FFmpeg failed with code ${code}`));
-        }
+    }
+  });
+
+  // Alternative endpoint for conversation history
+  app.get("/api/conversations/history", isAuthenticated, async (req: any, res) => {
+    try {
+      // Use authenticated user ID, fallback to 'default' for compatibility
+      const userId = req.user?.claims?.sub || req.user?.id || req.query.userId as string || "default";
+      console.log('[Conversation History] Fetching for user:', userId);
+      const conversationHistory = await storage.getUserConversationHistory(userId);
+      console.log('[Conversation History] Found conversations:', conversationHistory.length);
+      res.json(conversationHistory);
+    } catch (error) {
+      console.error('[Conversation History] Error:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch user conversation history" 
       });
-    });
-  }
-  
-  private async cleanupTempFiles(paths: string[]): Promise<void> {
-    for (const filePath of paths) {
-      try {
-        if (fs.existsSync(filePath)) {
-          const stat = await fs.promises.stat(filePath);
-          if (stat.isDirectory()) {
-            await fs.promises.rmdir(filePath, { recursive: true });
-          } else {
-            await fs.promises.unlink(filePath);
-          }
-        }
-      } catch (error) {
-        console.warn('[MultiFrame Video] Failed to cleanup:', filePath, error);
-      }
     }
-  }
-}
+  });
 
-// Video Provider Selection and Management
-class VideoProviderManager {
-  private openRouterProvider = new OpenRouterVideoProvider();
-  private multiFrameProvider = new MultiFrameVideoProvider();
-  private kenBurnsProvider = new KenBurnsProvider();
-  
-  async generateVideo(params: {
-    imageUrl: string;
-    prompt: string;
-    duration: number;
-    model: string;
-    apiKey?: string;
-    preferredMode?: 'real' | 'enhanced' | 'simple';
-  }): Promise<{
-    videoUrl: string;
-    processingTime: number;
-    enhancementsApplied: string[];
-    providerUsed: string;
-    modelUsed: string;
-  }> {
-    const providers = this.getProviderSequence(params.preferredMode);
-    
-    let lastError: Error | null = null;
-    
-    for (const provider of providers) {
-      try {
-        console.log(`[Video Provider] Attempting ${provider.constructor.name}...`);
-        const result = await provider.generate(params);
-        console.log(`[Video Provider] Success with ${result.providerUsed}`);
-        return result;
-      } catch (error) {
-        console.warn(`[Video Provider] ${provider.constructor.name} failed:`, error);
-        lastError = error as Error;
-        continue;
+  // Whether the conversation is published, and its public URL
+  app.get("/api/conversations/:id/share", isAuthenticated, async (req: any, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || !(await canAccessConversation(req.user, conversation))) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
-    }
-    
-    throw new Error(`All video providers failed. Last error: ${lastError?.message}`);
-  }
-  
-  private getProviderSequence(preferredMode?: 'real' | 'enhanced' | 'simple'): IVideoProvider[] {
-    switch (preferredMode) {
-      case 'real':
-        // Try real video first, then multi-frame AI video, fallback to Ken Burns
-        return [this.openRouterProvider, this.multiFrameProvider, this.kenBurnsProvider];
-      case 'enhanced':
-        // Use multi-frame AI video as primary, fallback to Ken Burns
-        return [this.multiFrameProvider, this.kenBurnsProvider];
-      case 'simple':
-        // Only use Ken Burns
-        return [this.kenBurnsProvider];
-      default:
-        // Default: try real video, then multi-frame AI video, fallback to Ken Burns
-        return [this.openRouterProvider, this.multiFrameProvider, this.kenBurnsProvider];
-    }
-  }
-}
 
-function parseAiVideoPlan(analysis: string): AiVideoPlan | null {
-  try {
-    // Extract JSON from AI analysis
-    const jsonMatch = analysis.match(/```json\s*([\s\S]*?)\s*```/);
-    if (jsonMatch) {
-      const aiData = JSON.parse(jsonMatch[1]);
-      return {
-        description: aiData.description || '',
-        cameraMovements: aiData.cameraMovements || [],
-        visualEffects: aiData.visualEffects || [],
-        textOverlays: aiData.textOverlays || [],
-        duration: aiData.duration || 10,
-        marketingAngle: aiData.marketingAngle || ''
-      };
+      const share = await storage.getConversationShare(conversation.id);
+      res.json(toConversationShareStatus(share));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch conversation share" 
+      });
     }
-    return null;
-  } catch (error) {
-    console.warn('[Video Planning] Could not parse AI analysis JSON:', error);
-    return null;
-  }
-}
+  });
 
-function needsOfficeBackground(visualEffects: string[]): boolean {
-  const officeKeywords = ['office', 'desk', 'workspace', 'professional', 'modern office', 'employee', 'background'];
-  const effectsText = visualEffects.join(' ').toLowerCase();
-  return officeKeywords.some(keyword => effectsText.includes(keyword));
-}
+  // Publish a read-only snapshot of the conversation, or refresh the published one
+  app.post("/api/conversations/:id/share", isAuthenticated, async (req: any, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || !(await canAccessConversation(req.user, conversation))) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (!canPublishConversation(req.user, conversation)) {
+        return res.status(403).json({ message: "Only the conversation's owner can publish it" });
+      }
 
-function checkNeedsOfficeBackground(aiPlan: AiVideoPlan | null, originalPrompt: string): boolean {
-  const officeKeywords = ['office', 'desk', 'workspace', 'professional', 'modern office', 'employee', 'background'];
-  
-  // Check original prompt first (most reliable)
-  const promptLower = originalPrompt.toLowerCase();
-  if (officeKeywords.some(keyword => promptLower.includes(keyword))) {
-    console.log('[Scene Enhancement] Office background detected in original prompt');
-    return true;
-  }
-  
-  // Check AI plan if available
-  if (aiPlan) {
-    // Check visual effects
-    if (aiPlan.visualEffects && needsOfficeBackground(aiPlan.visualEffects)) {
-      console.log('[Scene Enhancement] Office background detected in AI visual effects');
-      return true;
+      const share = await publishConversation(req.user, conversation.id);
+      res.json(toConversationShareStatus(share));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to publish conversation" 
+      });
     }
-    
-    // Check description and marketing angle
-    const allText = [aiPlan.description, aiPlan.marketingAngle].join(' ').toLowerCase();
-    if (officeKeywords.some(keyword => allText.includes(keyword))) {
-      console.log('[Scene Enhancement] Office background detected in AI description/marketing');
-      return true;
+  });
+
+  // Unpublish the conversation; its public URL stops working immediately
+  app.delete("/api/conversations/:id/share", isAuthenticated, async (req: any, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || !(await canAccessConversation(req.user, conversation))) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (!canPublishConversation(req.user, conversation)) {
+        return res.status(403).json({ message: "Only the conversation's owner can unpublish it" });
+      }
+
+      await storage.deleteConversationShare(conversation.id);
+      console.log(`[Conversation Shares] ${req.user.username} unpublished conversation ${conversation.id}`);
+      res.json(toConversationShareStatus(undefined));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to unpublish conversation" 
+      });
     }
-  }
-  
-  return false;
-}
+  });
 
-function parseAiVideoPlanFlexible(analysis: string): AiVideoPlan | null {
-  try {
-    // First try standard fenced JSON
-    let jsonMatch = analysis.match(/```json\s*([\s\S]*?)\s*```/);
-    let jsonText = '';
-    
-    if (jsonMatch) {
-      jsonText = jsonMatch[1];
-    } else {
-      // Try to find first balanced JSON object
-      const jsonStart = analysis.indexOf('{');
-      if (jsonStart !== -1) {
-        let braceCount = 0;
-        let jsonEnd = jsonStart;
-        
-        for (let i = jsonStart; i < analysis.length; i++) {
-          if (analysis[i] === '{') braceCount++;
-          if (analysis[i] === '}') braceCount--;
-          if (braceCount === 0) {
-            jsonEnd = i;
-            break;
-          }
-        }
-        
-        if (braceCount === 0) {
-          jsonText = analysis.substring(jsonStart, jsonEnd + 1);
-        }
+  // Published conversation snapshot (no login required)
+  app.get("/api/public/conversations/:token", async (req, res) => {
+    try {
+      const share = await storage.getConversationShareByToken(req.params.token);
+      if (!share) {
+        return res.status(404).json({ message: "This conversation is not published" });
       }
+
+      res.set('Cache-Control', 'no-store');
+      res.json(publicSnapshot(share));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch conversation" 
+      });
     }
-    
-    if (jsonText) {
-      const aiData = JSON.parse(jsonText);
-      return {
-        description: aiData.description || '',
-        cameraMovements: aiData.cameraMovements || [],
-        visualEffects: aiData.visualEffects || [],
-        textOverlays: aiData.textOverlays || [],
-        duration: aiData.duration || 10,
-        marketingAngle: aiData.marketingAngle || ''
-      };
+  });
+
+  // Images and videos of a published conversation, by their index in the snapshot
+  app.get("/api/public/conversations/:token/media/:index", async (req, res) => {
+    try {
+      const share = await storage.getConversationShareByToken(req.params.token);
+      const url = share ? snapshotMediaUrls(share.snapshot)[parseInt(req.params.index)] : undefined;
+      if (!url) {
+        return res.sendStatus(404);
+      }
+
+      await streamObjectUrl(url, req, res);
+    } catch (error) {
+      console.error('[Conversation Shares] Error serving media:', error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.sendStatus(404);
+      }
+      if (!res.headersSent) {
+        res.sendStatus(500);
+      }
     }
-    
-    return null;
-  } catch (error) {
-    console.warn('[Video Planning] Could not parse AI analysis JSON:', error);
-    return null;
-  }
-}
+  });
 
-async function ensureSceneMatchesPrompt(
-  imageUrl: string, 
-  aiPlan: AiVideoPlan | null, 
-  originalPrompt: string,
-  apiKey?: string
-): Promise<{ enhancedImageUrl: string; enhancementsApplied: string[] }> {
-  console.log('[Scene Enhancement] Checking if scene enhancement is needed...');
-  
-  // Check if office background is needed (multiple sources)
-  const needsOffice = checkNeedsOfficeBackground(aiPlan, originalPrompt);
-  if (!needsOffice) {
-    console.log('[Scene Enhancement] No office background requested');
-    return { enhancedImageUrl: imageUrl, enhancementsApplied: [] };
-  }
-  
-  try {
-    console.log('[Scene Enhancement] Generating office background scene...');
-    
-    // Extract office-specific requirements from visual effects
-    let officeElements = '';
-    if (aiPlan && aiPlan.visualEffects) {
-      officeElements = aiPlan.visualEffects
-        .filter(effect => effect.toLowerCase().includes('office') || 
-                         effect.toLowerCase().includes('desk') ||
-                         effect.toLowerCase().includes('workspace'))
-        .join('. ');
+  // Object storage upload endpoint - get presigned URL
+  app.post("/api/objects/upload", async (req, res) => {
+    try {
+      const uploadURL = await objectStorageService.getObjectEntityUploadURL();
+      res.json({ uploadURL });
+    } catch (error) {
+      console.error('Error getting upload URL:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to get upload URL" 
+      });
     }
-    
-    // Create focused prompt for office background generation
-    const scenePrompt = `Place this product in a clean, modern office environment. ${officeElements ? `Requirements: ${officeElements}.` : ''}
-    
-Specific elements to add:
-- Clean, modern office desk or workspace surface
-- Professional office lighting (natural light from windows preferred)
-- Minimalist office background with neutral colors
-- Optional: Subtle office elements like a laptop, papers, or office supplies in the background
-- Maintain focus on the product while creating realistic office context
-
-Keep the product exactly as shown but place it naturally in an office setting.`;
-
-    // Force use of generation-capable model (ignore original analysis model)
-    const generationModel = 'google/gemini-2.5-flash-image-preview';
-    console.log('[Scene Enhancement] Using forced generation model:', generationModel);
-    
-    // Use existing AI image generation with generation-capable model
-    const result = await processImageWithOpenRouter(imageUrl, scenePrompt, generationModel, apiKey, 120);
-    
-    console.log('[Scene Enhancement] Office background generated successfully');
-    return {
-      enhancedImageUrl: result.processedImageUrl,
-      enhancementsApplied: ['AI scene enhancement', 'Office background generation', ...result.enhancementsApplied]
-    };
-    
-  } catch (error) {
-    console.warn('[Scene Enhancement] Failed to generate office background, using original image:', error);
-    
-    // Graceful fallback - return original image
-    return { 
-      enhancedImageUrl: imageUrl, 
-      enhancementsApplied: ['Scene enhancement attempted (fallback to original)'] 
-    };
-  }
-}
+  });
 
-// Frame-based Ken Burns video generation using Sharp + FFmpeg
-async function generateVideoFromImage(
-  imageUrl: string, 
-  analysis: string, 
-  outputPath: string
-): Promise<void> {
-  return new Promise(async (resolve, reject) => {
-    const frameDir = path.join(process.cwd(), 'temp_videos', `frames_${Date.now()}`);
-    let tempImagePath: string | null = null;
-    
+  // Target of local-disk upload URLs (STORAGE_DRIVER=local); S3 upload URLs go to the bucket
+  app.put("/api/objects/local-upload/:key(*)", express.raw({ type: () => true, limit: '50mb' }), async (req, res) => {
     try {
-      console.log('[Video Generation] Creating dynamic MP4 from image:', imageUrl);
-      
-      // Download image locally first
-      console.log('[Video Generation] Downloading image locally...');
-      const response = await fetch(imageUrl);
-      if (!response.ok) {
-        throw new Error(`Failed to download image: ${response.status}`);
+      const driver = objectStorageService.driver;
+      const key = req.params.key;
+      if (!(driver instanceof LocalStorageDriver) ||
+          !driver.verifyUploadUrl(key, Number(req.query.expires), String(req.query.signature || ''))) {
+        return res.status(403).json({ message: "Invalid or expired upload URL" });
       }
+
+      await driver.write(key, Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0), req.get('content-type') || 'application/octet-stream');
+      res.sendStatus(200);
+    } catch (error) {
+      console.error('Error storing local upload:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to store upload" 
+      });
+    }
+  });
+
+  // Process uploaded file and set ACL policy
+  app.put("/api/objects/process-upload", isAuthenticated, async (req: any, res) => {
+    try {
+      const { uploadURL } = req.body;
       
-      const imageBuffer = await response.arrayBuffer();
-      tempImagePath = path.join(process.cwd(), 'temp_videos', `temp_image_${Date.now()}.png`);
-      await fs.promises.writeFile(tempImagePath, Buffer.from(imageBuffer));
-      
-      console.log('[Video Generation] Image downloaded to:', tempImagePath);
-      
-      // Create frames directory
-      await fs.promises.mkdir(frameDir, { recursive: true });
-      
-      // Generate frames with simple zoom effect using Sharp
-      console.log('[Video Generation] Generating motion frames...');
-      const frameCount = 300; // 10 seconds at 30 FPS
-      const targetWidth = 1280;
-      const targetHeight = 720;
-      
-      // Get source image dimensions
-      const metadata = await sharp(tempImagePath).metadata();
-      const sourceWidth = metadata.width || 1280;
-      const sourceHeight = metadata.height || 720;
-      
-      console.log('[Video Generation] Source image dimensions:', sourceWidth, 'x', sourceHeight);
-      
-      // Parse AI analysis to determine motion type
-      console.log('[Video Generation] Parsing AI analysis for motion effects...');
-      let motionType = 'zoom'; // default fallback
-      let rotationAmount = 360; // default for 360 rotation
-      
-      try {
-        // Extract JSON from AI analysis  
-        const jsonMatch = analysis.match(/```json\s*([\s\S]*?)\s*```/);
-        if (jsonMatch) {
-          const aiData = JSON.parse(jsonMatch[1]);
-          const movements = aiData.cameraMovements || [];
-          const movementText = movements.join(' ').toLowerCase();
-          
-          console.log('[Video Generation] AI suggested movements:', movements);
-          
-          // Determine motion based on AI analysis
-          if (movementText.includes('360') || movementText.includes('rotation')) {
-            motionType = 'rotation360';
-            console.log('[Video Generation] Implementing 360-degree rotation as suggested by AI');
-          } else if (movementText.includes('fly') || movementText.includes('circle')) {
-            motionType = 'flythrough';
-            console.log('[Video Generation] Implementing fly-through effect as suggested by AI');
-          } else if (movementText.includes('zoom') || movementText.includes('pan')) {
-            motionType = 'zoom';
-            console.log('[Video Generation] Implementing zoom effect as suggested by AI');
-          }
-        }
-      } catch (parseError) {
-        console.warn('[Video Generation] Could not parse AI analysis, using default zoom effect');
+      if (!uploadURL) {
+        return res.status(400).json({ error: "uploadURL is required" });
       }
-      
-      // Create frames based on AI analysis
-      for (let frame = 0; frame < frameCount; frame++) {
-        const progress = frame / (frameCount - 1); // 0 to 1
-        
-        let scale = 1.0;
-        let rotation = 0;
-        
-        // Implement motion based on AI suggestions
-        if (motionType === 'rotation360') {
-          // Full 360-degree rotation as requested
-          scale = 1.1 + (Math.sin(progress * Math.PI * 2) * 0.1); // Gentle zoom variation
-          rotation = progress * 360; // Full 360-degree rotation
-        } else if (motionType === 'flythrough') {
-          // Circular fly-through effect
-          scale = 1.3 - (progress * 0.3); // Zoom out
-          rotation = progress * 180; // 180-degree rotation for fly-through
-        } else {
-          // Default zoom effect
-          scale = 1.5 - (progress * 0.5); // Zoom out from 1.5x to 1.0x
-          rotation = progress * 15; // Gentle rotation
-        }
-        
-        // Calculate scaled dimensions
-        const scaledWidth = Math.round(targetWidth * scale);
-        const scaledHeight = Math.round(targetHeight * scale);
-        
-        // Generate frame with Sharp
-        const framePath = path.join(frameDir, `frame_${frame.toString().padStart(4, '0')}.jpg`);
-        
-        if (frame % 50 === 0) {
-          console.log(`[Video Generation] Frame ${frame}: ${motionType} scale=${scale.toFixed(3)} rotation=${rotation.toFixed(1)}° size=${scaledWidth}x${scaledHeight}`);
-        }
-        
-        // Create motion effects based on AI analysis
-        await sharp(tempImagePath)
-          .rotate(rotation, { background: { r: 0, g: 0, b: 0, alpha: 0 }})
-          .resize(scaledWidth, scaledHeight, { 
-            fit: 'cover', 
-            position: 'center' 
-          })
-          .resize(targetWidth, targetHeight, { 
-            fit: 'contain',
-            position: 'center',
-            background: { r: 20, g: 20, b: 20 }
-          })
-          .jpeg({ quality: 90 })
-          .toFile(framePath);
+      const objectPath = objectStorageService.normalizeObjectEntityPath(uploadURL);
+      if (!objectPath.startsWith("/objects/uploads/")) {
+        return res.status(400).json({ error: "uploadURL is not an upload" });
       }
       
-      console.log('[Video Generation] Generated', frameCount, 'motion frames');
-      
-      // Assemble frames into video using FFmpeg (stable, no complex filters)
-      console.log('[Video Generation] Assembling video from frames...');
+      // Set ACL policy for the uploaded image, unless it already has one (processed
+      // before, or someone else's object), which is never replaced here
+      const claimed = await objectStorageService.claimUploadAclPolicy(objectPath, {
+        owner: req.user.id,
+        visibility: "public", // Uploaded images are public for processing
+      });
+      if (!claimed && !(await objectStorageService.canAccessObjectPath(req.user.id, objectPath, ObjectPermission.WRITE))) {
+        return res.status(409).json({ error: "Upload has already been processed" });
+      }
       
-      ffmpeg()
-        .input(path.join(frameDir, 'frame_%04d.jpg'))
-        .inputOptions([
-          '-framerate 30'        // Input frame rate
-        ])
-        .videoCodec('libx264')
-        .outputOptions([
-          '-r 30',              // Output frame rate
-          '-preset medium',     // Encoding quality
-          '-crf 22',           // Quality (lower = better)
-          '-pix_fmt yuv420p',  // Compatibility
-          '-movflags +faststart' // Web optimization
-        ])
-        .output(outputPath)
-        .on('start', (commandLine: string) => {
-          console.log('[Video Generation] FFmpeg started:', commandLine);
-        })
-        .on('progress', (progress: any) => {
-          console.log(`[Video Generation] Progress: ${Math.round(progress.percent || 0)}%`);
-        })
-        .on('end', async () => {
-          console.log('[Video Generation] Ken Burns video created successfully');
-          
-          // Cleanup
-          try {
-            if (tempImagePath) await fs.promises.unlink(tempImagePath);
-            await fs.promises.rm(frameDir, { recursive: true });
-          } catch (cleanupError) {
-            console.warn('[Video Generation] Failed to cleanup temp files:', cleanupError);
-          }
-          
-          resolve();
-        })
-        .on('error', (err: Error) => {
-          console.log('[Video Generation] Error during video assembly:', err);
-          reject(err);
-        })
-        .run();
-        
+      res.json({ objectPath });
     } catch (error) {
-      console.log('[Video Generation] Error:', error);
-      
-      // Cleanup on error
-      try {
-        if (tempImagePath) await fs.promises.unlink(tempImagePath);
-        await fs.promises.rm(frameDir, { recursive: true });
-      } catch (cleanupError) {
-        console.warn('[Video Generation] Failed to cleanup after error:', cleanupError);
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "Upload not found" });
       }
-      
-      reject(error);
+      console.error('Error processing upload:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to process upload" 
+      });
     }
   });
-}
 
-interface MulterRequest extends Request {
-  file?: Express.Multer.File;
-}
+  // Legacy upload endpoint for backward compatibility
+  app.post("/api/upload", upload.single('image'), async (req: MulterRequest & { user?: any }, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No image file provided" });
+      }
 
-// Setup multer for temporary file uploads (before S3 upload)
-const uploadDir = path.join(process.cwd(), 'temp_uploads');
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
+      console.log('File upload started:', {
+        originalName: req.file.originalname,
+        size: req.file.size,
+        mimetype: req.file.mimetype
+      });
 
-const upload = multer({
-  dest: uploadDir,
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
-  },
-  fileFilter: (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/webp'];
-    if (allowedTypes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error('Invalid file type. Only JPG, PNG, and WebP are allowed.'));
+      // Read the uploaded file
+      const fileBuffer = fs.readFileSync(req.file.path);
+      
+      const objectPath = await objectStorageService.uploadObject(
+        fileBuffer, 
+        req.file.originalname,
+        req.file.mimetype
+      );
+      
+      // Set ACL policy for public access
+      if (objectPath.startsWith('/objects/')) {
+        await objectStorageService.trySetObjectEntityAclPolicy(objectPath, {
+          owner: req.user?.id || 'user',
+          visibility: 'public',
+        });
+      }
+      
+      // Clean up temporary file
+      fs.unlinkSync(req.file.path);
+      
+      res.json({ 
+        imageUrl: objectPath,
+        originalName: req.file.originalname,
+        size: req.file.size,
+        mimeType: req.file.mimetype
+      });
+    } catch (error) {
+      console.error('Error in legacy upload:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to upload image" 
+      });
     }
-  },
-});
-
-// Initialize object storage service
-const objectStorageService = new ObjectStorageService();
+  });
 
-// Helper function to save generated images to S3 object storage
-async function saveGeneratedImageToS3(imageData: any, prompt: string): Promise<string> {
-  try {
-    let base64Data: string;
-    
-    // Handle different image data formats
-    if (imageData.b64_json) {
-      base64Data = imageData.b64_json;
-    } else if (imageData.url && imageData.url.startsWith('data:image/')) {
-      // Extract base64 from data URL
-      base64Data = imageData.url.split(',')[1];
-    } else if (typeof imageData === 'string' && imageData.startsWith('data:image/')) {
-      base64Data = imageData.split(',')[1];
-    } else {
-      console.log('[SaveImage] Unsupported image data format:', imageData);
-      throw new Error('Unsupported image data format');
-    }
-    
-    // Generate unique filename
-    const hash = crypto.createHash('md5').update(base64Data + prompt).digest('hex');
-    const filename = `enhanced_${hash}.png`;
-    
-    // Convert base64 to buffer
-    const buffer = Buffer.from(base64Data, 'base64');
-    
-    // Upload directly to S3 (no fallbacks)
-    console.log('[SaveImage] Uploading generated image to S3...');
-    const objectPath = await objectStorageService.uploadToS3(
-      buffer,
-      filename,
-      'image/png'
-    );
-    
-    // Set ACL policy for public access if using S3 (generated images are public)
-    if (objectPath.startsWith('/objects/')) {
-      await objectStorageService.trySetObjectEntityAclPolicy(objectPath, {
-        owner: 'system', // System-generated images
-        visibility: 'public',
+  // Serve images from object storage; ?w=&h=&fit=&format=&q= serve a resized variant
+  app.get("/objects/:objectPath(*)", async (req: any, res) => {
+    try {
+      const derivative = parseDerivativeQuery(req.query);
+      const objectFile = await objectStorageService.getObjectEntityFile(
+        req.path,
+      );
+      const canAccess = await objectStorageService.canAccessObjectEntity({
+        objectFile,
+        userId: req.user?.id,
+        requestedPermission: ObjectPermission.READ,
       });
+      if (!canAccess) {
+        return res.sendStatus(req.user ? 403 : 401);
+      }
+      const served = derivative ? await getImageDerivative(objectFile, derivative) : objectFile;
+      // Every stored object is under an ACL policy that its owner can change, so even
+      // public ones must not be kept by shared caches
+      objectStorageService.downloadObject(served, req, res, 3600, false);
+    } catch (error) {
+      console.error("Error serving object:", error);
+      if (error instanceof InvalidDerivativeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ObjectNotFoundError) {
+        return res.sendStatus(404);
+      }
+      return res.sendStatus(500);
     }
-    
-    console.log(`[SaveImage] Generated image saved to S3: ${objectPath}`);
-    return objectPath;
-    
-  } catch (error) {
-    console.error('[SaveImage] Error saving generated image to S3:', error);
-    throw error;
-  }
-}
-
-// Legacy function for backward compatibility
-async function saveGeneratedImage(imageData: any, prompt: string): Promise<string> {
-  return saveGeneratedImageToS3(imageData, prompt);
-}
-
+  });
 
-// New function to process with failover sequence
-async function processImageWithFailover(
-  imageUrl: string,
-  prompt: string,
-  modelConfig: any,
-  timeoutSeconds: number = 120
-): Promise<{ processedImageUrl: string; enhancementsApplied: string[]; processingTime: number; modelUsed: string }> {
-  const startTime = Date.now();
-  
-  console.log(`[Failover] Starting image processing with failover sequence`);
-  
-  // Get enabled models in priority order
-  const modelPriorities = (modelConfig?.modelPriorities || [])
-    .filter((item: any) => item.enabled)
-    .sort((a: any, b: any) => a.priority - b.priority);
-  
-  // If no models configured in priorities, fallback to selectedModel
-  if (modelPriorities.length === 0) {
-    const fallbackModel = modelConfig?.selectedModel || 'google/gemini-2.0-flash-exp';
-    console.log(`[Failover] No model priorities configured, using fallback: ${fallbackModel}`);
-    const result = await processImageWithOpenRouter(imageUrl, prompt, fallbackModel, modelConfig?.apiKey, timeoutSeconds);
-    return { ...result, modelUsed: fallbackModel };
-  }
-  
-  console.log(`[Failover] Found ${modelPriorities.length} enabled models in sequence:`, modelPriorities.map((m: any) => `${m.priority}. ${m.model}`));
-  
-  let lastError: Error | null = null;
-  
-  // Try each model in priority order
-  for (const modelItem of modelPriorities) {
+  // Sharing policy of a stored object (users with write access only)
+  app.get("/api/objects/acl", isAuthenticated, async (req: any, res) => {
     try {
-      console.log(`[Failover] Attempting model: ${modelItem.model} (priority ${modelItem.priority})`);
-      const result = await processImageWithOpenRouter(imageUrl, prompt, modelItem.model, modelConfig?.apiKey, timeoutSeconds);
-      console.log(`[Failover] Success with model: ${modelItem.model}`);
-      return { ...result, modelUsed: modelItem.model };
+      const objectPath = String(req.query.path || '');
+      const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+      const canWrite = await canShareObject(req.user, objectFile, objectPath);
+      if (!canWrite) {
+        return res.status(403).json({ message: "You cannot change who this object is shared with" });
+      }
+
+      res.json(await getObjectAclPolicy(objectFile));
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.log(`[Failover] Model ${modelItem.model} failed: ${errorMessage}`);
-      lastError = error instanceof Error ? error : new Error(errorMessage);
-      
-      // Continue to next model in sequence
-      continue;
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "Object not found" });
+      }
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch sharing policy" 
+      });
     }
-  }
-  
-  // All models failed
-  const totalTime = Math.round((Date.now() - startTime) / 1000);
-  console.log(`[Failover] All ${modelPriorities.length} models failed after ${totalTime}s`);
-  throw new Error(`All ${modelPriorities.length} configured models failed. Last error: ${lastError?.message || 'Unknown error'}`);
-}
+  });
 
-// Process multiple images with failover sequence
-async function processMultipleImagesWithFailover(
-  imageUrls: string[],
-  prompt: string,
-  modelConfig: any,
-  timeoutSeconds: number = 120
-): Promise<{ processedImageUrl: string; enhancementsApplied: string[]; processingTime: number; modelUsed: string }> {
-  const startTime = Date.now();
-  
-  console.log(`[Multiple Images Failover] Starting processing with ${imageUrls.length} images`);
-  
-  // Get enabled models in priority order
-  const modelPriorities = (modelConfig?.modelPriorities || [])
-    .filter((item: any) => item.enabled)
-    .sort((a: any, b: any) => a.priority - b.priority);
-  
-  // If no models configured in priorities, fallback to selectedModel
-  if (modelPriorities.length === 0) {
-    const fallbackModel = modelConfig?.selectedModel || 'google/gemini-2.0-flash-exp';
-    console.log(`[Multiple Images Failover] No model priorities configured, using fallback: ${fallbackModel}`);
-    const result = await processMultipleImagesWithOpenRouter(imageUrls, prompt, fallbackModel, modelConfig?.apiKey, timeoutSeconds);
-    return { ...result, modelUsed: fallbackModel };
-  }
-  
-  console.log(`[Multiple Images Failover] Found ${modelPriorities.length} enabled models in sequence:`, modelPriorities.map((m: any) => `${m.priority}. ${m.model}`));
-  
-  let lastError: Error | null = null;
-  
-  // Try each model in priority order
-  for (const modelItem of modelPriorities) {
+  // Make an object public or private and set who it is shared with (users with write access only)
+  app.put("/api/objects/acl", isAuthenticated, async (req: any, res) => {
     try {
-      console.log(`[Multiple Images Failover] Attempting model: ${modelItem.model} (priority ${modelItem.priority})`);
-      const result = await processMultipleImagesWithOpenRouter(imageUrls, prompt, modelItem.model, modelConfig?.apiKey, timeoutSeconds);
-      console.log(`[Multiple Images Failover] Success with model: ${modelItem.model}`);
-      return { ...result, modelUsed: modelItem.model };
+      const parseResult = objectAclPolicyUpdateSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid sharing policy", errors: parseResult.error.errors });
+      }
+
+      const { objectPath, visibility } = parseResult.data;
+      const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+      const canWrite = await canShareObject(req.user, objectFile, objectPath);
+      if (!canWrite) {
+        return res.status(403).json({ message: "You cannot change who this object is shared with" });
+      }
+
+      let aclRules = await validateAclRules(req.user, parseResult.data.aclRules as ObjectAclRule[]);
+      const previous = await getObjectAclPolicy(objectFile);
+      let owner = previous?.owner ?? req.user.id;
+      // Generation outputs stay reachable by everyone who can open the conversations
+      // that produced them, whoever shares them
+      if (owner === 'system') {
+        const outputAccess = await generationOutputAccess(objectPath);
+        owner = outputAccess.owner;
+        aclRules = [
+          ...aclRules,
+          ...outputAccess.aclRules.filter((rule) => !aclRules.some((existing) =>
+            existing.group.type === rule.group.type && existing.group.id === rule.group.id && existing.permission === rule.permission
+          )),
+        ];
+      }
+      await objectStorageService.trySetObjectEntityAclPolicy(objectPath, { owner, visibility, aclRules });
+      console.log(`[Object ACL] ${req.user.username} set ${objectPath} to ${visibility} with ${aclRules.length} rule(s)`);
+      res.json({ owner, visibility, aclRules });
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.log(`[Multiple Images Failover] Model ${modelItem.model} failed: ${errorMessage}`);
-      lastError = error instanceof Error ? error : new Error(errorMessage);
-      
-      // Continue to next model in sequence
-      continue;
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "Object not found" });
+      }
+      if (error instanceof ObjectAclError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to update sharing policy" 
+      });
     }
-  }
-  
-  // All models failed
-  const totalTime = Math.round((Date.now() - startTime) / 1000);
-  console.log(`[Multiple Images Failover] All ${modelPriorities.length} models failed after ${totalTime}s`);
-  throw new Error(`All ${modelPriorities.length} configured models failed for multiple images processing. Last error: ${lastError?.message || 'Unknown error'}`);
-}
+  });
 
-async function processImageWithOpenRouter(
-  imageUrl: string, 
-  prompt: string, 
-  model: string,
-  apiKey?: string,
-  timeoutSeconds: number = 120
-): Promise<{ processedImageUrl: string; enhancementsApplied: string[]; processingTime: number }> {
-  const startTime = Date.now();
-  
-  console.log(`[Processing] Model: ${model}, Prompt: "${prompt}", Timeout: ${timeoutSeconds}s`);
-  
-  try {
-    const keyToUse = apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENROUTER_KEY;
-    
-    if (!keyToUse) {
-      throw new Error('OpenRouter API key not configured');
+  // The user's lists of colleagues to share objects with
+  app.get("/api/user-lists", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await storage.getUserLists(req.user.id));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch user lists" 
+      });
     }
+  });
 
-    const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
-    const baseUrl = domain ? `https://${domain}` : 'http://localhost:5000';
-    const fullImageUrl = imageUrl.startsWith('http') ? imageUrl : `${baseUrl}${imageUrl}`;
-    
-    // Check if this is Gemini 2.5 Flash Image (image generation model)
-    if (model.includes('google/gemini-2.5-flash-image')) {
-      console.log('[Processing] Using Gemini 2.5 Flash Image for image generation');
-      console.log('[Debug] Image URL being sent:', fullImageUrl);
-      
-      // Use a highly specific prompt for product image enhancement (not generation)
-      const generationPrompt = `IMPORTANT: You are editing/enhancing the EXACT product shown in this image. DO NOT create a new product. DO NOT replace the product. 
-
-Your task: ${prompt}
-
-Rules you MUST follow:
-1. Keep the EXACT same product/device/object from the uploaded image
-2. Preserve the product's shape, design, colors, and features exactly as shown
-3. Only modify the background, lighting, environment, or apply effects around the product
-4. The product itself should remain identical to the original
-5. If asked to change the product's appearance, only make subtle enhancements while keeping its core identity
-6. Focus on enhancing the scene around the product, not replacing it
-
-This is product image enhancement, not product generation. Work with what's provided.`;
-      
-      console.log('[Debug] Generation prompt:', generationPrompt);
+  // Create a user list, or rename one and replace its members
+  const saveUserList = async (req: any, res: any, listId?: string) => {
+    try {
+      const parseResult = userListRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid user list", errors: parseResult.error.errors });
+      }
 
-      // Create AbortController for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        controller.abort();
-      }, timeoutSeconds * 1000);
+      const { name, usernames } = parseResult.data;
+      const members = await storage.getUsersByUsernames(usernames);
+      const unknown = usernames.filter(username => !members.some(member => member.username === username));
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown users: ${unknown.join(', ')}` });
+      }
 
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${keyToUse}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': baseUrl,
-          'X-Title': 'AI Image Editor'
-        },
-        body: JSON.stringify({
-          model,
-          modalities: ["image", "text"], // REQUIRED for image generation
-          messages: [
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'text',
-                  text: generationPrompt
-                },
-                {
-                  type: 'image_url',
-                  image_url: {
-                    url: fullImageUrl
-                  }
-                }
-              ]
-            }
-          ],
-          max_tokens: 4000
-        }),
-        signal: controller.signal
+      let list;
+      if (listId) {
+        const existing = await storage.getUserList(listId);
+        if (!existing || existing.ownerId !== req.user.id) {
+          return res.status(404).json({ message: "User list not found" });
+        }
+        list = await storage.updateUserList(listId, name);
+      } else {
+        list = await storage.createUserList(req.user.id, name);
+      }
+      await storage.setUserListMembers(list!.id, members.map(member => member.id));
+      res.status(listId ? 200 : 201).json({ ...list, usernames: members.map(member => member.username) });
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to save user list" 
       });
-      
-      clearTimeout(timeoutId);
-      
-      console.log('[Debug] Request sent to OpenRouter with image URL and prompt');
+    }
+  };
 
-      if (!response.ok) {
-        const errorBody = await response.text();
-        console.error(`[Gemini] API Error: ${errorBody}`);
-        throw new Error(`Gemini 2.5 Flash Image generation failed: ${response.statusText}`);
+  app.post("/api/user-lists", isAuthenticated, (req: any, res) => saveUserList(req, res));
+  app.put("/api/user-lists/:id", isAuthenticated, (req: any, res) => saveUserList(req, res, req.params.id));
+
+  app.delete("/api/user-lists/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const existing = await storage.getUserList(req.params.id);
+      if (!existing || existing.ownerId !== req.user.id) {
+        return res.status(404).json({ message: "User list not found" });
       }
 
-      const result = await response.json();
-      console.log('[Gemini] Full Response:', JSON.stringify(result, null, 2));
-      
-      const choice = result.choices?.[0];
-      const message = choice?.message;
-      
-      let generatedImageUrl = imageUrl; // Default to original
-      let enhancementsApplied = ['Image generation attempted'];
-      
-      // Check for generated images in the correct field (OpenRouter format)
-      if (message?.images && Array.isArray(message.images)) {
-        console.log('[Gemini] Found generated images:', message.images.length);
-        // Take the first generated image - OpenRouter format has image_url.url structure
-        const imageObject = message.images[0];
-        const imageDataUrl = imageObject?.image_url?.url || imageObject?.url || imageObject;
-        
-        if (imageDataUrl && imageDataUrl.startsWith('data:image/')) {
-          generatedImageUrl = await saveGeneratedImageToS3(imageDataUrl, prompt);
-          enhancementsApplied = [`Generated enhanced image with Gemini 2.5 Flash: ${prompt}`];
-          console.log('[Gemini] Successfully saved generated image');
-        } else {
-          console.log('[Gemini] Image found but not in expected format:', imageObject);
-        }
-      } else {
-        console.log('[Gemini] No images found in response');
-        console.log('[Gemini] Available message fields:', Object.keys(message || {}));
-        if (message?.content) {
-          enhancementsApplied = [`Gemini Response: ${message.content}`];
-        }
+      await storage.deleteUserList(existing.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to delete user list" 
+      });
+    }
+  });
+
+  // The user's share links, including expired and revoked ones
+  app.get("/api/share-links", isAuthenticated, async (req: any, res) => {
+    try {
+      const links = await storage.getUserShareLinks(req.user.id);
+      res.json(links.map(toShareLinkSummary));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch share links" 
+      });
+    }
+  });
+
+  // Create an expiring link to a saved image or a generated image or video
+  app.post("/api/share-links", isAuthenticated, async (req: any, res) => {
+    try {
+      const parseResult = createShareLinkSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid share link", errors: parseResult.error.errors });
       }
 
-      const processingTime = Math.round((Date.now() - startTime) / 1000);
-      
-      return {
-        processedImageUrl: generatedImageUrl,
-        enhancementsApplied,
-        processingTime
-      };
+      const { link, token } = await createShareLink(req.user, parseResult.data);
+      res.status(201).json({ link, path: `/s/${token}` });
+    } catch (error) {
+      if (error instanceof ShareLinkError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to create share link" 
+      });
     }
-    
-    // For vision models (analysis only)
-    console.log('[Processing] Using vision model for analysis only');
-    
-    const analysisPrompt = `Analyze this image and provide detailed suggestions for: ${prompt}. Explain what changes could be made to achieve this effect, but note that this is analysis only - no actual image generation will occur.`;
-    
-    // Create AbortController for timeout (vision models)
-    const visionController = new AbortController();
-    const visionTimeoutId = setTimeout(() => {
-      visionController.abort();
-    }, timeoutSeconds * 1000);
-
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${keyToUse}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': baseUrl,
-        'X-Title': 'AI Image Editor'
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: analysisPrompt
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: fullImageUrl
-                }
-              }
-            ]
-          }
-        ],
-        max_tokens: 1000
-      }),
-      signal: visionController.signal
-    });
-    
-    clearTimeout(visionTimeoutId);
+  });
+
+  // Revoke a share link; it stays listed as revoked
+  app.delete("/api/share-links/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const link = await storage.revokeShareLink(req.params.id, req.user.id);
+      if (!link) {
+        return res.status(404).json({ message: "Share link not found or already revoked" });
+      }
 
-    if (!response.ok) {
-      const errorBody = await response.text();
-      throw new Error(`Vision model analysis failed: ${response.statusText} - ${errorBody}`);
+      console.log(`[Share Links] ${req.user.username} revoked share link ${link.id}`);
+      res.json(toShareLinkSummary(link));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to revoke share link" 
+      });
     }
+  });
 
-    const result = await response.json();
-    const processingTime = Math.round((Date.now() - startTime) / 1000);
-    const analysis = result.choices?.[0]?.message?.content || 'No analysis provided';
-    
-    return {
-      processedImageUrl: imageUrl, // Return original image (no generation)
-      enhancementsApplied: [`Analysis: ${analysis}`],
-      processingTime
-    };
-    
-  } catch (error) {
-    const processingTime = Math.round((Date.now() - startTime) / 1000);
-    console.error('[Processing] Error:', error);
-    
-    // Check if it's a timeout error
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error(`Request timed out after ${timeoutSeconds} seconds`);
+  // Marketplace export presets (Amazon, Shopify, Etsy, eBay)
+  app.get("/api/marketplace-presets", isAuthenticated, async (req: any, res) => {
+    res.json(listMarketplacePresets());
+  });
+
+  // Earlier exports of a saved image or job output, newest first
+  app.get("/api/marketplace-exports", isAuthenticated, async (req: any, res) => {
+    try {
+      const { sourceType, sourceId } = req.query;
+      if (typeof sourceType !== 'string' || typeof sourceId !== 'string') {
+        return res.status(400).json({ message: "sourceType and sourceId are required" });
+      }
+
+      const exports = await storage.getMarketplaceExports(req.user.id, sourceType, sourceId);
+      res.json(exports.map(withPassed));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch marketplace exports" 
+      });
     }
-    
-    throw new Error(`Failed to process image: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
+  });
 
-// Process multiple images with OpenRouter for combination/composition
-async function processMultipleImagesWithOpenRouter(
-  imageUrls: string[],
-  prompt: string,
-  model: string,
-  apiKey?: string,
-  timeoutSeconds: number = 120
-): Promise<{ processedImageUrl: string; enhancementsApplied: string[]; processingTime: number }> {
-  const startTime = Date.now();
-  
-  console.log(`[Multiple Images Processing] Model: ${model}, Images: ${imageUrls.length}, Prompt: "${prompt}", Timeout: ${timeoutSeconds}s`);
+  // Render compliant variants of a saved image or job output, each with a per-rule report
+  app.post("/api/marketplace-exports", isAuthenticated, async (req: any, res) => {
+    try {
+      const parseResult = marketplaceExportRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid export request", errors: parseResult.error.errors });
+      }
+
+      const exports = await createMarketplaceExports(req.user, parseResult.data);
+      res.status(201).json(exports);
+    } catch (error) {
+      if (error instanceof MarketplaceExportError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to export image" 
+      });
+    }
+  });
+
+  // Open a share link (no account needed); POST carries the password of protected links
+  const openShareLink = async (req: Request, res: any) => {
+    try {
+      await serveShareLink(req, res);
+    } catch (error) {
+      console.error('[Share Links] Error serving share link:', error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.sendStatus(404);
+      }
+      if (!res.headersSent) {
+        res.sendStatus(500);
+      }
+    }
+  };
+  app.get("/s/:token", openShareLink);
+  app.post("/s/:token", openShareLink);
+
+  // Serve local uploads (fallback storage)
+  app.get("/uploads/:fileName", (req, res) => {
+    try {
+      const fileName = req.params.fileName;
+      const filePath = path.join(process.cwd(), 'uploads', fileName);
+      
+      if (!fs.existsSync(filePath)) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      
+      // Serve the file
+      res.sendFile(filePath);
+    } catch (error) {
+      console.error("Error serving local file:", error);
+      return res.sendStatus(500);
+    }
+  });
+
+  // Serve public objects (backward compatibility for existing assets)
+  app.get("/public-objects/:filePath(*)", async (req, res) => {
+    const filePath = req.params.filePath;
+    try {
+      const derivative = parseDerivativeQuery(req.query);
+      const file = await objectStorageService.searchPublicObject(filePath);
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      objectStorageService.downloadObject(derivative ? await getImageDerivative(file, derivative) : file, req, res);
+    } catch (error) {
+      if (error instanceof InvalidDerivativeError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error searching for public object:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  });
   
-  try {
-    const keyToUse = apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENROUTER_KEY;
+  // Legacy image serving endpoint
+  app.get("/api/images/:filename", (req, res) => {
+    const { filename } = req.params;
+    const filePath = path.join(uploadDir, filename);
     
-    if (!keyToUse) {
-      throw new Error('OpenRouter API key not configured');
+    if (fs.existsSync(filePath)) {
+      res.sendFile(filePath);
+    } else {
+      res.status(404).json({ message: "Image not found" });
     }
+  });
 
-    const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
-    const baseUrl = domain ? `https://${domain}` : 'http://localhost:5000';
-    
-    // Convert all image URLs to full URLs
-    const fullImageUrls = imageUrls.map(url => 
-      url.startsWith('http') ? url : `${baseUrl}${url}`
-    );
-    
-    console.log('[Multiple Images Processing] Image URLs:', fullImageUrls);
-    
-    // Check if this is Gemini 2.5 Flash Image (image generation model)
-    if (model.includes('google/gemini-2.5-flash-image')) {
-      console.log('[Multiple Images Processing] Using Gemini 2.5 Flash for image combination');
+  // Note: Videos are now served through /objects/ route after being uploaded to S3
+
+
+  // Process image with AI
+  app.post("/api/process-image", isAuthenticated, enforceQuota, requireCredits, async (req: any, res) => {
+    try {
+      const { conversationId, imageUrl, regenerate, functionKey, templateId, brandKitId, operation = 'edit' } = req.body;
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      console.log('[Processing] Request from user:', userId);
+
+      if (operation !== 'edit' && operation !== 'variation') {
+        return res.status(400).json({ message: "operation must be 'edit' or 'variation'" });
+      }
+      // Variations need no prompt
+      const prompt = req.body.prompt || (operation === 'variation' ? 'Create a variation of this image' : '');
       
-      // Create a comprehensive prompt for combining multiple images
-      const combinationPrompt = `COMBINE AND COMPOSE: You have ${imageUrls.length} source images that need to be combined into one cohesive image.
+      if (!conversationId || !prompt) {
+        return res.status(400).json({ 
+          message: "Missing required fields: conversationId, prompt" 
+        });
+      }
 
-Your task: ${prompt}
+      // If no imageUrl provided, get the latest image from conversation context
+      let finalImageUrl = imageUrl;
+      if (!finalImageUrl) {
+        finalImageUrl = await storage.getLatestImageFromConversation(conversationId);
+        if (!finalImageUrl) {
+          return res.status(400).json({ 
+            message: "No image found in conversation context. Please upload an image first." 
+          });
+        }
+      }
 
-Rules you MUST follow:
-1. Analyze all ${imageUrls.length} provided images carefully
-2. Create a single, cohesive composition that incorporates elements from all images
-3. Maintain the visual quality and style consistency across the composition
-4. Ensure proper lighting, shadows, and perspective throughout the combined image
-5. Make the combination look natural and professionally composed
-6. Pay attention to scale, proportion, and visual balance
-7. Create smooth transitions between elements from different source images
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation || !(await canAccessConversation(req.user, conversation))) {
+        return res.status(403).json({ 
+          message: "Unauthorized: You don't have access to this conversation" 
+        });
+      }
+      if (await findInaccessibleInput(req.user, [finalImageUrl])) {
+        return res.status(403).json({ message: "You don't have access to this image" });
+      }
 
-This is image combination/composition work. Create one unified image from the multiple sources provided.`;
+      // Model configuration of the conversation's workspace (API key is admin-controlled)
+      const adminConfig = await getWorkspaceModelConfig(conversation.workspaceId);
+      const jobBrandKitId = await resolveRequestBrandKit(req.user, conversation, brandKitId);
       
-      console.log('[Debug] Combination prompt:', combinationPrompt);
-
-      // Create AbortController for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        controller.abort();
-      }, timeoutSeconds * 1000);
-
-      // Prepare image content for the API - send all images
-      const imageContent = fullImageUrls.map(url => ({
-        type: 'image_url',
-        image_url: { url }
-      }));
+      // Use the workspace configuration for API access, but allow fallback model selection
+      const selectedModel = adminConfig.selectedModel || 'google/gemini-2.0-flash-exp';
 
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${keyToUse}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': baseUrl,
-          'X-Title': 'AI Image Editor - Multiple Images'
-        },
-        body: JSON.stringify({
-          model: model,
-          messages: [
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'text',
-                  text: combinationPrompt
-                },
-                ...imageContent
-              ]
-            }
-          ],
-          max_tokens: 4000,
-          temperature: 0.7
-        }),
-        signal: controller.signal
+      // Create user message (only include imageUrl if it's a new upload)
+      const userMessage = await storage.createMessage({
+        conversationId,
+        role: 'user',
+        content: prompt,
+        imageUrl: imageUrl || null, // Only set if new image was uploaded
+        processingStatus: 'completed'
+      });
+
+      // Create AI message placeholder
+      const aiMessage = await storage.createMessage({
+        conversationId,
+        role: 'assistant',
+        content: 'Processing your image...',
+        processingStatus: 'processing'
       });
 
-      clearTimeout(timeoutId);
+      // Create processing job
+      const processingJob = await storage.createImageProcessingJob({
+        messageId: aiMessage.id,
+        originalImageUrl: finalImageUrl, // Use the resolved image URL
+        prompt,
+        templateId: typeof templateId === 'string' ? templateId : null,
+        model: selectedModel,
+        status: 'processing'
+      });
+      
+      console.log('[Processing] Created job:', processingJob.id);
 
-      if (!response.ok) {
-        const errorBody = await response.text();
-        throw new Error(`Multiple images generation failed: ${response.statusText} - ${errorBody}`);
+      // Hand off to the durable job queue
+      await enqueueProcessingJob({
+        jobType: 'image',
+        jobId: processingJob.id,
+        messageId: aiMessage.id,
+        conversationId,
+        payload: { imageUrl: finalImageUrl, prompt: req.body.prompt || '', operation, regenerate: regenerate === true, userId, functionKey: typeof functionKey === 'string' ? functionKey : undefined, brandKitId: jobBrandKitId },
+        quota: req.jobQuota
+      });
+
+      res.json({ 
+        userMessage, 
+        aiMessage, 
+        processingJob 
+      });
+
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return sendQuotaExceeded(res, error.response);
+      }
+      if (error instanceof BrandKitError) {
+        return res.status(error.status).json({ message: error.message });
       }
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to process image" 
+      });
+    }
+  });
 
-      const result = await response.json();
-      const processingTime = Math.round((Date.now() - startTime) / 1000);
+  // Process multiple images with AI for combination/composition
+  app.post("/api/process-multiple-images", isAuthenticated, enforceQuota, requireCredits, async (req: any, res) => {
+    try {
+      const { conversationId, imageUrls, prompt, regenerate, functionKey, templateId, brandKitId } = req.body;
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      console.log('[Multiple Images Processing] Request from user:', userId);
       
-      // Extract any image URLs from the response
-      const content = result.choices?.[0]?.message?.content || '';
-      const imageUrlMatch = content.match(/!\[.*?\]\((https?:\/\/[^\)]+)\)|https?:\/\/[^\s]+\.(jpg|jpeg|png|webp)/gi);
+      if (!conversationId || !prompt || !imageUrls || !Array.isArray(imageUrls) || imageUrls.length === 0) {
+        return res.status(400).json({ 
+          message: "Missing required fields: conversationId, imageUrls (array), prompt" 
+        });
+      }
+
+      if (imageUrls.length > 10) {
+        return res.status(400).json({ 
+          message: "Maximum 10 images allowed for combination processing" 
+        });
+      }
+
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation || !(await canAccessConversation(req.user, conversation))) {
+        return res.status(403).json({ 
+          message: "Unauthorized: You don't have access to this conversation" 
+        });
+      }
+      if (await findInaccessibleInput(req.user, imageUrls)) {
+        return res.status(403).json({ message: "You don't have access to one of these images" });
+      }
+
+      // Model configuration of the conversation's workspace (API key is admin-controlled)
+      const adminConfig = await getWorkspaceModelConfig(conversation.workspaceId);
+      const jobBrandKitId = await resolveRequestBrandKit(req.user, conversation, brandKitId);
       
-      if (imageUrlMatch && imageUrlMatch.length > 0) {
-        // Extract the first valid image URL
-        let generatedImageUrl = imageUrlMatch[0];
-        if (generatedImageUrl.startsWith('![')) {
-          const urlMatch = generatedImageUrl.match(/\((https?:\/\/[^\)]+)\)/);
-          if (urlMatch) {
-            generatedImageUrl = urlMatch[1];
-          }
-        }
-        
-        console.log('[Multiple Images Processing] Generated image URL extracted:', generatedImageUrl);
-        
-        // Save the generated image to our S3 storage
-        try {
-          const imageResponse = await fetch(generatedImageUrl);
-          if (imageResponse.ok) {
-            const imageBuffer = await imageResponse.arrayBuffer();
-            const fileName = `combined-${Date.now()}.png`;
-            
-            console.log('[Multiple Images Processing] Saving combined image to S3...');
-            const savedImagePath = await objectStorageService.uploadToS3(
-              Buffer.from(imageBuffer),
-              fileName,
-              'image/png'
-            );
-            
-            // Set ACL for public access
-            if (savedImagePath.startsWith('/objects/')) {
-              await objectStorageService.trySetObjectEntityAclPolicy(savedImagePath, {
-                owner: 'system',
-                visibility: 'public'
-              });
-            }
-            
-            console.log('[Multiple Images Processing] Combined image saved successfully:', savedImagePath);
-            
-            return {
-              processedImageUrl: savedImagePath,
-              enhancementsApplied: [`Combined ${imageUrls.length} images using ${model}`],
-              processingTime
-            };
-          }
-        } catch (saveError) {
-          console.error('[Multiple Images Processing] Failed to save generated image:', saveError);
-          // Fall back to returning the external URL
-        }
-        
-        return {
-          processedImageUrl: generatedImageUrl,
-          enhancementsApplied: [`Combined ${imageUrls.length} images using ${model}`],
-          processingTime
-        };
-      } else {
-        throw new Error('No image generated in response from AI model');
+      // Use the workspace configuration for API access
+      const selectedModel = adminConfig.selectedModel || 'google/gemini-2.0-flash-exp';
+
+      // Create user message with multiple images (store as JSON in enhancementsApplied)
+      const userMessage = await storage.createMessage({
+        conversationId,
+        role: 'user',
+        content: `${prompt} [${imageUrls.length} images uploaded]`,
+        imageUrl: imageUrls[0], // Store first image URL for display
+        processingStatus: 'completed'
+      });
+
+      // Create AI message placeholder
+      const aiMessage = await storage.createMessage({
+        conversationId,
+        role: 'assistant',
+        content: `Processing ${imageUrls.length} images for combination...`,
+        processingStatus: 'processing'
+      });
+
+      // Create processing job (store multiple image URLs in enhancementsApplied)
+      const processingJob = await storage.createImageProcessingJob({
+        messageId: aiMessage.id,
+        originalImageUrl: imageUrls[0], // Primary image for compatibility
+        prompt,
+        templateId: typeof templateId === 'string' ? templateId : null,
+        model: selectedModel,
+        status: 'processing',
+        enhancementsApplied: imageUrls // Store all image URLs here
+      });
+      
+      console.log('[Multiple Images Processing] Created job:', processingJob.id);
+
+      // Hand off to the durable job queue
+      await enqueueProcessingJob({
+        jobType: 'multi-image',
+        jobId: processingJob.id,
+        messageId: aiMessage.id,
+        conversationId,
+        payload: { imageUrls, prompt, regenerate: regenerate === true, userId, functionKey: typeof functionKey === 'string' ? functionKey : undefined, brandKitId: jobBrandKitId },
+        quota: req.jobQuota
+      });
+
+      res.json({ 
+        userMessage, 
+        aiMessage, 
+        processingJob 
+      });
+
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return sendQuotaExceeded(res, error.response);
       }
-    } else {
-      // For non-generation models, use vision analysis approach
-      console.log('[Multiple Images Processing] Using vision model for analysis of multiple images');
+      if (error instanceof BrandKitError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to process multiple images" 
+      });
+    }
+  });
+
+  // Multi-image generate with analysis → generation pipeline
+  app.post("/api/multi-image-generate", isAuthenticated, enforceQuota, requireCredits, async (req: any, res) => {
+    try {
+      // Validate request body
+      const multiImageRequestSchema = z.object({
+        conversationId: z.string(),
+        imageUrls: z.array(z.string()).min(2).max(10),
+        userPrompt: z.string().min(1),
+        imageRoles: z.array(z.object({
+          url: z.string(),
+          role: z.enum(['content', 'style', 'palette', 'reference']),
+          weight: z.number().min(0.1).max(1.0)
+        })).optional(),
+        functionKey: z.string().optional(), // Application function, for the usage ledger
+        brandKitId: z.string().optional(), // Brand kit merged into the prompt bundle
+      });
+
+      const validatedData = multiImageRequestSchema.parse(req.body);
+      const { conversationId, imageUrls, userPrompt, imageRoles = [], functionKey, brandKitId } = validatedData;
       
-      // Create AbortController for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        controller.abort();
-      }, timeoutSeconds * 1000);
-
-      // Prepare image content for analysis
-      const imageContent = fullImageUrls.map(url => ({
-        type: 'image_url',
-        image_url: { url }
-      }));
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      console.log('[Multi-Image Generate] Request from user:', userId, 'Images:', imageUrls.length);
 
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${keyToUse}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': baseUrl,
-          'X-Title': 'AI Image Editor - Multiple Images Analysis'
-        },
-        body: JSON.stringify({
-          model: model,
-          messages: [
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'text',
-                  text: `Analyze these ${imageUrls.length} images and provide detailed insights: ${prompt}`
-                },
-                ...imageContent
-              ]
-            }
-          ],
-          max_tokens: 4000,
-          temperature: 0.3
-        }),
-        signal: controller.signal
+      // Verify conversation ownership
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation || !(await canAccessConversation(req.user, conversation))) {
+        return res.status(403).json({ 
+          message: "Unauthorized: You don't have access to this conversation" 
+        });
+      }
+
+      if (await findInaccessibleInput(req.user, imageUrls)) {
+        return res.status(403).json({ message: "You don't have access to one of these images" });
+      }
+
+      // Model configuration of the conversation's workspace (API key is admin-controlled)
+      const adminConfig = await getWorkspaceModelConfig(conversation.workspaceId);
+      const jobBrandKitId = await resolveRequestBrandKit(req.user, conversation, brandKitId);
+
+      // Create user message with multiple images
+      const userMessage = await storage.createMessage({
+        conversationId,
+        role: 'user',
+        content: `${userPrompt} [${imageUrls.length} images for generation]`,
+        imageUrl: imageUrls[0], // Store first image URL for display
+        processingStatus: 'completed'
+      });
+
+      // Create AI message placeholder
+      const aiMessage = await storage.createMessage({
+        conversationId,
+        role: 'assistant',
+        content: `Analyzing ${imageUrls.length} images and generating new image...`,
+        processingStatus: 'processing'
+      });
+
+      // Ensure imageRoles array matches imageUrls
+      const finalImageRoles = imageUrls.map((url, index) => {
+        const existingRole = imageRoles.find(r => r.url === url);
+        return existingRole || {
+          url,
+          role: index === 0 ? 'content' as const : 'reference' as const,
+          weight: 1.0
+        };
+      });
+
+      // Create multi-image processing job
+      const processingJob = await storage.createMultiImageProcessingJob({
+        messageId: aiMessage.id,
+        inputImages: imageUrls,
+        userPrompt,
+        analysisModel: adminConfig.selectedModel || 'openai/gpt-4o',
+        generationModel: null, // Will be set based on capability detection
+        status: 'pending',
+        imageRoles: finalImageRoles,
+        promptBundle: null
+      });
+
+      console.log('[Multi-Image Generate] Created job:', processingJob.id);
+
+      // Hand off to the durable job queue
+      await enqueueProcessingJob({
+        jobType: 'multi-image-generate',
+        jobId: processingJob.id,
+        messageId: aiMessage.id,
+        conversationId,
+        payload: { imageUrls, userPrompt, imageRoles: finalImageRoles, userId, functionKey, brandKitId: jobBrandKitId },
+        quota: req.jobQuota
       });
 
-      clearTimeout(timeoutId);
+      // Return immediate response with job info
+      res.json({
+        message: "Multi-image generation started",
+        messageId: aiMessage.id,
+        jobId: processingJob.id,
+        status: 'processing'
+      });
 
-      if (!response.ok) {
-        const errorBody = await response.text();
-        throw new Error(`Multiple images analysis failed: ${response.statusText} - ${errorBody}`);
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return sendQuotaExceeded(res, error.response);
+      }
+      console.error('[Multi-Image Generate] Request error:', error);
+      if (error instanceof BrandKitError) {
+        return res.status(error.status).json({ message: error.message });
       }
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to start multi-image generation" 
+      });
+    }
+  });
 
-      const result = await response.json();
-      const processingTime = Math.round((Date.now() - startTime) / 1000);
-      const analysis = result.choices?.[0]?.message?.content || 'No analysis provided';
+  // Get processing job status
+  app.get("/api/processing-jobs/:messageId", isAuthenticated, async (req: any, res) => {
+    try {
+      const { messageId } = req.params;
+      const job = await storage.getImageProcessingJobByMessage(messageId);
       
-      return {
-        processedImageUrl: fullImageUrls[0], // Return first image as primary
-        enhancementsApplied: [`Multi-image analysis (${imageUrls.length} images): ${analysis}`],
-        processingTime
-      };
-    }
-    
-  } catch (error) {
-    const processingTime = Math.round((Date.now() - startTime) / 1000);
-    console.error('[Multiple Images Processing] Error:', error);
-    
-    // Check if it's a timeout error
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error(`Multiple images request timed out after ${timeoutSeconds} seconds`);
-    }
-    
-    throw new Error(`Failed to process multiple images: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
+      if (!job) {
+        return res.status(404).json({ message: "Processing job not found" });
+      }
+      if (!(await canAccessMessage(req.user, messageId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-// Process video with OpenRouter (generates video from image)
-async function processVideoWithOpenRouter(
-  imageUrl: string, 
-  prompt: string, 
-  model: string,
-  apiKey?: string,
-  timeoutSeconds: number = 120,
-  videoMode: 'real' | 'enhanced' | 'simple' = 'real'
-): Promise<{ processedVideoUrl: string; enhancementsApplied: string[]; videoDuration: number; processingTime: number; providerUsed?: string; modelUsed?: string }> {
-  const startTime = Date.now();
-  
-  console.log(`[Video Processing] Model: ${model}, Prompt: "${prompt}", Timeout: ${timeoutSeconds}s`);
-  
-  try {
-    const keyToUse = apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENROUTER_KEY;
-    
-    if (!keyToUse) {
-      throw new Error('OpenRouter API key not configured');
+      // Include the models tried before (and including) the one that produced the result
+      const attempts = await storage.getJobAttempts(job.id);
+      res.json({ ...job, attempts });
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch processing job" 
+      });
     }
+  });
 
-    const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
-    const baseUrl = domain ? `https://${domain}` : 'http://localhost:5000';
-    const fullImageUrl = imageUrl.startsWith('http') ? imageUrl : `${baseUrl}${imageUrl}`;
-    
-    console.log('[Video Processing] Using AI to analyze image for video generation');
-    console.log('[Debug] Image URL being sent:', fullImageUrl);
-    
-    // Create a video-specific prompt for AI analysis
-    const videoPrompt = `ANALYZE this product image for video generation. 
-
-Your task: ${prompt}
-
-Based on this image, create a detailed video concept that includes:
-1. Product description and key features to highlight
-2. Suggested camera movements (zoom, pan, rotate)
-3. Visual effects that would enhance the product presentation
-4. Text overlays or callouts for key features
-5. Duration and pacing recommendations
-
-Focus on creating an engaging product showcase video that would be suitable for marketing or e-commerce purposes.
-
-Provide a JSON response with this structure:
-{
-  "description": "detailed description of the product",
-  "cameraMovements": ["movement1", "movement2"],
-  "visualEffects": ["effect1", "effect2"],
-  "textOverlays": ["text1", "text2"],
-  "duration": 10,
-  "marketingAngle": "primary selling point"
-}`;
-    
-    console.log('[Debug] Video analysis prompt:', videoPrompt);
-
-    // Create AbortController for timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => {
-      controller.abort();
-    }, timeoutSeconds * 1000);
-
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${keyToUse}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': baseUrl,
-        'X-Title': 'AI Video Generator'
-      },
-      body: JSON.stringify({
-        model: model,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: videoPrompt
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: fullImageUrl
-                }
-              }
-            ]
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000,
-        modalities: ["image", "text"]
-      }),
-      signal: controller.signal
-    });
+  // Process image to video with AI
+  app.post("/api/process-video", isAuthenticated, enforceQuota, requireCredits, async (req: any, res) => {
+    try {
+      // Validate request body with Zod
+      const videoRequestSchema = insertVideoProcessingJobSchema
+        .pick({ prompt: true })
+        .extend({
+          conversationId: z.string(),
+          imageUrl: z.string().optional(),
+          functionKey: z.string().optional(), // Application function, for the usage ledger
+          templateId: z.string().optional() // Prompt template the prompt came from
+        });
+      
+      const validatedData = videoRequestSchema.parse(req.body);
+      const { conversationId, imageUrl, prompt, functionKey, templateId } = validatedData;
+      
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      console.log('[Video Processing] Request from user:', userId);
 
-    clearTimeout(timeoutId);
+      // Verify conversation ownership for security
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation || !(await canAccessConversation(req.user, conversation))) {
+        return res.status(403).json({ 
+          message: "Unauthorized: You don't have access to this conversation" 
+        });
+      }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('[Video Processing] OpenRouter API error:', response.status, errorText);
-      throw new Error(`OpenRouter API error: ${response.status} ${errorText}`);
-    }
+      // If no imageUrl provided, get the latest image from conversation context
+      let finalImageUrl = imageUrl;
+      if (!finalImageUrl) {
+        finalImageUrl = await storage.getLatestImageFromConversation(conversationId);
+        if (!finalImageUrl) {
+          return res.status(400).json({ 
+            message: "No image found in conversation context. Please upload an image first." 
+          });
+        }
+      }
+      if (await findInaccessibleInput(req.user, [finalImageUrl])) {
+        return res.status(403).json({ message: "You don't have access to this image" });
+      }
 
-    const data = await response.json();
-    console.log('[Video Processing] OpenRouter API response received');
+      // Model configuration of the conversation's workspace, with fallback to the global default
+      const modelConfig = await getWorkspaceModelConfig(conversation.workspaceId);
+      
+      // Use resolved configuration for API access
+      // For video processing, use a model that supports image analysis
+      let selectedModel = modelConfig.selectedModel || 'google/gemini-2.0-flash-exp';
+      
+      // Fix model name for video processing - remove :free suffix which may not be valid
+      if (selectedModel.includes(':free')) {
+        selectedModel = selectedModel.replace(':free', '');
+      }
+      
+      // Ensure we use a model that supports vision tasks
+      if (!(await getModelCapabilities(selectedModel)).visionInput) {
+        selectedModel = 'google/gemini-2.0-flash-exp';
+      }
 
-    if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-      throw new Error('Invalid response format from OpenRouter API');
-    }
+      // Create user message (include the final image URL for traceability)
+      const userMessage = await storage.createMessage({
+        conversationId,
+        role: 'user',
+        content: prompt,
+        imageUrl: finalImageUrl, // Use finalImageUrl for consistency and traceability
+        mediaType: 'image',
+        processingStatus: 'completed'
+      });
 
-    const aiAnalysis = data.choices[0].message.content;
-    console.log('[Video Processing] AI Analysis:', aiAnalysis);
+      // Create AI message placeholder
+      const aiMessage = await storage.createMessage({
+        conversationId,
+        role: 'assistant',
+        content: 'Processing your image into video...',
+        mediaType: 'video',
+        processingStatus: 'processing'
+      });
 
-    // Parse AI analysis for scene enhancement (flexible parsing)
-    const aiPlan = parseAiVideoPlanFlexible(aiAnalysis);
-    console.log('[Video Processing] Parsed AI plan:', aiPlan ? 'Success' : 'Failed to parse');
-    
-    // Enhance scene if office background is needed
-    const sceneResult = await ensureSceneMatchesPrompt(fullImageUrl, aiPlan, prompt, keyToUse);
-    
-    // Ensure enhanced URL is absolute (reuse existing baseUrl)
-    const finalImageUrl = sceneResult.enhancedImageUrl.startsWith('http') 
-      ? sceneResult.enhancedImageUrl 
-      : `${baseUrl}${sceneResult.enhancedImageUrl}`;
-    const sceneEnhancements = sceneResult.enhancementsApplied;
-    
-    if (sceneEnhancements.length > 0) {
-      console.log('[Video Processing] Scene enhanced with:', sceneEnhancements);
-    }
+      // Create video processing job
+      const processingJob = await storage.createVideoProcessingJob({
+        messageId: aiMessage.id,
+        originalImageUrl: finalImageUrl,
+        prompt,
+        templateId: templateId || null,
+        model: selectedModel,
+        status: 'processing'
+      });
+      
+      console.log('[Video Processing] Created job:', processingJob.id);
 
-    console.log('[Video Processing] Starting video generation with provider system...');
-    
-    // Use new provider system for video generation
-    const videoManager = new VideoProviderManager();
-    const duration = aiPlan?.duration || 10;
-    
-    const videoResult = await videoManager.generateVideo({
-      imageUrl: finalImageUrl,
-      prompt: aiAnalysis,
-      duration,
-      model,
-      apiKey: keyToUse,
-      preferredMode: videoMode
-    });
-    
-    console.log('[Video Processing] Video generation completed with provider:', videoResult.providerUsed);
-    
-    return {
-      processedVideoUrl: videoResult.videoUrl,
-      enhancementsApplied: [
-        "AI-powered video analysis",
-        ...sceneEnhancements,
-        ...videoResult.enhancementsApplied
-      ],
-      videoDuration: duration,
-      processingTime: videoResult.processingTime,
-      providerUsed: videoResult.providerUsed,
-      modelUsed: videoResult.modelUsed
-    };
-    
-  } catch (error) {
-    console.error('[Video Processing] Error:', error);
-    
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error(`Video processing timed out after ${timeoutSeconds} seconds`);
-    }
-    
-    throw new Error(`Failed to process video: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
+      // Hand off to the durable job queue
+      await enqueueProcessingJob({
+        jobType: 'video',
+        jobId: processingJob.id,
+        messageId: aiMessage.id,
+        conversationId,
+        payload: { imageUrl: finalImageUrl, prompt, model: selectedModel, userId, functionKey },
+        quota: req.jobQuota
+      });
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Auth middleware setup
-  await setupAuth(app);
+      res.json({ 
+        userMessage, 
+        aiMessage, 
+        processingJob 
+      });
 
-  // Auth routes
-  app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = req.user?.claims?.sub || req.user?.id || 'default';
-      const user = await storage.getUser(userId);
-      res.json(user);
     } catch (error) {
-      console.error("Error fetching user:", error);
-      res.status(500).json({ message: "Failed to fetch user" });
+      if (error instanceof QuotaExceededError) {
+        return sendQuotaExceeded(res, error.response);
+      }
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to process video" 
+      });
     }
   });
 
-  // Get all conversations for authenticated user
-  app.get("/api/conversations", isAuthenticated, async (req: any, res) => {
+  // Get video processing job status
+  app.get("/api/video-processing-jobs/:messageId", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user?.claims?.sub || req.user?.id || 'default';
-      const conversations = await storage.getConversations(userId);
-      res.json(conversations);
+      const { messageId } = req.params;
+      const job = await storage.getVideoProcessingJobByMessage(messageId);
+      
+      if (!job) {
+        return res.status(404).json({ message: "Video processing job not found" });
+      }
+      if (!(await canAccessMessage(req.user, messageId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const attempts = await storage.getJobAttempts(job.id);
+      res.json({ ...job, attempts });
     } catch (error) {
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to fetch conversations" 
+        message: error instanceof Error ? error.message : "Failed to fetch video processing job" 
       });
     }
   });
 
-  // Create a new conversation (requires authentication)
-  app.post("/api/conversations", isAuthenticated, async (req: any, res) => {
+  // Cancel an image, multi-image or video job that is queued or in progress
+  app.post("/api/messages/:messageId/cancel", isAuthenticated, async (req: any, res) => {
     try {
-      // More defensive access to user ID
+      const { messageId } = req.params;
       const userId = req.user?.claims?.sub || req.user?.id || 'default';
-      console.log('[Conversation] Creating for user:', userId, 'Body:', req.body);
-      
-      const validatedData = insertConversationSchema.parse({...req.body, userId});
-      const conversation = await storage.createConversation(validatedData);
-      res.status(201).json(conversation);
+
+      const entry = await storage.getLatestQueuedJobByMessage(messageId);
+      if (!entry) {
+        return res.status(404).json({ message: "Processing job not found" });
+      }
+
+      const conversation = await storage.getConversation(entry.conversationId);
+      if (!conversation || !(await canAccessConversation(req.user, conversation))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const cancelled = await cancelProcessingJob(entry);
+      if (!cancelled) {
+        return res.status(409).json({ message: `Job is already ${entry.status} and can no longer be cancelled` });
+      }
+
+      res.json({ jobId: cancelled.jobId, status: 'cancelled' });
     } catch (error) {
-      console.error('[Conversation] Creation error:', error);
-      res.status(400).json({ 
-        message: error instanceof Error ? error.message : "Failed to create conversation" 
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to cancel job" 
       });
     }
   });
 
-  // Get messages for a conversation
-  app.get("/api/conversations/:id/messages", async (req, res) => {
+  // Re-run a failed or cancelled job with its original inputs, optionally on another model.
+  // With regenerate a completed image job is re-run too, bypassing the generation cache.
+  app.post("/api/messages/:messageId/retry", isAuthenticated, enforceQuota, requireCredits, async (req: any, res) => {
     try {
-      const { id } = req.params;
-      const messages = await storage.getMessagesByConversation(id);
-      res.json(messages);
+      const { messageId } = req.params;
+      const retrySchema = z.object({
+        model: z.string().min(1).optional(), // Run on a different model than the original
+        regenerate: z.boolean().optional(), // Produce a fresh result instead of reusing a cached one
+      });
+      const parseResult = retrySchema.safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid retry request", errors: parseResult.error.errors });
+      }
+      const { model, regenerate } = parseResult.data;
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+
+      const entry = await storage.getLatestQueuedJobByMessage(messageId);
+      if (!entry) {
+        return res.status(404).json({ message: "Processing job not found" });
+      }
+
+      const conversation = await storage.getConversation(entry.conversationId);
+      if (!conversation || !(await canAccessConversation(req.user, conversation))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const cacheable = entry.jobType === 'image' || entry.jobType === 'multi-image';
+      if (regenerate && !cacheable) {
+        return res.status(400).json({ message: `Regenerate is not supported for ${entry.jobType} jobs` });
+      }
+
+      // Only models the workspace has enabled, or the one the job already ran on
+      if (model && model !== entry.payload.model) {
+        const modelConfig = await getWorkspaceModelConfig(conversation.workspaceId);
+        if (!getEnabledModels(modelConfig).includes(model)) {
+          return res.status(400).json({ message: `Model ${model} is not enabled for this workspace` });
+        }
+      }
+
+      const retryableStatuses = regenerate ? ['failed', 'cancelled', 'completed'] : ['failed', 'cancelled'];
+      if (!retryableStatuses.includes(entry.status)) {
+        return res.status(409).json({ message: `Only failed or cancelled jobs can be retried (job is ${entry.status})` });
+      }
+
+      const retried = await retryProcessingJob(entry, retryableStatuses, model, regenerate, req.jobQuota);
+      if (!retried) {
+        return res.status(409).json({ message: "Job is already being retried" });
+      }
+      res.json({ jobId: retried.jobId, status: 'pending', model: model || null, regenerate: !!regenerate });
     } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return sendQuotaExceeded(res, error.response);
+      }
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to fetch messages" 
+        message: error instanceof Error ? error.message : "Failed to retry job" 
       });
     }
   });
 
-  // User Context API endpoints - 用户上下文功能
-  
-  // Get conversation with full message history and context (requires authentication)
-  app.get("/api/conversations/:id/context", isAuthenticated, async (req, res) => {
+  // Get the current workspace's model configuration (admin only). Until the workspace
+  // has its own, the admin's configuration from before workspaces is shown.
+  app.get("/api/model-config", isAuthenticated, isAdmin, loadWorkspace, async (req: any, res) => {
     try {
-      const { id } = req.params;
-      const conversationWithMessages = await storage.getConversationWithMessages(id);
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      const workspaceId = req.workspace.workspace.id;
+      console.log('[Config] Loading for user:', userId, 'workspace:', workspaceId);
       
-      if (!conversationWithMessages) {
-        return res.status(404).json({ message: "Conversation not found" });
+      const config = await storage.getWorkspaceModelConfiguration(workspaceId) || await storage.getModelConfiguration(userId);
+      console.log('[Config] Loaded from database:', config ? { ...config, apiKey: config.apiKey ? '***HIDDEN***' : 'none' } : 'none');
+      
+      // Create proper default configuration with Google Gemini models
+      const defaultConfig = {
+        selectedModel: 'google/gemini-2.0-flash-exp',
+        outputQuality: 'high',
+        maxResolution: 4096,
+        timeout: 120,
+        apiKeyConfigured: process.env.OPENROUTER_API_KEY ? 'true' : 'false',
+        modelPriorities: [
+          { model: 'google/gemini-2.0-flash-exp', priority: 1, enabled: true },
+          { model: 'google/gemini-flash-1.5', priority: 2, enabled: true },
+          { model: 'openai/gpt-4o', priority: 3, enabled: true },
+          { model: 'anthropic/claude-3.5-sonnet', priority: 4, enabled: true }
+        ]
+      };
+      
+      // If we have saved config, merge it with defaults and include the API key
+      if (config) {
+        const mergedConfig = {
+          ...defaultConfig,
+          ...config,
+          // Ensure apiKeyConfigured is set based on whether we have an API key
+          apiKeyConfigured: config.apiKey ? 'true' : (process.env.OPENROUTER_API_KEY ? 'true' : 'false')
+        };
+        console.log('[Config] Returning merged config:', { ...mergedConfig, apiKey: mergedConfig.apiKey ? '***HIDDEN***' : 'none' });
+        res.json(mergedConfig);
+      } else {
+        console.log('[Config] Returning default config');
+        res.json(defaultConfig);
       }
-      
-      res.json(conversationWithMessages);
     } catch (error) {
+      console.error('[Config] Load error:', error);
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to fetch conversation context" 
+        message: error instanceof Error ? error.message : "Failed to fetch model configuration" 
       });
     }
   });
 
-  // Get recent conversations with messages for user context
-  app.get("/api/conversations/recent", async (req, res) => {
+  // Update the current workspace's model configuration (admin only)
+  app.post("/api/model-config", isAuthenticated, isAdmin, loadWorkspace, async (req: any, res) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 10;
-      const recentConversations = await storage.getRecentConversationsWithMessages(undefined, limit);
-      res.json(recentConversations);
+      // More defensive access to user ID
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      const workspaceId = req.workspace.workspace.id;
+      console.log('[Config] Saving for user:', userId, 'workspace:', workspaceId, 'Data:', redactSecrets(req.body));
+      
+      const validatedData = insertModelConfigurationSchema.parse({...req.body, userId, workspaceId});
+      const previous = await storage.getWorkspaceModelConfiguration(workspaceId);
+      const config = await storage.createOrUpdateModelConfiguration(validatedData);
+      await recordAudit(req, {
+        action: previous ? 'model_config.update' : 'model_config.create',
+        targetType: 'model_config',
+        targetId: config.id,
+        before: previous,
+        after: config,
+      });
+      res.json(config);
     } catch (error) {
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to fetch recent conversations" 
+      console.error('[Config] Save error:', error);
+      res.status(400).json({ 
+        message: error instanceof Error ? error.message : "Failed to update model configuration" 
       });
     }
   });
 
-  // Get user conversation history with full context
-  app.get("/api/user/conversations", async (req, res) => {
+  // Fetch available models from OpenRouter (authenticated users)
+  app.get("/api/models", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.query.userId as string || "default";
-      const conversationHistory = await storage.getUserConversationHistory(userId);
-      res.json(conversationHistory);
+      const { apiKey } = req.query;
+      const keyToUse = apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENROUTER_KEY;
+      
+      if (!keyToUse) {
+        return res.status(400).json({ 
+          message: "API key is required. Please provide it in the query parameter or set OPENROUTER_API_KEY environment variable" 
+        });
+      }
+
+      const response = await fetch(`${DEFAULT_PROVIDER_ENDPOINT.baseUrl}/models`, {
+        method: 'GET',
+        headers: endpointHeaders(DEFAULT_PROVIDER_ENDPOINT, keyToUse, {
+          'HTTP-Referer': process.env.REPLIT_DOMAINS?.split(',')[0] || 'http://localhost:5000',
+          'X-Title': 'AI Image Editor'
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenRouter API error: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      
+      // Keep the capability registry in step with the catalog, then list the models
+      // that can work with images, with their (possibly overridden) capabilities
+      await syncCatalogEntries(result.data || []);
+      const capabilities = new Map((await listModelCapabilities()).map(c => [c.modelId, c]));
+      const visionModels = (result.data || [])
+        .map((model: any) => ({ ...model, capabilities: capabilities.get(model.id) }))
+        .filter((model: any) => 
+          model.capabilities?.visionInput ||
+          model.capabilities?.imageOutput ||
+          model.capabilities?.videoOutput
+        );
+      
+      res.json({
+        data: visionModels,
+        total: visionModels.length,
+        apiKeyValid: true
+      });
     } catch (error) {
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to fetch user conversation history" 
+        message: error instanceof Error ? error.message : "Failed to fetch models",
+        apiKeyValid: false
       });
     }
   });
 
-  // Alternative endpoint for conversation history
-  app.get("/api/conversations/history", isAuthenticated, async (req: any, res) => {
+  // Capabilities of every known model, with admin overrides applied
+  app.get("/api/model-capabilities", isAuthenticated, async (req: any, res) => {
     try {
-      // Use authenticated user ID, fallback to 'default' for compatibility
-      const userId = req.user?.claims?.sub || req.user?.id || req.query.userId as string || "default";
-      console.log('[Conversation History] Fetching for user:', userId);
-      const conversationHistory = await storage.getUserConversationHistory(userId);
-      console.log('[Conversation History] Found conversations:', conversationHistory.length);
-      res.json(conversationHistory);
+      res.json(await listModelCapabilities());
     } catch (error) {
-      console.error('[Conversation History] Error:', error);
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to fetch user conversation history" 
+        message: error instanceof Error ? error.message : "Failed to fetch model capabilities" 
       });
     }
   });
 
-  // Object storage upload endpoint - get presigned URL
-  app.post("/api/objects/upload", async (req, res) => {
+  // Re-sync the capability registry from the model catalog (admin only)
+  app.post("/api/admin/model-capabilities/sync", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
-      const uploadURL = await objectStorageService.getObjectEntityUploadURL();
-      res.json({ uploadURL });
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      const config = await storage.getModelConfiguration(userId);
+      const synced = await syncModelCatalog(config?.apiKey || undefined);
+      await recordAudit(req, {
+        action: 'model_capabilities.sync',
+        targetType: 'model_capability',
+        after: { synced },
+      });
+      res.json({ synced });
     } catch (error) {
-      console.error('Error getting upload URL:', error);
+      console.error('[Model Capabilities] Sync error:', error);
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to get upload URL" 
+        message: error instanceof Error ? error.message : "Failed to sync model catalog" 
       });
     }
   });
 
-  // Process uploaded file and set ACL policy
-  app.put("/api/objects/process-upload", async (req, res) => {
+  // Remove unreferenced uploads and stale temp files now (admin only); dry run by default
+  app.post("/api/admin/storage/gc", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
-      const { uploadURL, userId = 'anonymous' } = req.body;
-      
-      if (!uploadURL) {
-        return res.status(400).json({ error: "uploadURL is required" });
+      const parseResult = garbageCollectionRequestSchema.safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid garbage collection request", 
+          errors: parseResult.error.errors 
+        });
       }
-      
-      // Set ACL policy for the uploaded image
-      const objectPath = await objectStorageService.trySetObjectEntityAclPolicy(
-        uploadURL,
-        {
-          owner: userId,
-          visibility: "public", // Uploaded images are public for processing
-        }
-      );
-      
-      res.json({ objectPath });
+
+      const report = await collectGarbage(parseResult.data);
+      if (!report.dryRun) {
+        await recordAudit(req, {
+          action: 'storage.gc',
+          targetType: 'storage',
+          after: {
+            objectsRemoved: report.objects.removed,
+            tempEntriesRemoved: report.temp.removed,
+            reclaimedBytes: report.objects.reclaimedBytes + report.temp.reclaimedBytes,
+          },
+        });
+      }
+      res.json(report);
     } catch (error) {
-      console.error('Error processing upload:', error);
+      if (error instanceof GarbageCollectionInProgressError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('[Garbage Collector] Admin run failed:', error);
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to process upload" 
+        message: error instanceof Error ? error.message : "Failed to collect garbage" 
       });
     }
   });
 
-  // Legacy upload endpoint for backward compatibility
-  app.post("/api/upload", upload.single('image'), async (req: MulterRequest, res) => {
+  // Override the synced capabilities of a model (admin only); an empty object clears overrides
+  app.put("/api/admin/model-capabilities/:modelId(*)", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No image file provided" });
-      }
-
-      console.log('File upload started:', {
-        originalName: req.file.originalname,
-        size: req.file.size,
-        mimetype: req.file.mimetype
-      });
-
-      // Read the uploaded file
-      const fileBuffer = fs.readFileSync(req.file.path);
-      
-      // Upload directly to S3 (no fallbacks)
-      console.log('Starting S3 upload...');
-      const objectPath = await objectStorageService.uploadToS3(
-        fileBuffer, 
-        req.file.originalname,
-        req.file.mimetype
-      );
-      
-      // Set ACL policy for public access (if using S3)
-      if (objectPath.startsWith('/objects/')) {
-        await objectStorageService.trySetObjectEntityAclPolicy(objectPath, {
-          owner: 'user',
-          visibility: 'public',
+      const parseResult = modelCapabilityOverridesSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid capability overrides", 
+          errors: parseResult.error.errors 
         });
       }
-      
-      // Clean up temporary file
-      fs.unlinkSync(req.file.path);
-      
-      res.json({ 
-        imageUrl: objectPath,
-        originalName: req.file.originalname,
-        size: req.file.size,
-        mimeType: req.file.mimetype
+
+      const { modelId } = req.params;
+      const previous = await storage.getModelCapability(modelId);
+      const row = await storage.setModelCapabilityOverrides(modelId, parseResult.data);
+      console.log(`[Model Capabilities] Overrides for ${modelId}:`, parseResult.data);
+      await recordAudit(req, {
+        action: 'model_capability.override',
+        targetType: 'model_capability',
+        targetId: modelId,
+        before: { overrides: previous?.overrides || {} },
+        after: { overrides: row?.overrides || {} },
       });
+      res.json(resolveCapabilities(modelId, row));
     } catch (error) {
-      console.error('Error in legacy upload:', error);
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to upload image" 
+        message: error instanceof Error ? error.message : "Failed to update model capabilities" 
       });
     }
   });
 
-  // Serve images from object storage
-  app.get("/objects/:objectPath(*)", async (req, res) => {
+  // Token and cost totals of the current user's model calls, grouped by day, model or function
+  app.get("/api/usage/summary", isAuthenticated, async (req: any, res) => {
     try {
-      const objectFile = await objectStorageService.getObjectEntityFile(
-        req.path,
-      );
-      const canAccess = await objectStorageService.canAccessObjectEntity({
-        objectFile,
-        userId: undefined, // For now, allow public access - can be extended with auth
-        requestedPermission: ObjectPermission.READ,
-      });
-      if (!canAccess) {
-        return res.sendStatus(401);
+      const parseResult = usageSummaryQuerySchema.omit({ userId: true }).safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid usage query", errors: parseResult.error.errors });
       }
-      objectStorageService.downloadObject(objectFile, res);
+
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      const { groupBy, from, to } = parseResult.data;
+      res.json(await storage.getUsageSummary(groupBy, { userId, from, to }));
     } catch (error) {
-      console.error("Error serving object:", error);
-      if (error instanceof ObjectNotFoundError) {
-        return res.sendStatus(404);
-      }
-      return res.sendStatus(500);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch usage summary" 
+      });
     }
   });
 
-  // Serve local uploads (fallback storage)
-  app.get("/uploads/:fileName", (req, res) => {
+  // Jobs per day by type, success rates, processing times, top templates and spend
+  // for the current user's Usage tab
+  app.get("/api/usage/analytics", isAuthenticated, async (req: any, res) => {
     try {
-      const fileName = req.params.fileName;
-      const filePath = path.join(process.cwd(), 'uploads', fileName);
-      
-      if (!fs.existsSync(filePath)) {
-        return res.status(404).json({ error: "File not found" });
+      const parseResult = usageAnalyticsQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid usage query", errors: parseResult.error.errors });
       }
-      
-      // Serve the file
-      res.sendFile(filePath);
+
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      res.json(await buildUsageAnalytics(userId, parseResult.data.days));
     } catch (error) {
-      console.error("Error serving local file:", error);
-      return res.sendStatus(500);
+      console.error('[Usage Analytics] Error:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch usage analytics" 
+      });
     }
   });
 
-  // Serve public objects (backward compatibility for existing assets)
-  app.get("/public-objects/:filePath(*)", async (req, res) => {
-    const filePath = req.params.filePath;
+  // Token and cost totals across all users, optionally for one user (admin only)
+  app.get("/api/admin/usage/summary", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
-      const file = await objectStorageService.searchPublicObject(filePath);
-      if (!file) {
-        return res.status(404).json({ error: "File not found" });
+      const parseResult = usageSummaryQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid usage query", errors: parseResult.error.errors });
       }
-      objectStorageService.downloadObject(file, res);
+
+      const { groupBy, from, to, userId } = parseResult.data;
+      res.json(await storage.getUsageSummary(groupBy, { userId, from, to }));
     } catch (error) {
-      console.error("Error searching for public object:", error);
-      return res.status(500).json({ error: "Internal server error" });
-    }
-  });
-  
-  // Legacy image serving endpoint
-  app.get("/api/images/:filename", (req, res) => {
-    const { filename } = req.params;
-    const filePath = path.join(uploadDir, filename);
-    
-    if (fs.existsSync(filePath)) {
-      res.sendFile(filePath);
-    } else {
-      res.status(404).json({ message: "Image not found" });
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch usage summary" 
+      });
     }
   });
 
-  // Note: Videos are now served through /objects/ route after being uploaded to S3
-
-
-  // Process image with AI
-  app.post("/api/process-image", isAuthenticated, async (req: any, res) => {
+  // Current user's limits, usage and reset times
+  app.get("/api/quota", isAuthenticated, async (req: any, res) => {
     try {
-      const { conversationId, imageUrl, prompt } = req.body;
       const userId = req.user?.claims?.sub || req.user?.id || 'default';
-      console.log('[Processing] Request from user:', userId);
-      
-      if (!conversationId || !prompt) {
-        return res.status(400).json({ 
-          message: "Missing required fields: conversationId, prompt" 
-        });
-      }
-
-      // If no imageUrl provided, get the latest image from conversation context
-      let finalImageUrl = imageUrl;
-      if (!finalImageUrl) {
-        finalImageUrl = await storage.getLatestImageFromConversation(conversationId);
-        if (!finalImageUrl) {
-          return res.status(400).json({ 
-            message: "No image found in conversation context. Please upload an image first." 
-          });
-        }
-      }
-
-      // Get admin model configuration (API key is admin-controlled for all users)
-      const adminUser = await storage.getUserByRole('admin');
-      const adminUserId = adminUser?.id;
-      
-      if (!adminUserId) {
-        return res.status(500).json({ message: "Admin user not found" });
-      }
-      
-      const adminConfig = await storage.getModelConfiguration(adminUserId);
-      console.log('[Processing] Admin config retrieved for all users:', adminConfig ? 'YES' : 'NO');
-      
-      if (!adminConfig || !adminConfig.apiKey) {
-        return res.status(500).json({ 
-          message: "OpenRouter API key not configured by admin. Please contact administrator." 
-        });
-      }
-      
-      // Use admin's configuration for API access, but allow fallback model selection
-      const selectedModel = adminConfig.selectedModel || 'google/gemini-2.0-flash-exp';
-      const modelConfig = adminConfig; // Use admin config for all processing
-
-      // Create user message (only include imageUrl if it's a new upload)
-      const userMessage = await storage.createMessage({
-        conversationId,
-        role: 'user',
-        content: prompt,
-        imageUrl: imageUrl || null, // Only set if new image was uploaded
-        processingStatus: 'completed'
-      });
-
-      // Create AI message placeholder
-      const aiMessage = await storage.createMessage({
-        conversationId,
-        role: 'assistant',
-        content: 'Processing your image...',
-        processingStatus: 'processing'
-      });
-
-      // Create processing job
-      const processingJob = await storage.createImageProcessingJob({
-        messageId: aiMessage.id,
-        originalImageUrl: finalImageUrl, // Use the resolved image URL
-        prompt,
-        model: selectedModel,
-        status: 'processing'
+      res.json(await getQuotaStatus(userId, req.user?.role || 'user'));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch quota" 
       });
-      
-      console.log('[Processing] Created job:', processingJob.id);
-
-      res.json({ 
-        userMessage, 
-        aiMessage, 
-        processingJob 
+    }
+  });
+
+  // Role limits (stored or default) and per-user overrides (admin only)
+  app.get("/api/admin/quotas", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const rows = await storage.getQuotaLimits();
+      const roles = ['admin', 'user'].map(role => {
+        const row = rows.find(r => r.scope === 'role' && r.subject === role);
+        return row
+          ? { role, ...quotaRowLimits(row), isDefault: false }
+          : { role, ...defaultRoleQuota(role), isDefault: true };
       });
 
-      // Process image asynchronously
-      setImmediate(async () => {
-        try {
-          console.log('[Processing] Starting async processing for job:', processingJob.id);
-          
-          // Get timeout configuration
-          const timeoutSeconds = modelConfig?.timeout || 120;
-          const result = await processImageWithFailover(finalImageUrl, prompt, modelConfig, timeoutSeconds);
-          
-          console.log('[Processing] Failover completed, updating job:', processingJob.id);
-          
-          // Update processing job (include model used)
-          await storage.updateImageProcessingJob(processingJob.id, {
-            status: 'completed',
-            processedImageUrl: result.processedImageUrl,
-            processingTime: result.processingTime,
-            enhancementsApplied: result.enhancementsApplied,
-            model: result.modelUsed // Update the model field with the actually used model
-          });
+      const users = await Promise.all(rows.filter(r => r.scope === 'user').map(async row => {
+        const user = await storage.getUser(row.subject);
+        return {
+          userId: row.subject,
+          username: user?.username || row.subject,
+          ...quotaRowLimits(row),
+        };
+      }));
 
-          console.log('[Processing] Job updated successfully:', processingJob.id);
+      res.json({ roles, users });
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch quotas" 
+      });
+    }
+  });
 
-          // Update AI message
-          await storage.updateMessage(aiMessage.id, {
-            content: `✨ Image enhanced successfully`,
-            imageUrl: result.processedImageUrl, // Add the processed image URL for before/after comparison
-            processingStatus: 'completed'
-          });
+  // Set the limits of a role; null means unlimited (admin only)
+  app.put("/api/admin/quotas/roles/:role", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const parseResult = quotaLimitsSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid quota limits", errors: parseResult.error.errors });
+      }
 
-          console.log('[Processing] Message updated successfully for job:', processingJob.id);
+      const { role } = req.params;
+      if (role !== 'admin' && role !== 'user') {
+        return res.status(400).json({ message: `Unknown role: ${role}` });
+      }
 
-        } catch (error) {
-          console.error('[Processing] Error during async processing:', error);
-          
-          try {
-            // Update processing job with error
-            await storage.updateImageProcessingJob(processingJob.id, {
-              status: 'error',
-              errorMessage: error instanceof Error ? error.message : 'Unknown error'
-            });
-
-            // Update AI message with error
-            await storage.updateMessage(aiMessage.id, {
-              content: `Sorry, I encountered an error while processing your image: ${error instanceof Error ? error.message : 'Unknown error'}`,
-              processingStatus: 'error'
-            });
-            
-            console.log('[Processing] Error status updated for job:', processingJob.id);
-          } catch (updateError) {
-            console.error('[Processing] Failed to update error status:', updateError);
-          }
-        }
+      const previous = await storage.getQuotaLimit('role', role);
+      const limit = await storage.upsertQuotaLimit('role', role, parseResult.data);
+      console.log(`[Quotas] Limits for role ${role}:`, parseResult.data);
+      await recordAudit(req, {
+        action: 'quota.update',
+        targetType: 'quota',
+        targetId: `role:${role}`,
+        before: previous ? quotaRowLimits(previous) : defaultRoleQuota(role),
+        after: parseResult.data,
       });
+      res.json(limit);
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to update quota" 
+      });
+    }
+  });
+
+  // Set a user's own limits; null falls back to the role's limit (admin only)
+  app.put("/api/admin/quotas/users/:username", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const parseResult = quotaLimitsSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid quota limits", errors: parseResult.error.errors });
+      }
+
+      const user = await storage.getUserByUsername(req.params.username);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
 
+      const previous = await storage.getQuotaLimit('user', user.id);
+      const limit = await storage.upsertQuotaLimit('user', user.id, parseResult.data);
+      console.log(`[Quotas] Limits for user ${user.username}:`, parseResult.data);
+      await recordAudit(req, {
+        action: previous ? 'quota.update' : 'quota.create',
+        targetType: 'quota',
+        targetId: `user:${user.username}`,
+        before: previous ? quotaRowLimits(previous) : null,
+        after: parseResult.data,
+      });
+      res.json(limit);
     } catch (error) {
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to process image" 
+        message: error instanceof Error ? error.message : "Failed to update quota" 
       });
     }
   });
 
-  // Process multiple images with AI for combination/composition
-  app.post("/api/process-multiple-images", isAuthenticated, async (req: any, res) => {
+  // Remove a user's own limits so the role's apply (admin only)
+  app.delete("/api/admin/quotas/users/:userId", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
-      const { conversationId, imageUrls, prompt } = req.body;
-      const userId = req.user?.claims?.sub || req.user?.id || 'default';
-      console.log('[Multiple Images Processing] Request from user:', userId);
-      
-      if (!conversationId || !prompt || !imageUrls || !Array.isArray(imageUrls) || imageUrls.length === 0) {
-        return res.status(400).json({ 
-          message: "Missing required fields: conversationId, imageUrls (array), prompt" 
-        });
+      const previous = await storage.getQuotaLimit('user', req.params.userId);
+      const deleted = await storage.deleteQuotaLimit('user', req.params.userId);
+      if (!deleted || !previous) {
+        return res.status(404).json({ message: "User quota not found" });
       }
 
-      if (imageUrls.length > 10) {
-        return res.status(400).json({ 
-          message: "Maximum 10 images allowed for combination processing" 
-        });
+      const user = await storage.getUser(req.params.userId);
+      await recordAudit(req, {
+        action: 'quota.delete',
+        targetType: 'quota',
+        targetId: `user:${user?.username || req.params.userId}`,
+        before: quotaRowLimits(previous),
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to delete quota" 
+      });
+    }
+  });
+
+  // Confirm (or withdraw) that a user's email address is theirs, which email domain
+  // sharing requires (admin only)
+  app.put("/api/admin/users/:username/email-verification", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const { verified } = req.body;
+      if (typeof verified !== 'boolean') {
+        return res.status(400).json({ message: "verified must be a boolean" });
       }
 
-      // Get admin model configuration (API key is admin-controlled for all users)
-      const adminUser = await storage.getUserByRole('admin');
-      const adminUserId = adminUser?.id;
-      
-      if (!adminUserId) {
-        return res.status(500).json({ message: "Admin user not found" });
+      const user = await storage.getUserByUsername(req.params.username);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      
-      const adminConfig = await storage.getModelConfiguration(adminUserId);
-      console.log('[Multiple Images Processing] Admin config retrieved:', adminConfig ? 'YES' : 'NO');
-      
-      if (!adminConfig || !adminConfig.apiKey) {
-        return res.status(500).json({ 
-          message: "OpenRouter API key not configured by admin. Please contact administrator." 
-        });
+      if (verified && !user.email) {
+        return res.status(400).json({ message: "User has no email address" });
       }
-      
-      // Use admin's configuration for API access
-      const selectedModel = adminConfig.selectedModel || 'google/gemini-2.0-flash-exp';
-      const modelConfig = adminConfig;
 
-      // Create user message with multiple images (store as JSON in enhancementsApplied)
-      const userMessage = await storage.createMessage({
-        conversationId,
-        role: 'user',
-        content: `${prompt} [${imageUrls.length} images uploaded]`,
-        imageUrl: imageUrls[0], // Store first image URL for display
-        processingStatus: 'completed'
+      const updated = await storage.setUserEmailVerified(user.id, verified);
+      await recordAudit(req, {
+        action: 'user.update',
+        targetType: 'user',
+        targetId: user.username,
+        before: { verifiedEmail: user.verifiedEmail },
+        after: { verifiedEmail: updated?.verifiedEmail ?? null },
       });
+      res.json({ username: user.username, email: user.email, verifiedEmail: updated?.verifiedEmail ?? null });
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to update email verification" 
+      });
+    }
+  });
 
-      // Create AI message placeholder
-      const aiMessage = await storage.createMessage({
-        conversationId,
-        role: 'assistant',
-        content: `Processing ${imageUrls.length} images for combination...`,
-        processingStatus: 'processing'
+  // Admin configuration changes, newest first, filtered by action, target, actor or time (admin only)
+  app.get("/api/admin/audit-log", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const parseResult = auditLogQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid audit log query", errors: parseResult.error.errors });
+      }
+
+      const { limit, offset, ...filters } = parseResult.data;
+      res.json(await storage.getAuditLog(filters, limit, offset));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch audit log" 
       });
+    }
+  });
 
-      // Create processing job (store multiple image URLs in enhancementsApplied)
-      const processingJob = await storage.createImageProcessingJob({
-        messageId: aiMessage.id,
-        originalImageUrl: imageUrls[0], // Primary image for compatibility
-        prompt,
-        model: selectedModel,
-        status: 'processing',
-        enhancementsApplied: imageUrls // Store all image URLs here
+  // The filtered audit log as CSV (admin only)
+  app.get("/api/admin/audit-log/export.csv", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const parseResult = auditLogQuerySchema.omit({ limit: true, offset: true }).safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid audit log query", errors: parseResult.error.errors });
+      }
+
+      const { entries } = await storage.getAuditLog(parseResult.data, AUDIT_EXPORT_LIMIT);
+      res.set('Content-Type', 'text/csv; charset=utf-8');
+      res.set('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.send(auditLogToCsv(entries));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to export audit log" 
       });
-      
-      console.log('[Multiple Images Processing] Created job:', processingJob.id);
+    }
+  });
 
-      res.json({ 
-        userMessage, 
-        aiMessage, 
-        processingJob 
+  // Enabled plans and credit packs
+  app.get("/api/billing/plans", isAuthenticated, async (req: any, res) => {
+    try {
+      const plans = await getBillingPlans();
+      res.json(plans.filter(plan => plan.enabled === 'true'));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch plans" 
       });
+    }
+  });
 
-      // Process multiple images asynchronously
-      setImmediate(async () => {
-        try {
-          console.log('[Multiple Images Processing] Starting async processing for job:', processingJob.id);
-          
-          // Get timeout configuration
-          const timeoutSeconds = modelConfig?.timeout || 120;
-          const result = await processMultipleImagesWithFailover(imageUrls, prompt, modelConfig, timeoutSeconds);
-          
-          console.log('[Multiple Images Processing] Failover completed, updating job:', processingJob.id);
-          
-          // Update processing job
-          await storage.updateImageProcessingJob(processingJob.id, {
-            status: 'completed',
-            processedImageUrl: result.processedImageUrl,
-            processingTime: result.processingTime,
-            enhancementsApplied: [...imageUrls, ...result.enhancementsApplied],
-            model: result.modelUsed
-          });
+  // Current user's plan, billing period and credit balance
+  app.get("/api/billing/account", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      res.json(await getBillingAccountSummary(userId));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch billing account" 
+      });
+    }
+  });
 
-          console.log('[Multiple Images Processing] Job updated successfully:', processingJob.id);
+  // Current user's most recent credit movements
+  app.get("/api/billing/credits", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      res.json(await storage.getCreditLedger(userId));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch credits" 
+      });
+    }
+  });
 
-          // Update AI message
-          await storage.updateMessage(aiMessage.id, {
-            content: `✨ Images combined successfully using ${imageUrls.length} source images`,
-            imageUrl: result.processedImageUrl,
-            processingStatus: 'completed'
-          });
+  // Buy a plan or credit pack through the active payment provider
+  app.post("/api/billing/checkout", isAuthenticated, async (req: any, res) => {
+    try {
+      const parseResult = billingCheckoutSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid checkout request", errors: parseResult.error.errors });
+      }
 
-          console.log('[Multiple Images Processing] Message updated successfully for job:', processingJob.id);
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
 
-        } catch (error) {
-          console.error('[Multiple Images Processing] Error during async processing:', error);
-          
-          try {
-            // Update processing job with error
-            await storage.updateImageProcessingJob(processingJob.id, {
-              status: 'error',
-              errorMessage: error instanceof Error ? error.message : 'Unknown error'
-            });
-
-            // Update AI message with error
-            await storage.updateMessage(aiMessage.id, {
-              content: `Sorry, I encountered an error while processing your ${imageUrls.length} images: ${error instanceof Error ? error.message : 'Unknown error'}`,
-              processingStatus: 'error'
-            });
-            
-            console.log('[Multiple Images Processing] Error status updated for job:', processingJob.id);
-          } catch (updateError) {
-            console.error('[Multiple Images Processing] Failed to update error status:', updateError);
-          }
-        }
+      res.json(await startCheckout(user, parseResult.data.planKey));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to start checkout" 
       });
+    }
+  });
 
+  app.get("/api/billing/invoices", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      res.json(await storage.getUserInvoices(userId));
     } catch (error) {
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to process multiple images" 
+        message: error instanceof Error ? error.message : "Failed to fetch invoices" 
       });
     }
   });
 
-  // Multi-image generate with analysis → generation pipeline
-  app.post("/api/multi-image-generate", isAuthenticated, async (req: any, res) => {
+  app.get("/api/billing/invoices/export.csv", isAuthenticated, async (req: any, res) => {
     try {
-      // Validate request body
-      const multiImageRequestSchema = z.object({
-        conversationId: z.string(),
-        imageUrls: z.array(z.string()).min(2).max(10),
-        userPrompt: z.string().min(1),
-        imageRoles: z.array(z.object({
-          url: z.string(),
-          role: z.enum(['content', 'style', 'palette', 'reference']),
-          weight: z.number().min(0.1).max(1.0)
-        })).optional(),
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
+      const invoices = await storage.getUserInvoices(userId);
+      res.set('Content-Type', 'text/csv; charset=utf-8');
+      res.set('Content-Disposition', 'attachment; filename="invoices.csv"');
+      res.send(invoicesToCsv(invoices));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to export invoices" 
       });
+    }
+  });
 
-      const validatedData = multiImageRequestSchema.parse(req.body);
-      const { conversationId, imageUrls, userPrompt, imageRoles = [] } = validatedData;
-      
+  app.get("/api/billing/invoices/:id/pdf", isAuthenticated, async (req: any, res) => {
+    try {
       const userId = req.user?.claims?.sub || req.user?.id || 'default';
-      console.log('[Multi-Image Generate] Request from user:', userId, 'Images:', imageUrls.length);
-
-      // Verify conversation ownership
-      const conversation = await storage.getConversation(conversationId);
-      if (!conversation || conversation.userId !== userId) {
-        return res.status(403).json({ 
-          message: "Unauthorized: You don't have access to this conversation" 
-        });
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice || invoice.userId !== userId) {
+        return res.status(404).json({ message: "Invoice not found" });
       }
 
-      // Get admin model configuration (API key is admin-controlled)
-      const adminUser = await storage.getUserByRole('admin');
-      if (!adminUser?.id) {
-        return res.status(500).json({ message: "Admin user not found" });
-      }
-      
-      const adminConfig = await storage.getModelConfiguration(adminUser.id);
-      if (!adminConfig || !adminConfig.apiKey) {
-        return res.status(500).json({ 
-          message: "OpenRouter API key not configured by admin. Please contact administrator." 
-        });
+      const user = await storage.getUser(invoice.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      // Create user message with multiple images
-      const userMessage = await storage.createMessage({
-        conversationId,
-        role: 'user',
-        content: `${userPrompt} [${imageUrls.length} images for generation]`,
-        imageUrl: imageUrls[0], // Store first image URL for display
-        processingStatus: 'completed'
-      });
-
-      // Create AI message placeholder
-      const aiMessage = await storage.createMessage({
-        conversationId,
-        role: 'assistant',
-        content: `Analyzing ${imageUrls.length} images and generating new image...`,
-        processingStatus: 'processing'
+      res.set('Content-Type', 'application/pdf');
+      res.set('Content-Disposition', `attachment; filename="${invoice.number}.pdf"`);
+      res.send(invoiceToPdf(invoice, user));
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to export invoice" 
       });
+    }
+  });
 
-      // Ensure imageRoles array matches imageUrls
-      const finalImageRoles = imageUrls.map((url, index) => {
-        const existingRole = imageRoles.find(r => r.url === url);
-        return existingRole || {
-          url,
-          role: index === 0 ? 'content' as const : 'reference' as const,
-          weight: 1.0
-        };
+  // Payment outcome notifications; providers authenticate these themselves
+  app.post("/api/billing/webhooks/:provider", async (req: any, res) => {
+    try {
+      const invoice = await handlePaymentWebhook(req.params.provider, req.body, req.headers);
+      res.json({ received: true, invoice: invoice?.number || null, status: invoice?.status || null });
+    } catch (error) {
+      res.status(400).json({ 
+        message: error instanceof Error ? error.message : "Failed to handle payment webhook" 
       });
+    }
+  });
 
-      // Create multi-image processing job
-      const processingJob = await storage.createMultiImageProcessingJob({
-        messageId: aiMessage.id,
-        inputImages: imageUrls,
-        userPrompt,
-        analysisModel: adminConfig.selectedModel || 'openai/gpt-4o',
-        generationModel: null, // Will be set based on capability detection
-        status: 'pending',
-        imageRoles: finalImageRoles,
-        promptBundle: null
-      });
+  // Grant or remove credits for a user (admin only)
+  app.post("/api/admin/billing/credits", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const parseResult = creditAdjustmentSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid credit adjustment", errors: parseResult.error.errors });
+      }
 
-      console.log('[Multi-Image Generate] Created job:', processingJob.id);
+      const { username, amount, description } = parseResult.data;
+      const user = await storage.getUserByUsername(username);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
 
-      // Return immediate response with job info
-      res.json({
-        message: "Multi-image generation started",
-        messageId: aiMessage.id,
-        jobId: processingJob.id,
-        status: 'processing'
+      const entry = await adjustCredits(user.id, amount, description);
+      console.log(`[Billing] Adjusted credits of ${user.username} by ${amount}: ${description}`);
+      await recordAudit(req, {
+        action: 'credits.adjust',
+        targetType: 'credits',
+        targetId: user.username,
+        after: { amount, description },
       });
+      res.json(entry);
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to adjust credits" 
+      });
+    }
+  });
 
-      // Process asynchronously
-      setImmediate(async () => {
-        try {
-          console.log('[Multi-Image Generate] Starting async processing for job:', processingJob.id);
+  // Workspaces the user can switch to, and the one currently selected
+  app.get("/api/workspaces", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaces = await listWorkspaces(req.user);
+      const current = await getCurrentWorkspace(req.user);
+      res.json({ workspaces, currentWorkspaceId: current.workspace.id });
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch workspaces" 
+      });
+    }
+  });
 
-          // Update job status to analyzing
-          await storage.updateMultiImageProcessingJob(processingJob.id, {
-            status: 'analyzing'
-          });
+  // Create a workspace in an organization the user owns, or in a new organization
+  app.post("/api/workspaces", isAuthenticated, async (req: any, res) => {
+    try {
+      const parseResult = createWorkspaceSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid workspace data", errors: parseResult.error.errors });
+      }
 
-          // Stage 1: Analyze images to create prompt bundle
-          const promptBundle = await analyzeImagesForGeneration(
-            imageUrls,
-            finalImageRoles,
-            userPrompt,
-            adminConfig.selectedModel || 'openai/gpt-4o',
-            adminConfig.apiKey
-          );
-
-          console.log('[Multi-Image Generate] Analysis complete, prompt bundle created');
-
-          // Update job with prompt bundle
-          await storage.updateMultiImageProcessingJob(processingJob.id, {
-            promptBundle,
-            status: 'generating'
-          });
+      const workspace = await createWorkspace(req.user, parseResult.data);
+      await recordAudit(req, {
+        action: 'workspace.create',
+        targetType: 'workspace',
+        targetId: workspace.id,
+        after: { name: workspace.name, organizationId: workspace.organizationId },
+      });
+      res.status(201).json(workspace);
+    } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(403).json({ message: error.message });
+      }
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to create workspace" 
+      });
+    }
+  });
 
-          // Stage 2: Generate image using prompt bundle
-          const generationResult = await generateImageFromPromptBundle(
-            promptBundle,
-            imageUrls,
-            adminConfig,
-            finalImageRoles
-          );
-
-          console.log('[Multi-Image Generate] Generation complete:', generationResult.success);
-
-          if (generationResult.success) {
-            // Update job with success
-            await storage.updateMultiImageProcessingJob(processingJob.id, {
-              status: 'completed',
-              outputImageUrl: generationResult.imageUrl,
-              generationModel: generationResult.modelUsed
-            });
-
-            // Update AI message with success
-            await storage.updateMessage(aiMessage.id, {
-              content: `✨ Generated new image from ${imageUrls.length} source images`,
-              imageUrl: generationResult.imageUrl,
-              processingStatus: 'completed'
-            });
-          } else {
-            throw new Error(generationResult.error || 'Generation failed');
-          }
+  // Switch the workspace used for conversations, library, templates and settings
+  app.post("/api/workspaces/current", isAuthenticated, async (req: any, res) => {
+    try {
+      const parseResult = switchWorkspaceSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid workspace", errors: parseResult.error.errors });
+      }
 
-        } catch (error) {
-          console.error('[Multi-Image Generate] Error during async processing:', error);
-          
-          try {
-            // Update processing job with error
-            await storage.updateMultiImageProcessingJob(processingJob.id, {
-              status: 'error',
-              errorMessage: error instanceof Error ? error.message : 'Unknown error'
-            });
-
-            // Update AI message with error
-            await storage.updateMessage(aiMessage.id, {
-              content: `Sorry, I encountered an error while generating your image: ${error instanceof Error ? error.message : 'Unknown error'}`,
-              processingStatus: 'error'
-            });
-            
-          } catch (updateError) {
-            console.error('[Multi-Image Generate] Failed to update error status:', updateError);
-          }
-        }
-      });
+      const access = await getWorkspaceAccess(req.user, parseResult.data.workspaceId);
+      if (!access) {
+        return res.status(403).json({ message: "You are not a member of this workspace" });
+      }
 
+      await storage.setCurrentWorkspace(req.user.id, access.workspace.id);
+      res.json({ currentWorkspaceId: access.workspace.id });
     } catch (error) {
-      console.error('[Multi-Image Generate] Request error:', error);
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to start multi-image generation" 
+        message: error instanceof Error ? error.message : "Failed to switch workspace" 
       });
     }
   });
 
-  // Get processing job status
-  app.get("/api/processing-jobs/:messageId", async (req, res) => {
+  // Members of a workspace (any member can see who else is in it)
+  app.get("/api/workspaces/:id/members", isAuthenticated, async (req: any, res) => {
     try {
-      const { messageId } = req.params;
-      const job = await storage.getImageProcessingJobByMessage(messageId);
-      
-      if (!job) {
-        return res.status(404).json({ message: "Processing job not found" });
+      const access = await getWorkspaceAccess(req.user, req.params.id);
+      if (!access) {
+        return res.status(404).json({ message: "Workspace not found" });
       }
 
-      res.json(job);
+      const members = await storage.getWorkspaceMembers(access.workspace.id);
+      res.json(members);
     } catch (error) {
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to fetch processing job" 
+        message: error instanceof Error ? error.message : "Failed to fetch workspace members" 
       });
     }
   });
 
-  // Process image to video with AI
-  app.post("/api/process-video", isAuthenticated, async (req: any, res) => {
+  // Add a member by username, or change an existing member's role (workspace admins only)
+  app.post("/api/workspaces/:id/members", isAuthenticated, async (req: any, res) => {
     try {
-      // Validate request body with Zod
-      const videoRequestSchema = insertVideoProcessingJobSchema
-        .pick({ prompt: true })
-        .extend({
-          conversationId: z.string(),
-          imageUrl: z.string().optional()
-        });
-      
-      const validatedData = videoRequestSchema.parse(req.body);
-      const { conversationId, imageUrl, prompt } = validatedData;
-      
-      const userId = req.user?.claims?.sub || req.user?.id || 'default';
-      console.log('[Video Processing] Request from user:', userId);
-
-      // Verify conversation ownership for security
-      const conversation = await storage.getConversation(conversationId);
-      if (!conversation || conversation.userId !== userId) {
-        return res.status(403).json({ 
-          message: "Unauthorized: You don't have access to this conversation" 
-        });
-      }
-
-      // If no imageUrl provided, get the latest image from conversation context
-      let finalImageUrl = imageUrl;
-      if (!finalImageUrl) {
-        finalImageUrl = await storage.getLatestImageFromConversation(conversationId);
-        if (!finalImageUrl) {
-          return res.status(400).json({ 
-            message: "No image found in conversation context. Please upload an image first." 
-          });
-        }
+      const parseResult = workspaceMemberRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid member data", errors: parseResult.error.errors });
       }
 
-      // Get user's model configuration with fallback to global default
-      let modelConfig = await storage.getModelConfiguration(userId);
-      
-      if (!modelConfig) {
-        // Fallback to global default configuration
-        modelConfig = await storage.getGlobalDefaultConfiguration();
-      }
-      
-      if (!modelConfig) {
-        // Final fallback to admin configuration if no global default exists
-        const adminUser = await storage.getUserByRole('admin');
-        if (adminUser?.id) {
-          modelConfig = await storage.getModelConfiguration(adminUser.id);
-        }
-      }
-      
-      console.log('[Video Processing] Model config retrieved for user:', userId, 'Has config:', modelConfig ? 'YES' : 'NO');
-      
-      if (!modelConfig || !modelConfig.apiKey) {
-        return res.status(500).json({ 
-          message: "OpenRouter API key not configured. Please contact administrator." 
-        });
-      }
-      
-      // Use resolved configuration for API access
-      // For video processing, use a model that supports image analysis
-      let selectedModel = modelConfig.selectedModel || 'google/gemini-2.0-flash-exp';
-      
-      // Fix model name for video processing - remove :free suffix which may not be valid
-      if (selectedModel.includes(':free')) {
-        selectedModel = selectedModel.replace(':free', '');
+      const access = await getWorkspaceAccess(req.user, req.params.id);
+      if (!access) {
+        return res.status(404).json({ message: "Workspace not found" });
       }
-      
-      // Ensure we use a model that supports vision tasks
-      if (!selectedModel.includes('gemini')) {
-        selectedModel = 'google/gemini-2.0-flash-exp';
+      if (!access.canManage) {
+        return res.status(403).json({ message: "Only workspace admins can manage members" });
       }
 
-      // Create user message (include the final image URL for traceability)
-      const userMessage = await storage.createMessage({
-        conversationId,
-        role: 'user',
-        content: prompt,
-        imageUrl: finalImageUrl, // Use finalImageUrl for consistency and traceability
-        mediaType: 'image',
-        processingStatus: 'completed'
-      });
+      const user = await storage.getUserByUsername(parseResult.data.username);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
 
-      // Create AI message placeholder
-      const aiMessage = await storage.createMessage({
-        conversationId,
-        role: 'assistant',
-        content: 'Processing your image into video...',
-        mediaType: 'video',
-        processingStatus: 'processing'
+      const previous = await storage.getWorkspaceMember(access.workspace.id, user.id);
+      const member = await storage.upsertWorkspaceMember({
+        workspaceId: access.workspace.id,
+        userId: user.id,
+        role: parseResult.data.role,
       });
-
-      // Create video processing job
-      const processingJob = await storage.createVideoProcessingJob({
-        messageId: aiMessage.id,
-        originalImageUrl: finalImageUrl,
-        prompt,
-        model: selectedModel,
-        status: 'processing'
+      console.log(`[Workspaces] ${user.username} is now ${member.role} of workspace ${access.workspace.id}`);
+      await recordAudit(req, {
+        action: previous ? 'workspace_member.update' : 'workspace_member.create',
+        targetType: 'workspace_member',
+        targetId: `${access.workspace.id}:${user.username}`,
+        before: previous ? { role: previous.role } : null,
+        after: { role: member.role },
       });
-      
-      console.log('[Video Processing] Created job:', processingJob.id);
-
-      res.json({ 
-        userMessage, 
-        aiMessage, 
-        processingJob 
+      res.json(member);
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to save workspace member" 
       });
+    }
+  });
 
-      // Process video asynchronously with real video generation
-      setImmediate(async () => {
-        try {
-          console.log('[Video Processing] Starting async processing for job:', processingJob.id);
-          
-          const startTime = Date.now();
-          
-          // Call video generation API
-          const result = await processVideoWithOpenRouter(
-            finalImageUrl,
-            prompt,
-            selectedModel,
-            modelConfig.apiKey || undefined,
-            modelConfig.timeout || 120
-          );
-          
-          const processingTime = Math.round((Date.now() - startTime) / 1000);
-          
-          // Update processing job
-          await storage.updateVideoProcessingJob(processingJob.id, {
-            status: 'completed',
-            processedVideoUrl: result.processedVideoUrl,
-            processingTime,
-            enhancementsApplied: result.enhancementsApplied,
-            videoDuration: result.videoDuration || 10
-          });
-
-          console.log('[Video Processing] Job updated successfully:', processingJob.id);
-
-          // Update AI message
-          await storage.updateMessage(aiMessage.id, {
-            content: `✨ Video generated successfully from your image`,
-            videoUrl: result.processedVideoUrl,
-            processingStatus: 'completed'
-          });
+  // Remove a member from a workspace (workspace admins only)
+  app.delete("/api/workspaces/:id/members/:userId", isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await getWorkspaceAccess(req.user, req.params.id);
+      if (!access) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (!access.canManage) {
+        return res.status(403).json({ message: "Only workspace admins can manage members" });
+      }
 
-          console.log('[Video Processing] Message updated successfully for job:', processingJob.id);
+      const previous = await storage.getWorkspaceMember(access.workspace.id, req.params.userId);
+      const removed = await storage.removeWorkspaceMember(access.workspace.id, req.params.userId);
+      if (!removed || !previous) {
+        return res.status(404).json({ message: "Member not found" });
+      }
 
-        } catch (error) {
-          console.error('[Video Processing] Error during async processing:', error);
-          
-          try {
-            // Update processing job with error
-            await storage.updateVideoProcessingJob(processingJob.id, {
-              status: 'error',
-              errorMessage: error instanceof Error ? error.message : 'Unknown error'
-            });
-
-            // Update AI message with error
-            await storage.updateMessage(aiMessage.id, {
-              content: `Sorry, I encountered an error while generating your video: ${error instanceof Error ? error.message : 'Unknown error'}`,
-              processingStatus: 'error'
-            });
-            
-            console.log('[Video Processing] Error status updated for job:', processingJob.id);
-          } catch (updateError) {
-            console.error('[Video Processing] Failed to update error status:', updateError);
-          }
-        }
+      const user = await storage.getUser(req.params.userId);
+      await recordAudit(req, {
+        action: 'workspace_member.delete',
+        targetType: 'workspace_member',
+        targetId: `${access.workspace.id}:${user?.username || req.params.userId}`,
+        before: { role: previous.role },
       });
-
+      res.json({ success: true });
     } catch (error) {
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to process video" 
+        message: error instanceof Error ? error.message : "Failed to remove workspace member" 
       });
     }
   });
 
-  // Get video processing job status
-  app.get("/api/video-processing-jobs/:messageId", async (req, res) => {
+  // Brand kits of the current workspace
+  app.get("/api/brand-kits", isAuthenticated, loadWorkspace, async (req: any, res) => {
     try {
-      const { messageId } = req.params;
-      const job = await storage.getVideoProcessingJobByMessage(messageId);
-      
-      if (!job) {
-        return res.status(404).json({ message: "Video processing job not found" });
-      }
-
-      res.json(job);
+      const kits = await storage.getWorkspaceBrandKits(req.workspace.workspace.id);
+      res.json(kits);
     } catch (error) {
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to fetch video processing job" 
+        message: error instanceof Error ? error.message : "Failed to fetch brand kits" 
       });
     }
   });
 
-  // Get model configuration (admin only)
-  app.get("/api/model-config", isAuthenticated, isAdmin, async (req: any, res) => {
+  // Create a brand kit in the current workspace (workspace admins only)
+  app.post("/api/brand-kits", isAuthenticated, loadWorkspace, async (req: any, res) => {
     try {
-      const userId = req.user?.claims?.sub || req.user?.id || 'default';
-      console.log('[Config] Loading for user:', userId);
-      
-      const config = await storage.getModelConfiguration(userId);
-      console.log('[Config] Loaded from database:', config ? { ...config, apiKey: config.apiKey ? '***HIDDEN***' : 'none' } : 'none');
-      
-      // Create proper default configuration with Google Gemini models
-      const defaultConfig = {
-        selectedModel: 'google/gemini-2.0-flash-exp',
-        outputQuality: 'high',
-        maxResolution: 4096,
-        timeout: 120,
-        apiKeyConfigured: process.env.OPENROUTER_API_KEY ? 'true' : 'false',
-        modelPriorities: [
-          { model: 'google/gemini-2.0-flash-exp', priority: 1, enabled: true },
-          { model: 'google/gemini-flash-1.5', priority: 2, enabled: true },
-          { model: 'openai/gpt-4o', priority: 3, enabled: true },
-          { model: 'anthropic/claude-3.5-sonnet', priority: 4, enabled: true }
-        ]
-      };
-      
-      // If we have saved config, merge it with defaults and include the API key
-      if (config) {
-        const mergedConfig = {
-          ...defaultConfig,
-          ...config,
-          // Ensure apiKeyConfigured is set based on whether we have an API key
-          apiKeyConfigured: config.apiKey ? 'true' : (process.env.OPENROUTER_API_KEY ? 'true' : 'false')
-        };
-        console.log('[Config] Returning merged config:', { ...mergedConfig, apiKey: mergedConfig.apiKey ? '***HIDDEN***' : 'none' });
-        res.json(mergedConfig);
-      } else {
-        console.log('[Config] Returning default config');
-        res.json(defaultConfig);
+      if (!req.workspace.canManage) {
+        return res.status(403).json({ message: "Only workspace admins can edit brand kits" });
       }
+      const parseResult = brandKitRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid brand kit", errors: parseResult.error.errors });
+      }
+
+      const kit = await storage.createBrandKit({
+        ...parseResult.data,
+        workspaceId: req.workspace.workspace.id,
+        logoAssets: [],
+        createdBy: req.user.id,
+      });
+      console.log(`[Brand Kits] ${req.user.username} created brand kit ${kit.name} (${kit.id})`);
+      await recordAudit(req, {
+        action: 'brand_kit.create',
+        targetType: 'brand_kit',
+        targetId: kit.id,
+        after: parseResult.data,
+      });
+      res.status(201).json(kit);
     } catch (error) {
-      console.error('[Config] Load error:', error);
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to fetch model configuration" 
+        message: error instanceof Error ? error.message : "Failed to create brand kit" 
       });
     }
   });
 
-  // Update model configuration (admin only)
-  app.post("/api/model-config", isAuthenticated, isAdmin, async (req: any, res) => {
+  // Update a brand kit's name, colours, fonts, tone and watermark position
+  app.put("/api/brand-kits/:id", isAuthenticated, async (req: any, res) => {
     try {
-      // More defensive access to user ID
-      const userId = req.user?.claims?.sub || req.user?.id || 'default';
-      console.log('[Config] Saving for user:', userId, 'Data:', req.body);
-      
-      const validatedData = insertModelConfigurationSchema.parse({...req.body, userId});
-      const config = await storage.createOrUpdateModelConfiguration(validatedData);
-      res.json(config);
+      const parseResult = brandKitRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid brand kit", errors: parseResult.error.errors });
+      }
+
+      const { kit } = await getBrandKitAccess(req.user, req.params.id, true);
+      const updated = await storage.updateBrandKit(kit.id, parseResult.data);
+      if (!updated) {
+        return res.status(404).json({ message: "Brand kit not found" });
+      }
+      await recordAudit(req, {
+        action: 'brand_kit.update',
+        targetType: 'brand_kit',
+        targetId: kit.id,
+        before: {
+          name: kit.name,
+          palette: kit.palette,
+          fonts: kit.fonts,
+          toneKeywords: kit.toneKeywords,
+          watermarkPosition: kit.watermarkPosition,
+        },
+        after: parseResult.data,
+      });
+      res.json(updated);
     } catch (error) {
-      console.error('[Config] Save error:', error);
-      res.status(400).json({ 
-        message: error instanceof Error ? error.message : "Failed to update model configuration" 
+      if (error instanceof BrandKitError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to update brand kit" 
       });
     }
   });
 
-  // Fetch available models from OpenRouter (authenticated users)
-  app.get("/api/models", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/brand-kits/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const { apiKey } = req.query;
-      const keyToUse = apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENROUTER_KEY;
-      
-      if (!keyToUse) {
-        return res.status(400).json({ 
-          message: "API key is required. Please provide it in the query parameter or set OPENROUTER_API_KEY environment variable" 
-        });
+      const { kit } = await getBrandKitAccess(req.user, req.params.id, true);
+      await storage.deleteBrandKit(kit.id);
+      console.log(`[Brand Kits] ${req.user.username} deleted brand kit ${kit.name} (${kit.id})`);
+      await recordAudit(req, {
+        action: 'brand_kit.delete',
+        targetType: 'brand_kit',
+        targetId: kit.id,
+        before: { name: kit.name },
+      });
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof BrandKitError) {
+        return res.status(error.status).json({ message: error.message });
       }
-
-      const response = await fetch('https://openrouter.ai/api/v1/models', {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${keyToUse}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': process.env.REPLIT_DOMAINS?.split(',')[0] || 'http://localhost:5000',
-          'X-Title': 'AI Image Editor'
-        }
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to delete brand kit" 
       });
+    }
+  });
 
-      if (!response.ok) {
-        throw new Error(`OpenRouter API error: ${response.statusText}`);
+  // Upload a logo to a brand kit (multipart field "logo")
+  app.post("/api/brand-kits/:id/logos", isAuthenticated, upload.single('logo'), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No logo file provided" });
       }
 
-      const result = await response.json();
-      
-      // Filter for models that support vision/multimodal capabilities
-      const visionModels = result.data?.filter((model: any) => 
-        model.architecture?.modality?.includes('vision') || 
-        model.architecture?.modality?.includes('multimodal') ||
-        model.id?.includes('vision') ||
-        model.id?.includes('gpt-4') ||
-        model.id?.includes('claude') ||
-        model.id?.includes('gemini')
-      ) || [];
-      
-      res.json({
-        data: visionModels,
-        total: visionModels.length,
-        apiKeyValid: true
+      const file = req.file as Express.Multer.File;
+      try {
+        const { kit } = await getBrandKitAccess(req.user, req.params.id, true);
+        const updated = await addBrandLogo(kit, req.user, {
+          buffer: fs.readFileSync(file.path),
+          name: path.basename(file.originalname).replace(/[^\w.-]+/g, '_'),
+          contentType: file.mimetype,
+        });
+        res.status(201).json(updated);
+      } finally {
+        fs.unlinkSync(file.path);
+      }
+    } catch (error) {
+      if (error instanceof BrandKitError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to upload logo" 
       });
+    }
+  });
+
+  app.delete("/api/brand-kits/:id/logos/:logoId", isAuthenticated, async (req: any, res) => {
+    try {
+      const { kit } = await getBrandKitAccess(req.user, req.params.id, true);
+      res.json(await removeBrandLogo(kit, req.params.logoId));
     } catch (error) {
+      if (error instanceof BrandKitError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to fetch models",
-        apiKeyValid: false
+        message: error instanceof Error ? error.message : "Failed to remove logo" 
       });
     }
   });
 
-  // Save generated image to user library
-  app.post("/api/library/save", isAuthenticated, async (req: any, res) => {
+  // Save generated image to the current workspace's library
+  app.post("/api/library/save", isAuthenticated, loadWorkspace, async (req: any, res) => {
     try {
       // Get user ID from authenticated session
       const userId = req.user?.claims?.sub || req.user?.id || 'default';
       
-      // Override any userId in the request body with the authenticated user ID
-      const requestData = { ...req.body, userId };
+      // Override any userId or workspace in the request body with the authenticated user's
+      const requestData = { ...req.body, userId, workspaceId: req.workspace.workspace.id };
       const validatedData = insertSavedImageSchema.parse(requestData);
+      // Saved images can be shared publicly, so they must be stored files, never URLs
+      if (!isStoredMediaUrl(validatedData.objectPath)) {
+        return res.status(400).json({ message: "Only stored images can be saved to the library" });
+      }
+      const imagePaths = [validatedData.objectPath, validatedData.originalImagePath].filter((path): path is string => !!path);
+      if (await findInaccessibleInput(req.user, imagePaths)) {
+        return res.status(403).json({ message: "You don't have access to this image" });
+      }
       
       console.log('Saving image to library for user:', userId);
       const savedImage = await storage.createSavedImage(validatedData);
@@ -2762,18 +2370,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get authenticated user's saved images
-  app.get("/api/library", isAuthenticated, async (req: any, res) => {
+  // Get the current workspace's saved images
+  app.get("/api/library", isAuthenticated, loadWorkspace, async (req: any, res) => {
     try {
-      // Get user ID from authenticated session  
-      const userId = req.user?.claims?.sub || req.user?.id || 'default';
       const { page = '1', limit = '20', tags } = req.query;
       
       const pageNum = parseInt(page as string);
       const limitNum = parseInt(limit as string);
       const tagsArray = tags ? (tags as string).split(',') : undefined;
       
-      const savedImages = await storage.getUserSavedImages(userId, {
+      const savedImages = await storage.getWorkspaceSavedImages(req.workspace.workspace.id, {
         page: pageNum,
         limit: limitNum,
         tags: tagsArray
@@ -2788,17 +2394,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Delete saved image from library
-  app.delete("/api/library/:imageId", async (req, res) => {
+  // Delete saved image from the current workspace's library
+  app.delete("/api/library/:imageId", isAuthenticated, loadWorkspace, async (req: any, res) => {
     try {
       const { imageId } = req.params;
-      const { userId } = req.query;
-      
-      if (!userId) {
-        return res.status(400).json({ message: "userId is required" });
-      }
-      
-      const success = await storage.deleteSavedImage(imageId, userId as string);
+      const success = await storage.deleteWorkspaceSavedImage(imageId, req.workspace.workspace.id);
       
       if (!success) {
         return res.status(404).json({ message: "Image not found or not authorized" });
@@ -2843,35 +2443,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log('[UploadImage] Processing canvas image upload...');
       
-      // Step 1: Get presigned upload URL from object storage service
-      const uploadURL = await objectStorageService.getObjectEntityUploadURL();
-      console.log('[UploadImage] Got presigned URL');
-
-      // Step 2: Upload file to presigned URL
-      const fs = await import('fs');
-      const formData = new FormData();
+      // Step 1: Store the file with the configured storage driver
       const fileBuffer = fs.readFileSync(uploadedFile.path);
-      const blob = new Blob([fileBuffer], { type: 'image/png' });
-      
-      console.log('[UploadImage] Uploading to presigned URL...');
-      const uploadResponse = await fetch(uploadURL, {
-        method: 'PUT',
-        body: blob,
-        headers: {
-          'Content-Type': 'image/png',
-        },
-      });
-
-      if (!uploadResponse.ok) {
-        throw new Error(`Upload failed: ${uploadResponse.status} ${uploadResponse.statusText}`);
-      }
-
+      const objectPath = await objectStorageService.uploadObject(fileBuffer, 'canvas.png', 'image/png');
       console.log('[UploadImage] Upload successful');
 
-      // Step 3: Set ACL policy for the uploaded object
-      const objectPath = objectStorageService.normalizeObjectEntityPath(uploadURL);
+      // Step 2: Set ACL policy for the uploaded object
       await objectStorageService.trySetObjectEntityAclPolicy(
-        uploadURL,
+        objectPath,
         {
           owner: 'system',
           visibility: 'public'
@@ -2890,10 +2469,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get enabled prompt templates for quick actions (accessible to all authenticated users)
+  // Get enabled prompt templates for quick actions: shared ones plus the current workspace's
   app.get("/api/prompt-templates", async (req: any, res) => {
     try {
-      const templates = await storage.getEnabledPromptTemplates();
+      const workspaceId = req.user ? (await getCurrentWorkspace(req.user)).workspace.id : null;
+      const templates = await storage.getEnabledPromptTemplates(workspaceId);
       res.json(templates);
     } catch (error) {
       console.error('Error fetching prompt templates:', error);
@@ -2903,10 +2483,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all prompt templates for admin (including disabled ones)
-  app.get("/api/admin/prompt-templates", isAuthenticated, isAdmin, async (req: any, res) => {
+  // Get all prompt templates for admin (including disabled ones), shared and the current workspace's
+  app.get("/api/admin/prompt-templates", isAuthenticated, isAdmin, loadWorkspace, async (req: any, res) => {
     try {
-      const templates = await storage.getPromptTemplates();
+      const templates = await storage.getPromptTemplates(req.workspace.workspace.id);
       res.json(templates);
     } catch (error) {
       console.error('Error fetching all prompt templates:', error);
@@ -2916,16 +2496,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create prompt template (admin only)
-  app.post("/api/prompt-templates", isAuthenticated, isAdmin, async (req: any, res) => {
+  // Create prompt template (admin only); it belongs to the current workspace unless
+  // workspaceId is sent as null to share it with every workspace
+  app.post("/api/prompt-templates", isAuthenticated, isAdmin, loadWorkspace, async (req: any, res) => {
     try {
       const parseResult = insertPromptTemplateSchema.safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({ message: "Invalid prompt template data", errors: parseResult.error.errors });
       }
 
-      const templateData = { ...parseResult.data, createdBy: req.user.id };
+      const workspaceId = parseResult.data.workspaceId === null ? null : req.workspace.workspace.id;
+      const templateData = { ...parseResult.data, workspaceId, createdBy: req.user.id };
       const template = await storage.createPromptTemplate(templateData);
+      await recordAudit(req, {
+        action: 'prompt_template.create',
+        targetType: 'prompt_template',
+        targetId: template.id,
+        after: template,
+      });
       res.json(template);
     } catch (error) {
       console.error('Error creating prompt template:', error);
@@ -2936,7 +2524,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update prompt template (admin only)
-  app.put("/api/prompt-templates/:id", isAuthenticated, isAdmin, async (req: any, res) => {
+  app.put("/api/prompt-templates/:id", isAuthenticated, isAdmin, loadWorkspace, async (req: any, res) => {
     try {
       const { id } = req.params;
       
@@ -2947,12 +2535,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid prompt template update data", errors: parseResult.error.errors });
       }
       
-      const template = await storage.updatePromptTemplate(id, parseResult.data);
+      const previous = await storage.getPromptTemplate(id);
+      if (!previous || !templateInWorkspace(previous, req.workspace.workspace.id)) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const { workspaceId, ...updates } = parseResult.data; // Templates keep their workspace
+      const template = await storage.updatePromptTemplate(id, updates);
       
       if (!template) {
         return res.status(404).json({ message: "Template not found" });
       }
       
+      await recordAudit(req, {
+        action: 'prompt_template.update',
+        targetType: 'prompt_template',
+        targetId: id,
+        before: previous,
+        after: template,
+      });
       res.json(template);
     } catch (error) {
       console.error('Error updating prompt template:', error);
@@ -2963,15 +2564,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete prompt template (admin only)
-  app.delete("/api/prompt-templates/:id", isAuthenticated, isAdmin, async (req: any, res) => {
+  app.delete("/api/prompt-templates/:id", isAuthenticated, isAdmin, loadWorkspace, async (req: any, res) => {
     try {
       const { id } = req.params;
+      const previous = await storage.getPromptTemplate(id);
+      if (!previous || !templateInWorkspace(previous, req.workspace.workspace.id)) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
       const success = await storage.deletePromptTemplate(id);
       
       if (!success) {
         return res.status(404).json({ message: "Template not found" });
       }
       
+      await recordAudit(req, {
+        action: 'prompt_template.delete',
+        targetType: 'prompt_template',
+        targetId: id,
+        before: previous,
+      });
+
       res.json({ message: "Template deleted successfully" });
     } catch (error) {
       console.error('Error deleting prompt template:', error);
@@ -3033,6 +2646,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const functionData = { ...parseResult.data, createdBy: req.user.id };
       const func = await storage.createApplicationFunction(functionData);
+      await recordAudit(req, {
+        action: 'application_function.create',
+        targetType: 'application_function',
+        targetId: func.id,
+        after: func,
+      });
       res.json(func);
     } catch (error) {
       console.error('Error creating application function:', error);
@@ -3054,12 +2673,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid application function update data", errors: parseResult.error.errors });
       }
       
+      const previous = await storage.getApplicationFunction(id);
       const func = await storage.updateApplicationFunction(id, parseResult.data);
       
       if (!func) {
         return res.status(404).json({ message: "Application function not found" });
       }
       
+      await recordAudit(req, {
+        action: 'application_function.update',
+        targetType: 'application_function',
+        targetId: id,
+        before: previous,
+        after: func,
+      });
       res.json(func);
     } catch (error) {
       console.error('Error updating application function:', error);
@@ -3073,12 +2700,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/admin/application-functions/:id", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
       const { id } = req.params;
+      const previous = await storage.getApplicationFunction(id);
       const success = await storage.deleteApplicationFunction(id);
       
       if (!success) {
         return res.status(404).json({ message: "Application function not found" });
       }
       
+      await recordAudit(req, {
+        action: 'application_function.delete',
+        targetType: 'application_function',
+        targetId: id,
+        before: previous,
+      });
+
       res.json({ message: "Application function deleted successfully" });
     } catch (error) {
       console.error('Error deleting application function:', error);
@@ -3088,11 +2723,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get prompt templates by function (admin only)
-  app.get("/api/admin/application-functions/:id/templates", isAuthenticated, isAdmin, async (req: any, res) => {
+  // Get prompt templates by function (admin only), shared and the current workspace's
+  app.get("/api/admin/application-functions/:id/templates", isAuthenticated, isAdmin, loadWorkspace, async (req: any, res) => {
     try {
       const { id } = req.params;
-      const templates = await storage.getPromptTemplatesByFunction(id);
+      const templates = await storage.getPromptTemplatesByFunction(id, req.workspace.workspace.id);
       res.json(templates);
     } catch (error) {
       console.error('Error fetching templates by function:', error);
@@ -3106,6 +2741,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/enhance-template", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
       const { template } = req.body;
+      const userId = req.user?.claims?.sub || req.user?.id || 'default';
       
       if (!template) {
         return res.status(400).json({ message: "Template content is required" });
@@ -3118,8 +2754,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const config = await storage.getModelConfiguration(adminUser.id);
+      const apiKey = endpointApiKey(DEFAULT_PROVIDER_ENDPOINT, config?.apiKey || undefined);
       
-      if (!config || !config.apiKey) {
+      if (!apiKey) {
         return res.status(400).json({ message: "OpenRouter API key not configured" });
       }
 
@@ -3130,16 +2767,15 @@ Original prompt: ${template}
 
 Enhanced prompt:`;
 
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+      const enhancementModel = config?.enhancementModel || 'openai/gpt-4o-mini';
+      const response = await fetch(`${DEFAULT_PROVIDER_ENDPOINT.baseUrl}/chat/completions`, {
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${config.apiKey}`,
-          'Content-Type': 'application/json',
+        headers: endpointHeaders(DEFAULT_PROVIDER_ENDPOINT, apiKey, {
           'HTTP-Referer': process.env.REPLIT_DOMAINS || 'http://localhost:5000',
           'X-Title': 'AI Product Studio - Template Enhancement'
-        },
+        }),
         body: JSON.stringify({
-          model: config.enhancementModel || 'openai/gpt-4o-mini',
+          model: enhancementModel,
           messages: [
             {
               role: 'user',
@@ -3147,7 +2783,8 @@ Enhanced prompt:`;
             }
           ],
           max_tokens: 500,
-          temperature: 0.7
+          temperature: 0.7,
+          ...usageAccounting(DEFAULT_PROVIDER_ENDPOINT)
         })
       });
 
@@ -3158,6 +2795,11 @@ Enhanced prompt:`;
       const result = await response.json();
       const enhancedTemplate = result.choices[0]?.message?.content || template;
 
+      const usage = parseTokenUsage(result);
+      if (usage) {
+        await recordUsage({ userId, operation: 'enhance-template' }, enhancementModel, usage);
+      }
+
       res.json({ enhancedTemplate: enhancedTemplate.trim() });
     } catch (error) {
       console.error('Error enhancing template:', error);
@@ -3172,7 +2814,7 @@ Enhanced prompt:`;
     res.json({ 
       status: "healthy", 
       openRouterConfigured: !!process.env.OPENROUTER_API_KEY,
-      objectStorageConfigured: !!process.env.DEFAULT_OBJECT_STORAGE_BUCKET_ID,
+      storageDriver: objectStorageService.driver.id,
       timestamp: new Date().toISOString()
     });
   });
@@ -0,0 +1,252 @@
+import crypto from "crypto";
+import path from "path";
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import { comparePasswords, hashPassword, sessionSecret } from "./auth";
+import { objectStorageService } from "./processing";
+import { ObjectNotFoundError } from "./objectStorage";
+import { canAccessConversation, getWorkspaceAccess } from "./workspaces";
+import type {
+  CreateShareLinkRequest,
+  ShareLink,
+  ShareLinkStatus,
+  ShareLinkSummary,
+  User,
+} from "@shared/schema";
+
+export class ShareLinkError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "ShareLinkError";
+    Object.setPrototypeOf(this, ShareLinkError.prototype);
+  }
+}
+
+export function hashShareToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function shareLinkStatus(link: ShareLink, now = new Date()): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt <= now) return 'expired';
+  if (link.maxDownloads !== null && link.downloadCount >= link.maxDownloads) return 'exhausted';
+  return 'active';
+}
+
+export function toShareLinkSummary(link: ShareLink): ShareLinkSummary {
+  const { tokenHash, passwordHash, ...rest } = link;
+  return { ...rest, hasPassword: !!passwordHash, status: shareLinkStatus(link) };
+}
+
+// Stored objects and local uploads: the only media the server hands to people without
+// a session. Other URLs (provider URLs, anything a client typed in) are never fetched
+// on their behalf.
+export function isStoredMediaUrl(url: string): boolean {
+  return url.startsWith('/objects/') || url.startsWith('/uploads/');
+}
+
+// The file a saved image or job output points at, checked against what the user can
+// open themselves. Also resolves the sources of marketplace exports.
+export async function resolveShareSource(
+  user: User,
+  sourceType: CreateShareLinkRequest['sourceType'],
+  sourceId: string
+): Promise<{ objectUrl: string; title: string }> {
+  const source = await findShareSource(user, sourceType, sourceId);
+  if (!isStoredMediaUrl(source.objectUrl)) {
+    throw new ShareLinkError(400, 'Only stored images and videos can be shared');
+  }
+  // A saved image may point at any object, so the object's own ACL is checked too
+  if (source.objectUrl.startsWith('/objects/') && !(await objectStorageService.canAccessObjectPath(user.id, source.objectUrl))) {
+    throw new ShareLinkError(403, "You don't have access to this file");
+  }
+  return source;
+}
+
+async function findShareSource(
+  user: User,
+  sourceType: CreateShareLinkRequest['sourceType'],
+  sourceId: string
+): Promise<{ objectUrl: string; title: string }> {
+  if (sourceType === 'saved_image') {
+    const savedImage = await storage.getSavedImage(sourceId);
+    const canOpen = savedImage && (
+      savedImage.userId === user.id ||
+      (savedImage.workspaceId && await getWorkspaceAccess(user, savedImage.workspaceId))
+    );
+    if (!savedImage || !canOpen) {
+      throw new ShareLinkError(404, 'Image not found');
+    }
+    return { objectUrl: savedImage.objectPath, title: savedImage.title };
+  }
+
+  const message = await storage.getMessage(sourceId);
+  const conversation = message ? await storage.getConversation(message.conversationId) : undefined;
+  if (!message || !conversation || !(await canAccessConversation(user, conversation))) {
+    throw new ShareLinkError(404, 'Message not found');
+  }
+  const objectUrl = message.role === 'assistant' && message.processingStatus === 'completed'
+    ? message.videoUrl || message.imageUrl
+    : null;
+  if (!objectUrl) {
+    throw new ShareLinkError(400, 'Only completed images and videos can be shared');
+  }
+  return { objectUrl, title: `${conversation.title} (${message.videoUrl ? 'video' : 'image'})` };
+}
+
+// Creates a link and returns it with its token, which is not stored and cannot be
+// shown again
+export async function createShareLink(
+  user: User,
+  request: CreateShareLinkRequest
+): Promise<{ link: ShareLinkSummary; token: string }> {
+  const { objectUrl, title } = await resolveShareSource(user, request.sourceType, request.sourceId);
+  const token = crypto.randomBytes(24).toString('base64url');
+
+  const link = await storage.createShareLink({
+    tokenHash: hashShareToken(token),
+    createdBy: user.id,
+    sourceType: request.sourceType,
+    sourceId: request.sourceId,
+    title,
+    objectUrl,
+    passwordHash: request.password ? await hashPassword(request.password) : null,
+    expiresAt: new Date(Date.now() + request.expiresInHours * 60 * 60 * 1000),
+    maxDownloads: request.maxDownloads ?? null,
+  });
+  console.log(`[Share Links] ${user.username} shared ${request.sourceType} ${request.sourceId} until ${link.expiresAt.toISOString()}`);
+  return { link: toShareLinkSummary(link), token };
+}
+
+const STATUS_MESSAGES: Record<Exclude<ShareLinkStatus, 'active'>, string> = {
+  expired: 'This link has expired.',
+  revoked: 'This link has been revoked.',
+  exhausted: 'This link has reached its download limit.',
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// Minimal standalone page for people opening a link, who have no session or app bundle
+function sharePage(body: string): string {
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Shared file</title>
+<style>body{background:#0f0f0f;color:#e0e0e0;font-family:system-ui,sans-serif;display:flex;min-height:100vh;align-items:center;justify-content:center;margin:0}
+main{background:#1a1a1a;border:1px solid #2a2a2a;border-radius:12px;padding:24px;width:320px}
+input{width:100%;box-sizing:border-box;padding:8px;margin:12px 0;background:#0f0f0f;border:1px solid #2a2a2a;border-radius:6px;color:#fff}
+button{width:100%;padding:8px;background:#ffd700;border:0;border-radius:6px;font-weight:600;cursor:pointer}
+.error{color:#f87171;font-size:14px}</style></head>
+<body><main>${body}</main></body></html>`;
+}
+
+function passwordPage(title: string, error?: string): string {
+  return sharePage(`<h3>${escapeHtml(title)}</h3>
+<p>This file is password protected.</p>
+${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+<form method="post"><input type="password" name="password" placeholder="Password" autofocus required><button type="submit">Open</button></form>`);
+}
+
+// Streams a stored object or a local upload to someone without a session, so it is
+// never cached by shared caches. Stored objects can be fetched by range, so shared
+// videos can be seeked. Any other URL counts as not found.
+export async function streamObjectUrl(objectUrl: string, req: Request, res: Response): Promise<void> {
+  if (objectUrl.startsWith('/objects/')) {
+    const objectFile = await objectStorageService.getObjectEntityFile(objectUrl);
+    await objectStorageService.downloadObject(objectFile, req, res, 0, false);
+    return;
+  }
+
+  if (objectUrl.startsWith('/uploads/')) {
+    res.set('Cache-Control', 'private, no-store');
+    res.sendFile(path.join(process.cwd(), 'uploads', path.basename(objectUrl)));
+    return;
+  }
+
+  throw new ObjectNotFoundError();
+}
+
+const SHARE_ACCESS_COOKIE = 'share_access';
+const SHARE_ACCESS_TTL_MS = 15 * 60 * 1000;
+
+function signShareAccess(linkId: string, expires: number): string {
+  return crypto.createHmac('sha256', sessionSecret).update(`${linkId}.${expires}`).digest('base64url');
+}
+
+// Whether the request carries an unexpired access cookie for the link, set when an
+// open of it was counted
+function hasShareAccess(req: Request, link: ShareLink): boolean {
+  const cookie = (req.headers.cookie || '').split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${SHARE_ACCESS_COOKIE}=`));
+  const [expires, signature] = (cookie?.slice(SHARE_ACCESS_COOKIE.length + 1) || '').split('.');
+  if (!expires || !signature || Number(expires) <= Date.now()) return false;
+
+  const expected = Buffer.from(signShareAccess(link.id, Number(expires)));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+// Lets the viewer's browser make the range requests and revalidations that follow an
+// open (seeking a video, resuming a download) without a password or another count.
+// The cookie is scoped to the link's path and lasts at most until the link expires.
+function grantShareAccess(req: Request, res: Response, link: ShareLink): void {
+  const expires = Math.min(Date.now() + SHARE_ACCESS_TTL_MS, link.expiresAt.getTime());
+  res.cookie(SHARE_ACCESS_COOKIE, `${expires}.${signShareAccess(link.id, expires)}`, {
+    path: req.path,
+    expires: new Date(expires),
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: req.secure,
+  });
+}
+
+// GET and POST /s/:token. A password-protected link answers GET with a password form,
+// which posts back here. Each open counts as one download and is served in full; the
+// range and conditional requests that follow it carry the access cookie it set.
+export async function serveShareLink(req: Request, res: Response): Promise<void> {
+  const link = await storage.getShareLinkByTokenHash(hashShareToken(req.params.token || ''));
+  if (!link) {
+    res.status(404).send(sharePage('<p>This link does not exist.</p>'));
+    return;
+  }
+
+  // A viewer whose open used the last download may finish it
+  const hasAccess = hasShareAccess(req, link);
+  const status = shareLinkStatus(link);
+  if (status !== 'active' && !(hasAccess && status === 'exhausted')) {
+    res.status(410).send(sharePage(`<p>${STATUS_MESSAGES[status]}</p>`));
+    return;
+  }
+
+  if (hasAccess) {
+    await streamObjectUrl(link.objectUrl, req, res);
+    return;
+  }
+
+  if (link.passwordHash) {
+    const password = req.method === 'POST' ? req.body?.password : undefined;
+    if (typeof password !== 'string' || !password) {
+      res.status(401).send(passwordPage(link.title));
+      return;
+    }
+    if (!(await comparePasswords(password, link.passwordHash))) {
+      res.status(401).send(passwordPage(link.title, 'Wrong password.'));
+      return;
+    }
+  }
+
+  // An open is never a partial or not-modified response, so it cannot be counted
+  // without the viewer getting the whole file
+  for (const header of ['range', 'if-range', 'if-none-match', 'if-modified-since']) {
+    delete req.headers[header];
+  }
+  if (!(await storage.claimShareLinkDownload(link.id))) {
+    res.status(410).send(sharePage('<p>This link is no longer available.</p>'));
+    return;
+  }
+
+  grantShareAccess(req, res, link);
+  await streamObjectUrl(link.objectUrl, req, res);
+}
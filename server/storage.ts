@@ -9,8 +9,42 @@ import {
   type InsertVideoProcessingJob,
   type MultiImageProcessingJob,
   type InsertMultiImageProcessingJob,
+  type QueuedJob,
+  type InsertQueuedJob,
+  type JobAttempt,
+  type InsertJobAttempt,
   type ModelConfiguration,
   type InsertModelConfiguration,
+  type GenerationCacheEntry,
+  type UsageLedgerEntry,
+  type InsertUsageLedgerEntry,
+  type UsageGroupBy,
+  type UsageSummaryRow,
+  type UsageAnalytics,
+  type UsageJobType,
+  type QuotaLimit,
+  type BillingPlan,
+  type InsertBillingPlan,
+  type BillingAccount,
+  type CreditLedgerEntry,
+  type InsertCreditLedgerEntry,
+  type Invoice,
+  type InsertInvoice,
+  type QuotaLimits,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
+  type AuditLogQuery,
+  type ObjectAclPolicyRow,
+  type UserList,
+  type UserListWithMembers,
+  type ShareLink,
+  type InsertShareLink,
+  type ConversationShare,
+  type MarketplaceExport,
+  type BrandKit,
+  type ModelCapability,
+  type InsertModelCapability,
+  type ModelCapabilityOverrides,
   type ConversationWithMessages,
   type MessageWithJob,
   type SavedImage,
@@ -21,30 +55,76 @@ import {
   type InsertApplicationFunction,
   type User,
   type UpsertUser,
+  type Organization,
+  type InsertOrganization,
+  type Workspace,
+  type InsertWorkspace,
+  type WorkspaceMember,
+  type InsertWorkspaceMember,
+  type WorkspaceMemberWithUser,
   conversations,
   messages,
   imageProcessingJobs,
   videoProcessingJobs,
   multiImageProcessingJobs,
+  jobQueue,
+  jobAttempts,
   modelConfigurations,
+  modelCapabilities,
+  generationCache,
+  usageLedger,
+  quotaLimits,
+  billingPlans,
+  billingAccounts,
+  creditLedger,
+  invoices,
+  auditLog,
+  objectAclPolicies,
+  userLists,
+  userListMembers,
+  shareLinks,
+  conversationShares,
+  marketplaceExports,
+  brandKits,
   savedImages,
   promptTemplates,
   applicationFunctions,
-  users
+  users,
+  organizations,
+  workspaces,
+  workspaceMembers
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql, inArray } from "drizzle-orm";
+import { eq, desc, and, or, sql, inArray, isNull, lt, lte, gte, type SQL } from "drizzle-orm";
 
 export interface IStorage {
   // User operations for authentication
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByRole(role: string): Promise<User | undefined>;
+  getUsersByUsernames(usernames: string[]): Promise<User[]>;
   createUser(user: Omit<UpsertUser, 'id'>): Promise<User>;
   upsertUser(user: UpsertUser): Promise<User>;
+  setCurrentWorkspace(userId: string, workspaceId: string): Promise<void>;
+  setUserEmailVerified(userId: string, verified: boolean): Promise<User | undefined>;
+
+  // Organizations and Workspaces
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  getOrganization(id: string): Promise<Organization | undefined>;
+  getOwnedOrganizations(userId: string): Promise<Organization[]>;
+  createWorkspace(workspace: InsertWorkspace): Promise<Workspace>;
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  getWorkspaces(): Promise<Workspace[]>;
+  getUserWorkspaceMemberships(userId: string): Promise<{ workspace: Workspace; role: string }[]>;
+  getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined>;
+  getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberWithUser[]>;
+  upsertWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember>;
+  removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean>;
+  assignUnscopedDataToWorkspace(userId: string, workspaceId: string): Promise<void>;
 
   // Conversations
   getConversations(userId?: string): Promise<Conversation[]>;
+  getWorkspaceConversations(workspaceId: string): Promise<Conversation[]>;
   getConversation(id: string): Promise<Conversation | undefined>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   deleteConversation(id: string): Promise<boolean>;
@@ -73,10 +153,120 @@ export interface IStorage {
   createMultiImageProcessingJob(job: InsertMultiImageProcessingJob): Promise<MultiImageProcessingJob>;
   updateMultiImageProcessingJob(id: string, updates: Partial<MultiImageProcessingJob>): Promise<MultiImageProcessingJob | undefined>;
 
+  // Job Queue
+  enqueueJob(job: InsertQueuedJob): Promise<QueuedJob>;
+  leaseNextQueuedJob(workerId: string, leaseMs: number): Promise<QueuedJob | undefined>;
+  renewJobLease(id: string, workerId: string, leaseMs: number): Promise<QueuedJob | undefined>;
+  completeQueuedJob(id: string): Promise<QueuedJob | undefined>;
+  failQueuedJob(id: string, errorMessage: string): Promise<void>;
+  getExpiredJobLeases(): Promise<QueuedJob[]>;
+  requeueExpiredJob(id: string): Promise<QueuedJob | undefined>;
+  getLatestQueuedJobByMessage(messageId: string): Promise<QueuedJob | undefined>;
+  cancelQueuedJob(id: string): Promise<QueuedJob | undefined>;
+  claimQueuedJobRetry(id: string, statuses: string[]): Promise<QueuedJob | undefined>;
+
+  // Job Attempts (failover history)
+  createJobAttempt(attempt: InsertJobAttempt): Promise<JobAttempt>;
+  getJobAttempts(jobId: string): Promise<JobAttempt[]>;
+  failOrphanedProcessingJobs(olderThan: Date, errorMessage: string): Promise<number>;
+
   // Model Configuration
   getModelConfiguration(userId?: string): Promise<ModelConfiguration | undefined>;
   createOrUpdateModelConfiguration(config: InsertModelConfiguration): Promise<ModelConfiguration>;
   getGlobalDefaultConfiguration(): Promise<ModelConfiguration | undefined>;
+  getWorkspaceModelConfiguration(workspaceId: string): Promise<ModelConfiguration | undefined>;
+
+  // Generation Cache
+  getGenerationCacheEntry(cacheKey: string): Promise<GenerationCacheEntry | undefined>;
+  claimGenerationCacheEntry(cacheKey: string, jobType: string, jobId: string): Promise<boolean>;
+  takeOverGenerationCacheEntry(cacheKey: string, fromJobId: string | null, jobId: string): Promise<boolean>;
+  completeGenerationCacheEntry(cacheKey: string, jobType: string, jobId: string, output: { outputUrl: string; enhancementsApplied: string[]; modelUsed: string }): Promise<void>;
+  releaseGenerationCacheEntry(cacheKey: string, jobId: string): Promise<void>;
+  recordGenerationCacheHit(cacheKey: string): Promise<void>;
+
+  // Usage Ledger
+  createUsageLedgerEntry(entry: InsertUsageLedgerEntry): Promise<UsageLedgerEntry>;
+  getUsageSummary(groupBy: UsageGroupBy, filters?: { userId?: string; from?: Date; to?: Date }): Promise<UsageSummaryRow[]>;
+  getJobStatistics(userId: string, from: Date): Promise<{
+    perDay: { date: string; jobType: UsageJobType; jobs: number }[];
+    jobTypes: UsageAnalytics['jobTypes'];
+    topTemplates: UsageAnalytics['topTemplates'];
+  }>;
+
+  // Quotas
+  getQuotaLimits(): Promise<QuotaLimit[]>;
+  getQuotaLimit(scope: 'role' | 'user', subject: string): Promise<QuotaLimit | undefined>;
+  upsertQuotaLimit(scope: 'role' | 'user', subject: string, limits: QuotaLimits): Promise<QuotaLimit>;
+  deleteQuotaLimit(scope: 'role' | 'user', subject: string): Promise<boolean>;
+  countUserJobsSince(userId: string, since: Date): Promise<number>;
+  countActiveUserJobs(userId: string): Promise<number>;
+  withUserJobLock<T>(userId: string, fn: () => Promise<T>): Promise<T>;
+
+  // Billing
+  getBillingPlans(): Promise<BillingPlan[]>;
+  getBillingPlan(planKey: string): Promise<BillingPlan | undefined>;
+  createBillingPlans(plans: InsertBillingPlan[]): Promise<void>;
+  getOrCreateBillingAccount(userId: string): Promise<BillingAccount>;
+  startBillingPeriod(userId: string, previousStart: Date | null, periodStart: Date, planKey?: string): Promise<boolean>;
+  createCreditLedgerEntry(entry: InsertCreditLedgerEntry): Promise<CreditLedgerEntry>;
+  getCreditBalance(userId: string): Promise<string>;
+  getCreditLedger(userId: string, limit?: number): Promise<CreditLedgerEntry[]>;
+  createInvoice(invoice: InsertInvoice): Promise<Invoice>;
+  getInvoice(id: string): Promise<Invoice | undefined>;
+  getInvoiceByReference(provider: string, providerReference: string): Promise<Invoice | undefined>;
+  getUserInvoices(userId: string): Promise<Invoice[]>;
+  updateInvoice(id: string, updates: Partial<Invoice>): Promise<Invoice | undefined>;
+  settlePendingInvoice(id: string, status: 'paid' | 'failed'): Promise<Invoice | undefined>;
+
+  // Audit Log (append-only)
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  getAuditLog(filters: Omit<AuditLogQuery, 'limit' | 'offset'>, limit: number, offset?: number): Promise<{ entries: AuditLogEntry[]; total: number }>;
+
+  // Object ACL policies and user lists
+  getObjectAclPolicy(objectKey: string): Promise<ObjectAclPolicyRow | undefined>;
+  upsertObjectAclPolicy(policy: Omit<ObjectAclPolicyRow, 'updatedAt'>): Promise<ObjectAclPolicyRow>;
+  createObjectAclPolicy(policy: Omit<ObjectAclPolicyRow, 'updatedAt'>): Promise<boolean>;
+  deleteObjectAclPolicy(objectKey: string): Promise<boolean>;
+  getReferencedUploadIds(): Promise<Set<string>>;
+  getConversationsByJobOutput(objectPath: string): Promise<Conversation[]>;
+  backfillObjectAclPolicies(privateKeyPrefix: string): Promise<number>;
+  createUserList(ownerId: string, name: string): Promise<UserList>;
+  getUserList(id: string): Promise<UserList | undefined>;
+  getUserLists(ownerId: string): Promise<UserListWithMembers[]>;
+  updateUserList(id: string, name: string): Promise<UserList | undefined>;
+  deleteUserList(id: string): Promise<boolean>;
+  setUserListMembers(listId: string, userIds: string[]): Promise<void>;
+  isUserListMember(listId: string, userId: string): Promise<boolean>;
+
+  // Share Links
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  getShareLinkByTokenHash(tokenHash: string): Promise<ShareLink | undefined>;
+  getUserShareLinks(userId: string): Promise<ShareLink[]>;
+  revokeShareLink(id: string, userId: string): Promise<ShareLink | undefined>;
+  claimShareLinkDownload(id: string): Promise<boolean>;
+
+  // Published Conversations
+  getConversationShare(conversationId: string): Promise<ConversationShare | undefined>;
+  getConversationShareByToken(token: string): Promise<ConversationShare | undefined>;
+  upsertConversationShare(share: Omit<ConversationShare, 'id' | 'createdAt' | 'updatedAt'>): Promise<ConversationShare>;
+  deleteConversationShare(conversationId: string): Promise<boolean>;
+
+  // Marketplace Exports
+  createMarketplaceExport(entry: Omit<MarketplaceExport, 'id' | 'createdAt'>): Promise<MarketplaceExport>;
+  getMarketplaceExports(userId: string, sourceType: string, sourceId: string): Promise<MarketplaceExport[]>;
+
+  // Brand Kits
+  getBrandKit(id: string): Promise<BrandKit | undefined>;
+  getWorkspaceBrandKits(workspaceId: string): Promise<BrandKit[]>;
+  createBrandKit(kit: Omit<BrandKit, 'id' | 'createdAt' | 'updatedAt'>): Promise<BrandKit>;
+  updateBrandKit(id: string, updates: Partial<Omit<BrandKit, 'id' | 'workspaceId' | 'createdBy' | 'createdAt'>>): Promise<BrandKit | undefined>;
+  deleteBrandKit(id: string): Promise<boolean>;
+
+  // Model Capabilities
+  getModelCapability(modelId: string): Promise<ModelCapability | undefined>;
+  getModelCapabilities(): Promise<ModelCapability[]>;
+  upsertModelCapabilities(capabilities: InsertModelCapability[]): Promise<number>;
+  setModelCapabilityOverrides(modelId: string, overrides: ModelCapabilityOverrides): Promise<ModelCapability | undefined>;
 
   // User Context Functions - 用户上下文功能
   getConversationWithMessages(conversationId: string): Promise<ConversationWithMessages | undefined>;
@@ -88,7 +278,9 @@ export interface IStorage {
   createSavedImage(savedImage: InsertSavedImage): Promise<SavedImage>;
   getSavedImage(id: string): Promise<SavedImage | undefined>;
   getUserSavedImages(userId: string, options?: { page?: number; limit?: number; tags?: string[] }): Promise<SavedImage[]>;
+  getWorkspaceSavedImages(workspaceId: string, options?: { page?: number; limit?: number; tags?: string[] }): Promise<SavedImage[]>;
   deleteSavedImage(id: string, userId: string): Promise<boolean>;
+  deleteWorkspaceSavedImage(id: string, workspaceId: string): Promise<boolean>;
 
   // Application Function Operations (Admin Only)
   getApplicationFunctions(): Promise<ApplicationFunction[]>;
@@ -99,8 +291,9 @@ export interface IStorage {
   deleteApplicationFunction(id: string): Promise<boolean>;
 
   // Prompt Template Functions (Admin Only)
-  getPromptTemplates(): Promise<PromptTemplate[]>;
-  getPromptTemplatesByFunction(functionId: string): Promise<PromptTemplate[]>;
+  getPromptTemplates(workspaceId?: string | null): Promise<PromptTemplate[]>;
+  getPromptTemplatesByFunction(functionId: string, workspaceId?: string | null): Promise<PromptTemplate[]>;
+  getEnabledPromptTemplates(workspaceId?: string | null): Promise<PromptTemplate[]>;
   getPromptTemplate(id: string): Promise<PromptTemplate | undefined>;
   createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate>;
   updatePromptTemplate(id: string, updates: Partial<PromptTemplate>): Promise<PromptTemplate | undefined>;
@@ -126,6 +319,11 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUsersByUsernames(usernames: string[]): Promise<User[]> {
+    if (usernames.length === 0) return [];
+    return await db.select().from(users).where(inArray(users.username, usernames));
+  }
+
   async createUser(userData: Omit<UpsertUser, 'id'>): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -134,6 +332,16 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Marks the user's current email address verified, or clears the verification
+  async setUserEmailVerified(userId: string, verified: boolean): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ verifiedEmail: verified ? users.email : null, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -149,6 +357,108 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async setCurrentWorkspace(userId: string, workspaceId: string): Promise<void> {
+    await db.update(users).set({ currentWorkspaceId: workspaceId }).where(eq(users.id, userId));
+  }
+
+  // Organizations and Workspaces
+  async createOrganization(organization: InsertOrganization): Promise<Organization> {
+    const [created] = await db.insert(organizations).values(organization).returning();
+    return created;
+  }
+
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async getOwnedOrganizations(userId: string): Promise<Organization[]> {
+    return await db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.ownerId, userId))
+      .orderBy(organizations.createdAt);
+  }
+
+  async createWorkspace(workspace: InsertWorkspace): Promise<Workspace> {
+    const [created] = await db.insert(workspaces).values(workspace).returning();
+    return created;
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace;
+  }
+
+  async getWorkspaces(): Promise<Workspace[]> {
+    return await db.select().from(workspaces).orderBy(workspaces.createdAt);
+  }
+
+  async getUserWorkspaceMemberships(userId: string): Promise<{ workspace: Workspace; role: string }[]> {
+    return await db
+      .select({ workspace: workspaces, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(workspaces.createdAt);
+  }
+
+  async getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member;
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberWithUser[]> {
+    const rows = await db
+      .select({
+        member: workspaceMembers,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(users.id, workspaceMembers.userId))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(workspaceMembers.createdAt);
+    return rows.map(({ member, ...user }) => ({ ...member, ...user }));
+  }
+
+  // Adds a member or changes the role of an existing one
+  async upsertWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const [saved] = await db
+      .insert(workspaceMembers)
+      .values(member)
+      .onConflictDoUpdate({
+        target: [workspaceMembers.workspaceId, workspaceMembers.userId],
+        set: { role: member.role },
+      })
+      .returning();
+    return saved;
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  // Moves the user's conversations and saved images from before workspaces existed into
+  // their personal workspace
+  async assignUnscopedDataToWorkspace(userId: string, workspaceId: string): Promise<void> {
+    await db
+      .update(conversations)
+      .set({ workspaceId })
+      .where(and(eq(conversations.userId, userId), isNull(conversations.workspaceId)));
+    await db
+      .update(savedImages)
+      .set({ workspaceId })
+      .where(and(eq(savedImages.userId, userId), isNull(savedImages.workspaceId)));
+  }
+
   // Conversations
   async getConversations(userId?: string): Promise<Conversation[]> {
     if (userId) {
@@ -161,6 +471,14 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(conversations).orderBy(desc(conversations.createdAt));
   }
 
+  async getWorkspaceConversations(workspaceId: string): Promise<Conversation[]> {
+    return await db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.workspaceId, workspaceId))
+      .orderBy(desc(conversations.createdAt));
+  }
+
   async getConversation(id: string): Promise<Conversation | undefined> {
     const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id));
     return conversation;
@@ -361,12 +679,242 @@ export class DatabaseStorage implements IStorage {
     return job;
   }
 
+  // Job Queue
+  async enqueueJob(insertJob: InsertQueuedJob): Promise<QueuedJob> {
+    const [job] = await db
+      .insert(jobQueue)
+      .values(insertJob)
+      .returning();
+    return job;
+  }
+
+  // Atomically claims the oldest runnable job. SKIP LOCKED lets several worker
+  // loops (and worker processes) poll the same table without double-leasing.
+  async leaseNextQueuedJob(workerId: string, leaseMs: number): Promise<QueuedJob | undefined> {
+    return await db.transaction(async (tx) => {
+      const [next] = await tx
+        .select()
+        .from(jobQueue)
+        .where(and(eq(jobQueue.status, 'queued'), lte(jobQueue.runAfter, sql`now()`)))
+        .orderBy(jobQueue.runAfter, jobQueue.createdAt)
+        .limit(1)
+        .for('update', { skipLocked: true });
+
+      if (!next) return undefined;
+
+      const [leased] = await tx
+        .update(jobQueue)
+        .set({
+          status: 'running',
+          leaseOwner: workerId,
+          leaseExpiresAt: sql`now() + (${leaseMs} * interval '1 millisecond')`,
+          attempts: sql`${jobQueue.attempts} + 1`,
+          updatedAt: new Date()
+        })
+        .where(eq(jobQueue.id, next.id))
+        .returning();
+      return leased;
+    });
+  }
+
+  async renewJobLease(id: string, workerId: string, leaseMs: number): Promise<QueuedJob | undefined> {
+    const [job] = await db
+      .update(jobQueue)
+      .set({
+        leaseExpiresAt: sql`now() + (${leaseMs} * interval '1 millisecond')`,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(jobQueue.id, id),
+        eq(jobQueue.leaseOwner, workerId),
+        eq(jobQueue.status, 'running')
+      ))
+      .returning();
+    return job;
+  }
+
+  async completeQueuedJob(id: string): Promise<QueuedJob | undefined> {
+    const [job] = await db
+      .update(jobQueue)
+      .set({
+        status: 'completed',
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        updatedAt: new Date(),
+        completedAt: new Date()
+      })
+      // A job cancelled while running keeps its 'cancelled' status
+      .where(and(eq(jobQueue.id, id), eq(jobQueue.status, 'running')))
+      .returning();
+    return job;
+  }
+
+  async failQueuedJob(id: string, errorMessage: string): Promise<void> {
+    await db
+      .update(jobQueue)
+      .set({
+        status: 'failed',
+        lastError: errorMessage,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        updatedAt: new Date(),
+        completedAt: new Date()
+      })
+      .where(and(eq(jobQueue.id, id), eq(jobQueue.status, 'running')));
+  }
+
+  async getExpiredJobLeases(): Promise<QueuedJob[]> {
+    return await db
+      .select()
+      .from(jobQueue)
+      .where(and(eq(jobQueue.status, 'running'), lt(jobQueue.leaseExpiresAt, sql`now()`)));
+  }
+
+  async requeueExpiredJob(id: string): Promise<QueuedJob | undefined> {
+    // Guarded on the lease still being expired so a worker that renewed in the
+    // meantime keeps its job
+    const [job] = await db
+      .update(jobQueue)
+      .set({
+        status: 'queued',
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        runAfter: new Date(),
+        lastError: 'Worker lease expired before the job finished',
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(jobQueue.id, id),
+        eq(jobQueue.status, 'running'),
+        lt(jobQueue.leaseExpiresAt, sql`now()`)
+      ))
+      .returning();
+    return job;
+  }
+
+  // Each retry adds a new queue entry, so the newest one reflects the job's current state
+  async getLatestQueuedJobByMessage(messageId: string): Promise<QueuedJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(jobQueue)
+      .where(eq(jobQueue.messageId, messageId))
+      .orderBy(desc(jobQueue.createdAt))
+      .limit(1);
+    return job;
+  }
+
+  // Only queued or running jobs can be cancelled; returns undefined if it already finished
+  async cancelQueuedJob(id: string): Promise<QueuedJob | undefined> {
+    const [job] = await db
+      .update(jobQueue)
+      .set({
+        status: 'cancelled',
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        updatedAt: new Date(),
+        completedAt: new Date()
+      })
+      .where(and(
+        eq(jobQueue.id, id),
+        inArray(jobQueue.status, ['queued', 'running'])
+      ))
+      .returning();
+    return job;
+  }
+
+  // Marks an entry as superseded by a retry. Conditional on its status, so of two
+  // concurrent retries only one gets the entry back.
+  async claimQueuedJobRetry(id: string, statuses: string[]): Promise<QueuedJob | undefined> {
+    const [job] = await db
+      .update(jobQueue)
+      .set({ status: 'retried', updatedAt: new Date() })
+      .where(and(eq(jobQueue.id, id), inArray(jobQueue.status, statuses)))
+      .returning();
+    return job;
+  }
+
+  async createJobAttempt(insertAttempt: InsertJobAttempt): Promise<JobAttempt> {
+    const [attempt] = await db
+      .insert(jobAttempts)
+      .values(insertAttempt)
+      .returning();
+    return attempt;
+  }
+
+  async getJobAttempts(jobId: string): Promise<JobAttempt[]> {
+    return await db
+      .select()
+      .from(jobAttempts)
+      .where(eq(jobAttempts.jobId, jobId))
+      .orderBy(jobAttempts.createdAt);
+  }
+
+  // Marks in-flight job rows that never made it into the queue (e.g. created before
+  // the queue existed) as failed, together with their placeholder messages.
+  async failOrphanedProcessingJobs(olderThan: Date, errorMessage: string): Promise<number> {
+    const inFlightStatuses = ['pending', 'processing', 'analyzing', 'generating'];
+    const notQueued = (jobIdColumn: any) =>
+      sql`not exists (select 1 from ${jobQueue} where ${jobQueue.jobId} = ${jobIdColumn})`;
+
+    const imageJobs = await db
+      .update(imageProcessingJobs)
+      .set({ status: 'error', errorMessage, completedAt: new Date() })
+      .where(and(
+        inArray(imageProcessingJobs.status, inFlightStatuses),
+        lt(imageProcessingJobs.createdAt, olderThan),
+        notQueued(imageProcessingJobs.id)
+      ))
+      .returning({ messageId: imageProcessingJobs.messageId });
+
+    const videoJobs = await db
+      .update(videoProcessingJobs)
+      .set({ status: 'error', errorMessage, completedAt: new Date() })
+      .where(and(
+        inArray(videoProcessingJobs.status, inFlightStatuses),
+        lt(videoProcessingJobs.createdAt, olderThan),
+        notQueued(videoProcessingJobs.id)
+      ))
+      .returning({ messageId: videoProcessingJobs.messageId });
+
+    const multiImageJobs = await db
+      .update(multiImageProcessingJobs)
+      .set({ status: 'error', errorMessage, completedAt: new Date() })
+      .where(and(
+        inArray(multiImageProcessingJobs.status, inFlightStatuses),
+        lt(multiImageProcessingJobs.createdAt, olderThan),
+        notQueued(multiImageProcessingJobs.id)
+      ))
+      .returning({ messageId: multiImageProcessingJobs.messageId });
+
+    const messageIds = [...imageJobs, ...videoJobs, ...multiImageJobs].map(job => job.messageId);
+    if (messageIds.length > 0) {
+      await db
+        .update(messages)
+        .set({
+          content: `Sorry, processing was interrupted: ${errorMessage}`,
+          processingStatus: 'error'
+        })
+        .where(and(inArray(messages.id, messageIds), eq(messages.processingStatus, 'processing')));
+    }
+
+    return messageIds.length;
+  }
+
   // Model Configuration
+  // The user's configuration from before workspaces; see getWorkspaceModelConfiguration
   async getModelConfiguration(userId: string = "default"): Promise<ModelConfiguration | undefined> {
     const [config] = await db
       .select()
       .from(modelConfigurations)
-      .where(eq(modelConfigurations.userId, userId));
+      .where(and(eq(modelConfigurations.userId, userId), isNull(modelConfigurations.workspaceId)));
+    return config;
+  }
+
+  async getWorkspaceModelConfiguration(workspaceId: string): Promise<ModelConfiguration | undefined> {
+    const [config] = await db
+      .select()
+      .from(modelConfigurations)
+      .where(eq(modelConfigurations.workspaceId, workspaceId));
     return config;
   }
 
@@ -377,16 +925,19 @@ export class DatabaseStorage implements IStorage {
       // Properly structure the data for insertion
       const configData = {
         userId,
+        workspaceId: insertConfig.workspaceId || null,
         selectedModel: insertConfig.selectedModel,
         outputQuality: insertConfig.outputQuality,
         maxResolution: insertConfig.maxResolution,
         timeout: insertConfig.timeout,
         apiKey: insertConfig.apiKey,
+        openaiApiKey: insertConfig.openaiApiKey,
         apiKeyConfigured: insertConfig.apiKeyConfigured,
         // Ensure modelPriorities is properly typed as an array
         modelPriorities: (Array.isArray(insertConfig.modelPriorities) 
           ? insertConfig.modelPriorities 
-          : []) as { model: string; priority: number; enabled: boolean; }[],
+          : []) as { model: string; priority: number; enabled: boolean; provider?: string; endpoint?: string; }[],
+        providerEndpoints: insertConfig.providerEndpoints,
         updatedAt: new Date()
       };
 
@@ -395,15 +946,21 @@ export class DatabaseStorage implements IStorage {
         .insert(modelConfigurations)
         .values([configData])
         .onConflictDoUpdate({
-          target: modelConfigurations.userId,
+          // One row per workspace, or per user for rows without a workspace
+          ...(configData.workspaceId
+            ? { target: modelConfigurations.workspaceId }
+            : { target: modelConfigurations.userId, targetWhere: isNull(modelConfigurations.workspaceId) }),
           set: {
+            userId,
             selectedModel: configData.selectedModel,
             outputQuality: configData.outputQuality,
             maxResolution: configData.maxResolution,
             timeout: configData.timeout,
             apiKey: configData.apiKey,
+            openaiApiKey: configData.openaiApiKey,
             apiKeyConfigured: configData.apiKeyConfigured,
             modelPriorities: configData.modelPriorities,
+            providerEndpoints: configData.providerEndpoints,
             updatedAt: new Date()
           }
         })
@@ -416,6 +973,699 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getGenerationCacheEntry(cacheKey: string): Promise<GenerationCacheEntry | undefined> {
+    const [entry] = await db.select().from(generationCache).where(eq(generationCache.cacheKey, cacheKey));
+    return entry;
+  }
+
+  // Marks a generation as in flight; false when another job already holds the key
+  async claimGenerationCacheEntry(cacheKey: string, jobType: string, jobId: string): Promise<boolean> {
+    const claimed = await db
+      .insert(generationCache)
+      .values({ cacheKey, jobType, status: 'pending', ownerJobId: jobId })
+      .onConflictDoNothing()
+      .returning({ cacheKey: generationCache.cacheKey });
+    return claimed.length > 0;
+  }
+
+  // Takes over a pending generation whose owner stopped; guarded on the previous owner
+  async takeOverGenerationCacheEntry(cacheKey: string, fromJobId: string | null, jobId: string): Promise<boolean> {
+    const ownerCondition = fromJobId === null
+      ? sql`${generationCache.ownerJobId} is null`
+      : eq(generationCache.ownerJobId, fromJobId);
+    const updated = await db
+      .update(generationCache)
+      .set({ ownerJobId: jobId, updatedAt: new Date() })
+      .where(and(
+        eq(generationCache.cacheKey, cacheKey),
+        eq(generationCache.status, 'pending'),
+        ownerCondition
+      ))
+      .returning({ cacheKey: generationCache.cacheKey });
+    return updated.length > 0;
+  }
+
+  // Stores the output, also replacing a previous one when regenerating
+  async completeGenerationCacheEntry(
+    cacheKey: string,
+    jobType: string,
+    jobId: string,
+    output: { outputUrl: string; enhancementsApplied: string[]; modelUsed: string }
+  ): Promise<void> {
+    const values = { status: 'ready', ownerJobId: jobId, ...output, updatedAt: new Date() };
+    await db
+      .insert(generationCache)
+      .values({ cacheKey, jobType, ...values })
+      .onConflictDoUpdate({ target: generationCache.cacheKey, set: values });
+  }
+
+  // Drops an in-flight marker after a failed generation so a later job can try again
+  async releaseGenerationCacheEntry(cacheKey: string, jobId: string): Promise<void> {
+    await db
+      .delete(generationCache)
+      .where(and(
+        eq(generationCache.cacheKey, cacheKey),
+        eq(generationCache.status, 'pending'),
+        eq(generationCache.ownerJobId, jobId)
+      ));
+  }
+
+  async recordGenerationCacheHit(cacheKey: string): Promise<void> {
+    await db
+      .update(generationCache)
+      .set({ hitCount: sql`${generationCache.hitCount} + 1`, lastHitAt: new Date() })
+      .where(eq(generationCache.cacheKey, cacheKey));
+  }
+
+  async createUsageLedgerEntry(insertEntry: InsertUsageLedgerEntry): Promise<UsageLedgerEntry> {
+    const [entry] = await db
+      .insert(usageLedger)
+      .values(insertEntry)
+      .returning();
+    return entry;
+  }
+
+  // Totals per day (UTC), user, model or application function; `to` is exclusive
+  async getUsageSummary(
+    groupBy: UsageGroupBy,
+    filters: { userId?: string; from?: Date; to?: Date } = {}
+  ): Promise<UsageSummaryRow[]> {
+    const groupExpressions: Record<UsageGroupBy, SQL<string | null>> = {
+      day: sql<string>`to_char(date_trunc('day', ${usageLedger.createdAt}), 'YYYY-MM-DD')`,
+      user: sql<string | null>`${usageLedger.userId}`,
+      model: sql<string>`${usageLedger.model}`,
+      function: sql<string | null>`${usageLedger.functionKey}`,
+    };
+    const key = groupExpressions[groupBy];
+
+    const conditions: SQL[] = [];
+    if (filters.userId) conditions.push(eq(usageLedger.userId, filters.userId));
+    if (filters.from) conditions.push(gte(usageLedger.createdAt, filters.from));
+    if (filters.to) conditions.push(lt(usageLedger.createdAt, filters.to));
+
+    return await db
+      .select({
+        key,
+        requests: sql<number>`count(*)::int`,
+        promptTokens: sql<number>`coalesce(sum(${usageLedger.promptTokens}), 0)::int`,
+        completionTokens: sql<number>`coalesce(sum(${usageLedger.completionTokens}), 0)::int`,
+        totalTokens: sql<number>`coalesce(sum(${usageLedger.totalTokens}), 0)::int`,
+        cost: sql<string>`coalesce(sum(${usageLedger.cost}), 0)::text`,
+        unpricedRequests: sql<number>`(count(*) filter (where ${usageLedger.cost} is null))::int`,
+      })
+      .from(usageLedger)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(key)
+      .orderBy(groupBy === 'day' ? key : sql`sum(${usageLedger.cost}) desc nulls last`);
+  }
+
+  async getQuotaLimits(): Promise<QuotaLimit[]> {
+    return await db.select().from(quotaLimits).orderBy(quotaLimits.scope, quotaLimits.subject);
+  }
+
+  async getQuotaLimit(scope: 'role' | 'user', subject: string): Promise<QuotaLimit | undefined> {
+    const [limit] = await db
+      .select()
+      .from(quotaLimits)
+      .where(and(eq(quotaLimits.scope, scope), eq(quotaLimits.subject, subject)));
+    return limit;
+  }
+
+  async upsertQuotaLimit(scope: 'role' | 'user', subject: string, limits: QuotaLimits): Promise<QuotaLimit> {
+    const values = {
+      dailyJobs: limits.dailyJobs,
+      concurrentJobs: limits.concurrentJobs,
+      monthlySpend: limits.monthlySpend === null ? null : String(limits.monthlySpend),
+      updatedAt: new Date()
+    };
+    const [limit] = await db
+      .insert(quotaLimits)
+      .values({ scope, subject, ...values })
+      .onConflictDoUpdate({ target: [quotaLimits.scope, quotaLimits.subject], set: values })
+      .returning();
+    return limit;
+  }
+
+  async deleteQuotaLimit(scope: 'role' | 'user', subject: string): Promise<boolean> {
+    const deleted = await db
+      .delete(quotaLimits)
+      .where(and(eq(quotaLimits.scope, scope), eq(quotaLimits.subject, subject)))
+      .returning({ id: quotaLimits.id });
+    return deleted.length > 0;
+  }
+
+  async getBillingPlans(): Promise<BillingPlan[]> {
+    return await db.select().from(billingPlans).orderBy(billingPlans.sortOrder, billingPlans.priceCents);
+  }
+
+  async getBillingPlan(planKey: string): Promise<BillingPlan | undefined> {
+    const [plan] = await db.select().from(billingPlans).where(eq(billingPlans.planKey, planKey));
+    return plan;
+  }
+
+  async createBillingPlans(plans: InsertBillingPlan[]): Promise<void> {
+    if (plans.length === 0) return;
+    await db.insert(billingPlans).values(plans).onConflictDoNothing();
+  }
+
+  async getOrCreateBillingAccount(userId: string): Promise<BillingAccount> {
+    await db.insert(billingAccounts).values({ userId }).onConflictDoNothing();
+    const [account] = await db.select().from(billingAccounts).where(eq(billingAccounts.userId, userId));
+    return account;
+  }
+
+  // Moves the account to a new period, guarded on the previous period start so only
+  // one concurrent request grants the period's credits
+  async startBillingPeriod(userId: string, previousStart: Date | null, periodStart: Date, planKey?: string): Promise<boolean> {
+    const previousCondition = previousStart === null
+      ? sql`${billingAccounts.periodStart} is null`
+      : eq(billingAccounts.periodStart, previousStart);
+    const updated = await db
+      .update(billingAccounts)
+      .set({ periodStart, ...(planKey ? { planKey } : {}), updatedAt: new Date() })
+      .where(and(eq(billingAccounts.userId, userId), previousCondition))
+      .returning({ userId: billingAccounts.userId });
+    return updated.length > 0;
+  }
+
+  async createCreditLedgerEntry(insertEntry: InsertCreditLedgerEntry): Promise<CreditLedgerEntry> {
+    const [entry] = await db
+      .insert(creditLedger)
+      .values(insertEntry)
+      .returning();
+    return entry;
+  }
+
+  async getCreditBalance(userId: string): Promise<string> {
+    const [row] = await db
+      .select({ balance: sql<string>`coalesce(sum(${creditLedger.amount}), 0)::text` })
+      .from(creditLedger)
+      .where(eq(creditLedger.userId, userId));
+    return row?.balance ?? '0';
+  }
+
+  async getCreditLedger(userId: string, limit: number = 50): Promise<CreditLedgerEntry[]> {
+    return await db
+      .select()
+      .from(creditLedger)
+      .where(eq(creditLedger.userId, userId))
+      .orderBy(desc(creditLedger.createdAt))
+      .limit(limit);
+  }
+
+  async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
+    const [invoice] = await db
+      .insert(invoices)
+      .values(insertInvoice)
+      .returning();
+    return invoice;
+  }
+
+  async getInvoice(id: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice;
+  }
+
+  async getInvoiceByReference(provider: string, providerReference: string): Promise<Invoice | undefined> {
+    const [invoice] = await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.provider, provider), eq(invoices.providerReference, providerReference)));
+    return invoice;
+  }
+
+  async getUserInvoices(userId: string): Promise<Invoice[]> {
+    return await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.userId, userId))
+      .orderBy(desc(invoices.createdAt));
+  }
+
+  async updateInvoice(id: string, updates: Partial<Invoice>): Promise<Invoice | undefined> {
+    const [invoice] = await db
+      .update(invoices)
+      .set(updates)
+      .where(eq(invoices.id, id))
+      .returning();
+    return invoice;
+  }
+
+  // Settles an invoice once; undefined when it was already paid or failed
+  async settlePendingInvoice(id: string, status: 'paid' | 'failed'): Promise<Invoice | undefined> {
+    const [invoice] = await db
+      .update(invoices)
+      .set({ status, ...(status === 'paid' ? { paidAt: new Date() } : {}) })
+      .where(and(eq(invoices.id, id), eq(invoices.status, 'pending')))
+      .returning();
+    return invoice;
+  }
+
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [created] = await db.insert(auditLog).values(entry).returning();
+    return created;
+  }
+
+  // Newest first, with the number of matching rows for paging
+  async getAuditLog(
+    filters: Omit<AuditLogQuery, 'limit' | 'offset'>,
+    limit: number,
+    offset = 0
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filters.action) conditions.push(eq(auditLog.action, filters.action));
+    if (filters.targetType) conditions.push(eq(auditLog.targetType, filters.targetType));
+    if (filters.actor) conditions.push(eq(auditLog.actorUsername, filters.actor));
+    if (filters.from) conditions.push(gte(auditLog.createdAt, filters.from));
+    if (filters.to) conditions.push(lt(auditLog.createdAt, filters.to));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [entries, [count]] = await Promise.all([
+      db.select().from(auditLog).where(where).orderBy(desc(auditLog.createdAt)).limit(limit).offset(offset),
+      db.select({ total: sql<number>`count(*)::int` }).from(auditLog).where(where),
+    ]);
+    return { entries, total: count?.total ?? 0 };
+  }
+
+  async getObjectAclPolicy(objectKey: string): Promise<ObjectAclPolicyRow | undefined> {
+    const [policy] = await db.select().from(objectAclPolicies).where(eq(objectAclPolicies.objectKey, objectKey));
+    return policy;
+  }
+
+  async upsertObjectAclPolicy(policy: Omit<ObjectAclPolicyRow, 'updatedAt'>): Promise<ObjectAclPolicyRow> {
+    const [saved] = await db
+      .insert(objectAclPolicies)
+      .values(policy)
+      .onConflictDoUpdate({
+        target: objectAclPolicies.objectKey,
+        set: { owner: policy.owner, visibility: policy.visibility, aclRules: policy.aclRules, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Stores the policy unless the object already has one; returns whether it was stored
+  async createObjectAclPolicy(policy: Omit<ObjectAclPolicyRow, 'updatedAt'>): Promise<boolean> {
+    const created = await db
+      .insert(objectAclPolicies)
+      .values(policy)
+      .onConflictDoNothing({ target: objectAclPolicies.objectKey })
+      .returning({ objectKey: objectAclPolicies.objectKey });
+    return created.length > 0;
+  }
+
+  async deleteObjectAclPolicy(objectKey: string): Promise<boolean> {
+    const result = await db.delete(objectAclPolicies).where(eq(objectAclPolicies.objectKey, objectKey));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  // Ids of the uploaded objects (/objects/uploads/<uuid>...) that anything still points
+  // at: messages, processing jobs and their queue payloads, saved images, share links,
+  // published snapshots, marketplace exports, brand logos, cached outputs and profile
+  // images. Matching the id rather than the whole path keeps file names with spaces or
+  // URL encoding from looking orphaned.
+  async getReferencedUploadIds(): Promise<Set<string>> {
+    const pattern = '/objects/uploads/([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})';
+    const result = await db.execute<{ id: string }>(sql`
+      select distinct lower((regexp_matches(ref, ${pattern}, 'g'))[1]) as "id"
+      from (
+        select image_url as ref from ${messages}
+        union all select video_url from ${messages}
+        union all select original_image_url from ${imageProcessingJobs}
+        union all select processed_image_url from ${imageProcessingJobs}
+        union all select original_image_url from ${videoProcessingJobs}
+        union all select processed_video_url from ${videoProcessingJobs}
+        union all select input_images::text from ${multiImageProcessingJobs}
+        union all select output_image_url from ${multiImageProcessingJobs}
+        union all select image_roles::text from ${multiImageProcessingJobs}
+        union all select payload::text from ${jobQueue}
+        union all select object_path from ${savedImages}
+        union all select original_image_path from ${savedImages}
+        union all select object_url from ${shareLinks}
+        union all select snapshot::text from ${conversationShares}
+        union all select object_path from ${marketplaceExports}
+        union all select logo_assets::text from ${brandKits}
+        union all select output_url from ${generationCache}
+        union all select profile_image_url from ${users}
+      ) refs
+      where ref is not null
+    `);
+    return new Set(result.rows.map((row) => row.id));
+  }
+
+  // Conversations whose processing jobs wrote the object as their output. Only
+  // server-written job columns count, never URLs a client supplied.
+  async getConversationsByJobOutput(objectPath: string): Promise<Conversation[]> {
+    const result = await db.execute<{ id: string }>(sql`
+      select distinct conversation_id as "id" from ${messages}
+      where id in (
+        select message_id from ${imageProcessingJobs} where processed_image_url = ${objectPath}
+        union select message_id from ${multiImageProcessingJobs} where output_image_url = ${objectPath}
+        union select message_id from ${videoProcessingJobs} where processed_video_url = ${objectPath}
+      )
+    `);
+    const ids = result.rows.map((row) => row.id);
+    if (ids.length === 0) return [];
+    return await db.select().from(conversations).where(inArray(conversations.id, ids));
+  }
+
+  // Stores a policy for objects stored before policies were, owned by the one user
+  // whose conversations, library or profile refer to them. Objects referred to by
+  // several users keep no policy, and so stay private to the system. Returns how
+  // many policies were added.
+  async backfillObjectAclPolicies(privateKeyPrefix: string): Promise<number> {
+    const objectKey = '^/objects/([^?#]+)';
+    const result = await db.execute(sql`
+      insert into ${objectAclPolicies} (object_key, owner, visibility)
+      select ${privateKeyPrefix} || key, min(owner), max(visibility)
+      from (
+        select substring(m.image_url from ${objectKey}) as key, c.user_id as owner, 'private' as visibility
+          from ${messages} m join ${conversations} c on c.id = m.conversation_id
+        union all select substring(m.video_url from ${objectKey}), c.user_id, 'private'
+          from ${messages} m join ${conversations} c on c.id = m.conversation_id
+        union all select substring(object_path from ${objectKey}), user_id, 'private' from ${savedImages}
+        union all select substring(profile_image_url from ${objectKey}), id, 'public' from ${users}
+      ) refs
+      where key is not null and owner is not null
+      group by key
+      having count(distinct owner) = 1
+      on conflict (object_key) do nothing
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  async createUserList(ownerId: string, name: string): Promise<UserList> {
+    const [list] = await db.insert(userLists).values({ ownerId, name }).returning();
+    return list;
+  }
+
+  async getUserList(id: string): Promise<UserList | undefined> {
+    const [list] = await db.select().from(userLists).where(eq(userLists.id, id));
+    return list;
+  }
+
+  async getUserLists(ownerId: string): Promise<UserListWithMembers[]> {
+    const lists = await db.select().from(userLists).where(eq(userLists.ownerId, ownerId)).orderBy(userLists.name);
+    if (lists.length === 0) return [];
+
+    const members = await db
+      .select({ listId: userListMembers.listId, username: users.username })
+      .from(userListMembers)
+      .innerJoin(users, eq(users.id, userListMembers.userId))
+      .where(inArray(userListMembers.listId, lists.map(list => list.id)))
+      .orderBy(users.username);
+    return lists.map(list => ({
+      ...list,
+      usernames: members.filter(member => member.listId === list.id).map(member => member.username),
+    }));
+  }
+
+  async updateUserList(id: string, name: string): Promise<UserList | undefined> {
+    const [list] = await db.update(userLists).set({ name }).where(eq(userLists.id, id)).returning();
+    return list;
+  }
+
+  async deleteUserList(id: string): Promise<boolean> {
+    const result = await db.delete(userLists).where(eq(userLists.id, id));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  // Replaces the list's members
+  async setUserListMembers(listId: string, userIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(userListMembers).where(eq(userListMembers.listId, listId));
+      if (userIds.length > 0) {
+        await tx.insert(userListMembers).values(userIds.map(userId => ({ listId, userId })));
+      }
+    });
+  }
+
+  async isUserListMember(listId: string, userId: string): Promise<boolean> {
+    const [member] = await db
+      .select({ id: userListMembers.id })
+      .from(userListMembers)
+      .where(and(eq(userListMembers.listId, listId), eq(userListMembers.userId, userId)));
+    return !!member;
+  }
+  async createShareLink(link: InsertShareLink): Promise<ShareLink> {
+    const [created] = await db.insert(shareLinks).values(link).returning();
+    return created;
+  }
+
+  async getShareLinkByTokenHash(tokenHash: string): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.tokenHash, tokenHash));
+    return link;
+  }
+
+  async getUserShareLinks(userId: string): Promise<ShareLink[]> {
+    return await db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.createdBy, userId))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
+  async revokeShareLink(id: string, userId: string): Promise<ShareLink | undefined> {
+    const [link] = await db
+      .update(shareLinks)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(shareLinks.id, id), eq(shareLinks.createdBy, userId), isNull(shareLinks.revokedAt)))
+      .returning();
+    return link;
+  }
+
+  // Counts one download if the link is still usable; the guard keeps concurrent
+  // downloads from going over the limit
+  async claimShareLinkDownload(id: string): Promise<boolean> {
+    const result = await db
+      .update(shareLinks)
+      .set({ downloadCount: sql`${shareLinks.downloadCount} + 1`, lastDownloadedAt: new Date() })
+      .where(and(
+        eq(shareLinks.id, id),
+        isNull(shareLinks.revokedAt),
+        sql`${shareLinks.expiresAt} > now()`,
+        or(isNull(shareLinks.maxDownloads), lt(shareLinks.downloadCount, shareLinks.maxDownloads)),
+      ));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+  async getConversationShare(conversationId: string): Promise<ConversationShare | undefined> {
+    const [share] = await db.select().from(conversationShares).where(eq(conversationShares.conversationId, conversationId));
+    return share;
+  }
+
+  async getConversationShareByToken(token: string): Promise<ConversationShare | undefined> {
+    const [share] = await db.select().from(conversationShares).where(eq(conversationShares.token, token));
+    return share;
+  }
+
+  // Publishes the conversation, or replaces the snapshot of an already published one
+  // while keeping its URL
+  async upsertConversationShare(share: Omit<ConversationShare, 'id' | 'createdAt' | 'updatedAt'>): Promise<ConversationShare> {
+    const [saved] = await db
+      .insert(conversationShares)
+      .values(share)
+      .onConflictDoUpdate({
+        target: conversationShares.conversationId,
+        set: { snapshot: share.snapshot, createdBy: share.createdBy, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteConversationShare(conversationId: string): Promise<boolean> {
+    const result = await db.delete(conversationShares).where(eq(conversationShares.conversationId, conversationId));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async createMarketplaceExport(entry: Omit<MarketplaceExport, 'id' | 'createdAt'>): Promise<MarketplaceExport> {
+    const [created] = await db.insert(marketplaceExports).values(entry).returning();
+    return created;
+  }
+
+  async getMarketplaceExports(userId: string, sourceType: string, sourceId: string): Promise<MarketplaceExport[]> {
+    return await db
+      .select()
+      .from(marketplaceExports)
+      .where(and(
+        eq(marketplaceExports.userId, userId),
+        eq(marketplaceExports.sourceType, sourceType),
+        eq(marketplaceExports.sourceId, sourceId)
+      ))
+      .orderBy(desc(marketplaceExports.createdAt));
+  }
+
+  async getBrandKit(id: string): Promise<BrandKit | undefined> {
+    const [kit] = await db.select().from(brandKits).where(eq(brandKits.id, id));
+    return kit;
+  }
+
+  async getWorkspaceBrandKits(workspaceId: string): Promise<BrandKit[]> {
+    return await db
+      .select()
+      .from(brandKits)
+      .where(eq(brandKits.workspaceId, workspaceId))
+      .orderBy(brandKits.createdAt);
+  }
+
+  async createBrandKit(kit: Omit<BrandKit, 'id' | 'createdAt' | 'updatedAt'>): Promise<BrandKit> {
+    const [created] = await db.insert(brandKits).values(kit).returning();
+    return created;
+  }
+
+  async updateBrandKit(id: string, updates: Partial<Omit<BrandKit, 'id' | 'workspaceId' | 'createdBy' | 'createdAt'>>): Promise<BrandKit | undefined> {
+    const [updated] = await db
+      .update(brandKits)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(brandKits.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteBrandKit(id: string): Promise<boolean> {
+    const result = await db.delete(brandKits).where(eq(brandKits.id, id));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+
+
+  // Jobs the user started since `since`; a retry counts as another job
+  async countUserJobsSince(userId: string, since: Date): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(jobQueue)
+      .innerJoin(conversations, eq(conversations.id, jobQueue.conversationId))
+      .where(and(eq(conversations.userId, userId), gte(jobQueue.createdAt, since)));
+    return row?.count ?? 0;
+  }
+
+  async countActiveUserJobs(userId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(jobQueue)
+      .innerJoin(conversations, eq(conversations.id, jobQueue.conversationId))
+      .where(and(eq(conversations.userId, userId), inArray(jobQueue.status, ['queued', 'running'])));
+    return row?.count ?? 0;
+  }
+
+  // Runs fn holding a transaction-scoped advisory lock on the user, so job counts read
+  // inside fn cannot change under it through another locked caller (in any process).
+  // fn's own queries commit before the lock is released.
+  async withUserJobLock<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`user-jobs:${userId}`}))`);
+      return await fn();
+    });
+  }
+
+  // Image, multi-image and video jobs in the user's conversations since `from`. The
+  // queue's job type tells multi-image jobs apart from single-image ones, which share
+  // image_processing_jobs.
+  async getJobStatistics(userId: string, from: Date) {
+    const userJobs = sql`
+      select j.status, j.processing_time, j.template_id, j.created_at,
+        case when exists (
+          select 1 from ${jobQueue} q where q.job_id = j.id and q.job_type = 'multi-image'
+        ) then 'multi-image' else 'image' end as job_type
+      from ${imageProcessingJobs} j
+      join ${messages} m on m.id = j.message_id
+      join ${conversations} c on c.id = m.conversation_id
+      where c.user_id = ${userId} and j.created_at >= ${from}
+      union all
+      select j.status, j.processing_time, null, j.created_at, 'multi-image'
+      from ${multiImageProcessingJobs} j
+      join ${messages} m on m.id = j.message_id
+      join ${conversations} c on c.id = m.conversation_id
+      where c.user_id = ${userId} and j.created_at >= ${from}
+      union all
+      select j.status, j.processing_time, j.template_id, j.created_at, 'video'
+      from ${videoProcessingJobs} j
+      join ${messages} m on m.id = j.message_id
+      join ${conversations} c on c.id = m.conversation_id
+      where c.user_id = ${userId} and j.created_at >= ${from}
+    `;
+
+    const perDay = await db.execute<{ date: string; jobType: UsageJobType; jobs: number }>(sql`
+      with user_jobs as (${userJobs})
+      select to_char(date_trunc('day', created_at), 'YYYY-MM-DD') as "date", job_type as "jobType", count(*)::int as "jobs"
+      from user_jobs
+      group by 1, 2
+      order by 1
+    `);
+
+    const jobTypes = await db.execute<UsageAnalytics['jobTypes'][number]>(sql`
+      with user_jobs as (${userJobs})
+      select job_type as "jobType",
+        count(*)::int as "total",
+        (count(*) filter (where status = 'completed'))::int as "completed",
+        (count(*) filter (where status = 'error'))::int as "failed",
+        (count(*) filter (where status = 'cancelled'))::int as "cancelled",
+        (avg(processing_time) filter (where status = 'completed'))::float as "averageProcessingTime"
+      from user_jobs
+      group by job_type
+      order by job_type
+    `);
+
+    const topTemplates = await db.execute<UsageAnalytics['topTemplates'][number]>(sql`
+      with user_jobs as (${userJobs})
+      select t.id as "templateId", t.name, count(*)::int as "uses"
+      from user_jobs
+      join ${promptTemplates} t on t.id = user_jobs.template_id
+      group by t.id, t.name
+      order by 3 desc, t.name
+      limit 5
+    `);
+
+    return { perDay: perDay.rows, jobTypes: jobTypes.rows, topTemplates: topTemplates.rows };
+  }
+
+  async getModelCapability(modelId: string): Promise<ModelCapability | undefined> {
+    const [capability] = await db.select().from(modelCapabilities).where(eq(modelCapabilities.modelId, modelId));
+    return capability;
+  }
+
+  async getModelCapabilities(): Promise<ModelCapability[]> {
+    return await db.select().from(modelCapabilities).orderBy(modelCapabilities.modelId);
+  }
+
+  // Refreshes synced values only; admin overrides are left untouched
+  async upsertModelCapabilities(capabilities: InsertModelCapability[]): Promise<number> {
+    if (capabilities.length === 0) return 0;
+
+    await db
+      .insert(modelCapabilities)
+      .values(capabilities)
+      .onConflictDoUpdate({
+        target: modelCapabilities.modelId,
+        set: {
+          name: sql`excluded.name`,
+          visionInput: sql`excluded.vision_input`,
+          imageOutput: sql`excluded.image_output`,
+          videoOutput: sql`excluded.video_output`,
+          contextLength: sql`excluded.context_length`,
+          maxCompletionTokens: sql`excluded.max_completion_tokens`,
+          promptPrice: sql`excluded.prompt_price`,
+          completionPrice: sql`excluded.completion_price`,
+          imagePrice: sql`excluded.image_price`,
+          syncedAt: sql`excluded.synced_at`,
+          updatedAt: new Date()
+        }
+      });
+    return capabilities.length;
+  }
+
+  // Models outside the catalog get a row so they can be overridden too
+  async setModelCapabilityOverrides(modelId: string, overrides: ModelCapabilityOverrides): Promise<ModelCapability | undefined> {
+    const [capability] = await db
+      .insert(modelCapabilities)
+      .values({ modelId, overrides })
+      .onConflictDoUpdate({
+        target: modelCapabilities.modelId,
+        set: { overrides, updatedAt: new Date() }
+      })
+      .returning();
+    return capability;
+  }
+
   // User Context Functions - 用户上下文功能
   async getConversationWithMessages(conversationId: string): Promise<ConversationWithMessages | undefined> {
     // Get conversation with all messages and their image processing jobs
@@ -566,6 +1816,32 @@ export class DatabaseStorage implements IStorage {
     return results;
   }
 
+  async getWorkspaceSavedImages(
+    workspaceId: string,
+    options: { page?: number; limit?: number; tags?: string[] } = {}
+  ): Promise<SavedImage[]> {
+    const { page = 1, limit = 20, tags } = options;
+    const whereConditions = [eq(savedImages.workspaceId, workspaceId)];
+    if (tags && tags.length > 0) {
+      whereConditions.push(sql`${savedImages.tags} && ${tags}`);
+    }
+
+    return await db
+      .select()
+      .from(savedImages)
+      .where(and(...whereConditions))
+      .orderBy(desc(savedImages.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+  }
+
+  async deleteWorkspaceSavedImage(id: string, workspaceId: string): Promise<boolean> {
+    const result = await db
+      .delete(savedImages)
+      .where(and(eq(savedImages.id, id), eq(savedImages.workspaceId, workspaceId)));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
   async deleteSavedImage(id: string, userId: string): Promise<boolean> {
     const result = await db
       .delete(savedImages)
@@ -619,21 +1895,33 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Prompt Template Functions (Admin Only)
-  async getPromptTemplates(): Promise<PromptTemplate[]> {
-    return await db.select().from(promptTemplates).orderBy(desc(promptTemplates.updatedAt));
+  // With a workspace id, shared templates plus the workspace's own; with null, shared
+  // templates only; when omitted, every template
+  private templateScope(workspaceId?: string | null): SQL | undefined {
+    if (workspaceId === undefined) return undefined;
+    return workspaceId === null
+      ? isNull(promptTemplates.workspaceId)
+      : or(isNull(promptTemplates.workspaceId), eq(promptTemplates.workspaceId, workspaceId));
   }
 
-  async getPromptTemplatesByFunction(functionId: string): Promise<PromptTemplate[]> {
-    return await db.select().from(promptTemplates).where(eq(promptTemplates.functionId, functionId)).orderBy(desc(promptTemplates.updatedAt));
+  async getPromptTemplates(workspaceId?: string | null): Promise<PromptTemplate[]> {
+    return await db.select().from(promptTemplates).where(this.templateScope(workspaceId)).orderBy(desc(promptTemplates.updatedAt));
   }
 
-  async getEnabledPromptTemplates(): Promise<PromptTemplate[]> {
-    // Handle both text "true" and boolean true values for compatibility
+  async getPromptTemplatesByFunction(functionId: string, workspaceId?: string | null): Promise<PromptTemplate[]> {
     return await db.select().from(promptTemplates).where(
-      sql`${promptTemplates.enabled} = 'true' OR ${promptTemplates.enabled} = 't' OR ${promptTemplates.enabled} = true`
+      and(eq(promptTemplates.functionId, functionId), this.templateScope(workspaceId))
     ).orderBy(desc(promptTemplates.updatedAt));
   }
 
+  async getEnabledPromptTemplates(workspaceId?: string | null): Promise<PromptTemplate[]> {
+    // Handle both text "true" and boolean true values for compatibility
+    return await db.select().from(promptTemplates).where(and(
+      sql`(${promptTemplates.enabled} = 'true' OR ${promptTemplates.enabled} = 't' OR ${promptTemplates.enabled} = true)`,
+      this.templateScope(workspaceId)
+    )).orderBy(desc(promptTemplates.updatedAt));
+  }
+
   async getPromptTemplate(id: string): Promise<PromptTemplate | undefined> {
     const [template] = await db.select().from(promptTemplates).where(eq(promptTemplates.id, id));
     return template;
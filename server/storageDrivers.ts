@@ -0,0 +1,335 @@
+import {
+  S3Client,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadBucketCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+
+export interface StoredObjectMetadata {
+  contentType?: string;
+  size?: number;
+  etag?: string; // Quoted, as sent in the ETag header
+  lastModified?: Date;
+  metadata: Record<string, string>;
+}
+
+// Inclusive byte range, as in a Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StoredObjectListing {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+// A place objects are kept, addressed by key (e.g. "private/uploads/<id>"). The
+// object storage service maps /objects/ paths and ACLs on top of a driver.
+export interface IStorageDriver {
+  readonly id: 'local' | 's3';
+  readonly name: string;
+  // Metadata of the object, or null when it does not exist
+  head(key: string): Promise<StoredObjectMetadata | null>;
+  read(key: string, range?: ByteRange): Promise<Readable>;
+  write(key: string, body: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Every object whose key starts with the prefix
+  list(prefix: string): Promise<StoredObjectListing[]>;
+  // A URL the browser can PUT the object's bytes to without a session
+  createUploadUrl(key: string, contentType: string, expiresInSec: number): Promise<string>;
+  // The key an upload URL from createUploadUrl (or a direct object URL) points at
+  keyFromUrl(url: string): string | null;
+  // Logs whether the backend is reachable; never writes
+  check(): Promise<void>;
+}
+
+export interface S3DriverOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // S3-compatible service (MinIO, R2, Ceph, ...); AWS when unset
+  forcePathStyle: boolean;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// AWS S3 or any service speaking its API
+export class S3StorageDriver implements IStorageDriver {
+  readonly id = 's3';
+  readonly name: string;
+  private client: S3Client;
+
+  constructor(private options: S3DriverOptions) {
+    this.name = options.endpoint ? `S3-compatible (${options.endpoint})` : 'AWS S3';
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+      },
+      maxAttempts: 3,
+    });
+  }
+
+  async head(key: string): Promise<StoredObjectMetadata | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({ Bucket: this.options.bucket, Key: key }));
+      return {
+        contentType: response.ContentType,
+        size: response.ContentLength,
+        etag: response.ETag,
+        lastModified: response.LastModified,
+        metadata: response.Metadata || {},
+      };
+    } catch (error: any) {
+      if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    }));
+    if (!response.Body) {
+      throw new Error(`Empty response body for ${key}`);
+    }
+    return response.Body as Readable;
+  }
+
+  async write(key: string, body: Buffer, contentType: string): Promise<void> {
+    try {
+      await this.client.send(new PutObjectCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        ACL: 'private',
+      }));
+    } catch (error: any) {
+      console.error('[Storage] S3 upload failed:', {
+        name: error.name,
+        message: error.message,
+        statusCode: error.$metadata?.httpStatusCode,
+        bucket: this.options.bucket,
+        key,
+      });
+      if (error.name === 'AccessDenied' || error.Code === 'AccessDenied') {
+        throw new Error(`S3 Access Denied: credentials need s3:PutObject permission for bucket "${this.options.bucket}"`);
+      } else if (error.name === 'NoSuchBucket') {
+        throw new Error(`S3 bucket "${this.options.bucket}" does not exist`);
+      } else if (error.name === 'InvalidAccessKeyId') {
+        throw new Error('Invalid S3 access key ID');
+      } else if (error.name === 'SignatureDoesNotMatch') {
+        throw new Error('Invalid S3 secret access key');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }));
+  }
+
+  async list(prefix: string): Promise<StoredObjectListing[]> {
+    const objects: StoredObjectListing[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.options.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of response.Contents || []) {
+        if (!object.Key) continue;
+        objects.push({ key: object.Key, size: object.Size || 0, lastModified: object.LastModified || new Date() });
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return objects;
+  }
+
+  async createUploadUrl(key: string, contentType: string, expiresInSec: number): Promise<string> {
+    const command = new PutObjectCommand({ Bucket: this.options.bucket, Key: key, ContentType: contentType });
+    return getSignedUrl(this.client, command, { expiresIn: expiresInSec });
+  }
+
+  keyFromUrl(url: string): string | null {
+    let pathname: string;
+    try {
+      pathname = new URL(url).pathname;
+    } catch {
+      return null;
+    }
+    const key = decodeURIComponent(pathname.replace(/^\//, ''));
+    // Path-style URLs carry the bucket as the first segment
+    return key.startsWith(`${this.options.bucket}/`) ? key.slice(this.options.bucket.length + 1) : key;
+  }
+
+  async check(): Promise<void> {
+    try {
+      await this.client.send(new HeadBucketCommand({ Bucket: this.options.bucket }));
+      console.log(`[Storage] Bucket "${this.options.bucket}" is reachable`);
+    } catch (error: any) {
+      console.error(`[Storage] Bucket "${this.options.bucket}" is not reachable:`, error.name || error.message);
+    }
+  }
+}
+
+// Objects as files under a directory, for development, CI and single-server installs.
+// Content types are kept in a sidecar "<file>.meta.json". Browser uploads go to
+// /api/objects/local-upload/<key>, signed with the session secret.
+export class LocalStorageDriver implements IStorageDriver {
+  readonly id = 'local';
+  readonly name: string;
+  private root: string;
+
+  constructor(root: string, private signingSecret: string) {
+    this.root = path.resolve(root);
+    this.name = `Local disk (${this.root})`;
+  }
+
+  // Rejects keys that would resolve outside the storage directory
+  private filePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async head(key: string): Promise<StoredObjectMetadata | null> {
+    const filePath = this.filePath(key);
+    try {
+      const stats = await fs.promises.stat(filePath);
+      if (!stats.isFile()) return null;
+      const meta = await fs.promises.readFile(`${filePath}.meta.json`, 'utf8')
+        .then((text) => JSON.parse(text) as { contentType?: string; metadata?: Record<string, string> })
+        .catch(() => ({} as { contentType?: string; metadata?: Record<string, string> }));
+      return {
+        contentType: meta.contentType,
+        size: stats.size,
+        // Objects are written once, so size and modification time identify the content
+        etag: `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`,
+        lastModified: stats.mtime,
+        metadata: meta.metadata || {},
+      };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable> {
+    return fs.createReadStream(this.filePath(key), range);
+  }
+
+  async write(key: string, body: Buffer, contentType: string): Promise<void> {
+    const filePath = this.filePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, body);
+    await fs.promises.writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }));
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.filePath(key);
+    await fs.promises.rm(filePath, { force: true });
+    await fs.promises.rm(`${filePath}.meta.json`, { force: true });
+  }
+
+  async list(prefix: string): Promise<StoredObjectListing[]> {
+    const objects: StoredObjectListing[] = [];
+    const walk = async (dir: string): Promise<void> => {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch((error) => {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+      });
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else if (entry.isFile() && !entry.name.endsWith('.meta.json')) {
+          const key = path.relative(this.root, entryPath).split(path.sep).join('/');
+          if (!key.startsWith(prefix)) continue;
+          const stats = await fs.promises.stat(entryPath);
+          objects.push({ key, size: stats.size, lastModified: stats.mtime });
+        }
+      }
+    };
+    // Walk from the deepest directory the prefix names
+    const prefixDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+    await walk(prefixDir ? this.filePath(prefixDir) : this.root);
+    return objects;
+  }
+
+  private sign(key: string, expires: number): string {
+    return crypto.createHmac('sha256', this.signingSecret).update(`${key}:${expires}`).digest('hex');
+  }
+
+  async createUploadUrl(key: string, _contentType: string, expiresInSec: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSec;
+    return `/api/objects/local-upload/${key}?expires=${expires}&signature=${this.sign(key, expires)}`;
+  }
+
+  verifyUploadUrl(key: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+    const expected = Buffer.from(this.sign(key, expires));
+    const given = Buffer.from(signature);
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+
+  keyFromUrl(url: string): string | null {
+    const pathname = url.split('?')[0].replace(/^https?:\/\/[^/]+/, '');
+    const prefix = '/api/objects/local-upload/';
+    return pathname.startsWith(prefix) ? decodeURIComponent(pathname.slice(prefix.length)) : null;
+  }
+
+  async check(): Promise<void> {
+    await fs.promises.mkdir(this.root, { recursive: true });
+    console.log(`[Storage] Storing objects in ${this.root}`);
+  }
+}
+
+// The driver from STORAGE_DRIVER ("local" or "s3"). When unset, S3 is used if a
+// bucket is configured and the local disk otherwise.
+export function createStorageDriver(): IStorageDriver {
+  const bucket = process.env.S3_BUCKET || process.env.AWS_S3_BUCKET_NAME || '';
+  const driver = process.env.STORAGE_DRIVER || (bucket ? 's3' : 'local');
+
+  if (driver === 's3') {
+    if (!bucket) {
+      throw new Error('STORAGE_DRIVER=s3 needs S3_BUCKET (or AWS_S3_BUCKET_NAME)');
+    }
+    return new S3StorageDriver({
+      bucket,
+      region: process.env.S3_REGION || process.env.AWS_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      accessKeyId: (process.env.S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID || '').trim(),
+      secretAccessKey: (process.env.S3_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY || '').trim(),
+    });
+  }
+
+  if (driver === 'local') {
+    // Without a session secret, upload URLs only stay valid until the server restarts
+    const secret = process.env.SESSION_SECRET || crypto.randomBytes(32).toString('hex');
+    return new LocalStorageDriver(process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), 'storage'), secret);
+  }
+
+  throw new Error(`Unknown storage driver: ${driver}`);
+}
@@ -0,0 +1,60 @@
+import { storage } from "./storage";
+import type { UsageAnalytics, UsageJobType } from "@shared/schema";
+
+const JOB_TYPES: UsageJobType[] = ['image', 'multi-image', 'video'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Job and spend statistics for the user's last `days` days (UTC), with a row for
+// every day so charts have no gaps
+export async function buildUsageAnalytics(userId: string, days: number): Promise<UsageAnalytics> {
+  const today = new Date(dayKey(new Date()));
+  const from = new Date(today.getTime() - (days - 1) * DAY_MS);
+
+  const [jobs, spendPerDay] = await Promise.all([
+    storage.getJobStatistics(userId, from),
+    storage.getUsageSummary('day', { userId, from }),
+  ]);
+
+  const jobsPerDay: UsageAnalytics['jobsPerDay'] = [];
+  const spend: UsageAnalytics['spend']['perDay'] = [];
+  for (let i = 0; i < days; i++) {
+    const date = dayKey(new Date(from.getTime() + i * DAY_MS));
+    jobsPerDay.push({ date, image: 0, 'multi-image': 0, video: 0 });
+    spend.push({ date, cost: 0 });
+  }
+
+  for (const row of jobs.perDay) {
+    const day = jobsPerDay.find(d => d.date === row.date);
+    if (day) day[row.jobType] += row.jobs;
+  }
+
+  let totalCost = 0;
+  let unpricedRequests = 0;
+  for (const row of spendPerDay) {
+    const cost = parseFloat(row.cost) || 0;
+    totalCost += cost;
+    unpricedRequests += row.unpricedRequests;
+    const day = spend.find(d => d.date === row.key);
+    if (day) day.cost = cost;
+  }
+
+  return {
+    from: dayKey(from),
+    jobsPerDay,
+    // Every type is listed, even without jobs
+    jobTypes: JOB_TYPES.map(jobType => jobs.jobTypes.find(t => t.jobType === jobType) || {
+      jobType,
+      total: 0,
+      completed: 0,
+      failed: 0,
+      cancelled: 0,
+      averageProcessingTime: null,
+    }),
+    topTemplates: jobs.topTemplates,
+    spend: { total: totalCost.toFixed(4), unpricedRequests, perDay: spend },
+  };
+}
@@ -0,0 +1,72 @@
+import { storage } from "./storage";
+import { getModelCapabilities } from "./modelCapabilities";
+import { debitUsage } from "./billing";
+import type { TokenUsage } from "./failover";
+
+// Who and what a model call was made for
+export interface UsageContext {
+  userId: string | null;
+  conversationId?: string | null;
+  operation: string; // Job type or e.g. 'enhance-template'
+  jobId?: string | null;
+  functionKey?: string | null;
+}
+
+// Application function behind each job type, for requests that do not name one
+const DEFAULT_FUNCTION_KEYS: Record<string, string> = {
+  'image': 'image-enhancement',
+  'multi-image': 'multiple-images-llm',
+  'multi-image-generate': 'multiple-images-llm',
+  'video': 'image-to-video',
+};
+
+export function defaultFunctionKey(operation: string): string | null {
+  return DEFAULT_FUNCTION_KEYS[operation] || null;
+}
+
+// Prefers the cost the provider reported (or estimated for it); otherwise prices the
+// tokens with the catalog rates from the model capability registry
+export async function calculateCost(
+  model: string,
+  usage: TokenUsage
+): Promise<{ cost: number | null; costSource: 'provider' | 'estimate' | 'catalog' | 'unknown' }> {
+  if (typeof usage.cost === 'number') {
+    return { cost: usage.cost, costSource: usage.estimated ? 'estimate' : 'provider' };
+  }
+
+  const { pricing } = await getModelCapabilities(model);
+  if (pricing.prompt === null && pricing.completion === null) {
+    return { cost: null, costSource: 'unknown' };
+  }
+
+  const promptPrice = parseFloat(pricing.prompt || '0') || 0;
+  const completionPrice = parseFloat(pricing.completion || '0') || 0;
+  return {
+    cost: usage.promptTokens * promptPrice + usage.completionTokens * completionPrice,
+    costSource: 'catalog'
+  };
+}
+
+// Writes one ledger row and charges its cost in credits; failing to record must not
+// fail the call it describes
+export async function recordUsage(context: UsageContext, model: string, usage: TokenUsage): Promise<void> {
+  try {
+    const { cost, costSource } = await calculateCost(model, usage);
+    const entry = await storage.createUsageLedgerEntry({
+      userId: context.userId,
+      conversationId: context.conversationId ?? null,
+      operation: context.operation,
+      jobId: context.jobId ?? null,
+      functionKey: context.functionKey ?? defaultFunctionKey(context.operation),
+      model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      cost: cost === null ? null : cost.toFixed(8),
+      costSource,
+    });
+    await debitUsage(entry);
+  } catch (error) {
+    console.error(`[Usage Ledger] Failed to record usage for ${context.operation} (${model}):`, error);
+  }
+}
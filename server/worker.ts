@@ -0,0 +1,21 @@
+import { JobWorker } from "./jobQueue";
+
+// Standalone job worker process. Run alongside the API server (started with
+// RUN_JOB_WORKERS=false) to keep processing work out of the web process.
+const worker = new JobWorker({
+  concurrency: parseInt(process.env.JOB_WORKER_CONCURRENCY || '2', 10),
+});
+
+async function shutdown(signal: string) {
+  console.log(`[Job Worker] Received ${signal}, draining running jobs...`);
+  await worker.stop();
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+worker.start().catch((error) => {
+  console.error('[Job Worker] Failed to start:', error);
+  process.exit(1);
+});
@@ -0,0 +1,203 @@
+import { storage } from "./storage";
+import type {
+  Conversation,
+  ModelConfiguration,
+  PromptTemplate,
+  User,
+  Workspace,
+  WorkspaceRole,
+  WorkspaceSummary,
+} from "@shared/schema";
+
+export interface WorkspaceAccess {
+  workspace: Workspace;
+  role: WorkspaceRole | null; // null when access comes from being a site admin
+  canManage: boolean; // Workspace admins, organization owners and site admins
+}
+
+export class WorkspaceAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkspaceAccessError";
+    Object.setPrototypeOf(this, WorkspaceAccessError.prototype);
+  }
+}
+
+// Personal workspaces being created, so parallel first requests share one
+const personalWorkspaces = new Map<string, Promise<Workspace>>();
+
+export async function getWorkspaceAccess(user: User, workspaceId: string): Promise<WorkspaceAccess | null> {
+  const workspace = await storage.getWorkspace(workspaceId);
+  if (!workspace) return null;
+
+  const [member, organization] = await Promise.all([
+    storage.getWorkspaceMember(workspaceId, user.id),
+    storage.getOrganization(workspace.organizationId),
+  ]);
+  const role = (member?.role as WorkspaceRole | undefined) || null;
+  const isOwner = organization?.ownerId === user.id;
+  const isSiteAdmin = user.role === 'admin';
+  if (!role && !isOwner && !isSiteAdmin) return null;
+
+  return { workspace, role, canManage: role === 'admin' || isOwner || isSiteAdmin };
+}
+
+async function createPersonalWorkspace(user: User): Promise<Workspace> {
+  const organization = await storage.createOrganization({
+    name: `${user.firstName || user.username}'s organization`,
+    ownerId: user.id,
+  });
+  const workspace = await storage.createWorkspace({
+    organizationId: organization.id,
+    name: 'Personal',
+    isPersonal: 'true',
+    createdBy: user.id,
+  });
+  await storage.upsertWorkspaceMember({ workspaceId: workspace.id, userId: user.id, role: 'admin' });
+  await storage.assignUnscopedDataToWorkspace(user.id, workspace.id);
+  console.log(`[Workspaces] Created personal workspace ${workspace.id} for ${user.username}`);
+  return workspace;
+}
+
+// The workspace selected in the sidebar. Falls back to the user's first workspace, and
+// gives users without one a personal workspace holding their earlier conversations and
+// saved images.
+export async function getCurrentWorkspace(user: User): Promise<WorkspaceAccess> {
+  if (user.currentWorkspaceId) {
+    const access = await getWorkspaceAccess(user, user.currentWorkspaceId);
+    if (access) return access;
+  }
+
+  const [membership] = await storage.getUserWorkspaceMemberships(user.id);
+  let workspace = membership?.workspace;
+  if (!workspace) {
+    let pending = personalWorkspaces.get(user.id);
+    if (!pending) {
+      pending = createPersonalWorkspace(user).finally(() => personalWorkspaces.delete(user.id));
+      personalWorkspaces.set(user.id, pending);
+    }
+    workspace = await pending;
+  }
+
+  await storage.setCurrentWorkspace(user.id, workspace.id);
+  const access = await getWorkspaceAccess(user, workspace.id);
+  if (!access) {
+    throw new Error('Workspace not accessible');
+  }
+  return access;
+}
+
+// Workspaces the user can switch to: their memberships, workspaces of organizations
+// they own and, for site admins, every workspace
+export async function listWorkspaces(user: User): Promise<WorkspaceSummary[]> {
+  await getCurrentWorkspace(user); // Creates the personal workspace on first use
+
+  const [memberships, ownedOrganizations] = await Promise.all([
+    storage.getUserWorkspaceMemberships(user.id),
+    storage.getOwnedOrganizations(user.id),
+  ]);
+  const roles = new Map(memberships.map(m => [m.workspace.id, m.role as WorkspaceRole]));
+  const ownedIds = new Set(ownedOrganizations.map(o => o.id));
+
+  const candidates = user.role === 'admin'
+    ? await storage.getWorkspaces()
+    : (await storage.getWorkspaces()).filter(w => roles.has(w.id) || ownedIds.has(w.organizationId));
+
+  const organizationNames = new Map<string, string>();
+  for (const workspace of candidates) {
+    if (!organizationNames.has(workspace.organizationId)) {
+      const organization = await storage.getOrganization(workspace.organizationId);
+      organizationNames.set(workspace.organizationId, organization?.name || '');
+    }
+  }
+
+  return candidates.map(workspace => {
+    const role = roles.get(workspace.id) || null;
+    return {
+      ...workspace,
+      organizationName: organizationNames.get(workspace.organizationId) || '',
+      role,
+      canManage: role === 'admin' || ownedIds.has(workspace.organizationId) || user.role === 'admin',
+      canManageOrganization: ownedIds.has(workspace.organizationId) || user.role === 'admin',
+    };
+  });
+}
+
+// Creates a workspace in an organization the user owns, or in a new organization
+export async function createWorkspace(
+  user: User,
+  data: { name: string; organizationId?: string; organizationName?: string }
+): Promise<Workspace> {
+  let organizationId = data.organizationId;
+  if (organizationId) {
+    const organization = await storage.getOrganization(organizationId);
+    if (!organization || (organization.ownerId !== user.id && user.role !== 'admin')) {
+      throw new WorkspaceAccessError('Only the organization owner can add workspaces to it');
+    }
+  } else {
+    const organization = await storage.createOrganization({
+      name: data.organizationName || `${data.name} organization`,
+      ownerId: user.id,
+    });
+    organizationId = organization.id;
+  }
+
+  const workspace = await storage.createWorkspace({ organizationId, name: data.name, createdBy: user.id });
+  await storage.upsertWorkspaceMember({ workspaceId: workspace.id, userId: user.id, role: 'admin' });
+  console.log(`[Workspaces] ${user.username} created workspace ${workspace.name} (${workspace.id})`);
+  return workspace;
+}
+
+// Members of the conversation's workspace share it; conversations from before
+// workspaces only their creator can open
+export async function canAccessConversation(user: User, conversation: Conversation): Promise<boolean> {
+  if (conversation.userId === user.id) return true;
+  if (!conversation.workspaceId) return false;
+  return (await getWorkspaceAccess(user, conversation.workspaceId)) !== null;
+}
+
+// Templates without a workspace are shared by every workspace
+export function templateInWorkspace(template: PromptTemplate, workspaceId: string): boolean {
+  return !template.workspaceId || template.workspaceId === workspaceId;
+}
+
+// Loads the current workspace into req.workspace
+export async function loadWorkspace(req: any, res: any, next: any) {
+  try {
+    req.workspace = await getCurrentWorkspace(req.user);
+    next();
+  } catch (error) {
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Failed to load workspace"
+    });
+  }
+}
+
+// Model configuration for jobs in a workspace: its own configuration, else the global
+// default, else the admin's. API keys missing from the chosen configuration come from
+// the admin's, which has always provided the key for every user, then the environment.
+// No key is required here: models on named endpoints, OpenAI Images or the Local
+// provider need none, and the provider that does reports it (ProviderNotConfiguredError).
+export async function getWorkspaceModelConfig(workspaceId: string | null | undefined): Promise<ModelConfiguration> {
+  const adminUser = await storage.getUserByRole('admin');
+  const [workspaceConfig, globalDefault, adminConfig] = await Promise.all([
+    workspaceId ? storage.getWorkspaceModelConfiguration(workspaceId) : undefined,
+    storage.getGlobalDefaultConfiguration(),
+    adminUser ? storage.getModelConfiguration(adminUser.id) : undefined,
+  ]);
+
+  const config = workspaceConfig || globalDefault || adminConfig;
+  if (!config) {
+    throw new Error('Model configuration not set by admin. Please contact administrator.');
+  }
+
+  const apiKey = config.apiKey || adminConfig?.apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENROUTER_KEY || null;
+  return { ...config, apiKey, openaiApiKey: config.openaiApiKey || adminConfig?.openaiApiKey || null };
+}
+
+// Models a workspace's jobs may run on: its selected model and the enabled entries of
+// its failover sequence
+export function getEnabledModels(config: ModelConfiguration): string[] {
+  const models = [config.selectedModel, ...(config.modelPriorities || []).filter(item => item.enabled).map(item => item.model)];
+  return Array.from(new Set(models.filter(Boolean)));
+}
@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, json, integer, index, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, json, integer, index, uniqueIndex, jsonb, numeric, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -19,18 +19,53 @@ export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: varchar("username").unique().notNull(),
   email: varchar("email").unique(),
+  // The address a site admin confirmed is the user's; it stops counting once `email`
+  // differs (EMAIL_DOMAIN object sharing only matches verified addresses)
+  verifiedEmail: varchar("verified_email"),
   password: varchar("password").notNull(),
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
   role: text("role").notNull().default("user"), // 'admin' | 'user'
+  currentWorkspaceId: varchar("current_workspace_id"), // Workspace selected in the sidebar
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// An agency or company; its owner manages all of its workspaces
+export const organizations = pgTable("organizations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  ownerId: varchar("owner_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Conversations, saved images, prompt templates and model configuration belong to a
+// workspace and are shared by its members
+export const workspaces = pgTable("workspaces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
+  name: varchar("name").notNull(),
+  isPersonal: text("is_personal").notNull().default("false"), // Created for a user on first sign-in
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  role: text("role").notNull().default("member"), // 'admin' (manages members and settings) | 'member'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("UQ_workspace_members_workspace_user").on(table.workspaceId, table.userId),
+  index("IDX_workspace_members_user").on(table.userId),
+]);
+
 export const conversations = pgTable("conversations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").references(() => users.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(), // Creator
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -43,7 +78,7 @@ export const messages = pgTable("messages", {
   imageUrl: text("image_url"),
   videoUrl: text("video_url"), // For video generation results
   mediaType: text("media_type").default("text"), // 'text' | 'image' | 'video'
-  processingStatus: text("processing_status").default("completed"), // 'processing' | 'completed' | 'error'
+  processingStatus: text("processing_status").default("completed"), // 'processing' | 'completed' | 'error' | 'cancelled'
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -53,8 +88,9 @@ export const imageProcessingJobs = pgTable("image_processing_jobs", {
   originalImageUrl: text("original_image_url").notNull(),
   processedImageUrl: text("processed_image_url"),
   prompt: text("prompt").notNull(),
+  templateId: varchar("template_id"), // Prompt template the prompt came from, if any
   model: text("model").notNull(),
-  status: text("status").notNull().default("pending"), // 'pending' | 'processing' | 'completed' | 'error'
+  status: text("status").notNull().default("pending"), // 'pending' | 'processing' | 'completed' | 'error' | 'cancelled'
   processingTime: integer("processing_time"), // in seconds
   errorMessage: text("error_message"),
   enhancementsApplied: json("enhancements_applied").$type<string[]>(),
@@ -68,8 +104,9 @@ export const videoProcessingJobs = pgTable("video_processing_jobs", {
   originalImageUrl: text("original_image_url").notNull(),
   processedVideoUrl: text("processed_video_url"),
   prompt: text("prompt").notNull(),
+  templateId: varchar("template_id"), // Prompt template the prompt came from, if any
   model: text("model").notNull(),
-  status: text("status").notNull().default("pending"), // 'pending' | 'processing' | 'completed' | 'error'
+  status: text("status").notNull().default("pending"), // 'pending' | 'processing' | 'completed' | 'error' | 'cancelled'
   processingTime: integer("processing_time"), // in seconds
   videoDuration: integer("video_duration").default(10), // duration in seconds
   errorMessage: text("error_message"),
@@ -86,7 +123,7 @@ export const multiImageProcessingJobs = pgTable("multi_image_processing_jobs", {
   userPrompt: text("user_prompt").notNull(), // Original user prompt
   analysisModel: text("analysis_model").notNull(), // Model used for image analysis
   generationModel: text("generation_model"), // Model used for image generation (null if generation failed)
-  status: text("status").notNull().default("pending"), // 'pending' | 'analyzing' | 'generating' | 'completed' | 'error'
+  status: text("status").notNull().default("pending"), // 'pending' | 'analyzing' | 'generating' | 'completed' | 'error' | 'cancelled'
   processingTime: integer("processing_time"), // in seconds
   errorMessage: text("error_message"),
   // Image roles and weights for each input image
@@ -109,32 +146,335 @@ export const multiImageProcessingJobs = pgTable("multi_image_processing_jobs", {
   completedAt: timestamp("completed_at"),
 });
 
+// Durable work queue for the async processing jobs above. Each row points at one
+// image/multi-image/video job and is leased by a worker loop (in the API process or
+// a standalone worker process) so in-flight work survives restarts.
+export const jobQueue = pgTable("job_queue", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobType: text("job_type").notNull(), // 'image' | 'multi-image' | 'multi-image-generate' | 'video'
+  jobId: varchar("job_id").notNull(), // Row id in the matching *_processing_jobs table
+  messageId: varchar("message_id").references(() => messages.id).notNull(),
+  conversationId: varchar("conversation_id").references(() => conversations.id).notNull(),
+  payload: jsonb("payload").$type<Record<string, any>>().notNull().default({}),
+  status: text("status").notNull().default("queued"), // 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'retried'
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAfter: timestamp("run_after").defaultNow().notNull(),
+  leaseOwner: text("lease_owner"), // Worker id currently holding the job
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("IDX_job_queue_status_run_after").on(table.status, table.runAfter),
+  index("IDX_job_queue_job_id").on(table.jobId),
+]);
+
+// One row per model tried while running a processing job, in the order tried,
+// so the failover history survives alongside the final result.
+export const jobAttempts = pgTable("job_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobType: text("job_type").notNull(), // 'image' | 'multi-image' | 'multi-image-generate' | 'video'
+  jobId: varchar("job_id").notNull(), // Row id in the matching *_processing_jobs table
+  messageId: varchar("message_id").references(() => messages.id).notNull(),
+  queueAttempt: integer("queue_attempt").notNull().default(1), // Which queue run (retry) made this attempt
+  model: text("model").notNull(),
+  priority: integer("priority"), // Position in modelPriorities; null when the fallback model was used
+  status: text("status").notNull(), // 'success' | 'error' | 'skipped' (circuit breaker open)
+  latencyMs: integer("latency_ms").notNull(),
+  httpStatus: integer("http_status"), // Upstream HTTP status for failed requests, when known
+  errorMessage: text("error_message"),
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  totalTokens: integer("total_tokens"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_job_attempts_job_id").on(table.jobId),
+]);
+
+// Tokens and cost of every model call, for billing and usage analytics. Job calls
+// come from successful failover attempts; other calls (e.g. template enhancement)
+// are recorded where they are made.
+export const usageLedger = pgTable("usage_ledger", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "set null" }),
+  operation: text("operation").notNull(), // Job type ('image' | 'multi-image' | 'multi-image-generate' | 'video') or 'enhance-template'
+  jobId: varchar("job_id"), // Row id in the matching *_processing_jobs table
+  functionKey: varchar("function_key"), // Application function the call was made for, e.g. "image-enhancement"
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  totalTokens: integer("total_tokens").notNull().default(0),
+  cost: numeric("cost", { precision: 14, scale: 8 }), // USD; null when the model has no known pricing
+  costSource: text("cost_source").notNull().default("unknown"), // 'provider' (reported) | 'estimate' (list price) | 'catalog' (computed) | 'unknown'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_usage_ledger_created_at").on(table.createdAt),
+  index("IDX_usage_ledger_user_created_at").on(table.userId, table.createdAt),
+]);
+
+// Processing limits per role, with per-user overrides. On a role row a null limit means
+// unlimited; on a user row it means the role's limit applies.
+export const quotaLimits = pgTable("quota_limits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: text("scope").notNull(), // 'role' | 'user'
+  subject: varchar("subject").notNull(), // Role name or user id
+  dailyJobs: integer("daily_jobs"), // Jobs started per UTC day
+  concurrentJobs: integer("concurrent_jobs"), // Jobs queued or running at once
+  monthlySpend: numeric("monthly_spend", { precision: 12, scale: 4 }), // USD per UTC calendar month
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("UQ_quota_limits_scope_subject").on(table.scope, table.subject),
+]);
+
+// Purchasable plans. Monthly plans grant their credits at the start of every period;
+// one-time plans (credit packs) grant them once on payment.
+export const billingPlans = pgTable("billing_plans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  planKey: varchar("plan_key").notNull().unique(), // e.g. "free", "pro"
+  name: varchar("name").notNull(),
+  description: varchar("description"),
+  interval: text("interval").notNull().default("month"), // 'month' | 'one-time'
+  priceCents: integer("price_cents").notNull().default(0),
+  currency: varchar("currency").notNull().default("usd"),
+  credits: numeric("credits", { precision: 14, scale: 4 }).notNull().default("0"),
+  enabled: text("enabled").notNull().default("true"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A user's current plan and billing period
+export const billingAccounts = pgTable("billing_accounts", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  planKey: varchar("plan_key").notNull().default("free"),
+  periodStart: timestamp("period_start"), // Start of the period whose credits were granted
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Credit movements; a user's balance is the sum of amounts. Grants and purchases are
+// positive, per-call debits (priced from the usage ledger) negative.
+export const creditLedger = pgTable("credit_ledger", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  kind: text("kind").notNull(), // 'grant' | 'purchase' | 'debit' | 'adjustment'
+  amount: numeric("amount", { precision: 14, scale: 4 }).notNull(),
+  description: text("description").notNull(),
+  jobType: text("job_type"),
+  jobId: varchar("job_id"),
+  usageLedgerId: varchar("usage_ledger_id").references(() => usageLedger.id, { onDelete: "set null" }),
+  invoiceId: varchar("invoice_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_credit_ledger_user_created_at").on(table.userId, table.createdAt),
+]);
+
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  number: varchar("number").notNull().unique(), // e.g. "INV-20261019-4F2A9C"
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  planKey: varchar("plan_key").notNull(),
+  description: text("description").notNull(),
+  amountCents: integer("amount_cents").notNull(),
+  currency: varchar("currency").notNull().default("usd"),
+  credits: numeric("credits", { precision: 14, scale: 4 }).notNull(),
+  status: text("status").notNull().default("pending"), // 'pending' | 'paid' | 'failed'
+  provider: text("provider").notNull(), // Payment provider id, e.g. 'fake'
+  providerReference: varchar("provider_reference"), // The provider's checkout/payment id
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  paidAt: timestamp("paid_at"),
+}, (table) => [
+  index("IDX_invoices_provider_reference").on(table.providerReference),
+]);
+
+// Append-only record of admin configuration changes. Rows are never updated or
+// deleted; secret values are redacted before they are written.
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+  actorUsername: varchar("actor_username").notNull(), // Kept in case the user is deleted
+  action: varchar("action").notNull(), // e.g. "model_config.update", "prompt_template.delete"
+  targetType: varchar("target_type").notNull(), // e.g. "model_config", "prompt_template"
+  targetId: varchar("target_id"),
+  changes: jsonb("changes").$type<AuditChanges>().notNull().default({}), // Changed fields with before/after values
+  ipAddress: varchar("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_audit_log_created_at").on(table.createdAt),
+  index("IDX_audit_log_target").on(table.targetType, table.targetId),
+]);
+
+// Access policy of each stored object. S3 object metadata cannot change after
+// upload, so policies live here instead; objects without a row (or an upload-time
+// metadata policy) are private to the system until one is set.
+export const objectAclPolicies = pgTable("object_acl_policies", {
+  objectKey: varchar("object_key").primaryKey(), // S3 key of the object
+  owner: varchar("owner").notNull(), // User id, or 'system' for generated images
+  visibility: text("visibility").notNull().default("private"), // 'public' | 'private'
+  aclRules: jsonb("acl_rules").$type<ObjectAclRuleData[]>().notNull().default([]),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Named lists of users an owner shares objects with (USER_LIST access groups)
+export const userLists = pgTable("user_lists", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  name: varchar("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const userListMembers = pgTable("user_list_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  listId: varchar("list_id").references(() => userLists.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("UQ_user_list_members_list_user").on(table.listId, table.userId),
+  index("IDX_user_list_members_user").on(table.userId),
+]);
+
+// Links that let someone without an account open one saved image or job output. Only
+// a hash of the token is stored, so the link itself is shown once, when it is created.
+export const shareLinks = pgTable("share_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tokenHash: varchar("token_hash").notNull().unique(), // sha256 of the token in the URL
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  sourceType: text("source_type").notNull(), // 'saved_image' | 'message'
+  sourceId: varchar("source_id").notNull(),
+  title: varchar("title").notNull(),
+  objectUrl: text("object_url").notNull(), // What the link serves: an /objects/... path or a provider URL
+  passwordHash: varchar("password_hash"),
+  expiresAt: timestamp("expires_at").notNull(),
+  maxDownloads: integer("max_downloads"), // Null for no limit
+  downloadCount: integer("download_count").notNull().default(0),
+  revokedAt: timestamp("revoked_at"),
+  lastDownloadedAt: timestamp("last_downloaded_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_share_links_created_by").on(table.createdBy, table.createdAt),
+]);
+
+// Published read-only snapshots of conversations, one per conversation. The token in
+// the public URL is kept so the owner can copy the link again; unpublishing deletes the row.
+export const conversationShares = pgTable("conversation_shares", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "cascade" }).notNull().unique(),
+  token: varchar("token").notNull().unique(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  snapshot: jsonb("snapshot").$type<ConversationSnapshot>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(), // When the snapshot was last taken
+});
+
+// Brand guidelines of a workspace. Jobs started with a kit get its colours, fonts and
+// tone in their prompt; the editor offers its colours, fonts and logos as overlays.
+export const brandKits = pgTable("brand_kits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }).notNull(),
+  name: varchar("name").notNull(),
+  palette: jsonb("palette").$type<string[]>().notNull().default([]), // Hex colours (#RRGGBB), main colour first
+  fonts: jsonb("fonts").$type<string[]>().notNull().default([]), // Font family names, heading font first
+  toneKeywords: jsonb("tone_keywords").$type<string[]>().notNull().default([]),
+  logoAssets: jsonb("logo_assets").$type<BrandLogoAsset[]>().notNull().default([]),
+  watermarkPosition: text("watermark_position").notNull().default("bottom-right"), // Where the logo goes by default
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_brand_kits_workspace").on(table.workspaceId),
+]);
+
+// Marketplace-ready variants rendered from a saved image or job output, with the
+// compliance report of each. Kept so the exported files count as referenced.
+export const marketplaceExports = pgTable("marketplace_exports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  sourceType: text("source_type").notNull(), // 'saved_image' | 'message'
+  sourceId: varchar("source_id").notNull(),
+  preset: text("preset").notNull(), // Key of a preset in server/marketplaceExports.ts
+  objectPath: text("object_path").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  bytes: integer("bytes").notNull(),
+  report: jsonb("report").$type<MarketplaceRuleResult[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_marketplace_exports_source").on(table.userId, table.sourceType, table.sourceId),
+]);
+
+// One row per workspace. Rows without a workspace are the admin's configuration from
+// before workspaces existed; they remain the fallback for workspaces without their own.
 export const modelConfigurations = pgTable("model_configurations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").references(() => users.id).notNull().unique(),
+  userId: varchar("user_id").references(() => users.id).notNull(), // Last editor
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }).unique(),
   selectedModel: text("selected_model").notNull().default("google/gemini-2.5-flash-image"),
   // Multiple models with priority ordering for failover
   modelPriorities: jsonb("model_priorities").$type<{
     model: string;
     priority: number;
     enabled: boolean;
+    provider?: string; // Image provider registry id; inferred from the model when omitted
+    endpoint?: string; // Name of a providerEndpoints entry; OpenRouter when omitted
   }[]>().default([]),
+  // Named OpenAI-compatible endpoints (self-hosted gateways, local mocks)
+  providerEndpoints: jsonb("provider_endpoints").$type<ProviderEndpoint[]>().default([]),
   outputQuality: text("output_quality").notNull().default("high"), // 'standard' | 'high' | 'ultra'
   maxResolution: integer("max_resolution").notNull().default(2048),
   timeout: integer("timeout").notNull().default(120), // seconds
   apiKey: text("api_key"), // OpenRouter API key storage
-  openaiApiKey: text("openai_api_key"), // OpenAI API key for DALL-E 3
+  openaiApiKey: text("openai_api_key"), // OpenAI API key for the OpenAI Images provider
   // Separate model for prompt enhancement
   enhancementModel: text("enhancement_model").notNull().default("openai/gpt-4o-mini"),
   apiKeyConfigured: text("api_key_configured").notNull().default("false"),
   isGlobalDefault: text("is_global_default").notNull().default("false"), // Admin can set global defaults
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("UQ_model_configurations_user_without_workspace").on(table.userId).where(sql`${table.workspaceId} is null`),
+]);
+
+// Image generation outputs keyed by a hash of everything that determines them (input
+// image bytes, normalized prompt, models, output parameters). A 'pending' row marks a
+// generation in flight so identical submissions wait for it instead of calling again.
+export const generationCache = pgTable("generation_cache", {
+  cacheKey: varchar("cache_key").primaryKey(), // sha256 hex
+  jobType: text("job_type").notNull(), // 'image' | 'multi-image'
+  status: text("status").notNull().default("pending"), // 'pending' | 'ready'
+  ownerJobId: varchar("owner_job_id"), // Processing job producing the output
+  outputUrl: text("output_url"),
+  enhancementsApplied: text("enhancements_applied").array(),
+  modelUsed: text("model_used"),
+  hitCount: integer("hit_count").notNull().default(0),
+  lastHitAt: timestamp("last_hit_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// What each model can do, synced from the OpenRouter model catalog. Admin overrides
+// are kept apart from the synced values so a re-sync never discards them.
+export const modelCapabilities = pgTable("model_capabilities", {
+  modelId: varchar("model_id").primaryKey(), // e.g. "google/gemini-2.5-flash-image"
+  name: varchar("name"),
+  visionInput: text("vision_input").notNull().default("false"), // Accepts images
+  imageOutput: text("image_output").notNull().default("false"), // Returns images
+  videoOutput: text("video_output").notNull().default("false"), // Returns video
+  contextLength: integer("context_length"),
+  maxCompletionTokens: integer("max_completion_tokens"),
+  // USD per token (per image for imagePrice), as published in the catalog
+  promptPrice: text("prompt_price"),
+  completionPrice: text("completion_price"),
+  imagePrice: text("image_price"),
+  overrides: jsonb("overrides").$type<ModelCapabilityOverrides>().default({}),
+  syncedAt: timestamp("synced_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 // User library for saved images
 export const savedImages = pgTable("saved_images", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Who saved it
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
   title: varchar("title").notNull(),
   objectPath: varchar("object_path").notNull(), // S3 object path
   originalImagePath: varchar("original_image_path"), // Path to original uploaded image
@@ -166,6 +506,7 @@ export const promptTemplates = pgTable("prompt_templates", {
   description: varchar("description"),
   category: varchar("category").notNull().default("custom"),
   functionId: varchar("function_id").notNull().references(() => applicationFunctions.id),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }), // Null: shared by all workspaces
   template: text("template").notNull(),
   variables: text("variables").array().default([]), // Variables found in template like {variable}
   isSystem: text("is_system").notNull().default("false"), // System templates vs custom
@@ -180,10 +521,42 @@ export const promptTemplates = pgTable("prompt_templates", {
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  verifiedEmail: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertOrganizationSchema = createInsertSchema(organizations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertWorkspaceSchema = createInsertSchema(workspaces).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertWorkspaceMemberSchema = createInsertSchema(workspaceMembers).omit({
+  id: true,
+  createdAt: true,
+});
+
+// New workspace in one of the caller's organizations, or in a new organization
+export const createWorkspaceSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  organizationId: z.string().optional(),
+  organizationName: z.string().trim().min(1).max(80).optional(),
+});
+
+export const workspaceMemberRequestSchema = z.object({
+  username: z.string().min(1),
+  role: z.enum(['admin', 'member']).default('member'),
+});
+
+export const switchWorkspaceSchema = z.object({
+  workspaceId: z.string().min(1),
+});
+
 export const insertConversationSchema = createInsertSchema(conversations).omit({
   id: true,
   createdAt: true,
@@ -212,9 +585,202 @@ export const insertMultiImageProcessingJobSchema = createInsertSchema(multiImage
   completedAt: true,
 });
 
+export const insertQueuedJobSchema = createInsertSchema(jobQueue).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  completedAt: true,
+});
+
+export const insertJobAttemptSchema = createInsertSchema(jobAttempts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertUsageLedgerEntrySchema = createInsertSchema(usageLedger).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Limits an admin sets for a role or user; every limit must be given, null included
+export const quotaLimitsSchema = z.object({
+  dailyJobs: z.number().int().min(0).nullable(),
+  concurrentJobs: z.number().int().min(0).nullable(),
+  monthlySpend: z.number().min(0).nullable(),
+}).strict();
+
+export const usageAnalyticsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+// Query of the usage summary endpoints; dates are ISO strings, `to` is exclusive
+export const usageSummaryQuerySchema = z.object({
+  groupBy: z.enum(['day', 'user', 'model', 'function']).default('day'),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  userId: z.string().optional(), // Admin summary only
+});
+
+// Filters of the admin audit log; dates are ISO strings, `to` is exclusive
+export const auditLogQuerySchema = z.object({
+  action: z.string().optional(),
+  targetType: z.string().optional(),
+  actor: z.string().optional(), // Username
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const billingCheckoutSchema = z.object({
+  planKey: z.string().min(1),
+});
+
+// Admin credit correction; negative amounts remove credits
+export const creditAdjustmentSchema = z.object({
+  username: z.string().min(1),
+  amount: z.number().finite().refine(amount => amount !== 0, "Amount must not be zero"),
+  description: z.string().trim().min(1).max(200),
+});
+
+export const insertAuditLogEntrySchema = createInsertSchema(auditLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Who an object is shared with. The group id is a user list id (USER_LIST), an email
+// domain (EMAIL_DOMAIN, matching verified addresses only), a workspace id
+// (GROUP_MEMBER) or a billing plan key (SUBSCRIBER).
+export const objectAclRuleSchema = z.object({
+  group: z.object({
+    type: z.enum(['USER_LIST', 'EMAIL_DOMAIN', 'GROUP_MEMBER', 'SUBSCRIBER']),
+    id: z.string().trim().min(1),
+  }),
+  permission: z.enum(['read', 'write']),
+});
+
+export const objectAclPolicyUpdateSchema = z.object({
+  objectPath: z.string().startsWith('/objects/'),
+  visibility: z.enum(['public', 'private']),
+  aclRules: z.array(objectAclRuleSchema).max(50).default([]),
+});
+
+export const userListRequestSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  usernames: z.array(z.string().min(1)).max(500).default([]),
+});
+
+export const insertShareLinkSchema = createInsertSchema(shareLinks).omit({
+  id: true,
+  downloadCount: true,
+  revokedAt: true,
+  lastDownloadedAt: true,
+  createdAt: true,
+});
+
+// New share link for a saved image or a completed chat message's image or video
+export const createShareLinkSchema = z.object({
+  sourceType: z.enum(['saved_image', 'message']),
+  sourceId: z.string().min(1),
+  expiresInHours: z.number().int().min(1).max(24 * 90).default(72),
+  password: z.string().min(4).max(128).optional(),
+  maxDownloads: z.number().int().min(1).max(100000).optional(),
+});
+
+// Sizes and qualities a derivative can be rendered at. Each stored variant is kept,
+// so arbitrary values would let anyone fill storage; the sizes are the srcset
+// breakpoints the client asks for (client/src/lib/imageUrls.ts).
+export const imageDerivativeSizes = [96, 128, 256, 320, 384, 512, 640, 768, 1024, 1536, 2048] as const;
+export const imageDerivativeQualities = [50, 75, 90] as const;
+
+const derivativeSize = z.coerce.number().int().refine(
+  (size) => (imageDerivativeSizes as readonly number[]).includes(size),
+  { message: `Must be one of ${imageDerivativeSizes.join(', ')}` },
+);
+
+// Resized/re-encoded variant of a stored image (?w=&h=&fit=&format=&q= on the object routes)
+export const imageDerivativeQuerySchema = z.object({
+  w: derivativeSize.optional(),
+  h: derivativeSize.optional(),
+  fit: z.enum(['cover', 'contain', 'inside', 'outside', 'fill']).default('inside'),
+  format: z.enum(['webp', 'avif', 'jpeg', 'png']).default('webp'),
+  q: z.coerce.number().int().refine(
+    (quality) => (imageDerivativeQualities as readonly number[]).includes(quality),
+    { message: `Must be one of ${imageDerivativeQualities.join(', ')}` },
+  ).default(75),
+});
+
+// Admin-triggered garbage collection; a dry run only reports what would be removed
+export const garbageCollectionRequestSchema = z.object({
+  dryRun: z.boolean().default(true),
+  graceHours: z.number().min(1).max(24 * 365).optional(),
+});
+
+export const watermarkPositions = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'] as const;
+
+// Name, colours, fonts, tone and watermark position of a brand kit; logos are uploaded
+// separately
+export const brandKitRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+  palette: z.array(z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Colours must be hex values like #1A2B3C')).max(12).default([]),
+  fonts: z.array(z.string().min(1).max(64)).max(6).default([]),
+  toneKeywords: z.array(z.string().min(1).max(40)).max(20).default([]),
+  watermarkPosition: z.enum(watermarkPositions).default('bottom-right'),
+});
+
+// Render marketplace variants of a saved image or job output, one per preset
+export const marketplaceExportRequestSchema = z.object({
+  sourceType: z.enum(['saved_image', 'message']),
+  sourceId: z.string().min(1),
+  presets: z.array(z.enum(['amazon', 'shopify', 'etsy', 'ebay'])).min(1).max(4),
+});
+
+export const insertBillingPlanSchema = createInsertSchema(billingPlans).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCreditLedgerEntrySchema = createInsertSchema(creditLedger).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertInvoiceSchema = createInsertSchema(invoices).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertModelCapabilitySchema = createInsertSchema(modelCapabilities).omit({
+  overrides: true,
+  updatedAt: true,
+});
+
+// Admin corrections to synced capabilities; omitted fields follow the catalog
+export const modelCapabilityOverridesSchema = z.object({
+  visionInput: z.boolean().optional(),
+  imageOutput: z.boolean().optional(),
+  videoOutput: z.boolean().optional(),
+  maxCompletionTokens: z.number().int().positive().optional(),
+}).strict();
+
+// OpenAI-compatible endpoint that modelPriorities entries can reference by name
+export const providerEndpointSchema = z.object({
+  name: z.string().min(1).refine(name => name !== 'openrouter', { message: 'The name "openrouter" is reserved' }),
+  baseUrl: z.string().url(), // Including the API version path, e.g. https://gateway.example.com/v1
+  authStyle: z.enum(['bearer', 'x-api-key', 'api-key', 'none']), // Authorization: Bearer, x-api-key, api-key (Azure) or no auth
+  apiKey: z.string().optional(),
+  headers: z.record(z.string()).optional(), // Sent with every request to this endpoint
+});
+
 export const insertModelConfigurationSchema = createInsertSchema(modelConfigurations).omit({
   id: true,
   updatedAt: true,
+}).extend({
+  providerEndpoints: z.array(providerEndpointSchema)
+    .refine(endpoints => new Set(endpoints.map(e => e.name)).size === endpoints.length, {
+      message: "Provider endpoint names must be unique",
+    })
+    .optional(),
 });
 
 export const insertSavedImageSchema = createInsertSchema(savedImages).omit({
@@ -240,6 +806,29 @@ export type User = typeof users.$inferSelect;
 export type UpsertUser = typeof users.$inferInsert;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type InsertWorkspaceMember = z.infer<typeof insertWorkspaceMemberSchema>;
+export type WorkspaceRole = 'admin' | 'member';
+
+// A workspace as listed in the switcher. `role` is null for site admins who are not
+// members; `canManage` covers workspace admins, organization owners and site admins.
+export type WorkspaceSummary = Workspace & {
+  organizationName: string;
+  role: WorkspaceRole | null;
+  canManage: boolean;
+  canManageOrganization: boolean; // Can add workspaces to the organization
+};
+
+export type WorkspaceMemberWithUser = WorkspaceMember & {
+  username: string;
+  firstName: string | null;
+  lastName: string | null;
+};
+
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 
@@ -255,7 +844,223 @@ export type InsertVideoProcessingJob = z.infer<typeof insertVideoProcessingJobSc
 export type MultiImageProcessingJob = typeof multiImageProcessingJobs.$inferSelect;
 export type InsertMultiImageProcessingJob = typeof multiImageProcessingJobs.$inferInsert;
 
+export type QueuedJob = typeof jobQueue.$inferSelect;
+export type InsertQueuedJob = z.infer<typeof insertQueuedJobSchema>;
+export type QueuedJobType = 'image' | 'multi-image' | 'multi-image-generate' | 'video';
+
+export type JobAttempt = typeof jobAttempts.$inferSelect;
+export type InsertJobAttempt = z.infer<typeof insertJobAttemptSchema>;
+
+export type GenerationCacheEntry = typeof generationCache.$inferSelect;
+
+export type UsageLedgerEntry = typeof usageLedger.$inferSelect;
+export type InsertUsageLedgerEntry = z.infer<typeof insertUsageLedgerEntrySchema>;
+export type UsageGroupBy = z.infer<typeof usageSummaryQuerySchema>['groupBy'];
+
+// One group of an aggregated usage query; cost is a USD decimal string
+export type UsageSummaryRow = {
+  key: string | null;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: string;
+  unpricedRequests: number; // Calls whose cost is unknown and not included in cost
+};
+
+// Job statistics for the Usage tab. multi-image-generate jobs count as multi-image.
+export type UsageJobType = 'image' | 'multi-image' | 'video';
+
+export type UsageAnalytics = {
+  from: string; // First day included (YYYY-MM-DD, UTC)
+  jobsPerDay: ({ date: string } & Record<UsageJobType, number>)[];
+  jobTypes: {
+    jobType: UsageJobType;
+    total: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+    averageProcessingTime: number | null; // Seconds, over completed jobs
+  }[];
+  topTemplates: { templateId: string; name: string; uses: number }[];
+  spend: {
+    total: string; // USD
+    unpricedRequests: number;
+    perDay: { date: string; cost: number }[];
+  };
+};
+
+export type BillingPlan = typeof billingPlans.$inferSelect;
+export type InsertBillingPlan = z.infer<typeof insertBillingPlanSchema>;
+export type BillingAccount = typeof billingAccounts.$inferSelect;
+export type CreditLedgerEntry = typeof creditLedger.$inferSelect;
+export type InsertCreditLedgerEntry = z.infer<typeof insertCreditLedgerEntrySchema>;
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+
+// Field name -> value before and after the change; a created record has no `before`
+// and a deleted one no `after`
+export type AuditChanges = Record<string, { before?: unknown; after?: unknown }>;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogEntrySchema>;
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+
+export type ObjectAclRuleData = z.infer<typeof objectAclRuleSchema>;
+export type ObjectAclPolicyRow = typeof objectAclPolicies.$inferSelect;
+export type ObjectAclPolicyUpdate = z.infer<typeof objectAclPolicyUpdateSchema>;
+export type UserList = typeof userLists.$inferSelect;
+export type UserListMember = typeof userListMembers.$inferSelect;
+export type UserListRequest = z.infer<typeof userListRequestSchema>;
+
+// A user list with the usernames of its members
+export type UserListWithMembers = UserList & { usernames: string[] };
+
+export type ShareLink = typeof shareLinks.$inferSelect;
+export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
+export type CreateShareLinkRequest = z.infer<typeof createShareLinkSchema>;
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked' | 'exhausted';
+
+// A share link as listed to its creator; secrets are left out
+export type ShareLinkSummary = Omit<ShareLink, 'tokenHash' | 'passwordHash'> & {
+  hasPassword: boolean;
+  status: ShareLinkStatus;
+};
+
+// What a published conversation shows: prompts, replies and the before/after pair of
+// each image processing job, as they were when it was published
+export interface ConversationSnapshotMessage {
+  role: string;
+  content: string;
+  mediaType: string | null;
+  imageUrl: string | null;
+  videoUrl: string | null;
+  comparison: { originalImageUrl: string; processedImageUrl: string } | null;
+  createdAt: string;
+}
+
+export interface ConversationSnapshot {
+  title: string;
+  createdAt: string;
+  messages: ConversationSnapshotMessage[];
+}
+
+export type ConversationShare = typeof conversationShares.$inferSelect;
+
+// Publication state of a conversation as shown to its owner
+export interface ConversationShareStatus {
+  published: boolean;
+  path: string | null;
+  updatedAt: string | null;
+}
+
+export type ImageDerivativeOptions = z.infer<typeof imageDerivativeQuerySchema>;
+export type ImageDerivativeSize = typeof imageDerivativeSizes[number];
+export type ImageDerivativeQuality = typeof imageDerivativeQualities[number];
+export type GarbageCollectionRequest = z.infer<typeof garbageCollectionRequestSchema>;
+
+// What a garbage collection run found and (unless a dry run) removed
+export interface GarbageCollectionReport {
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  graceHours: number;
+  objects: {
+    scanned: number;
+    orphaned: number; // Unreferenced and older than the grace period
+    removed: number;
+    reclaimedBytes: number;
+    failed: number;
+    keys: string[]; // First orphaned keys, for review
+  };
+  temp: {
+    removed: number; // Files and frame directories older than the temp max age
+    reclaimedBytes: number;
+    paths: string[];
+  };
+}
+
+export type BrandKit = typeof brandKits.$inferSelect;
+export type BrandKitRequest = z.infer<typeof brandKitRequestSchema>;
+export type WatermarkPosition = typeof watermarkPositions[number];
+
+export interface BrandLogoAsset {
+  id: string;
+  name: string;
+  objectPath: string; // Public-read /objects/... path
+}
+
+export type MarketplaceExportRequest = z.infer<typeof marketplaceExportRequestSchema>;
+export type MarketplacePresetKey = MarketplaceExportRequest['presets'][number];
+
+// Outcome of one marketplace rule, measured on the rendered file
+export interface MarketplaceRuleResult {
+  rule: 'dimensions' | 'background' | 'productFill' | 'format' | 'colorSpace' | 'fileSize' | 'sourceResolution';
+  label: string;
+  passed: boolean;
+  expected: string;
+  actual: string;
+}
+
+// A preset as offered to the client
+export interface MarketplacePresetSummary {
+  key: MarketplacePresetKey;
+  name: string;
+  description: string;
+  width: number;
+  height: number;
+}
+
+export type MarketplaceExport = typeof marketplaceExports.$inferSelect;
+export type MarketplaceExportResult = MarketplaceExport & { passed: boolean };
+
+// Body of a 402 returned when a processing request finds no credits left
+export type InsufficientCreditsResponse = {
+  message: string;
+  code: 'insufficient_credits';
+  balance: string;
+};
+
+export type QuotaLimit = typeof quotaLimits.$inferSelect;
+export type QuotaLimits = z.infer<typeof quotaLimitsSchema>;
+export type QuotaName = keyof QuotaLimits;
+
+// Effective limits for a user, what they used and when each window resets
+export type QuotaStatus = {
+  role: string;
+  limits: QuotaLimits;
+  used: Record<QuotaName, number>;
+  resetsAt: { dailyJobs: string; monthlySpend: string };
+};
+
+// Body of a 429 returned when a processing request is over a quota
+export type QuotaExceededResponse = {
+  message: string;
+  code: 'quota_exceeded';
+  quota: QuotaName;
+  limit: number;
+  used: number;
+  resetAt: string | null; // Null for concurrentJobs: frees up when a job finishes
+};
+
+export type ModelCapability = typeof modelCapabilities.$inferSelect;
+export type InsertModelCapability = z.infer<typeof insertModelCapabilitySchema>;
+export type ModelCapabilityOverrides = z.infer<typeof modelCapabilityOverridesSchema>;
+
+// Capabilities with overrides applied, as used for routing and the model picker
+export type ResolvedModelCapabilities = {
+  modelId: string;
+  source: 'catalog' | 'builtin' | 'unknown';
+  visionInput: boolean;
+  imageOutput: boolean;
+  videoOutput: boolean;
+  contextLength: number | null;
+  maxCompletionTokens: number | null;
+  pricing: { prompt: string | null; completion: string | null; image: string | null };
+  overridden: (keyof ModelCapabilityOverrides)[];
+};
+
 export type ModelConfiguration = typeof modelConfigurations.$inferSelect;
+export type ProviderEndpoint = z.infer<typeof providerEndpointSchema>;
 export type InsertModelConfiguration = z.infer<typeof insertModelConfigurationSchema>;
 
 export type SavedImage = typeof savedImages.$inferSelect;
@@ -315,6 +1120,20 @@ export const multiImageProcessingJobsRelations = relations(multiImageProcessingJ
   }),
 }));
 
+export const jobQueueRelations = relations(jobQueue, ({ one }) => ({
+  message: one(messages, {
+    fields: [jobQueue.messageId],
+    references: [messages.id],
+  }),
+}));
+
+export const jobAttemptsRelations = relations(jobAttempts, ({ one }) => ({
+  message: one(messages, {
+    fields: [jobAttempts.messageId],
+    references: [messages.id],
+  }),
+}));
+
 export const modelConfigurationsRelations = relations(modelConfigurations, ({ one }) => ({
   user: one(users, {
     fields: [modelConfigurations.userId],